@@ -0,0 +1,95 @@
+import { Task } from './Task';
+
+/**
+ * Snapshot of a single task's dates when a baseline was captured
+ */
+export interface TaskBaseline {
+  /** Baseline start (ISO date string so baselines serialize as-is) */
+  startDate: string;
+  /** Baseline finish, exclusive like Task.getEndDate (ISO date string) */
+  finishDate: string;
+  /** Duration in business days */
+  duration: number;
+}
+
+/**
+ * A named snapshot of the whole schedule
+ */
+export interface Baseline {
+  id: string;
+  name: string;
+  /** When the baseline was captured (ISO date string) */
+  createdAt: string;
+  /** Task snapshots keyed by task ID */
+  tasks: Record<string, TaskBaseline>;
+}
+
+/**
+ * Difference between a task's current dates and its baseline, in work days
+ * of the task's calendar. Positive values mean the task has slipped.
+ */
+export interface BaselineVariance {
+  startVariance: number;
+  finishVariance: number;
+  durationVariance: number;
+}
+
+/**
+ * Capturing baselines and comparing tasks against them
+ */
+export class Baselines {
+  /**
+   * Capture the current start, finish and duration of every task
+   */
+  static capture(tasks: Task[], name: string, id: string): Baseline {
+    const snapshot: Record<string, TaskBaseline> = {};
+    tasks.forEach(task => {
+      snapshot[task.id] = {
+        startDate: new Date(task.startDate).toISOString(),
+        finishDate: task.getEndDate().toISOString(),
+        duration: task.duration
+      };
+    });
+
+    return { id, name, createdAt: new Date().toISOString(), tasks: snapshot };
+  }
+
+  /**
+   * Variance of a task against its baseline entry
+   */
+  static calculateVariance(task: Task, entry: TaskBaseline): BaselineVariance {
+    return {
+      startVariance: task.workDaysBetween(new Date(entry.startDate), task.startDate),
+      finishVariance: task.workDaysBetween(new Date(entry.finishDate), task.getEndDate()),
+      durationVariance: task.duration - entry.duration
+    };
+  }
+
+  /**
+   * Drop malformed baselines and task entries from saved data
+   */
+  static sanitize(baselines: any): Baseline[] {
+    if (!Array.isArray(baselines)) return [];
+
+    return baselines
+      .filter(baseline => baseline && baseline.id && baseline.tasks && typeof baseline.tasks === 'object')
+      .map(baseline => {
+        const tasks: Record<string, TaskBaseline> = {};
+        Object.entries(baseline.tasks).forEach(([taskId, entry]: [string, any]) => {
+          if (entry && entry.startDate && entry.finishDate && !isNaN(new Date(entry.startDate).getTime())) {
+            tasks[taskId] = {
+              startDate: entry.startDate,
+              finishDate: entry.finishDate,
+              duration: Number(entry.duration) || 0
+            };
+          }
+        });
+        return {
+          id: String(baseline.id),
+          name: baseline.name || 'Baseline',
+          createdAt: baseline.createdAt || new Date().toISOString(),
+          tasks
+        };
+      });
+  }
+}
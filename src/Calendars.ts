@@ -0,0 +1,282 @@
+/**
+ * A run of dates that deviates from a calendar's work week, e.g. a site
+ * shutdown week (non-working) or a Saturday pour (working)
+ */
+export interface CalendarException {
+  /** Display name of the exception */
+  name: string;
+  /** First date of the exception (YYYY-MM-DD) */
+  start: string;
+  /** Last date of the exception, inclusive (YYYY-MM-DD) */
+  end: string;
+  /** Whether the dates are worked (true) or taken off (false) */
+  working: boolean;
+}
+
+/**
+ * Represents a named work calendar
+ */
+export interface WorkCalendar {
+  /** Unique identifier for the calendar */
+  id: string;
+  /** Display name of the calendar */
+  name: string;
+  /** Work days indexed like Date.getDay(): [Sun, Mon, Tue, Wed, Thu, Fri, Sat] */
+  workWeek: boolean[];
+  /** Single non-working dates (YYYY-MM-DD) */
+  holidays: string[];
+  /** Date ranges that override the work week */
+  exceptions: CalendarException[];
+}
+
+/**
+ * Serializable calendar state stored with a project
+ */
+export interface CalendarState {
+  calendars: WorkCalendar[];
+  projectCalendarId: string;
+  swimlaneCalendars: Record<string, string>;
+}
+
+/**
+ * Centralized management of work calendars in DingPlan
+ *
+ * A task uses its own calendar if it has one, otherwise its swimlane's,
+ * otherwise the project calendar.
+ */
+export class Calendars {
+  static readonly STANDARD_ID = 'standard';
+
+  /** Mon–Fri work week with no holidays */
+  private static createStandardCalendar(): WorkCalendar {
+    return {
+      id: Calendars.STANDARD_ID,
+      name: 'Standard (Mon–Fri)',
+      workWeek: [false, true, true, true, true, true, false],
+      holidays: [],
+      exceptions: []
+    };
+  }
+
+  private static calendars: WorkCalendar[] = [Calendars.createStandardCalendar()];
+  private static projectCalendarId: string = Calendars.STANDARD_ID;
+  private static swimlaneCalendars: Map<string, string> = new Map();
+
+  /** Expanded holiday and exception dates per calendar, rebuilt lazily */
+  private static dayCache: WeakMap<WorkCalendar, { off: Set<string>; on: Set<string> }> = new WeakMap();
+
+  /**
+   * Get all calendars
+   */
+  public static getAllCalendars(): WorkCalendar[] {
+    return [...this.calendars];
+  }
+
+  /**
+   * Find a calendar by its ID
+   */
+  public static getCalendarById(id: string): WorkCalendar | undefined {
+    return this.calendars.find(calendar => calendar.id === id);
+  }
+
+  /**
+   * Add a calendar or replace the one with the same ID
+   */
+  public static saveCalendar(calendar: WorkCalendar): WorkCalendar {
+    const normalized = this.normalize(calendar);
+    const index = this.calendars.findIndex(c => c.id === normalized.id);
+    if (index >= 0) {
+      this.calendars[index] = normalized;
+    } else {
+      this.calendars.push(normalized);
+    }
+    return normalized;
+  }
+
+  /**
+   * Remove a calendar. Anything assigned to it falls back to the standard calendar.
+   */
+  public static removeCalendar(id: string): boolean {
+    if (id === this.STANDARD_ID) return false;
+
+    const before = this.calendars.length;
+    this.calendars = this.calendars.filter(calendar => calendar.id !== id);
+    if (this.projectCalendarId === id) {
+      this.projectCalendarId = this.STANDARD_ID;
+    }
+    this.swimlaneCalendars.forEach((calendarId, swimlaneId) => {
+      if (calendarId === id) this.swimlaneCalendars.delete(swimlaneId);
+    });
+    return this.calendars.length < before;
+  }
+
+  public static getProjectCalendar(): WorkCalendar {
+    return this.getCalendarById(this.projectCalendarId) || this.calendars[0];
+  }
+
+  public static setProjectCalendar(id: string): void {
+    if (this.getCalendarById(id)) {
+      this.projectCalendarId = id;
+    }
+  }
+
+  public static getSwimlaneCalendarId(swimlaneId: string): string | null {
+    return this.swimlaneCalendars.get(swimlaneId) || null;
+  }
+
+  /**
+   * Assign a calendar to a swimlane, or clear the assignment with null
+   */
+  public static setSwimlaneCalendar(swimlaneId: string, calendarId: string | null): void {
+    if (calendarId && this.getCalendarById(calendarId)) {
+      this.swimlaneCalendars.set(swimlaneId, calendarId);
+    } else {
+      this.swimlaneCalendars.delete(swimlaneId);
+    }
+  }
+
+  /**
+   * Calendar that applies to a task: task → swimlane → project
+   */
+  public static resolve(taskCalendarId?: string | null, swimlaneId?: string | null): WorkCalendar {
+    if (taskCalendarId) {
+      const calendar = this.getCalendarById(taskCalendarId);
+      if (calendar) return calendar;
+    }
+    if (swimlaneId) {
+      const swimlaneCalendarId = this.swimlaneCalendars.get(swimlaneId);
+      const calendar = swimlaneCalendarId ? this.getCalendarById(swimlaneCalendarId) : undefined;
+      if (calendar) return calendar;
+    }
+    return this.getProjectCalendar();
+  }
+
+  /**
+   * Whether a date is worked on a calendar. Holidays and non-working
+   * exceptions always win; workOnSaturday/workOnSunday add weekend days
+   * on top of the calendar's work week.
+   */
+  public static isWorkDay(calendar: WorkCalendar, date: Date, workOnSaturday: boolean = false, workOnSunday: boolean = false): boolean {
+    const days = this.getExpandedDays(calendar);
+    const key = this.formatDateKey(date);
+    if (days.off.has(key)) return false;
+    if (days.on.has(key)) return true;
+
+    const day = date.getDay();
+    if ((day === 6 && workOnSaturday) || (day === 0 && workOnSunday)) return true;
+    return calendar.workWeek[day];
+  }
+
+  /**
+   * Local date as YYYY-MM-DD
+   */
+  public static formatDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Parse a YYYY-MM-DD key as a local date
+   */
+  public static parseDateKey(key: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key.trim());
+    if (!match) return null;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  public static exportState(): CalendarState {
+    const swimlaneCalendars: Record<string, string> = {};
+    this.swimlaneCalendars.forEach((calendarId, swimlaneId) => {
+      swimlaneCalendars[swimlaneId] = calendarId;
+    });
+
+    return {
+      calendars: this.calendars.map(calendar => ({
+        ...calendar,
+        workWeek: [...calendar.workWeek],
+        holidays: [...calendar.holidays],
+        exceptions: calendar.exceptions.map(exception => ({ ...exception }))
+      })),
+      projectCalendarId: this.projectCalendarId,
+      swimlaneCalendars
+    };
+  }
+
+  /**
+   * Replace all calendars with saved state. Missing state resets to the standard calendar.
+   */
+  public static importState(state?: Partial<CalendarState> | null): void {
+    this.reset();
+    if (!state) return;
+
+    if (Array.isArray(state.calendars)) {
+      state.calendars.forEach(calendar => {
+        if (calendar && calendar.id) this.saveCalendar(calendar);
+      });
+    }
+    if (state.projectCalendarId) {
+      this.setProjectCalendar(state.projectCalendarId);
+    }
+    if (state.swimlaneCalendars) {
+      Object.entries(state.swimlaneCalendars).forEach(([swimlaneId, calendarId]) => {
+        this.setSwimlaneCalendar(swimlaneId, calendarId);
+      });
+    }
+  }
+
+  public static reset(): void {
+    this.calendars = [this.createStandardCalendar()];
+    this.projectCalendarId = this.STANDARD_ID;
+    this.swimlaneCalendars.clear();
+  }
+
+  /**
+   * Fill in missing fields and make sure the work week has at least one work
+   * day, otherwise business-day arithmetic would never terminate
+   */
+  private static normalize(calendar: WorkCalendar): WorkCalendar {
+    let workWeek = Array.isArray(calendar.workWeek) && calendar.workWeek.length === 7
+      ? calendar.workWeek.map(Boolean)
+      : this.createStandardCalendar().workWeek;
+    if (!workWeek.some(Boolean)) {
+      console.warn(`[Calendars] Calendar "${calendar.name}" has no work days, using Mon–Fri`);
+      workWeek = this.createStandardCalendar().workWeek;
+    }
+
+    return {
+      id: calendar.id,
+      name: calendar.name || 'Calendar',
+      workWeek,
+      holidays: (calendar.holidays || []).filter(key => !!this.parseDateKey(key)).sort(),
+      exceptions: (calendar.exceptions || [])
+        .filter(exception => this.parseDateKey(exception.start) && this.parseDateKey(exception.end || exception.start))
+        .map(exception => ({
+          name: exception.name || '',
+          start: exception.start,
+          end: exception.end || exception.start,
+          working: !!exception.working
+        }))
+    };
+  }
+
+  private static getExpandedDays(calendar: WorkCalendar): { off: Set<string>; on: Set<string> } {
+    let days = this.dayCache.get(calendar);
+    if (days) return days;
+
+    days = { off: new Set(calendar.holidays), on: new Set() };
+    calendar.exceptions.forEach(exception => {
+      const target = exception.working ? days!.on : days!.off;
+      const current = this.parseDateKey(exception.start);
+      const last = this.parseDateKey(exception.end);
+      if (!current || !last) return;
+      while (current <= last) {
+        target.add(this.formatDateKey(current));
+        current.setDate(current.getDate() + 1);
+      }
+    });
+
+    this.dayCache.set(calendar, days);
+    return days;
+  }
+}
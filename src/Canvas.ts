@@ -6,14 +6,19 @@ import { Sidebar } from './Sidebar';
 import { ResourceHistogram } from './ResourceHistogram';
 import { jsPDF } from 'jspdf';
 import { Trades, Trade } from './Trades';
-import { PdfExporter } from './PdfExporter';
+import { Calendars } from './Calendars';
+import { Baselines } from './Baselines';
+import { PdfExporter, PdfExportOptions, PdfLookaheadOptions } from './PdfExporter';
+import { ImageExporter, ImageExportOptions } from './ImageExporter';
+import { Wbs } from './Wbs';
+import { SharedProject } from './ShareLink';
 // import { XerExporter } from './XerExporter'; // Temporarily removed XER export
 import { generateUUID } from './utils';
 import { TouchManager } from './TouchManager';
 import { Logger } from './utils/logger';
 import { saveToLocalStorage, loadFromLocalStorage, hasSavedState } from './utils/localStorage';
 import { ProjectManager } from './components/ProjectManager';
-import { saveProject, loadProject, listProjects, deleteProject } from './services/projectService';
+import { saveProject, loadProject, listProjects, deleteProject, saveSharedProject, ShareSession, ProjectConflictError } from './services/projectService';
 
 export interface CanvasConfig {
   canvas: HTMLCanvasElement;
@@ -50,10 +55,17 @@ export class Canvas {
   resourceHistogram: ResourceHistogram;
   projectManager: ProjectManager;
   currentProjectId: string = 'default'; // Current project ID for unified state management
+  readOnly: boolean = false; // Viewing a shared schedule; nothing is saved over the current project
+  shareSession: ShareSession | null = null; // Cloud share link this tab opened, if any
+  private lastSharedSave: string | null = null; // Last revision saved through the share link
+  private resolvingConflict: boolean = false; // Asking what to do about a save conflict
 
   // Use the centralized trade definitions
   private readonly trades: Trade[] = Trades.getAllTrades();
 
+  // Screen bounds of the collapse toggles drawn in the swimlane label column
+  private swimlaneToggleBounds: { laneId: string; x: number; y: number; width: number; height: number }[] = [];
+
   // Add TouchManager property
   private touchManager: TouchManager | null = null;
   private touchSupportEnabled: boolean = true; // Feature flag for touch support
@@ -317,6 +329,19 @@ export class Canvas {
       return;
     }
 
+    // Expand or collapse a WBS node from its label
+    const toggle = this.swimlaneToggleBounds.find(b =>
+      x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height
+    );
+    if (toggle) {
+      const lane = this.taskManager.swimlanes.find(l => l.id === toggle.laneId);
+      if (lane) {
+        this.taskManager.setSwimlaneCollapsed(lane.id, !lane.collapsed);
+        this.render();
+      }
+      return;
+    }
+
     // Handle regular task clicking
     this.taskManager.handleMouseDown(e, this.canvas, this.camera, this.timeAxis);
     
@@ -479,8 +504,8 @@ export class Canvas {
 
   render() {
     Logger.log("Render method called", {
-      canvasWidth: this.canvas.width,
-      canvasHeight: this.canvas.height,
+      canvasWidth: this.ctx.canvas.width,
+      canvasHeight: this.ctx.canvas.height,
       cameraZoom: this.camera.zoom,
       cameraX: this.camera.x,
       cameraY: this.camera.y
@@ -489,7 +514,7 @@ export class Canvas {
     // Clear canvas
     this.ctx.setTransform(1, 0, 0, 1, 0, 0);
     this.ctx.fillStyle = '#ffffff';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
     Logger.log("Canvas cleared");
 
     // Draw fixed header background
@@ -497,7 +522,7 @@ export class Canvas {
     this.ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
     this.ctx.shadowBlur = 4;
     this.ctx.shadowOffsetY = 2;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.timeAxis.getHeaderHeight());
+    this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.timeAxis.getHeaderHeight());
     this.ctx.shadowColor = 'transparent';
     Logger.log("Header drawn");
 
@@ -507,20 +532,23 @@ export class Canvas {
       0,
       0,
       this.camera.zoom,
-      -this.camera.x * this.camera.zoom + this.canvas.width / 2,
-      -this.camera.y * this.camera.zoom + this.canvas.height / 2 + this.timeAxis.getHeaderHeight()
+      -this.camera.x * this.camera.zoom + this.ctx.canvas.width / 2,
+      -this.camera.y * this.camera.zoom + this.ctx.canvas.height / 2 + this.timeAxis.getHeaderHeight()
     );
 
     // Calculate visible time range
     const dayWidth = 50;
-    const visibleStartX = this.camera.x - (this.canvas.width / 2 / this.camera.zoom);
-    const visibleEndX = this.camera.x + (this.canvas.width / 2 / this.camera.zoom);
+    const visibleStartX = this.camera.x - (this.ctx.canvas.width / 2 / this.camera.zoom);
+    const visibleEndX = this.camera.x + (this.ctx.canvas.width / 2 / this.camera.zoom);
     const startX = Math.floor(visibleStartX / dayWidth) * dayWidth;
     const endX = Math.ceil(visibleEndX / dayWidth) * dayWidth;
 
     // Draw swimlanes first
     const totalHeight = this.taskManager.getTotalHeight();
     this.taskManager.swimlanes.forEach(lane => {
+      // Lanes under a collapsed WBS node take no space
+      if (lane.height === 0) return;
+      
       // Draw swimlane background with opacity based on zoom
       const bgOpacity = Math.min(0.08, 0.08 * (this.camera.zoom));
       this.ctx.fillStyle = `${lane.color}${Math.floor(bgOpacity * 255).toString(16).padStart(2, '0')}`;
@@ -575,13 +603,14 @@ export class Canvas {
       }
 
       this.ctx.beginPath();
-      this.ctx.moveTo(x, -this.canvas.height);
-      this.ctx.lineTo(x, this.taskManager.getTotalHeight() + this.canvas.height);
+      this.ctx.moveTo(x, -this.ctx.canvas.height);
+      this.ctx.lineTo(x, this.taskManager.getTotalHeight() + this.ctx.canvas.height);
       this.ctx.stroke();
     }
 
     // Draw horizontal swimlane borders
     this.taskManager.swimlanes.forEach(lane => {
+      if (lane.height === 0) return;
       const borderOpacity = Math.min(0.2, 0.2 * (this.camera.zoom));
       this.ctx.strokeStyle = `rgba(200, 200, 200, ${borderOpacity})`;
       this.ctx.beginPath();
@@ -596,8 +625,8 @@ export class Canvas {
       x: this.camera.x,
       y: this.camera.y,
       zoom: this.camera.zoom,
-      width: this.canvas.width,
-      height: this.canvas.height
+      width: this.ctx.canvas.width,
+      height: this.ctx.canvas.height
     });
     
     // Draw swimlane labels with fixed positioning
@@ -609,8 +638,8 @@ export class Canvas {
       0,
       0,
       this.camera.zoom,
-      -this.camera.x * this.camera.zoom + this.canvas.width / 2,
-      -this.camera.y * this.camera.zoom + this.canvas.height / 2 + this.timeAxis.getHeaderHeight()
+      -this.camera.x * this.camera.zoom + this.ctx.canvas.width / 2,
+      -this.camera.y * this.camera.zoom + this.ctx.canvas.height / 2 + this.timeAxis.getHeaderHeight()
     );
 
     // Draw tasks
@@ -623,7 +652,7 @@ export class Canvas {
     this.resourceHistogram.calculateResources(this.taskManager.getAllTasks());
     
     // Draw resource histogram at bottom of screen
-    this.resourceHistogram.draw(this.ctx, this.camera, this.canvas.height);
+    this.resourceHistogram.draw(this.ctx, this.camera, this.ctx.canvas.height);
 
     // Draw fixed elements
     this.drawFixedElements();
@@ -636,17 +665,24 @@ export class Canvas {
     
     // Set a consistent left padding for swimlane labels
     const labelLeftPadding = 16; // Pixels from left edge
+    const indentWidth = 16; // Pixels per WBS level
+    const toggleWidth = 16;
+    
+    this.swimlaneToggleBounds = [];
     
     // We'll draw the labels directly over the swimlane headers, but in screen coordinates
     this.taskManager.swimlanes.forEach(lane => {
+      // Lanes under a collapsed WBS node have no label
+      if (lane.height === 0) return;
+      
       // Calculate screen Y position for this swimlane
       const screenY = (lane.y - this.camera.y) * this.camera.zoom + 
-                      this.canvas.height / 2 + 
+                      this.ctx.canvas.height / 2 + 
                       this.timeAxis.getHeaderHeight();
       
       // Only draw if swimlane is visible on screen (header area)
       if (screenY >= this.timeAxis.getHeaderHeight() && 
-          screenY <= this.canvas.height && 
+          screenY <= this.ctx.canvas.height && 
           screenY + 40 >= this.timeAxis.getHeaderHeight()) {
         
         // Set font first for proper text measurement
@@ -654,14 +690,42 @@ export class Canvas {
         this.ctx.textAlign = 'left';
         this.ctx.textBaseline = 'middle';
         
+        // Nested WBS nodes are indented, and nodes that can collapse get a toggle
+        const swimlanes = this.taskManager.swimlanes;
+        const left = labelLeftPadding + Wbs.getDepth(swimlanes, lane) * indentWidth;
+        const isSummary = Wbs.hasChildren(swimlanes, lane.id);
+        const canCollapse = isSummary || lane.tasks.length > 0;
+        const textLeft = left + (canCollapse ? toggleWidth : 0);
+        
+        // Summary nodes show their rolled-up progress and cost after the name
+        const rollup = isSummary || lane.collapsed ? Wbs.rollup(swimlanes, lane.id) : null;
+        const meta = rollup
+          ? [`${rollup.progress}%`, rollup.cost > 0 ? `$${Math.round(rollup.cost).toLocaleString()}` : ''].filter(Boolean).join(' · ')
+          : '';
+        
         // Draw semi-transparent background for better readability
         this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
         const textWidth = this.ctx.measureText(lane.name).width;
-        this.ctx.fillRect(labelLeftPadding - 4, screenY + 10, textWidth + 8, 24);
+        this.ctx.font = '12px Inter, system-ui, -apple-system, sans-serif';
+        const metaWidth = meta ? this.ctx.measureText(meta).width + 8 : 0;
+        this.ctx.fillRect(left - 4, screenY + 10, textLeft - left + textWidth + metaWidth + 8, 24);
+        
+        if (canCollapse) {
+          this.ctx.fillStyle = '#6b7280';
+          this.ctx.fillText(lane.collapsed ? '▸' : '▾', left, screenY + 22);
+          this.swimlaneToggleBounds.push({ laneId: lane.id, x: left - 4, y: screenY + 10, width: toggleWidth, height: 24 });
+        }
         
         // Draw label text with better styling
+        this.ctx.font = 'bold 15px Inter, system-ui, -apple-system, sans-serif';
         this.ctx.fillStyle = '#1f2937';
-        this.ctx.fillText(lane.name, labelLeftPadding, screenY + 22);
+        this.ctx.fillText(lane.name, textLeft, screenY + 22);
+        
+        if (meta) {
+          this.ctx.font = '12px Inter, system-ui, -apple-system, sans-serif';
+          this.ctx.fillStyle = '#6b7280';
+          this.ctx.fillText(meta, textLeft + textWidth + 8, screenY + 22);
+        }
       }
     });
   }
@@ -675,7 +739,7 @@ export class Canvas {
     this.ctx.lineWidth = 1;
     this.ctx.beginPath();
     this.ctx.moveTo(0, this.timeAxis.getHeaderHeight());
-    this.ctx.lineTo(this.canvas.width, this.timeAxis.getHeaderHeight());
+    this.ctx.lineTo(this.ctx.canvas.width, this.timeAxis.getHeaderHeight());
     this.ctx.stroke();
   }
 
@@ -1051,6 +1115,7 @@ export class Canvas {
       
       if (taskConfig) {
         this.addTask(taskConfig);
+        this.taskManager.history.commit('Add task');
 
         // Animate close
         dialog.style.transform = 'translateY(10px)';
@@ -1069,6 +1134,7 @@ export class Canvas {
       
       if (taskConfig) {
         this.addTask(taskConfig);
+        this.taskManager.history.commit('Add task');
         
         // Reset name field only and keep other settings
         const nameInput = dialog.querySelector('#taskName') as HTMLInputElement;
@@ -1387,6 +1453,7 @@ export class Canvas {
       const color = colors[this.taskManager.swimlanes.length % colors.length];
       
       this.taskManager.addSwimlane(id, name, color);
+      this.taskManager.history.commit('Add swimlane');
       
       // Refresh dialog
       this.showSwimlaneDialog();
@@ -1417,18 +1484,99 @@ export class Canvas {
     }, 10);
   }
 
-  exportToPDF() {
+  exportToPDF(options: Partial<PdfExportOptions> = {}, projectName: string = 'DingPlan Schedule') {
     console.log('exportToPDF method called'); // Debug log
     
     try {
-      const exporter = new PdfExporter();
-      exporter.exportProject(this.taskManager, 'DingPlan Schedule');
+      const exporter = new PdfExporter(options);
+      exporter.exportProject(this.taskManager, projectName);
     } catch (error) {
       console.error('PDF export failed:', error);
       alert('PDF export failed. Please try again.');
     }
   }
 
+  exportLookaheadPDF(lookahead: PdfLookaheadOptions, options: Partial<PdfExportOptions> = {}, projectName: string = 'DingPlan Schedule') {
+    try {
+      const exporter = new PdfExporter(options);
+      exporter.exportLookahead(this.taskManager, projectName, lookahead);
+    } catch (error) {
+      console.error('Lookahead PDF export failed:', error);
+      alert('PDF export failed. Please try again.');
+    }
+  }
+
+  /**
+   * Download an SVG or PNG drawn by render, of the visible view or the
+   * whole project
+   */
+  async exportImage(options: ImageExportOptions, projectName: string = 'DingPlan Schedule') {
+    try {
+      const view = options.area === 'project'
+        ? this.getProjectView(options.width)
+        : { x: this.camera.x, y: this.camera.y, zoom: this.camera.zoom, width: options.width, height: options.height };
+      const exporter = new ImageExporter(options);
+      await exporter.export(view.width, view.height, ctx => this.renderView(ctx, view), projectName);
+    } catch (error) {
+      console.error('Image export failed:', error);
+      alert(`Image export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A view that fits every task into the given width beside the swimlane
+   * labels, with the height to show every swimlane and the histogram. The
+   * zoom stays within the range the wheel allows, which can widen the view.
+   */
+  private getProjectView(width: number): { x: number; y: number; zoom: number; width: number; height: number } {
+    const labelWidth = 280;
+    const padding = 40;
+    const tasks = this.taskManager.getAllTasks();
+    const left = tasks.length > 0
+      ? Math.min(...tasks.map(task => this.timeAxis.dateToWorld(task.startDate)))
+      : this.camera.x;
+    const right = tasks.length > 0
+      ? Math.max(...tasks.map(task => this.timeAxis.dateToWorld(task.getEndDate())))
+      : this.camera.x + 50;
+
+    const zoom = Math.min(4, Math.max(0.2, (width - labelWidth - padding) / Math.max(right - left, 50)));
+    const viewWidth = Math.max(width, Math.ceil((right - left) * zoom + labelWidth + padding));
+    const viewHeight = Math.ceil(
+      this.timeAxis.getHeaderHeight() + this.taskManager.getTotalHeight() * zoom + this.resourceHistogram.getHeight() + padding
+    );
+
+    // Put the first task just right of the labels and the first swimlane under the header
+    return {
+      x: left - (labelWidth - viewWidth / 2) / zoom,
+      y: viewHeight / (2 * zoom),
+      zoom,
+      width: viewWidth,
+      height: viewHeight
+    };
+  }
+
+  /**
+   * Run render against another context and camera, then restore the screen
+   */
+  private renderView(ctx: CanvasRenderingContext2D, view: { x: number; y: number; zoom: number }) {
+    const screenCtx = this.ctx;
+    const { x, y, zoom } = this.camera;
+    try {
+      this.ctx = ctx;
+      this.camera.x = view.x;
+      this.camera.y = view.y;
+      this.camera.zoom = view.zoom;
+      this.render();
+    } finally {
+      this.ctx = screenCtx;
+      this.camera.x = x;
+      this.camera.y = y;
+      this.camera.zoom = zoom;
+      // Also puts back the swimlane toggle bounds for the screen
+      this.render();
+    }
+  }
+
   private hexToRGB(hex: string): [number, number, number] {
     const r = parseInt(hex.slice(1, 3), 16);
     const g = parseInt(hex.slice(3, 5), 16);
@@ -1477,11 +1625,26 @@ export class Canvas {
             crewSize: taskData.crewSize || 1,
             color: taskData.color || '#3B82F6',
             tradeId: taskData.tradeId || taskData.trade || '',
-            dependencies: taskData.dependencies || []
+            dependencies: taskData.dependencies || [],
+            dependencyLinks: taskData.dependencyLinks || {},
+            milestoneType: taskData.milestoneType || null,
+            constraintType: taskData.constraintType || null,
+            constraintDate: taskData.constraintDate || null,
+            progress: taskData.progress || 0,
+            status: taskData.status || 'not-started',
+            actualStart: taskData.actualStart || null,
+            actualFinish: taskData.actualFinish || null,
+            remainingDuration: taskData.remainingDuration ?? null,
+            xerTaskId: taskData.xerTaskId || undefined,
+            tags: taskData.tags || [],
+            priority: taskData.priority || 'medium',
+            notes: taskData.notes || '',
+            customFields: taskData.customFields || {}
           });
         });
         console.log(`Loaded ${data.tasks.length} tasks from JSON`);
       }
+      this.taskManager.history.commit('Load JSON');
     } catch (err) {
       console.error('Error parsing or loading JSON:', err);
       throw err;
@@ -1539,6 +1702,7 @@ export class Canvas {
    * @deprecated Use saveCurrentProject() for unified project management
    */
   saveToLocalStorage(): void {
+    if (this.readOnly) return;
     try {
       // First verify all dependencies to ensure we're saving clean data
       const verificationResult = this.taskManager.verifyAllDependencies();
@@ -1827,16 +1991,21 @@ export class Canvas {
       
       // Try projectService first (new format: dingplan_project_<id>)
       const project = await loadProject(projectId);
+      // A shared schedule opened while the project was loading stays on screen
+      if (this.readOnly) return;
       if (project && project.tasks && project.tasks.length > 0) {
         console.log(`Loaded ${project.tasks.length} tasks from projectService`);
         this.taskManager.importState({
           tasks: project.tasks,
           swimlanes: project.swimlanes || [],
-          settings: project.settings
+          settings: project.settings,
+          baselines: project.baselines,
+          activeBaselineId: project.activeBaselineId
         });
         if (project.name) {
           localStorage.setItem('dingplan-project-name', project.name);
         }
+        this.taskManager.history.reset();
         this.render();
         return;
       }
@@ -1846,6 +2015,7 @@ export class Canvas {
       if (oldState) {
         console.log(`Loaded from old localStorage format, migrating...`);
         this.taskManager.importState(oldState);
+        this.taskManager.history.reset();
         this.render();
         // Migrate to new format
         await this.saveCurrentProject();
@@ -1853,6 +2023,7 @@ export class Canvas {
       }
       
       console.log('No saved project found');
+      this.taskManager.history.reset();
     } catch (error) {
       console.error('Error loading project:', error);
       // Try old format as last resort
@@ -1864,7 +2035,17 @@ export class Canvas {
     }
   }
 
-  async saveCurrentProject(): Promise<void> {
+  /**
+   * Save the open project. If it was changed elsewhere since it was opened,
+   * e.g. through a share link, ask whether to load those changes or save over them.
+   * @param overwrite Save over changes made elsewhere without asking
+   */
+  async saveCurrentProject(overwrite: boolean = false): Promise<void> {
+    if (this.readOnly) {
+      // Edits through a share link with the edit role go back to the owner's project
+      if (this.shareSession?.role === 'edit') await this.saveSharedRevision();
+      return;
+    }
     try {
       const projectId = this.currentProjectId || 'default';
       const state = this.taskManager.exportState();
@@ -1876,22 +2057,118 @@ export class Canvas {
         name: projectName,
         tasks: state.tasks,
         swimlanes: state.swimlanes,
-        settings: { startDate: this.startDate.toISOString() }
-      });
+        settings: {
+          startDate: this.startDate.toISOString(), calendars: state.calendars, trades: state.trades, dataDate: state.dataDate,
+          scheduleMode: state.scheduleMode, pullSuccessors: state.pullSuccessors
+        },
+        baselines: state.baselines,
+        activeBaselineId: state.activeBaselineId
+      }, overwrite);
       
       console.log(`Successfully saved project ${projectId}: ${projectName}`);
     } catch (error) {
+      if (error instanceof ProjectConflictError) {
+        await this.resolveSaveConflict();
+        return;
+      }
       console.error('Error saving current project:', error);
     }
   }
 
+  /**
+   * Someone saved the open project since this tab loaded it. Autosave stops
+   * until the user picks whose changes to keep.
+   */
+  private async resolveSaveConflict(): Promise<void> {
+    if (this.resolvingConflict) return;
+    this.resolvingConflict = true;
+    try {
+      if (confirm('This project was changed elsewhere, e.g. through a share link, since you opened it.\n\nOK loads the latest version; your changes since then are discarded.\nCancel keeps your version and saves over the other changes.')) {
+        await this.loadProjectById(this.currentProjectId, false);
+      } else {
+        await this.saveCurrentProject(true);
+      }
+    } finally {
+      this.resolvingConflict = false;
+    }
+  }
+
+  /**
+   * Show a schedule from a share link without saving it over the user's own
+   * project, which stays in storage untouched. Only cloud shares with the
+   * edit role can be edited, and their edits are saved to the share.
+   */
+  enterViewerMode(project: SharedProject, share: ShareSession | null = null): void {
+    this.readOnly = true;
+    this.shareSession = share;
+    this.taskManager.readOnly = share?.role !== 'edit';
+    this.taskManager.importState(project.state);
+    this.taskManager.history.reset();
+    // Nothing to save until the schedule changes
+    this.lastSharedSave = share ? this.getSharedRevision() : null;
+
+    // Start the view at the first task
+    const tasks = this.taskManager.getAllTasks();
+    if (tasks.length > 0) {
+      const firstX = Math.min(...tasks.map(task => this.timeAxis.dateToWorld(task.startDate)));
+      this.camera.x = firstX + (this.canvas.width / (3 * this.camera.zoom));
+      this.camera.y = 200;
+    }
+
+    this.sidebar.enterViewerMode(project, share);
+    this.render();
+    console.log(`Viewing shared project: ${project.name} with ${tasks.length} tasks`);
+  }
+
+  /**
+   * Save the schedule to the cloud share this tab opened, when it changed
+   */
+  private async saveSharedRevision(): Promise<void> {
+    const share = this.shareSession!;
+    try {
+      const revision = this.getSharedRevision();
+      if (revision === this.lastSharedSave) return;
+
+      // The database keeps the owner's project ID and name
+      share.revision = await saveSharedProject(share.token, share.password, { id: '', name: '', ...JSON.parse(revision) }, share.revision);
+      this.lastSharedSave = revision;
+      console.log(`Saved shared project through share link ${share.token}`);
+    } catch (error) {
+      if (error instanceof ProjectConflictError) {
+        // Don't ask again until there are new edits
+        this.lastSharedSave = this.getSharedRevision();
+        if (confirm('Someone changed this schedule since you opened the link, so your latest edits were not saved.\n\nReload the link to get their changes? Your unsaved edits are lost.')) {
+          window.location.reload();
+        }
+        return;
+      }
+      console.error('Error saving shared project:', error);
+    }
+  }
+
+  /**
+   * The schedule as saved through a share link, as JSON. The database merges
+   * these settings into the project's, keeping the owner's start date.
+   */
+  private getSharedRevision(): string {
+    const state = this.taskManager.exportState();
+    return JSON.stringify({
+      tasks: state.tasks,
+      swimlanes: state.swimlanes,
+      settings: { calendars: state.calendars, trades: state.trades, dataDate: state.dataDate },
+      baselines: state.baselines,
+      activeBaselineId: state.activeBaselineId
+    });
+  }
+
   /**
    * Load a project by ID. Clears canvas and loads new data.
+   * @param saveCurrent Save the open project first; false discards its unsaved changes
    */
-  async loadProjectById(id: string): Promise<boolean> {
+  async loadProjectById(id: string, saveCurrent: boolean = true): Promise<boolean> {
     try {
       // Save current project first
-      await this.saveCurrentProject();
+      if (saveCurrent) await this.saveCurrentProject();
       
       const project = await loadProject(id);
       if (!project) {
@@ -1901,11 +2178,13 @@ export class Canvas {
       
       // Clear current state
       this.taskManager.clearAll();
+      Calendars.importState(project.settings?.calendars);
+      Trades.importState(project.settings?.trades);
       
       // Load swimlanes
       if (project.swimlanes) {
         project.swimlanes.forEach((sl: any) => {
-          this.taskManager.addSwimlane(sl.id || sl.name, sl.name, sl.color || '#3B82F6');
+          this.taskManager.addSwimlane(sl.id || sl.name, sl.name, sl.color || '#3B82F6', sl.parentId);
         });
       }
       
@@ -1916,13 +2195,25 @@ export class Canvas {
             this.taskManager.addTask({
               ...taskData,
               startDate: new Date(taskData.startDate)
-            });
+            }, taskData.swimlaneId);
           } catch(e) { 
             console.error('Error loading task:', e); 
           }
         });
       }
       
+      // Restore baselines
+      this.taskManager.baselines = Baselines.sanitize(project.baselines);
+      this.taskManager.activeBaselineId = this.taskManager.baselines.some(b => b.id === project.activeBaselineId)
+        ? project.activeBaselineId || null
+        : null;
+      this.taskManager.dataDate = project.settings?.dataDate ? new Date(project.settings.dataDate) : null;
+      this.taskManager.scheduleMode = project.settings?.scheduleMode === 'auto' ? 'auto' : 'manual';
+      this.taskManager.pullSuccessors = Boolean(project.settings?.pullSuccessors);
+      
+      // Undo history belongs to the previous project
+      this.taskManager.history.reset();
+      
       // Update current project tracking
       this.currentProjectId = id;
       localStorage.setItem('currentProjectId', id);
@@ -1955,10 +2246,12 @@ export class Canvas {
       // Add default or provided swimlanes
       if (swimlanes) {
         swimlanes.forEach((sl: any) => {
-          this.taskManager.addSwimlane(sl.id, sl.name, sl.color);
+          this.taskManager.addSwimlane(sl.id, sl.name, sl.color, sl.parentId);
         });
       }
       
+      this.taskManager.history.reset();
+      
       // Generate new project ID
       const id = crypto.randomUUID();
       this.currentProjectId = id;
@@ -0,0 +1,359 @@
+import { Task, DependencyLink } from './Task';
+
+/**
+ * Schedule dates and float computed for a single task
+ */
+export interface TaskScheduleResult {
+  taskId: string;
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  /** Work days the task can slip without delaying the project finish */
+  totalFloat: number;
+  /** Work days the task can slip without delaying any successor */
+  freeFloat: number;
+  isCritical: boolean;
+  /** Logic conflicts with the task's constraint: predecessors push an MSO task late, or an FNLT date is missed */
+  constraintViolated: boolean;
+}
+
+/**
+ * Result of a full critical path calculation
+ */
+export interface CriticalPathResult {
+  results: Map<string, TaskScheduleResult>;
+  projectStart: Date | null;
+  projectFinish: Date | null;
+  /** IDs of zero-float tasks, in topological order */
+  criticalTaskIds: string[];
+  /** IDs of tasks caught in dependency loops; these are left unscheduled */
+  cyclicTaskIds: string[];
+  /** Links that determine their successor's early start, keyed by CriticalPath.linkKey */
+  drivingLinks: Set<string>;
+  /** IDs of tasks whose constraint conflicts with the schedule logic */
+  constraintViolationIds: string[];
+}
+
+/**
+ * CriticalPath implements the Critical Path Method over a set of tasks
+ *
+ * Dates follow the same business-day arithmetic as Task.getEndDate, so an
+ * early finish is the first work day after the task's last day of work and
+ * a finish-to-start successor can start on that same date.
+ *
+ * - Forward pass: tasks without predecessors start at their current start
+ *   date, every other task starts at the latest date its links allow
+ * - Backward pass: tasks without successors finish at the project finish
+ * - Links can be FS, SS, FF or SF with a lag in work days of the successor's
+ *   calendar (negative lag is a lead)
+ * - SNET constraints delay the early start, MSO pins it, and FNLT / MSO
+ *   constraints cap the late finish, which can produce negative float
+ * - Float is measured in work days of each task's own calendar
+ * - With a data date, finished tasks sit on their actual dates, started tasks
+ *   finish their remaining duration after the data date and nothing else
+ *   starts before it. Finished tasks are never critical.
+ *
+ * The class has no DOM dependencies so it can run headless.
+ */
+export class CriticalPath {
+  private taskMap: Map<string, Task> = new Map();
+  private successors: Map<string, Task[]> = new Map();
+
+  constructor(private tasks: Task[], private dataDate: Date | null = null) {
+    tasks.forEach(task => {
+      this.taskMap.set(task.id, task);
+      this.successors.set(task.id, []);
+    });
+
+    tasks.forEach(task => {
+      this.getPredecessors(task).forEach(pred => {
+        this.successors.get(pred.id)!.push(task);
+      });
+    });
+  }
+
+  /**
+   * Run the forward and backward passes and compute float for every task
+   */
+  public calculate(): CriticalPathResult {
+    const { order, cyclicTaskIds } = this.topologicalSort();
+    const results = new Map<string, TaskScheduleResult>();
+    const drivingLinks = new Set<string>();
+
+    if (cyclicTaskIds.length > 0) {
+      console.warn(`[CriticalPath] ${cyclicTaskIds.length} tasks are part of a dependency loop and were not scheduled`);
+    }
+
+    if (order.length === 0) {
+      return { results, projectStart: null, projectFinish: null, criticalTaskIds: [], cyclicTaskIds, drivingLinks, constraintViolationIds: [] };
+    }
+
+    // Forward pass
+    order.forEach(task => {
+      const { earlyStart, earlyFinish } = this.calculateEarlyDates(task, results);
+
+      results.set(task.id, {
+        taskId: task.id,
+        earlyStart,
+        earlyFinish,
+        lateStart: earlyStart,
+        lateFinish: earlyFinish,
+        totalFloat: 0,
+        freeFloat: 0,
+        isCritical: false,
+        constraintViolated: this.isConstraintViolated(task, earlyFinish, results)
+      });
+    });
+
+    let projectStart = results.get(order[0].id)!.earlyStart;
+    let projectFinish = results.get(order[0].id)!.earlyFinish;
+    results.forEach(result => {
+      if (result.earlyStart < projectStart) projectStart = result.earlyStart;
+      if (result.earlyFinish > projectFinish) projectFinish = result.earlyFinish;
+    });
+
+    // Backward pass
+    for (let i = order.length - 1; i >= 0; i--) {
+      const task = order[i];
+      const result = results.get(task.id)!;
+      const successors = this.getScheduledSuccessors(task, results);
+
+      let lateFinish = new Date(projectFinish);
+      successors.forEach(succ => {
+        const linkLateFinish = this.calculateLinkLateFinish(task, succ, results);
+        if (linkLateFinish < lateFinish) {
+          lateFinish = linkLateFinish;
+        }
+      });
+
+      const constraintFinish = task.getConstraintFinish();
+      if (constraintFinish && constraintFinish < lateFinish) {
+        lateFinish = constraintFinish;
+      }
+
+      result.lateFinish = lateFinish;
+      result.lateStart = task.subtractWorkDays(lateFinish, task.workDaysBetween(result.earlyStart, result.earlyFinish));
+    }
+
+    // Float
+    const criticalTaskIds: string[] = [];
+    order.forEach(task => {
+      const result = results.get(task.id)!;
+      result.totalFloat = task.workDaysBetween(result.earlyStart, result.lateStart);
+      result.freeFloat = this.calculateFreeFloat(task, results, projectFinish);
+      result.isCritical = result.totalFloat <= 0 && !this.isFinished(task);
+
+      if (result.isCritical) {
+        criticalTaskIds.push(task.id);
+      }
+    });
+
+    // Driving links: predecessors whose link sets the successor's early start
+    order.forEach(task => {
+      const earlyStart = results.get(task.id)!.earlyStart;
+      this.getPredecessors(task).forEach(pred => {
+        if (!results.has(pred.id)) return;
+        const linkStart = this.calculateLinkEarlyStart(pred, task, results);
+        if (task.workDaysBetween(linkStart, earlyStart) <= 0) {
+          drivingLinks.add(CriticalPath.linkKey(pred.id, task.id));
+        }
+      });
+    });
+
+    const constraintViolationIds = order
+      .filter(task => results.get(task.id)!.constraintViolated)
+      .map(task => task.id);
+
+    return { results, projectStart, projectFinish, criticalTaskIds, cyclicTaskIds, drivingLinks, constraintViolationIds };
+  }
+
+  /**
+   * Key used to identify a predecessor → successor link in drivingLinks
+   */
+  static linkKey(predecessorId: string, successorId: string): string {
+    return `${predecessorId}->${successorId}`;
+  }
+
+  /**
+   * Predecessors of a task that exist in the task set
+   */
+  private getPredecessors(task: Task): Task[] {
+    if (!Array.isArray(task.dependencies)) return [];
+
+    return task.dependencies
+      .map(depId => this.taskMap.get(depId))
+      .filter((pred): pred is Task => !!pred && pred !== task);
+  }
+
+  private getScheduledSuccessors(task: Task, results: Map<string, TaskScheduleResult>): Task[] {
+    return (this.successors.get(task.id) || []).filter(succ => results.has(succ.id));
+  }
+
+  /**
+   * Order tasks so every predecessor comes before its successors (Kahn's algorithm).
+   * Tasks that never reach zero in-degree are part of a cycle.
+   */
+  private topologicalSort(): { order: Task[]; cyclicTaskIds: string[] } {
+    const inDegree = new Map<string, number>();
+    this.tasks.forEach(task => inDegree.set(task.id, this.getPredecessors(task).length));
+
+    const queue = this.tasks.filter(task => inDegree.get(task.id) === 0);
+    const order: Task[] = [];
+
+    while (queue.length > 0) {
+      const task = queue.shift()!;
+      order.push(task);
+
+      (this.successors.get(task.id) || []).forEach(succ => {
+        const remaining = inDegree.get(succ.id)! - 1;
+        inDegree.set(succ.id, remaining);
+        if (remaining === 0) {
+          queue.push(succ);
+        }
+      });
+    }
+
+    const cyclicTaskIds = this.tasks
+      .filter(task => inDegree.get(task.id)! > 0)
+      .map(task => task.id);
+
+    return { order, cyclicTaskIds };
+  }
+
+  /**
+   * Early dates for a task, honoring actuals when a data date is set
+   */
+  private calculateEarlyDates(task: Task, results: Map<string, TaskScheduleResult>): { earlyStart: Date; earlyFinish: Date } {
+    if (this.dataDate && task.actualStart) {
+      const earlyStart = new Date(task.actualStart);
+      const actualEnd = task.getActualEnd();
+      if (actualEnd) {
+        return { earlyStart, earlyFinish: actualEnd };
+      }
+      const resume = CriticalPath.nextWorkDay(new Date(Math.max(this.dataDate.getTime(), earlyStart.getTime())), task);
+      return { earlyStart, earlyFinish: task.addWorkDays(resume, task.getRemainingDuration()) };
+    }
+
+    const earlyStart = this.calculateEarlyStart(task, results);
+    return { earlyStart, earlyFinish: task.addWorkDays(earlyStart, task.duration) };
+  }
+
+  private isFinished(task: Task): boolean {
+    return !!this.dataDate && !!task.actualFinish;
+  }
+
+  private calculateEarlyStart(task: Task, results: Map<string, TaskScheduleResult>): Date {
+    let earlyStart: Date | null = null;
+
+    this.getPredecessors(task).forEach(pred => {
+      if (!results.has(pred.id)) return;
+      const linkStart = this.calculateLinkEarlyStart(pred, task, results);
+      if (!earlyStart || linkStart > earlyStart) {
+        earlyStart = linkStart;
+      }
+    });
+
+    let start: Date = earlyStart || CriticalPath.nextWorkDay(new Date(task.startDate), task);
+    if (this.dataDate && start < this.dataDate) {
+      start = CriticalPath.nextWorkDay(this.dataDate, task);
+    }
+    const constraintStart = task.getConstraintStart();
+    if (constraintStart && (task.constraintType === 'MSO' || constraintStart > start)) {
+      return constraintStart;
+    }
+    return start;
+  }
+
+  /**
+   * Whether logic pushes an MSO task past its date or a task past its finish constraint
+   */
+  private isConstraintViolated(task: Task, earlyFinish: Date, results: Map<string, TaskScheduleResult>): boolean {
+    const constraintFinish = task.getConstraintFinish();
+    if (constraintFinish && earlyFinish > constraintFinish) return true;
+
+    if (task.constraintType === 'MSO') {
+      const constraintStart = task.getConstraintStart()!;
+      return this.getPredecessors(task).some(pred =>
+        results.has(pred.id) && this.calculateLinkEarlyStart(pred, task, results) > constraintStart
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Earliest start a single predecessor link allows for its successor
+   */
+  private calculateLinkEarlyStart(pred: Task, succ: Task, results: Map<string, TaskScheduleResult>): Date {
+    const predResult = results.get(pred.id)!;
+    return CriticalPath.linkEarlyStart(pred, predResult.earlyStart, predResult.earlyFinish, succ);
+  }
+
+  /**
+   * Earliest start the link from pred to succ allows when pred runs from
+   * predStart to predFinish (exclusive, like Task.getEndDate)
+   */
+  static linkEarlyStart(pred: Task, predStart: Date, predFinish: Date, succ: Task): Date {
+    const link = succ.getDependencyLink(pred.id);
+    let start = succ.addWorkDays(CriticalPath.isFromStart(link) ? predStart : predFinish, link.lag);
+
+    if (CriticalPath.isToFinish(link)) {
+      start = succ.subtractWorkDays(start, succ.duration);
+    }
+
+    // A predecessor on a different calendar can finish on one of this task's days off
+    return CriticalPath.nextWorkDay(start, succ);
+  }
+
+  /**
+   * Latest finish a single successor link allows for its predecessor
+   */
+  private calculateLinkLateFinish(pred: Task, succ: Task, results: Map<string, TaskScheduleResult>): Date {
+    const succResult = results.get(succ.id)!;
+    const link = succ.getDependencyLink(pred.id);
+    const anchor = CriticalPath.isToFinish(link) ? succResult.lateFinish : succResult.lateStart;
+    let finish = succ.addWorkDays(anchor, -link.lag);
+
+    if (CriticalPath.isFromStart(link)) {
+      finish = pred.addWorkDays(finish, pred.duration);
+    }
+
+    return finish;
+  }
+
+  /** SS and SF links are driven by the predecessor's start */
+  private static isFromStart(link: DependencyLink): boolean {
+    return link.type === 'SS' || link.type === 'SF';
+  }
+
+  /** FF and SF links constrain the successor's finish */
+  private static isToFinish(link: DependencyLink): boolean {
+    return link.type === 'FF' || link.type === 'SF';
+  }
+
+  private static nextWorkDay(date: Date, task: Task): Date {
+    const result = new Date(date);
+    while (task.isNonWorkingDay(result)) {
+      result.setDate(result.getDate() + 1);
+    }
+    return result;
+  }
+
+  private calculateFreeFloat(task: Task, results: Map<string, TaskScheduleResult>, projectFinish: Date): number {
+    const result = results.get(task.id)!;
+    const successors = this.getScheduledSuccessors(task, results);
+
+    if (successors.length === 0) {
+      return task.workDaysBetween(result.earlyFinish, projectFinish);
+    }
+
+    let freeFloat = Infinity;
+    successors.forEach(succ => {
+      const linkStart = this.calculateLinkEarlyStart(task, succ, results);
+      const gap = succ.workDaysBetween(linkStart, results.get(succ.id)!.earlyStart);
+      freeFloat = Math.min(freeFloat, gap);
+    });
+
+    return Math.max(0, freeFloat);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * A recorded edit: the schedule as it was before the edit
+ */
+interface HistoryEntry {
+  /** Short description of the edit, e.g. "Move task" */
+  label: string;
+  /** Serialized schedule state */
+  state: string;
+}
+
+/**
+ * Undo/redo history for schedule edits
+ *
+ * History is snapshot based: after every edit the caller calls commit(),
+ * which compares the serialized schedule with the last recorded one and
+ * pushes the previous snapshot onto the undo stack if anything changed.
+ * Edits that change nothing (a click without a drag, an unchanged form)
+ * therefore never create empty undo steps.
+ */
+export class HistoryManager {
+  static readonly DEFAULT_LIMIT = 100;
+
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private lastSnapshot: string | null = null;
+  private isRestoring = false;
+
+  /** Called when the recorded schedule changes: a new undo step, an undo or redo, or a reset */
+  onChange: (() => void) | null = null;
+
+  constructor(
+    private serialize: () => string,
+    private restore: (state: string) => void,
+    private limit: number = HistoryManager.DEFAULT_LIMIT
+  ) {}
+
+  /**
+   * Record an edit if the schedule changed since the last commit
+   * @returns Whether an undo step was added
+   */
+  commit(label: string): boolean {
+    if (this.isRestoring) return false;
+
+    const snapshot = this.serialize();
+    if (this.lastSnapshot === null) {
+      this.lastSnapshot = snapshot;
+      return false;
+    }
+    if (snapshot === this.lastSnapshot) return false;
+
+    this.undoStack.push({ label, state: this.lastSnapshot });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+    this.lastSnapshot = snapshot;
+    this.onChange?.();
+    return true;
+  }
+
+  /**
+   * Revert the most recent edit
+   * @returns The label of the undone edit, or null if there was nothing to undo
+   */
+  undo(): string | null {
+    // Pick up edits that were made without a commit so they can be redone
+    this.commit('Edit');
+
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push({ label: entry.label, state: this.lastSnapshot! });
+    this.apply(entry.state);
+    return entry.label;
+  }
+
+  /**
+   * Re-apply the most recently undone edit
+   * @returns The label of the redone edit, or null if there was nothing to redo
+   */
+  redo(): string | null {
+    // A new edit since the last undo invalidates the redo stack
+    this.commit('Edit');
+
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push({ label: entry.label, state: this.lastSnapshot! });
+    this.apply(entry.state);
+    return entry.label;
+  }
+
+  /**
+   * Forget all history and start recording from the current schedule.
+   * Call after loading a project so undo never crosses project boundaries.
+   */
+  reset(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastSnapshot = this.serialize();
+    this.onChange?.();
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label || null;
+  }
+
+  getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label || null;
+  }
+
+  /**
+   * Change the maximum number of undo steps, dropping the oldest if needed
+   */
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    if (this.redoStack.length > this.limit) {
+      this.redoStack.splice(0, this.redoStack.length - this.limit);
+    }
+  }
+
+  private apply(state: string): void {
+    this.isRestoring = true;
+    try {
+      this.restore(state);
+    } finally {
+      this.isRestoring = false;
+    }
+    this.lastSnapshot = this.serialize();
+    this.onChange?.();
+  }
+}
@@ -0,0 +1,196 @@
+import { Task, MILESTONE_LABELS } from './Task';
+import { TaskManager } from './TaskManager';
+import { Wbs } from './Wbs';
+
+/**
+ * Which tasks go into a calendar export
+ */
+export interface IcsExportOptions {
+  /** Calendar name shown by calendar apps */
+  calendarName: string;
+  /** Only tasks of this trade; every trade when absent */
+  tradeId?: string;
+  /** Only tasks in this swimlane and the swimlanes under it; every swimlane when absent */
+  swimlaneId?: string;
+}
+
+/**
+ * IcsExporter handles exporting tasks to an iCalendar (.ics) file, for
+ * foremen to load their work into phone calendars
+ *
+ * - Each task is an all-day event from its start to its exclusive end date
+ * - Milestones are one-day events on their milestone date, marked with a
+ *   diamond and the Milestone category
+ * - Event UIDs come from task IDs, so importing a newer export updates the
+ *   events instead of adding copies
+ */
+export class IcsExporter {
+  private readonly stamp: string;
+  // Calendars only replace an event with a higher sequence, so each export counts up
+  private readonly sequence: number;
+
+  constructor(exportDate: Date = new Date()) {
+    this.stamp = this.formatDateTime(exportDate);
+    this.sequence = Math.floor(exportDate.getTime() / 1000);
+  }
+
+  /**
+   * Export the chosen tasks as the text of an .ics file
+   */
+  public exportTasks(taskManager: TaskManager, options: IcsExportOptions): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//DingPlan//Construction Schedule//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(options.calendarName)}`
+    ];
+
+    const laneNames = new Map<Task, string>();
+    taskManager.swimlanes.forEach(lane => lane.tasks.forEach(task => laneNames.set(task, lane.name)));
+
+    this.getTasks(taskManager, options).forEach(task => {
+      lines.push(...this.createEvent(task, laneNames.get(task) || ''));
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Tasks matching the trade and swimlane filters, in start order
+   */
+  public getTasks(taskManager: TaskManager, options: Omit<IcsExportOptions, 'calendarName'>): Task[] {
+    let tasks = taskManager.getAllTasks();
+
+    if (options.tradeId) {
+      tasks = tasks.filter(task => (task.tradeId || task.getTrade()?.id) === options.tradeId);
+    }
+
+    if (options.swimlaneId) {
+      const lanes = taskManager.swimlanes;
+      const laneIds = new Set([options.swimlaneId, ...Wbs.getDescendants(lanes, options.swimlaneId).map(lane => lane.id)]);
+      const laneTasks = new Set(lanes.filter(lane => laneIds.has(lane.id)).flatMap(lane => lane.tasks));
+      tasks = tasks.filter(task => laneTasks.has(task));
+    }
+
+    return [...tasks].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  /**
+   * Download the .ics file
+   */
+  public downloadIcs(filename: string, icsContent: string): void {
+    const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+    document.body.appendChild(a);
+    a.click();
+
+    // Cleanup
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  /**
+   * VEVENT lines for a task
+   */
+  private createEvent(task: Task, swimlaneName: string): string[] {
+    const tradeName = task.getTradeName();
+    const start = task.isMilestone ? task.getMilestoneDate() : task.startDate;
+    const end = task.isMilestone ? this.addDays(start, 1) : task.getEndDate();
+
+    const details = [
+      task.isMilestone ? MILESTONE_LABELS[task.milestoneType!] : `${task.duration} work days`,
+      tradeName ? `Trade: ${tradeName}` : '',
+      swimlaneName ? `Area: ${swimlaneName}` : '',
+      !task.isMilestone && task.crewSize ? `Crew: ${task.crewSize}` : '',
+      task.notes || ''
+    ].filter(Boolean);
+
+    const categories = [task.isMilestone ? 'Milestone' : '', tradeName].filter(Boolean);
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${task.id}@dingplan`,
+      `DTSTAMP:${this.stamp}`,
+      `SEQUENCE:${this.sequence}`,
+      `DTSTART;VALUE=DATE:${this.formatDate(start)}`,
+      `DTEND;VALUE=DATE:${this.formatDate(end)}`,
+      `SUMMARY:${this.escapeText(task.isMilestone ? `◆ ${task.name}` : task.name)}`,
+      `DESCRIPTION:${this.escapeText(details.join('\n'))}`,
+      // Milestones do not block time
+      `TRANSP:${task.isMilestone ? 'TRANSPARENT' : 'OPAQUE'}`
+    ];
+    if (categories.length > 0) {
+      lines.push(`CATEGORIES:${categories.map(name => this.escapeText(name)).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  /**
+   * Format a date as YYYYMMDD
+   */
+  private formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}${month}${day}`;
+  }
+
+  /**
+   * Format a time in UTC as YYYYMMDDTHHMMSSZ
+   */
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Escape backslashes, separators and line breaks in a text value
+   */
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a line longer than 75 bytes onto continuation lines starting with
+   * a space, without splitting a character
+   */
+  private foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+      const bytes = encoder.encode(char).length;
+      // Continuation lines lose a byte to their leading space
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + bytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+  }
+}
@@ -0,0 +1,146 @@
+import { SvgContext } from './SvgContext';
+
+/**
+ * Settings for an image export
+ */
+export interface ImageExportOptions {
+  format: 'svg' | 'png';
+  /** The view as it is on screen, or every task in the project */
+  area: 'view' | 'project';
+  /** Image size in CSS pixels; for the whole project the height follows from the width */
+  width: number;
+  height: number;
+  /** PNG resolution; 96 is one image pixel per CSS pixel */
+  dpi: number;
+}
+
+// Largest canvas browsers reliably allocate
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+/**
+ * ImageExporter turns a drawing of the schedule into an SVG or PNG download.
+ * The drawing is made by a callback against a 2D context sized in CSS
+ * pixels, so Canvas.render can draw exports the same way it draws the screen:
+ * - SVG records the drawing through SvgContext
+ * - PNG draws on an offscreen canvas scaled up for the DPI, and records the
+ *   DPI in the file so documents place it at the intended size
+ */
+export class ImageExporter {
+  private options: ImageExportOptions;
+
+  constructor(options: ImageExportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Draw the image and download it
+   * @param fileName Name without extension
+   */
+  async export(width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void, fileName: string): Promise<void> {
+    width = Math.round(width);
+    height = Math.round(height);
+    const blob = this.options.format === 'svg'
+      ? this.renderSvg(width, height, draw)
+      : await this.renderPng(width, height, draw);
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/[^a-zA-Z0-9-_]/g, '_')}.${this.options.format}`;
+    document.body.appendChild(a);
+    a.click();
+
+    // Cleanup
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  private renderSvg(width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void): Blob {
+    const svg = new SvgContext(width, height);
+    draw(svg as unknown as CanvasRenderingContext2D);
+    return new Blob([svg.toSvg()], { type: 'image/svg+xml' });
+  }
+
+  private async renderPng(width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void): Promise<Blob> {
+    const scale = this.options.dpi / 96;
+    const pixelWidth = Math.round(width * scale);
+    const pixelHeight = Math.round(height * scale);
+    if (pixelWidth > MAX_CANVAS_SIDE || pixelHeight > MAX_CANVAS_SIDE || pixelWidth * pixelHeight > MAX_CANVAS_AREA) {
+      throw new Error(`${pixelWidth} × ${pixelHeight} pixels is larger than the browser can draw. Lower the DPI or the size.`);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    draw(this.createScaledContext(canvas, width, height, scale));
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The browser could not create the PNG');
+    return ImageExporter.setPngDpi(blob, this.options.dpi);
+  }
+
+  /**
+   * A context for a canvas scale times the size, that draws as if it were
+   * the size: transforms and shadows are scaled up and the canvas reports
+   * the unscaled size
+   */
+  private createScaledContext(canvas: HTMLCanvasElement, width: number, height: number, scale: number): CanvasRenderingContext2D {
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    const size = { width, height };
+
+    return new Proxy(ctx, {
+      get(target, property) {
+        if (property === 'canvas') return size;
+        if (property === 'setTransform') {
+          return (a: number, b: number, c: number, d: number, e: number, f: number) =>
+            target.setTransform(a * scale, b * scale, c * scale, d * scale, e * scale, f * scale);
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+      set(target, property, value) {
+        // Shadow sizes are in canvas pixels, outside the transform
+        if (property === 'shadowBlur' || property === 'shadowOffsetX' || property === 'shadowOffsetY') {
+          value = value * scale;
+        }
+        return Reflect.set(target, property, value);
+      }
+    });
+  }
+
+  /**
+   * Add a pHYs chunk recording the DPI after the PNG header chunk
+   */
+  static async setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    // 8 byte signature, then the IHDR chunk: length, type, 13 bytes of data and CRC
+    const headerEnd = 8 + 4 + 4 + 13 + 4;
+
+    const chunk = new Uint8Array(4 + 4 + 9 + 4);
+    const view = new DataView(chunk.buffer);
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMetre);
+    view.setUint32(12, pixelsPerMetre);
+    chunk[16] = 1; // Unit is the metre
+    view.setUint32(17, ImageExporter.crc32(chunk.subarray(4, 17)));
+
+    return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: 'image/png' });
+  }
+
+  private static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc ^= byte;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+      }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -0,0 +1,393 @@
+import { Task } from './Task';
+import { TaskManager } from './TaskManager';
+import { Trade } from './Trades';
+import { Calendars, WorkCalendar } from './Calendars';
+import { Wbs } from './Wbs';
+
+/**
+ * MspdiExporter handles exporting project data to Microsoft Project XML (MSPDI)
+ *
+ * The file opens in MS Project through File > Open:
+ * - Swimlanes become summary tasks, nested by OutlineLevel as in the WBS tree
+ * - Tasks sit under the summary task of their swimlane
+ * - Trades used by tasks become work resources, assigned with the crew size as units
+ * - Calendars are written as base calendars with their exceptions
+ *
+ * Work days are 8 hours, 08:00–17:00 with an hour's lunch break.
+ */
+export class MspdiExporter {
+  private static readonly MINUTES_PER_DAY = 480;
+  /** PredecessorLink Type values by DingPlan relationship type */
+  private static readonly LINK_TYPES: Record<string, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+  /** ConstraintType values by DingPlan constraint */
+  private static readonly CONSTRAINT_TYPES: Record<string, number> = { MSO: 2, SNET: 4, FNLT: 7 };
+  /** LagFormat for lags in work days */
+  private static readonly LAG_FORMAT_DAYS = 7;
+
+  private lines: string[] = [];
+  private calendarUids: Map<string, number> = new Map(); // DingPlan calendar key → MSPDI calendar UID
+  private calendars: WorkCalendar[] = [];
+  private taskUids: Map<string, number> = new Map(); // DingPlan task ID → MSPDI task UID
+  private resourceUids: Map<string, number> = new Map(); // Trade ID → MSPDI resource UID
+
+  /**
+   * Export project data from TaskManager to MSPDI format
+   */
+  public exportProject(taskManager: TaskManager, projectName: string = 'Construction Project'): string {
+    this.lines = [];
+    this.calendarUids.clear();
+    this.calendars = [];
+    this.taskUids.clear();
+    this.resourceUids.clear();
+
+    // Only tasks in a swimlane have a place in the outline
+    const tasks = taskManager.swimlanes.flatMap(lane => lane.tasks);
+    const projectStart = tasks.length > 0
+      ? new Date(Math.min(...tasks.map(task => task.startDate.getTime())))
+      : new Date();
+
+    // Register calendars first so tasks can refer to variants made for weekend work
+    Calendars.getAllCalendars().forEach(calendar => this.getCalendarUid(calendar));
+    const projectCalendarUid = this.getCalendarUid(Calendars.getProjectCalendar());
+    tasks.forEach(task => this.getTaskCalendarUid(task));
+
+    this.lines.push('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>');
+    this.lines.push('<Project xmlns="http://schemas.microsoft.com/project">');
+    this.addElement(1, 'Name', `${projectName}.xml`);
+    this.addElement(1, 'Title', projectName);
+    this.addElement(1, 'ScheduleFromStart', 1);
+    this.addElement(1, 'StartDate', this.formatDateTime(projectStart, 8));
+    if (taskManager.dataDate) {
+      this.addElement(1, 'StatusDate', this.formatDateTime(taskManager.dataDate, 17));
+    }
+    this.addElement(1, 'CalendarUID', projectCalendarUid);
+    this.addElement(1, 'MinutesPerDay', MspdiExporter.MINUTES_PER_DAY);
+    this.addElement(1, 'MinutesPerWeek', MspdiExporter.MINUTES_PER_DAY * 5);
+    this.addElement(1, 'DaysPerMonth', 20);
+    this.addElement(1, 'DurationFormat', 7);
+
+    this.addCalendars();
+    this.addTasks(taskManager, tasks, projectName);
+    this.addResources(tasks);
+    this.addAssignments(tasks);
+
+    this.lines.push('</Project>');
+    return this.lines.join('\n');
+  }
+
+  /**
+   * Add every calendar as a base calendar
+   */
+  private addCalendars(): void {
+    this.lines.push('  <Calendars>');
+    this.calendars.forEach(calendar => {
+      this.lines.push('    <Calendar>');
+      this.addElement(3, 'UID', this.calendarUids.get(this.getCalendarKey(calendar)));
+      this.addElement(3, 'Name', calendar.name);
+      this.addElement(3, 'IsBaseCalendar', 1);
+      this.addElement(3, 'BaseCalendarUID', -1);
+
+      this.lines.push('      <WeekDays>');
+      calendar.workWeek.forEach((working, index) => {
+        this.lines.push('        <WeekDay>');
+        this.addElement(5, 'DayType', index + 1);
+        this.addElement(5, 'DayWorking', working ? 1 : 0);
+        if (working) this.addWorkingTimes(5);
+        this.lines.push('        </WeekDay>');
+      });
+      this.lines.push('      </WeekDays>');
+
+      const exceptions = [
+        ...calendar.holidays.map(key => ({ name: 'Holiday', start: key, end: key, working: false })),
+        ...calendar.exceptions
+      ];
+      if (exceptions.length > 0) {
+        this.lines.push('      <Exceptions>');
+        exceptions.forEach(exception => {
+          const start = Calendars.parseDateKey(exception.start);
+          const end = Calendars.parseDateKey(exception.end);
+          if (!start || !end) return;
+          this.lines.push('        <Exception>');
+          this.lines.push('          <TimePeriod>');
+          this.addElement(6, 'FromDate', this.formatDateTime(start, 0));
+          this.addElement(6, 'ToDate', `${Calendars.formatDateKey(end)}T23:59:00`);
+          this.lines.push('          </TimePeriod>');
+          this.addElement(5, 'Occurrences', 1);
+          this.addElement(5, 'Name', exception.name);
+          this.addElement(5, 'Type', 1);
+          this.addElement(5, 'DayWorking', exception.working ? 1 : 0);
+          if (exception.working) this.addWorkingTimes(5);
+          this.lines.push('        </Exception>');
+        });
+        this.lines.push('      </Exceptions>');
+      }
+      this.lines.push('    </Calendar>');
+    });
+    this.lines.push('  </Calendars>');
+  }
+
+  private addWorkingTimes(depth: number): void {
+    const indent = '  '.repeat(depth);
+    this.lines.push(`${indent}<WorkingTimes>`);
+    [['08:00:00', '12:00:00'], ['13:00:00', '17:00:00']].forEach(([from, to]) => {
+      this.lines.push(`${indent}  <WorkingTime>`);
+      this.addElement(depth + 2, 'FromTime', from);
+      this.addElement(depth + 2, 'ToTime', to);
+      this.lines.push(`${indent}  </WorkingTime>`);
+    });
+    this.lines.push(`${indent}</WorkingTimes>`);
+  }
+
+  /**
+   * Add the project summary task, a summary task per swimlane and the tasks
+   * under them, in outline order. Swimlanes are already in tree order, so a
+   * lane's own tasks come right after it and before its child lanes.
+   */
+  private addTasks(taskManager: TaskManager, allTasks: Task[], projectName: string): void {
+    const swimlanes = taskManager.swimlanes;
+    let nextUid = 1;
+    allTasks.forEach(task => this.taskUids.set(task.id, nextUid++));
+
+    this.lines.push('  <Tasks>');
+    this.addSummaryTask(0, 0, '', 0, projectName, allTasks);
+
+    // Outline numbers count siblings per level, e.g. 2.1.3
+    const counters: number[] = [];
+    let id = 1;
+    swimlanes.forEach(lane => {
+      const laneTasks = [lane, ...Wbs.getDescendants(swimlanes, lane.id)].flatMap(l => l.tasks);
+      if (laneTasks.length === 0) return; // Lanes with nothing in them would be empty summaries
+
+      const level = Wbs.getDepth(swimlanes, lane) + 1;
+      this.addSummaryTask(nextUid++, id++, this.nextOutlineNumber(counters, level), level, lane.name, laneTasks);
+      lane.tasks.forEach(task => {
+        this.addTask(task, id++, this.nextOutlineNumber(counters, level + 1), level + 1);
+      });
+    });
+    this.lines.push('  </Tasks>');
+  }
+
+  private nextOutlineNumber(counters: number[], level: number): string {
+    counters.length = level;
+    counters[level - 1] = (counters[level - 1] || 0) + 1;
+    return Array.from(counters, count => count || 1).join('.');
+  }
+
+  /**
+   * Summary task spanning the given tasks, with their cost rolled up
+   */
+  private addSummaryTask(uid: number, id: number, outline: string, level: number, name: string, tasks: Task[]): void {
+    const dates = tasks.map(task => this.getTaskDates(task));
+    const start = dates.length > 0 ? dates.map(([taskStart]) => taskStart).sort()[0] : this.formatDateTime(new Date(), 8);
+    const finish = dates.length > 0 ? dates.map(([, taskFinish]) => taskFinish).sort().reverse()[0] : start;
+    const cost = tasks.reduce((sum, task) => sum + (task.cost || 0), 0);
+
+    this.lines.push('    <Task>');
+    this.addElement(3, 'UID', uid);
+    this.addElement(3, 'ID', id);
+    this.addElement(3, 'Name', name);
+    this.addElement(3, 'Type', 1);
+    this.addElement(3, 'IsNull', 0);
+    if (outline) this.addElement(3, 'OutlineNumber', outline);
+    this.addElement(3, 'OutlineLevel', level);
+    this.addElement(3, 'Start', start);
+    this.addElement(3, 'Finish', finish);
+    this.addElement(3, 'Summary', 1);
+    this.addElement(3, 'Milestone', 0);
+    this.addElement(3, 'Cost', Math.round(cost * 100)); // MSPDI stores currency in cents
+    this.lines.push('    </Task>');
+  }
+
+  private addTask(task: Task, id: number, outline: string, level: number): void {
+    const [start, finish] = this.getTaskDates(task);
+    const durationHours = task.duration * MspdiExporter.MINUTES_PER_DAY / 60;
+    const remainingHours = task.getRemainingDuration() * MspdiExporter.MINUTES_PER_DAY / 60;
+
+    this.lines.push('    <Task>');
+    this.addElement(3, 'UID', this.taskUids.get(task.id));
+    this.addElement(3, 'ID', id);
+    this.addElement(3, 'Name', task.name);
+    this.addElement(3, 'Type', 0);
+    this.addElement(3, 'IsNull', 0);
+    this.addElement(3, 'OutlineNumber', outline);
+    this.addElement(3, 'OutlineLevel', level);
+    this.addElement(3, 'Priority', { low: 300, medium: 500, high: 700 }[task.priority] || 500);
+    this.addElement(3, 'Start', start);
+    this.addElement(3, 'Finish', finish);
+    this.addElement(3, 'Duration', `PT${durationHours}H0M0S`);
+    this.addElement(3, 'DurationFormat', 7);
+    this.addElement(3, 'Summary', 0);
+    this.addElement(3, 'Milestone', task.isMilestone ? 1 : 0);
+    this.addElement(3, 'PercentComplete', Math.round(task.progress || 0));
+    if (task.actualStart) {
+      this.addElement(3, 'ActualStart', this.formatDateTime(task.actualStart, 8));
+    }
+    if (task.actualFinish) {
+      this.addElement(3, 'ActualFinish', this.formatDateTime(task.actualFinish, 17));
+    }
+    this.addElement(3, 'RemainingDuration', `PT${remainingHours}H0M0S`);
+    this.addElement(3, 'ConstraintType', task.constraintType ? MspdiExporter.CONSTRAINT_TYPES[task.constraintType] : 0);
+    if (task.constraintType && task.constraintDate) {
+      this.addElement(3, 'ConstraintDate', this.formatDateTime(task.constraintDate, task.constraintType === 'FNLT' ? 17 : 8));
+    }
+    this.addElement(3, 'CalendarUID', this.getTaskCalendarUid(task));
+    this.addElement(3, 'Cost', Math.round((task.cost || 0) * 100));
+    if (task.notes) {
+      this.addElement(3, 'Notes', task.notes);
+    }
+
+    task.dependencies.forEach(predId => {
+      const predUid = this.taskUids.get(predId);
+      if (predUid === undefined) return;
+      const link = task.getDependencyLink(predId);
+      this.lines.push('      <PredecessorLink>');
+      this.addElement(4, 'PredecessorUID', predUid);
+      this.addElement(4, 'Type', MspdiExporter.LINK_TYPES[link.type]);
+      this.addElement(4, 'CrossProject', 0);
+      this.addElement(4, 'LinkLag', link.lag * MspdiExporter.MINUTES_PER_DAY * 10); // Tenths of a minute
+      this.addElement(4, 'LagFormat', MspdiExporter.LAG_FORMAT_DAYS);
+      this.lines.push('      </PredecessorLink>');
+    });
+    this.lines.push('    </Task>');
+  }
+
+  /**
+   * Start at the beginning of the first work day and finish at the end of
+   * the last one. Milestones start and finish at the same moment: the start
+   * of the day for a start milestone, the end of the day for a finish milestone.
+   */
+  private getTaskDates(task: Task): [string, string] {
+    if (task.isMilestone) {
+      const date = this.formatDateTime(task.getMilestoneDate(), task.milestoneType === 'finish' ? 17 : 8);
+      return [date, date];
+    }
+    const lastDay = task.subtractWorkDays(task.getEndDate(), 1);
+    return [this.formatDateTime(task.startDate, 8), this.formatDateTime(lastDay, 17)];
+  }
+
+  /**
+   * Add a work resource for every trade a task uses, with the trade's
+   * capacity as MaxUnits
+   */
+  private addResources(tasks: Task[]): void {
+    const trades = new Map<string, Trade>();
+    tasks.forEach(task => {
+      const trade = task.getTrade();
+      if (trade && !trades.has(trade.id)) trades.set(trade.id, trade);
+    });
+
+    this.lines.push('  <Resources>');
+    Array.from(trades.values()).forEach((trade, index) => {
+      const uid = index + 1;
+      this.resourceUids.set(trade.id, uid);
+      this.lines.push('    <Resource>');
+      this.addElement(3, 'UID', uid);
+      this.addElement(3, 'ID', uid);
+      this.addElement(3, 'Name', trade.name);
+      this.addElement(3, 'Type', 1);
+      this.addElement(3, 'IsNull', 0);
+      this.addElement(3, 'MaxUnits', (trade.capacity || 1).toFixed(2));
+      this.lines.push('    </Resource>');
+    });
+    this.lines.push('  </Resources>');
+  }
+
+  /**
+   * Assign each task's trade with its crew size as units
+   */
+  private addAssignments(tasks: Task[]): void {
+    this.lines.push('  <Assignments>');
+    let uid = 1;
+    tasks.forEach(task => {
+      const trade = task.getTrade();
+      const resourceUid = trade && this.resourceUids.get(trade.id);
+      if (!resourceUid) return;
+      const [start, finish] = this.getTaskDates(task);
+      this.lines.push('    <Assignment>');
+      this.addElement(3, 'UID', uid++);
+      this.addElement(3, 'TaskUID', this.taskUids.get(task.id));
+      this.addElement(3, 'ResourceUID', resourceUid);
+      this.addElement(3, 'Units', task.crewSize.toFixed(2));
+      this.addElement(3, 'Start', start);
+      this.addElement(3, 'Finish', finish);
+      this.lines.push('    </Assignment>');
+    });
+    this.lines.push('  </Assignments>');
+  }
+
+  /**
+   * MSPDI calendar UID for a calendar, registering it on first use
+   */
+  private getCalendarUid(calendar: WorkCalendar): number {
+    const key = this.getCalendarKey(calendar);
+    const existing = this.calendarUids.get(key);
+    if (existing) return existing;
+
+    const uid = this.calendarUids.size + 1;
+    this.calendarUids.set(key, uid);
+    this.calendars.push(calendar);
+    return uid;
+  }
+
+  private getCalendarKey(calendar: WorkCalendar): string {
+    return `${calendar.id}|${calendar.workWeek.map(Number).join('')}`;
+  }
+
+  /**
+   * Calendar UID for a task. MS Project has no per-task weekend overrides,
+   * so tasks that work weekend days outside their calendar get a variant calendar.
+   */
+  private getTaskCalendarUid(task: Task): number {
+    const calendar = task.getCalendar();
+    const addSaturday = task.workOnSaturday && !calendar.workWeek[6];
+    const addSunday = task.workOnSunday && !calendar.workWeek[0];
+    if (!addSaturday && !addSunday) {
+      return this.getCalendarUid(calendar);
+    }
+
+    const workWeek = [...calendar.workWeek];
+    if (addSunday) workWeek[0] = true;
+    if (addSaturday) workWeek[6] = true;
+    const suffix = [addSaturday ? 'Sat' : '', addSunday ? 'Sun' : ''].filter(Boolean).join('+');
+    return this.getCalendarUid({ ...calendar, name: `${calendar.name} +${suffix}`, workWeek });
+  }
+
+  private addElement(depth: number, name: string, value: string | number | undefined): void {
+    this.lines.push(`${'  '.repeat(depth)}<${name}>${this.escapeXml(String(value ?? ''))}</${name}>`);
+  }
+
+  /**
+   * Format a day at a given hour as 2025-01-06T08:00:00
+   */
+  private formatDateTime(date: Date, hour: number): string {
+    return `${Calendars.formatDateKey(date)}T${String(hour).padStart(2, '0')}:00:00`;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Save MSPDI content to a file for download
+   */
+  public downloadMspdi(filename: string, content: string): void {
+    const blob = new Blob([content], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename.endsWith('.xml') ? filename : `${filename}.xml`;
+    document.body.appendChild(a);
+    a.click();
+
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+}
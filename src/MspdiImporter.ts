@@ -0,0 +1,479 @@
+import { TaskConfig, DependencyLink, DependencyType, ConstraintType, MilestoneType } from './Task';
+import { Trades, Trade } from './Trades';
+import { Calendars, WorkCalendar, CalendarException } from './Calendars';
+import { XerImportResult } from './XerImporter';
+import { generateUUID } from './utils';
+
+/**
+ * Everything read from an MS Project XML file, ready to load into DingPlan.
+ * Same shape as an XER import, plus the trades made from the file's resources.
+ */
+export interface MspdiImportResult extends XerImportResult {
+  /** Trades for the work resources, with capacity from MaxUnits */
+  trades: Trade[];
+}
+
+/**
+ * MspdiImporter handles importing Microsoft Project XML (MSPDI) files
+ *
+ * MSPDI is the XML format written by "Save As > XML" in MS Project:
+ * - Calendars: base calendars with WeekDays and Exceptions
+ * - Tasks: activities in outline order; summary tasks (Summary = 1) become
+ *   nested swimlanes by OutlineLevel and are not imported as tasks
+ * - PredecessorLink: relationships inside each Task, with type and lag
+ * - Resources and Assignments: work resources become trades, and each task
+ *   takes the trade of its largest assignment with the summed units as crew
+ *
+ * Durations and lags are converted to work days using the project's
+ * MinutesPerDay (480 by default).
+ */
+export class MspdiImporter {
+  /** MSPDI PredecessorLink Type values */
+  private static readonly LINK_TYPES: Record<string, DependencyType> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' };
+  /** MSPDI ConstraintType values DingPlan supports */
+  private static readonly CONSTRAINT_TYPES: Record<string, ConstraintType> = { '2': 'MSO', '4': 'SNET', '7': 'FNLT' };
+  /** LagFormat values for percentage lags, which DingPlan cannot represent */
+  private static readonly PERCENT_LAG_FORMATS = ['19', '20'];
+  /** ResourceUID MS Project uses for assignments without a resource */
+  private static readonly UNASSIGNED_RESOURCE = '-65535';
+
+  private project: Element | null = null;
+  private minutesPerDay: number = 480;
+  private calendarMap: Map<string, WorkCalendar> = new Map(); // Map calendar UID to calendar
+  private tradeMap: Map<string, Trade> = new Map(); // Map resource UID to trade
+
+  constructor() {}
+
+  /**
+   * Import an MSPDI file and return task configurations for DingPlan
+   */
+  public async importMspdiFile(file: File): Promise<MspdiImportResult> {
+    try {
+      const result = this.importMspdi(await file.text());
+
+      console.log('MSPDI import successful:', {
+        tasks: result.tasks.length,
+        swimlanes: result.swimlanes.length,
+        trades: result.trades.length
+      });
+
+      return result;
+    } catch (error) {
+      console.error('MSPDI import failed:', error);
+      throw new Error(`MS Project import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Convert MSPDI XML text to DingPlan task configurations
+   */
+  public importMspdi(xml: string): MspdiImportResult {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('File is not valid XML');
+    }
+
+    this.project = doc.documentElement;
+    if (!this.project || this.project.localName !== 'Project') {
+      throw new Error('No Project element found in MS Project XML');
+    }
+
+    const minutesPerDay = parseFloat(this.getText(this.project, 'MinutesPerDay'));
+    this.minutesPerDay = minutesPerDay > 0 ? minutesPerDay : 480;
+
+    const projectCalendarId = this.parseCalendars();
+    const trades = this.parseResources();
+    const { tasks, swimlanes } = this.parseTasks(projectCalendarId);
+
+    return {
+      tasks,
+      swimlanes,
+      calendars: Array.from(this.calendarMap.values()),
+      projectCalendarId,
+      dataDate: this.parseDataDate(),
+      trades
+    };
+  }
+
+  /**
+   * Parse base calendars. MS Project only lets tasks use base calendars, so
+   * resource calendars are skipped.
+   * @returns ID of the project calendar, if the file names one
+   */
+  private parseCalendars(): string | null {
+    this.getChildren(this.getChild(this.project!, 'Calendars'), 'Calendar').forEach(element => {
+      const uid = this.getText(element, 'UID');
+      if (!uid || this.getText(element, 'IsBaseCalendar') === '0') return;
+
+      const name = this.getText(element, 'Name') || `Calendar ${uid}`;
+      const workWeek = [false, true, true, true, true, true, false];
+      const offDays: { name: string; start: string; end: string }[] = [];
+      const exceptions: CalendarException[] = [];
+      const addException = (exceptionName: string, period: Element | null, working: boolean) => {
+        const from = this.parseDate(this.getText(period, 'FromDate'));
+        const to = this.parseDate(this.getText(period, 'ToDate'));
+        if (!from || !to) return;
+        const range = { name: exceptionName, start: Calendars.formatDateKey(from), end: Calendars.formatDateKey(to) };
+        if (working) {
+          exceptions.push({ ...range, working });
+        } else {
+          offDays.push(range);
+        }
+      };
+
+      // Older files put exceptions in WeekDays with DayType 0
+      this.getChildren(this.getChild(element, 'WeekDays'), 'WeekDay').forEach(weekDay => {
+        const dayType = parseInt(this.getText(weekDay, 'DayType'), 10);
+        const working = this.getText(weekDay, 'DayWorking') === '1';
+        if (dayType >= 1 && dayType <= 7) {
+          workWeek[dayType - 1] = working;
+        } else if (dayType === 0) {
+          addException(working ? 'Working' : 'Non-working', this.getChild(weekDay, 'TimePeriod'), working);
+        }
+      });
+
+      this.getChildren(this.getChild(element, 'Exceptions'), 'Exception').forEach(exception => {
+        const working = this.getText(exception, 'DayWorking') === '1';
+        addException(this.getText(exception, 'Name') || (working ? 'Working' : 'Non-working'), this.getChild(exception, 'TimePeriod'), working);
+      });
+
+      // Single days off are holidays; longer breaks stay ranges
+      const holidays = offDays.filter(day => day.start === day.end).map(day => day.start);
+      offDays.filter(day => day.start !== day.end).forEach(day => exceptions.push({ ...day, working: false }));
+
+      this.calendarMap.set(uid, { id: `mspdi-${uid}`, name, workWeek, holidays, exceptions });
+    });
+
+    console.log('Parsed calendars:', this.calendarMap.size);
+    return this.calendarMap.get(this.getText(this.project!, 'CalendarUID'))?.id || null;
+  }
+
+  /**
+   * Turn work resources into trades. A resource matching an existing trade by
+   * name reuses it, others are registered as new trades. MaxUnits above the
+   * default of 1 (one person) becomes the trade's capacity.
+   */
+  private parseResources(): Trade[] {
+    const trades = new Map<string, Trade>();
+    this.getChildren(this.getChild(this.project!, 'Resources'), 'Resource').forEach(element => {
+      const uid = this.getText(element, 'UID');
+      const name = this.getText(element, 'Name');
+      // Type 1 is a work resource; material and cost resources are not crews
+      if (!uid || !name || this.getText(element, 'IsNull') === '1' || this.getText(element, 'Type') !== '1') return;
+
+      const trade: Trade = { ...(trades.get(name.toLowerCase()) || Trades.getOrCreate(name, name)) };
+      const maxUnits = parseFloat(this.getText(element, 'MaxUnits'));
+      if (maxUnits > 1) {
+        trade.capacity = Math.round(maxUnits);
+      }
+
+      trades.set(name.toLowerCase(), trade);
+      this.tradeMap.set(uid, trade);
+    });
+
+    console.log('Parsed resources:', this.tradeMap.size);
+    return Array.from(trades.values());
+  }
+
+  /**
+   * Parse tasks in outline order. Summary tasks become swimlanes nested by
+   * OutlineLevel; every other task goes to the swimlane of its nearest
+   * summary, or to "General" when it has none.
+   */
+  private parseTasks(projectCalendarId: string | null): Pick<MspdiImportResult, 'tasks' | 'swimlanes'> {
+    const elements = this.getChildren(this.getChild(this.project!, 'Tasks'), 'Task')
+      .filter(element => this.getText(element, 'IsNull') !== '1' && this.getText(element, 'UID'));
+    if (elements.length === 0) {
+      throw new Error('No tasks found in MS Project XML');
+    }
+
+    const assignments = this.parseAssignments();
+    const swimlanes: MspdiImportResult['swimlanes'] = [];
+    const summaryStack: { level: number; laneId: string }[] = [];
+    const laneOf = new Map<Element, string | undefined>();
+    const idMap = new Map<string, string>();
+
+    elements.forEach(element => {
+      const level = parseInt(this.getText(element, 'OutlineLevel'), 10) || 0;
+      // Outline level 0 is the project summary task
+      if (level === 0) return;
+
+      while (summaryStack.length > 0 && summaryStack[summaryStack.length - 1].level >= level) {
+        summaryStack.pop();
+      }
+      const parentLaneId = summaryStack[summaryStack.length - 1]?.laneId;
+
+      if (this.getText(element, 'Summary') === '1') {
+        const laneId = `swimlane-${swimlanes.length + 1}`;
+        swimlanes.push({ id: laneId, name: this.getText(element, 'Name') || 'Untitled', ...(parentLaneId ? { parentId: parentLaneId } : {}) });
+        summaryStack.push({ level, laneId });
+      } else {
+        laneOf.set(element, parentLaneId);
+        idMap.set(this.getText(element, 'UID'), generateUUID());
+      }
+    });
+
+    let generalLaneId: string | undefined;
+    const tasks: TaskConfig[] = [];
+    let droppedLinks = 0;
+    laneOf.forEach((laneId, element) => {
+      const uid = this.getText(element, 'UID');
+      try {
+        const dependencies: string[] = [];
+        const dependencyLinks: Record<string, DependencyLink> = {};
+        this.getChildren(element, 'PredecessorLink').forEach(linkElement => {
+          const predId = idMap.get(this.getText(linkElement, 'PredecessorUID'));
+          if (!predId) {
+            droppedLinks++;
+            return;
+          }
+          if (dependencies.includes(predId)) return;
+          dependencies.push(predId);
+          const link = this.parseLink(linkElement);
+          if (link.type !== 'FS' || link.lag !== 0) {
+            dependencyLinks[predId] = link;
+          }
+        });
+
+        if (!laneId) {
+          generalLaneId = generalLaneId || `swimlane-${swimlanes.length + 1}`;
+        }
+
+        const milestoneType = this.parseMilestoneType(element);
+        const assignment = assignments.get(uid);
+        const calendar = this.calendarMap.get(this.getText(element, 'CalendarUID'));
+        const cost = parseFloat(this.getText(element, 'Cost'));
+
+        tasks.push({
+          id: idMap.get(uid)!,
+          name: (this.getText(element, 'Name') || 'Unnamed Task').replace(/\s+/g, ' ').substring(0, 100),
+          startDate: milestoneType === 'finish'
+            ? this.getFinishMilestoneStart(this.getText(element, 'Finish'))
+            : this.parseDate(this.getText(element, 'Start')) || new Date(),
+          duration: milestoneType ? 0 : Math.max(1, this.parseDurationDays(this.getText(element, 'Duration'))),
+          milestoneType,
+          crewSize: assignment?.crewSize || 1,
+          tradeId: assignment?.trade.id,
+          color: assignment?.trade.color,
+          dependencies,
+          dependencyLinks,
+          swimlaneId: laneId || generalLaneId,
+          calendarId: calendar && calendar.id !== projectCalendarId ? calendar.id : undefined,
+          cost: cost > 0 ? cost / 100 : 0, // MSPDI stores currency in cents
+          notes: this.getText(element, 'Notes'),
+          ...this.parseConstraint(element),
+          ...this.parseProgress(element)
+        });
+      } catch (error) {
+        console.warn('Skipping invalid task:', this.getText(element, 'Name'), error);
+      }
+    });
+
+    if (generalLaneId) {
+      swimlanes.push({ id: generalLaneId, name: 'General' });
+    }
+    if (droppedLinks > 0) {
+      console.warn(`Dropped ${droppedLinks} links to summary or missing tasks`);
+    }
+
+    console.log('Parsed tasks:', tasks.length);
+    return { tasks, swimlanes };
+  }
+
+  /**
+   * Trade and crew size per task UID: the trade of the assignment with the
+   * most units, and the units of all work assignments added up
+   */
+  private parseAssignments(): Map<string, { trade: Trade; crewSize: number }> {
+    const byTask = new Map<string, { trade: Trade; units: number; crew: number }>();
+    this.getChildren(this.getChild(this.project!, 'Assignments'), 'Assignment').forEach(element => {
+      const resourceUid = this.getText(element, 'ResourceUID');
+      const trade = this.tradeMap.get(resourceUid);
+      if (!trade || resourceUid === MspdiImporter.UNASSIGNED_RESOURCE) return;
+
+      const taskUid = this.getText(element, 'TaskUID');
+      const units = parseFloat(this.getText(element, 'Units')) || 1;
+      const entry = byTask.get(taskUid);
+      if (!entry) {
+        byTask.set(taskUid, { trade, units, crew: units });
+      } else {
+        entry.crew += units;
+        if (units > entry.units) {
+          entry.trade = trade;
+          entry.units = units;
+        }
+      }
+    });
+
+    const assignments = new Map<string, { trade: Trade; crewSize: number }>();
+    byTask.forEach(({ trade, crew }, taskUid) => {
+      assignments.set(taskUid, { trade, crewSize: Math.max(1, Math.round(crew)) });
+    });
+    return assignments;
+  }
+
+  /**
+   * Relationship type and lag of a PredecessorLink. LinkLag is in tenths of
+   * a minute; percentage lags are dropped.
+   */
+  private parseLink(element: Element): DependencyLink {
+    const type = MspdiImporter.LINK_TYPES[this.getText(element, 'Type')] || 'FS';
+    if (MspdiImporter.PERCENT_LAG_FORMATS.includes(this.getText(element, 'LagFormat'))) {
+      console.warn('Percentage lags are not supported, using no lag');
+      return { type, lag: 0 };
+    }
+    const lag = parseFloat(this.getText(element, 'LinkLag'));
+    return { type, lag: isNaN(lag) ? 0 : Math.round(lag / 10 / this.minutesPerDay) };
+  }
+
+  /**
+   * Zero-duration milestones are start milestones unless they fall at the end
+   * of the day, the way MS Project places a milestone after its predecessor
+   */
+  private parseMilestoneType(element: Element): MilestoneType | null {
+    if (this.getText(element, 'Milestone') !== '1' || this.parseDurationDays(this.getText(element, 'Duration')) > 0) {
+      return null;
+    }
+    const finish = this.parseDate(this.getText(element, 'Finish'));
+    return finish && finish.getHours() >= 12 ? 'finish' : 'start';
+  }
+
+  /**
+   * A finish milestone happens at the end of its finish day, so it sits at
+   * the start of the following day; Task moves it onto the next work day
+   */
+  private getFinishMilestoneStart(finish: string): Date {
+    const date = this.parseDate(finish) || new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + 1);
+    return date;
+  }
+
+  /**
+   * Map MS Project constraints to DingPlan constraints. Must Start On,
+   * Start No Earlier Than and Finish No Later Than carry over; As Soon As
+   * Possible needs nothing and the rest are not supported.
+   */
+  private parseConstraint(element: Element): Pick<TaskConfig, 'constraintType' | 'constraintDate'> {
+    const cstrType = this.getText(element, 'ConstraintType');
+    if (!cstrType || cstrType === '0') return {};
+
+    const type = MspdiImporter.CONSTRAINT_TYPES[cstrType];
+    const date = this.parseDate(this.getText(element, 'ConstraintDate'));
+    if (!type || !date) {
+      console.warn(`Unsupported MS Project constraint type ${cstrType}, ignoring`);
+      return {};
+    }
+    return { constraintType: type, constraintDate: date };
+  }
+
+  /**
+   * Map PercentComplete, ActualStart, ActualFinish and RemainingDuration to
+   * DingPlan progress and actuals
+   */
+  private parseProgress(element: Element): Partial<TaskConfig> {
+    const actualStart = this.parseDate(this.getText(element, 'ActualStart'));
+    const actualFinish = this.parseDate(this.getText(element, 'ActualFinish'));
+    const percent = parseFloat(this.getText(element, 'PercentComplete'));
+    const progress: Partial<TaskConfig> = {
+      status: actualFinish ? 'completed' : actualStart ? 'in-progress' : 'not-started',
+      progress: isNaN(percent) ? 0 : Math.min(100, Math.max(0, Math.round(percent)))
+    };
+
+    if (actualStart) progress.actualStart = actualStart;
+    if (actualFinish) {
+      progress.actualFinish = actualFinish;
+      progress.progress = 100;
+      progress.remainingDuration = 0;
+    } else if (actualStart && this.getText(element, 'RemainingDuration')) {
+      progress.remainingDuration = this.parseDurationDays(this.getText(element, 'RemainingDuration'));
+    }
+    return progress;
+  }
+
+  /**
+   * Status date of the last progress update
+   */
+  private parseDataDate(): Date | null {
+    const date = this.parseDate(this.getText(this.project!, 'StatusDate'));
+    date?.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  /**
+   * Convert an ISO 8601 duration such as PT16H0M0S to work days
+   */
+  private parseDurationDays(duration: string): number {
+    const match = /^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(duration.trim());
+    if (!match) return 0;
+
+    const [, days, hours, minutes, seconds] = match.map(value => parseFloat(value) || 0);
+    const totalMinutes = days * this.minutesPerDay + hours * 60 + minutes + seconds / 60;
+    return Math.round(totalMinutes / this.minutesPerDay);
+  }
+
+  /**
+   * Parse an MSPDI date such as 2025-01-06T08:00:00 as local time
+   */
+  private parseDate(value: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Direct child element by local name; MSPDI nests elements with the same
+   * name (e.g. Type) at different levels, so descendants are not searched
+   */
+  private getChild(parent: Element | null, name: string): Element | null {
+    if (!parent) return null;
+    return Array.from(parent.children).find(child => child.localName === name) || null;
+  }
+
+  private getChildren(parent: Element | null, name: string): Element[] {
+    if (!parent) return [];
+    return Array.from(parent.children).filter(child => child.localName === name);
+  }
+
+  private getText(parent: Element | null, name: string): string {
+    return this.getChild(parent, name)?.textContent?.trim() || '';
+  }
+
+  /**
+   * Show file picker and import an MS Project XML file
+   */
+  public static showImportDialog(): Promise<MspdiImportResult> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.xml,.XML';
+      input.style.display = 'none';
+
+      input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) {
+          reject(new Error('No file selected'));
+          return;
+        }
+
+        try {
+          const importer = new MspdiImporter();
+          const result = await importer.importMspdiFile(file);
+          document.body.removeChild(input);
+          resolve(result);
+        } catch (error) {
+          document.body.removeChild(input);
+          reject(error);
+        }
+      };
+
+      input.oncancel = () => {
+        document.body.removeChild(input);
+        reject(new Error('File selection cancelled'));
+      };
+
+      document.body.appendChild(input);
+      input.click();
+    });
+  }
+}
@@ -1,43 +1,109 @@
 import jsPDF from 'jspdf';
-import { Task } from './Task';
+import { Task, MILESTONE_LABELS } from './Task';
 import { TaskManager } from './TaskManager';
+import { Trades } from './Trades';
+import { Wbs, WbsNode } from './Wbs';
+
+/**
+ * Paper sizes offered for PDF export
+ */
+export type PdfPaperSize = 'letter' | 'tabloid' | 'a3' | 'arch-d';
+
+/**
+ * Landscape sheet sizes in mm
+ */
+export const PDF_PAPER_SIZES: Record<PdfPaperSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'Letter (11 × 8.5 in)', width: 279.4, height: 215.9 },
+  tabloid: { label: 'Tabloid (17 × 11 in)', width: 431.8, height: 279.4 },
+  a3: { label: 'A3 (420 × 297 mm)', width: 420, height: 297 },
+  'arch-d': { label: 'ARCH D (36 × 24 in)', width: 914.4, height: 609.6 }
+};
+
+/**
+ * Settings for a PDF export
+ */
+export interface PdfExportOptions {
+  paperSize: PdfPaperSize;
+  /** Company shown in the title block */
+  companyName: string;
+  /** Revision shown in the title block, e.g. "Rev 3" */
+  revision: string;
+  /** Millimetres per calendar day; 0 fits the whole schedule on one page width */
+  dayWidth: number;
+}
+
+/**
+ * Settings for a lookahead report
+ */
+export interface PdfLookaheadOptions {
+  /** First day of the window */
+  startDate: Date;
+  /** Length of the window in weeks */
+  weeks: number;
+  /** Row headings within each page */
+  groupBy: 'trade' | 'swimlane';
+  /** Start every trade on a page of its own, to hand to its foreman */
+  pagePerTrade: boolean;
+}
+
+/**
+ * A row of the Gantt chart: a trade heading or a task
+ */
+type GanttRow = { kind: 'group'; label: string } | { kind: 'task'; task: Task };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
 
 /**
  * PdfExporter class handles exporting project data to PDF format
- * 
+ *
  * Features:
- * - Clean Gantt chart view with colored task bars
- * - Project name header and date range
- * - Summary table with task details
- * - Dependencies shown as arrows
- * - Landscape orientation for better timeline view
+ * - Landscape Letter, Tabloid, A3 or ARCH D sheets
+ * - Gantt chart tiled across pages by time range and by rows, with the
+ *   timeline header and task names repeated on every page
+ * - Task bars colored by trade, milestones as diamonds, and the data date line
+ * - Title block on every page with project, company, data date, revision,
+ *   page number and a legend of the trades in the schedule
+ * - Summary table of every task, continued across pages
+ * - Milestone summary page when the schedule has milestones
+ * - Lookahead reports: the tasks active in the next few weeks at day
+ *   scale, optionally one trade per page
  */
 export class PdfExporter {
   private pdf: jsPDF;
   private pageWidth: number;
   private pageHeight: number;
-  private margin: number = 20;
-  private chartHeight: number = 150;
-  private tableHeight: number = 100;
-  
-  constructor() {
-    // Create PDF in landscape mode (A4 or Letter)
+  private options: PdfExportOptions;
+  private margin: number = 10;
+  private titleBlockHeight: number = 24;
+  private nameColumnWidth: number = 60;
+  private rowHeight: number = 6;
+
+  constructor(options: Partial<PdfExportOptions> = {}) {
+    this.options = { paperSize: 'letter', companyName: '', revision: '', dayWidth: 3, ...options };
+    const paper = PDF_PAPER_SIZES[this.options.paperSize] || PDF_PAPER_SIZES.letter;
     this.pdf = new jsPDF({
       orientation: 'landscape',
       unit: 'mm',
-      format: 'a4'
+      format: [paper.width, paper.height]
     });
-    
+
     // Get page dimensions
     this.pageWidth = this.pdf.internal.pageSize.getWidth();
     this.pageHeight = this.pdf.internal.pageSize.getHeight();
   }
-  
+
+  /**
+   * Lowest point content may reach above the title block
+   */
+  private get contentBottom(): number {
+    return this.pageHeight - this.margin - this.titleBlockHeight - 4;
+  }
+
   /**
    * Export project data to PDF
    */
   public exportProject(
-    taskManager: TaskManager, 
+    taskManager: TaskManager,
     projectName: string = 'Construction Schedule',
     projectDate: Date = new Date()
   ): void {
@@ -46,297 +112,684 @@ export class PdfExporter {
       alert('No tasks to export');
       return;
     }
-    
+
     // Calculate project timeline
     const timeline = this.calculateTimeline(tasks);
-    
-    // Add header
-    this.addHeader(projectName, timeline.startDate, timeline.endDate);
-    
-    // Add Gantt chart
-    this.addGanttChart(tasks, timeline);
-    
+
+    // Add Gantt chart pages
+    this.addGanttChart(tasks, timeline, projectName, taskManager.dataDate);
+
     // Add summary table
     this.addSummaryTable(tasks);
-    
+
+    // Add milestone summary
+    const milestones = tasks.filter(task => task.isMilestone);
+    if (milestones.length > 0) {
+      this.addMilestoneSummary(milestones, taskManager.dataDate || projectDate);
+    }
+
+    // Title block last, once the page count is known
+    this.addTitleBlocks(tasks, projectName, taskManager.dataDate);
+
     // Download the PDF
-    const filename = `${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_${this.formatDate(projectDate)}.pdf`;
+    const filename = `${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_${this.formatDate(projectDate).replace(/\//g, '-')}.pdf`;
     this.pdf.save(filename);
   }
-  
+
   /**
-   * Calculate project timeline and dimensions
+   * Export a lookahead report covering the tasks active in the window
+   */
+  public exportLookahead(
+    taskManager: TaskManager,
+    projectName: string,
+    lookahead: PdfLookaheadOptions
+  ): void {
+    const startDate = new Date(lookahead.startDate);
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + lookahead.weeks * 7);
+
+    const tasks = taskManager.getAllTasks().filter(task => task.isMilestone
+      ? task.startDate >= startDate && task.startDate < endDate
+      : task.startDate < endDate && task.getEndDate() > startDate);
+    if (tasks.length === 0) {
+      alert(`No tasks are active in the ${lookahead.weeks}-week lookahead from ${this.formatDate(startDate)}`);
+      return;
+    }
+
+    // One section per trade, or a single section for the whole crew
+    const sections = lookahead.pagePerTrade
+      ? Array.from(this.groupTasksByTrade(tasks).entries())
+      : [['', tasks] as [string, Task[]]];
+
+    const timelineWidth = this.pageWidth - this.margin * 2 - this.nameColumnWidth;
+    const days = lookahead.weeks * 7;
+    const range = {
+      startDate,
+      endDate,
+      days,
+      dayWidth: timelineWidth / days,
+      x: this.margin + this.nameColumnWidth
+    };
+    const rowsPerPage = this.getRowsPerPage();
+    const title = `${lookahead.weeks}-Week Lookahead ${this.formatDate(startDate)} - ${this.formatDate(new Date(endDate.getTime() - DAY_MS))}`;
+
+    let firstPage = true;
+    sections.forEach(([tradeName, sectionTasks]) => {
+      const groups = lookahead.groupBy === 'swimlane'
+        ? this.groupTasksBySwimlane(sectionTasks, taskManager.swimlanes)
+        : this.groupTasksByTrade(sectionTasks);
+      const rowPages = this.paginateRows(groups, rowsPerPage);
+      rowPages.forEach((rows, rowPage) => {
+        if (!firstPage) this.pdf.addPage();
+        firstPage = false;
+        const heading = tradeName ? `${projectName} - ${tradeName}` : projectName;
+        const sheet = rowPages.length > 1 ? ` · Page ${rowPage + 1}/${rowPages.length}` : '';
+        this.drawGanttPage(heading, `${title}${sheet}`, rows, range, taskManager.dataDate, true);
+      });
+    });
+
+    this.addTitleBlocks(tasks, projectName, taskManager.dataDate);
+
+    const filename = `${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_${lookahead.weeks}-Week_Lookahead_${this.formatDate(startDate).replace(/\//g, '-')}.pdf`;
+    this.pdf.save(filename);
+  }
+
+  /**
+   * Calculate the project timeline, starting on the Monday before the first
+   * task so week lines fall on whole days
    */
   private calculateTimeline(tasks: Task[]): {
     startDate: Date;
     endDate: Date;
     durationDays: number;
   } {
-    let minStart = new Date();
-    let maxEnd = new Date();
-    
-    if (tasks.length > 0) {
-      minStart = new Date(Math.min(...tasks.map(t => t.startDate.getTime())));
-      maxEnd = new Date(Math.max(...tasks.map(t => t.getEndDate().getTime())));
-    }
-    
+    const minStart = new Date(Math.min(...tasks.map(t => t.startDate.getTime())));
+    const maxEnd = new Date(Math.max(...tasks.map(t => t.getEndDate().getTime())));
+
     // Add some padding to the timeline
+    minStart.setHours(0, 0, 0, 0);
     minStart.setDate(minStart.getDate() - 2);
+    minStart.setDate(minStart.getDate() - ((minStart.getDay() + 6) % 7));
+    maxEnd.setHours(0, 0, 0, 0);
     maxEnd.setDate(maxEnd.getDate() + 2);
-    
-    const durationDays = Math.ceil((maxEnd.getTime() - minStart.getTime()) / (1000 * 60 * 60 * 24));
-    
+
+    const durationDays = this.daysBetween(minStart, maxEnd);
+
     return {
       startDate: minStart,
       endDate: maxEnd,
       durationDays
     };
   }
-  
+
   /**
-   * Add header with project name and date range
+   * Add the Gantt chart, tiled into pages: each row band is printed for
+   * every time range before moving on to the next rows
    */
-  private addHeader(projectName: string, startDate: Date, endDate: Date): void {
-    // Project title
-    this.pdf.setFontSize(18);
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text(projectName, this.margin, this.margin + 10);
-    
-    // Date range
+  private addGanttChart(tasks: Task[], timeline: any, projectName: string, dataDate: Date | null): void {
+    const timelineX = this.margin + this.nameColumnWidth;
+    const timelineWidth = this.pageWidth - this.margin - timelineX;
+    const dayWidth = this.options.dayWidth > 0 ? this.options.dayWidth : timelineWidth / timeline.durationDays;
+    const daysPerPage = Math.max(1, Math.floor(timelineWidth / dayWidth));
+    const timeTiles = Math.ceil(timeline.durationDays / daysPerPage);
+    const rowPages = this.paginateRows(this.groupTasksByTrade(tasks), this.getRowsPerPage());
+
+    rowPages.forEach((rows, rowPage) => {
+      for (let tile = 0; tile < timeTiles; tile++) {
+        if (rowPage > 0 || tile > 0) this.pdf.addPage();
+
+        const tileStart = new Date(timeline.startDate);
+        tileStart.setDate(tileStart.getDate() + tile * daysPerPage);
+        const tileDays = Math.min(daysPerPage, timeline.durationDays - tile * daysPerPage);
+        const tileEnd = new Date(tileStart);
+        tileEnd.setDate(tileEnd.getDate() + tileDays);
+        const range = { startDate: tileStart, endDate: tileEnd, days: tileDays, dayWidth, x: timelineX };
+
+        const lastDay = new Date(tileEnd);
+        lastDay.setDate(lastDay.getDate() - 1);
+        const sheet = rowPages.length > 1 || timeTiles > 1
+          ? ` · Rows ${rowPage + 1}/${rowPages.length}, Dates ${tile + 1}/${timeTiles}`
+          : '';
+        this.drawGanttPage(projectName, `Gantt Chart ${this.formatDate(tileStart)} - ${this.formatDate(lastDay)}${sheet}`, rows, range, dataDate, false);
+      }
+    });
+  }
+
+  /**
+   * Rows of the chart that fit between the timeline header and the title block
+   */
+  private getRowsPerPage(): number {
+    return Math.max(1, Math.floor((this.contentBottom - this.margin - 22) / this.rowHeight));
+  }
+
+  /**
+   * Draw one page of the chart: heading, timeline header, rows and data date.
+   * Day columns label every day and shade weekends, for lookaheads.
+   */
+  private drawGanttPage(heading: string, subheading: string, rows: GanttRow[], range: any, dataDate: Date | null, dayColumns: boolean): void {
+    const headerY = this.margin + 12;
+    const rowsTop = this.margin + 22;
+
+    // Page heading
     this.pdf.setFontSize(12);
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setTextColor(0, 0, 0);
+    this.pdf.text(heading, this.margin, this.margin + 5);
+    this.pdf.setFontSize(9);
     this.pdf.setFont('helvetica', 'normal');
-    const dateRange = `${this.formatDate(startDate)} - ${this.formatDate(endDate)}`;
-    this.pdf.text(`Project Timeline: ${dateRange}`, this.margin, this.margin + 20);
-    
-    // Generated timestamp
-    this.pdf.setFontSize(10);
-    this.pdf.text(`Generated on: ${this.formatDate(new Date())}`, this.pageWidth - 60, this.margin + 10);
+    this.pdf.setTextColor(80, 80, 80);
+    this.pdf.text(subheading, this.pageWidth - this.margin, this.margin + 5, { align: 'right' });
+
+    const chartBottom = rowsTop + rows.length * this.rowHeight;
+    if (dayColumns) {
+      this.drawDayHeader(range, headerY, chartBottom);
+    } else {
+      this.drawTimelineHeader(range, headerY, chartBottom);
+    }
+
+    rows.forEach((row, index) => {
+      const y = rowsTop + index * this.rowHeight;
+      if (row.kind === 'group') {
+        this.pdf.setFontSize(9);
+        this.pdf.setFont('helvetica', 'bold');
+        this.pdf.setTextColor(60, 60, 60);
+        this.pdf.text(row.label, this.margin + 1, y + 4.2);
+      } else {
+        this.drawTaskBar(row.task, range, y);
+      }
+    });
+
+    this.drawDataDateLine(range, dataDate, headerY, chartBottom);
+
+    // Chart border and name column divider
+    this.pdf.setDrawColor(200, 200, 200);
+    this.pdf.setLineWidth(0.2);
+    this.pdf.rect(this.margin, headerY, this.pageWidth - this.margin * 2, chartBottom - headerY);
+    this.pdf.line(range.x, headerY, range.x, chartBottom);
   }
-  
+
   /**
-   * Add Gantt chart visualization
+   * Split the rows into pages. A page that starts inside a trade group
+   * repeats the group heading, marked as continued.
    */
-  private addGanttChart(tasks: Task[], timeline: any): void {
-    const chartStartY = this.margin + 35;
-    const chartWidth = this.pageWidth - (this.margin * 2);
-    const rowHeight = 8;
-    const maxRows = Math.floor(this.chartHeight / rowHeight);
-    
-    // Chart title
-    this.pdf.setFontSize(14);
+  private paginateRows(groupedTasks: Map<string, Task[]>, rowsPerPage: number): GanttRow[][] {
+    const pages: GanttRow[][] = [[]];
+    const push = (row: GanttRow, group: string) => {
+      let page = pages[pages.length - 1];
+      // Keep a heading together with its first task
+      const full = page.length >= rowsPerPage || (row.kind === 'group' && page.length >= rowsPerPage - 1);
+      if (full && page.length > 0) {
+        page = [];
+        pages.push(page);
+        if (row.kind === 'task' && rowsPerPage > 1) page.push({ kind: 'group', label: `${group} (cont.)` });
+      }
+      page.push(row);
+    };
+
+    groupedTasks.forEach((tradeTasks, tradeName) => {
+      push({ kind: 'group', label: `${tradeName} (${tradeTasks.length} tasks)` }, tradeName);
+      tradeTasks.forEach(task => push({ kind: 'task', task }, tradeName));
+    });
+    return pages;
+  }
+
+  /**
+   * Draw the timeline header: month names above week start dates, with a
+   * line down the chart at each week
+   */
+  private drawTimelineHeader(range: any, startY: number, bottomY: number): void {
+    this.pdf.setFontSize(7);
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setTextColor(80, 80, 80);
+    this.pdf.setLineWidth(0.1);
+    this.pdf.setFillColor(245, 245, 245);
+    this.pdf.rect(this.margin, startY, this.pageWidth - this.margin * 2, 10, 'F');
     this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('Gantt Chart', this.margin, chartStartY);
-    
-    // Draw timeline header
-    this.drawTimelineHeader(timeline, chartStartY + 10, chartWidth);
-    
-    // Group tasks by swimlane/trade for better organization
-    const groupedTasks = this.groupTasksByTrade(tasks);
-    
-    let currentY = chartStartY + 25;
-    let taskIndex = 0;
-    
-    for (const [tradeName, tradeTasks] of groupedTasks) {
-      // Trade header
-      if (taskIndex > 0) {
-        currentY += 3; // Add space between trade groups
+    this.pdf.text('Task', this.margin + 1, startY + 8);
+    this.pdf.setFont('helvetica', 'normal');
+
+    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const current = new Date(range.startDate);
+    for (let day = 0; day < range.days; day++) {
+      const x = range.x + day * range.dayWidth;
+
+      // Month label at the first of the month, or at the left edge
+      if (current.getDate() === 1 || day === 0) {
+        const label = `${monthNames[current.getMonth()]} ${current.getFullYear()}`;
+        if (day === 0 || x + this.pdf.getTextWidth(label) < range.x + range.days * range.dayWidth) {
+          this.pdf.text(label, x + 1, startY + 3.5);
+        }
+        if (day > 0) {
+          this.pdf.setDrawColor(150, 150, 150);
+          this.pdf.line(x, startY, x, startY + 5);
+        }
       }
-      
-      this.pdf.setFontSize(10);
-      this.pdf.setFont('helvetica', 'bold');
-      this.pdf.setTextColor(60, 60, 60);
-      this.pdf.text(`${tradeName} (${tradeTasks.length} tasks)`, this.margin, currentY);
-      currentY += 5;
-      
-      // Draw tasks for this trade
-      for (const task of tradeTasks) {
-        if (taskIndex >= maxRows) break; // Prevent overflow
-        
-        this.drawTaskBar(task, timeline, currentY, chartWidth);
-        currentY += rowHeight;
-        taskIndex++;
+
+      // Week line and Monday date
+      if (current.getDay() === 1) {
+        this.pdf.setDrawColor(220, 220, 220);
+        this.pdf.line(x, startY + 5, x, bottomY);
+        if (range.dayWidth * 7 >= 8) {
+          this.pdf.text(this.formatShortDate(current), x + 0.5, startY + 8.5);
+        }
       }
-      
-      if (taskIndex >= maxRows) break;
+
+      current.setDate(current.getDate() + 1);
     }
-    
-    // Draw chart border
-    this.pdf.setDrawColor(200, 200, 200);
-    this.pdf.rect(this.margin, chartStartY + 10, chartWidth, this.chartHeight);
   }
-  
+
   /**
-   * Draw timeline header with dates
+   * Draw a day-scale header: month names above a column per day with its
+   * weekday and date, and weekends shaded down the chart
    */
-  private drawTimelineHeader(timeline: any, startY: number, chartWidth: number): void {
-    this.pdf.setFontSize(8);
-    this.pdf.setFont('helvetica', 'normal');
+  private drawDayHeader(range: any, startY: number, bottomY: number): void {
+    this.pdf.setFillColor(245, 245, 245);
+    this.pdf.rect(this.margin, startY, this.pageWidth - this.margin * 2, 10, 'F');
+    this.pdf.setFontSize(7);
+    this.pdf.setFont('helvetica', 'bold');
     this.pdf.setTextColor(80, 80, 80);
-    
-    const dayWidth = chartWidth / timeline.durationDays;
-    const current = new Date(timeline.startDate);
-    
-    // Draw week markers
-    for (let day = 0; day < timeline.durationDays; day += 7) {
-      const x = this.margin + (day * dayWidth);
-      
-      // Week line
-      this.pdf.setDrawColor(180, 180, 180);
-      this.pdf.line(x, startY, x, startY + this.chartHeight);
-      
-      // Week label
-      if (day < timeline.durationDays - 7) {
-        const weekDate = new Date(current);
-        weekDate.setDate(weekDate.getDate() + day);
-        this.pdf.text(this.formatShortDate(weekDate), x + 2, startY - 2);
+    this.pdf.text('Task', this.margin + 1, startY + 8);
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.setLineWidth(0.1);
+
+    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const dayNames = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+    const current = new Date(range.startDate);
+    for (let day = 0; day < range.days; day++) {
+      const x = range.x + day * range.dayWidth;
+      const weekend = current.getDay() === 0 || current.getDay() === 6;
+
+      if (weekend) {
+        this.pdf.setFillColor(232, 232, 232);
+        this.pdf.rect(x, startY + 5, range.dayWidth, bottomY - startY - 5, 'F');
+      }
+
+      if (current.getDate() === 1 || day === 0) {
+        this.pdf.text(`${monthNames[current.getMonth()]} ${current.getFullYear()}`, x + 1, startY + 3.5);
+        if (day > 0) {
+          this.pdf.setDrawColor(150, 150, 150);
+          this.pdf.line(x, startY, x, startY + 5);
+        }
+      }
+
+      // Day column, with a darker line at the start of each week
+      if (current.getDay() === 1) {
+        this.pdf.setDrawColor(190, 190, 190);
+      } else {
+        this.pdf.setDrawColor(225, 225, 225);
       }
+      this.pdf.line(x, startY + 5, x, bottomY);
+      this.pdf.setTextColor(weekend ? 140 : 80, weekend ? 140 : 80, weekend ? 140 : 80);
+      this.pdf.setFontSize(5.5);
+      this.pdf.text(dayNames[current.getDay()], x + range.dayWidth / 2, startY + 7.1, { align: 'center' });
+      this.pdf.text(String(current.getDate()), x + range.dayWidth / 2, startY + 9.4, { align: 'center' });
+      this.pdf.setFontSize(7);
+      this.pdf.setTextColor(80, 80, 80);
+
+      current.setDate(current.getDate() + 1);
     }
   }
-  
+
   /**
-   * Draw individual task bar
+   * Draw a task's name and its bar, cut to the page's time range
    */
-  private drawTaskBar(task: Task, timeline: any, y: number, chartWidth: number): void {
-    // Calculate task position and width
-    const dayWidth = chartWidth / timeline.durationDays;
-    const taskStartDay = Math.floor((task.startDate.getTime() - timeline.startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const taskWidth = task.duration * dayWidth;
-    const taskX = this.margin + (taskStartDay * dayWidth);
-    const barHeight = 5;
-    
+  private drawTaskBar(task: Task, range: any, rowY: number): void {
+    const barHeight = this.rowHeight - 2;
+    const y = rowY + 1;
+
     // Task name (truncated if too long)
     this.pdf.setFontSize(8);
     this.pdf.setFont('helvetica', 'normal');
     this.pdf.setTextColor(40, 40, 40);
-    const maxNameWidth = 80;
-    const taskName = task.name.length > 25 ? task.name.substring(0, 22) + '...' : task.name;
-    this.pdf.text(taskName, this.margin, y - 1, { maxWidth: maxNameWidth });
-    
+    this.pdf.text(this.fitText(task.name, this.nameColumnWidth - 4), this.margin + 3, rowY + 4.2);
+
     // Task bar
     const color = this.hexToRgb(task.color || '#3B82F6');
     this.pdf.setFillColor(color.r, color.g, color.b);
     this.pdf.setDrawColor(color.r * 0.8, color.g * 0.8, color.b * 0.8);
-    this.pdf.rect(taskX, y - 4, taskWidth, barHeight, 'FD'); // F = fill, D = draw border
-    
+    this.pdf.setLineWidth(0.2);
+    const xOf = (date: Date) => range.x + this.daysBetween(range.startDate, date) * range.dayWidth;
+
+    // Milestones are a diamond on their start line
+    if (task.isMilestone) {
+      if (task.startDate < range.startDate || task.startDate >= range.endDate) return;
+      const half = barHeight / 2 + 0.5;
+      const taskX = xOf(task.startDate);
+      const centerY = y + barHeight / 2;
+      this.pdf.triangle(taskX - half, centerY, taskX, centerY - half, taskX + half, centerY, 'FD');
+      this.pdf.triangle(taskX - half, centerY, taskX, centerY + half, taskX + half, centerY, 'FD');
+      return;
+    }
+
+    const start = task.startDate > range.startDate ? task.startDate : range.startDate;
+    const end = task.getEndDate() < range.endDate ? task.getEndDate() : range.endDate;
+    if (end <= start) return;
+
+    const taskX = xOf(start);
+    const taskWidth = xOf(end) - taskX;
+    this.pdf.rect(taskX, y, taskWidth, barHeight, 'FD'); // F = fill, D = draw border
+
     // Task duration text on bar (if bar is wide enough)
-    if (taskWidth > 15) {
+    if (taskWidth > 10) {
       this.pdf.setFontSize(7);
       this.pdf.setTextColor(255, 255, 255);
-      this.pdf.text(`${task.duration}d`, taskX + 2, y - 1);
+      this.pdf.text(`${task.duration}d`, taskX + 1.5, y + barHeight - 1.2);
     }
   }
-  
+
+  /**
+   * Red dashed line at the data date when it falls on the page
+   */
+  private drawDataDateLine(range: any, dataDate: Date | null, topY: number, bottomY: number): void {
+    if (!dataDate || dataDate < range.startDate || dataDate >= range.endDate) return;
+    const x = range.x + this.daysBetween(range.startDate, dataDate) * range.dayWidth;
+    this.pdf.setDrawColor(220, 38, 38);
+    this.pdf.setLineWidth(0.3);
+    this.pdf.setLineDashPattern([1.5, 1], 0);
+    this.pdf.line(x, topY, x, bottomY);
+    this.pdf.setLineDashPattern([], 0);
+  }
+
   /**
    * Group tasks by trade for organized display
    */
   private groupTasksByTrade(tasks: Task[]): Map<string, Task[]> {
     const grouped = new Map<string, Task[]>();
-    
+
     tasks.forEach(task => {
-      const tradeName = task.tradeId || 'General';
+      const tradeName = task.getTradeName() || 'General';
       if (!grouped.has(tradeName)) {
         grouped.set(tradeName, []);
       }
       grouped.get(tradeName)!.push(task);
     });
-    
+
     // Sort tasks within each trade by start date
     grouped.forEach(tradeTasks => {
       tradeTasks.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
     });
-    
+
+    return grouped;
+  }
+
+  /**
+   * Group tasks by swimlane, in the order the lanes are drawn. Nested lanes
+   * are labelled with their parents' names.
+   */
+  private groupTasksBySwimlane(tasks: Task[], swimlanes: (WbsNode & { name: string })[]): Map<string, Task[]> {
+    const grouped = new Map<string, Task[]>();
+    const included = new Set(tasks);
+
+    Wbs.order(swimlanes).forEach(lane => {
+      const laneTasks = lane.tasks.filter(task => included.has(task));
+      if (laneTasks.length === 0) return;
+
+      const names = [lane.name];
+      for (let parent = Wbs.getParent(swimlanes, lane); parent; parent = Wbs.getParent(swimlanes, parent)) {
+        names.unshift(parent.name);
+      }
+      laneTasks.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+      grouped.set(names.join(' / '), laneTasks);
+    });
+
     return grouped;
   }
-  
+
   /**
-   * Add summary table with task details
+   * Add summary table with task details, continued on as many pages as it
+   * needs with the header row repeated
    */
   private addSummaryTable(tasks: Task[]): void {
-    const tableStartY = this.margin + 40 + this.chartHeight + 20;
-    
-    // Table title
+    const headers = ['Task Name', 'Trade', 'Start Date', 'End Date', 'Duration', 'Predecessors'];
+    const tableWidth = this.pageWidth - (this.margin * 2);
+    const colWidths = [60, 30, 25, 25, 20, 35].map(width => width * tableWidth / 195); // Shares of the page width
+
+    let currentY = 0;
+    const startPage = () => {
+      this.pdf.addPage();
+      currentY = this.margin + 10;
+
+      // Table title
+      this.pdf.setFontSize(14);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.setTextColor(0, 0, 0);
+      this.pdf.text('Task Summary', this.margin, currentY);
+      currentY += 10;
+
+      // Draw header row
+      this.pdf.setFontSize(9);
+      this.pdf.setFillColor(240, 240, 240);
+      this.pdf.rect(this.margin, currentY - 5, tableWidth, 7, 'F');
+      let currentX = this.margin;
+      headers.forEach((header, index) => {
+        this.pdf.text(header, currentX + 2, currentY);
+        currentX += colWidths[index];
+      });
+      currentY += 8;
+
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.setFontSize(8);
+    };
+
+    startPage();
+    const sorted = [...tasks].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    sorted.forEach((task, rowIndex) => {
+      if (currentY > this.contentBottom) startPage();
+
+      // Alternating row colors
+      if (rowIndex % 2 === 0) {
+        this.pdf.setFillColor(250, 250, 250);
+        this.pdf.rect(this.margin, currentY - 4, tableWidth, 6, 'F');
+      }
+
+      // Task data
+      const rowData = [
+        task.name,
+        task.getTradeName() || 'General',
+        this.formatDate(task.startDate),
+        this.formatDate(task.isMilestone ? task.getMilestoneDate() : task.getEndDate()),
+        `${task.duration}d`,
+        task.dependencies.length > 0 ? task.dependencies.length + ' deps' : '-'
+      ];
+
+      let currentX = this.margin;
+      this.pdf.setTextColor(40, 40, 40);
+      rowData.forEach((data, colIndex) => {
+        this.pdf.text(this.fitText(data, colWidths[colIndex] - 4), currentX + 2, currentY);
+        currentX += colWidths[colIndex];
+      });
+
+      currentY += 7;
+    });
+  }
+
+  /**
+   * Add a page listing every milestone in date order with whether it has
+   * been reached as of the status date
+   */
+  private addMilestoneSummary(milestones: Task[], statusDate: Date): void {
+    this.pdf.addPage();
+
+    let currentY = this.margin + 10;
     this.pdf.setFontSize(14);
     this.pdf.setFont('helvetica', 'bold');
     this.pdf.setTextColor(0, 0, 0);
-    this.pdf.text('Task Summary', this.margin, tableStartY);
-    
-    // Table headers
-    const headers = ['Task Name', 'Trade', 'Start Date', 'End Date', 'Duration', 'Predecessors'];
-    const colWidths = [60, 30, 25, 25, 20, 35]; // Column widths in mm
+    this.pdf.text('Milestone Summary', this.margin, currentY);
+
+    const headers = ['Milestone', 'Type', 'Date', 'Status'];
+    const colWidths = [110, 40, 35, 35];
     let currentX = this.margin;
-    let currentY = tableStartY + 10;
-    
-    // Draw header row
+    currentY += 10;
+
     this.pdf.setFontSize(9);
-    this.pdf.setFont('helvetica', 'bold');
     this.pdf.setFillColor(240, 240, 240);
     this.pdf.rect(this.margin, currentY - 5, this.pageWidth - (this.margin * 2), 7, 'F');
-    
     headers.forEach((header, index) => {
       this.pdf.text(header, currentX + 2, currentY);
       currentX += colWidths[index];
     });
-    
     currentY += 10;
-    
-    // Draw data rows
+
     this.pdf.setFont('helvetica', 'normal');
     this.pdf.setFontSize(8);
-    
-    tasks.slice(0, 20).forEach((task, rowIndex) => { // Limit to 20 tasks to prevent overflow
-      currentX = this.margin;
-      
-      // Alternating row colors
+
+    const sorted = [...milestones].sort((a, b) => a.getMilestoneDate().getTime() - b.getMilestoneDate().getTime());
+    sorted.forEach((task, rowIndex) => {
+      if (currentY > this.contentBottom) {
+        this.pdf.addPage();
+        currentY = this.margin + 10;
+      }
+
       if (rowIndex % 2 === 0) {
         this.pdf.setFillColor(250, 250, 250);
         this.pdf.rect(this.margin, currentY - 4, this.pageWidth - (this.margin * 2), 6, 'F');
       }
-      
-      // Task data
+
+      const status = this.getMilestoneStatus(task, statusDate);
       const rowData = [
-        task.name.length > 30 ? task.name.substring(0, 27) + '...' : task.name,
-        task.tradeId || 'General',
-        this.formatDate(task.startDate),
-        this.formatDate(task.getEndDate()),
-        `${task.duration}d`,
-        task.dependencies.length > 0 ? task.dependencies.length + ' deps' : '-'
+        task.name.length > 60 ? task.name.substring(0, 57) + '...' : task.name,
+        MILESTONE_LABELS[task.milestoneType!],
+        this.formatDate(task.getMilestoneDate()),
+        status
       ];
-      
-      this.pdf.setTextColor(40, 40, 40);
+
+      currentX = this.margin;
       rowData.forEach((data, colIndex) => {
+        if (colIndex === 3 && status === 'Overdue') {
+          this.pdf.setTextColor(220, 38, 38);
+        } else {
+          this.pdf.setTextColor(40, 40, 40);
+        }
         this.pdf.text(data, currentX + 2, currentY, { maxWidth: colWidths[colIndex] - 4 });
         currentX += colWidths[colIndex];
       });
-      
+
       currentY += 7;
     });
-    
-    // Table border
-    this.pdf.setDrawColor(200, 200, 200);
-    this.pdf.rect(this.margin, tableStartY + 5, this.pageWidth - (this.margin * 2), (tasks.length + 1) * 7);
-    
-    // Add note if tasks were truncated
-    if (tasks.length > 20) {
+  }
+
+  /**
+   * Draw the title block along the bottom of every page: a legend of the
+   * schedule's trades on the left, and project, company, data date,
+   * revision and page number on the right
+   */
+  private addTitleBlocks(tasks: Task[], projectName: string, dataDate: Date | null): void {
+    const usedTradeIds = new Set(tasks.map(task => task.tradeId));
+    const trades = Trades.getAllTrades().filter(trade => usedTradeIds.has(trade.id));
+    const pageCount = this.pdf.getNumberOfPages();
+
+    const top = this.pageHeight - this.margin - this.titleBlockHeight;
+    const blockWidth = 120;
+    const blockX = this.pageWidth - this.margin - blockWidth;
+    const legendWidth = blockX - this.margin - 4;
+    const itemWidth = 38;
+    const perRow = Math.max(1, Math.floor((legendWidth - 4) / itemWidth));
+    const legendRows = 3;
+
+    for (let page = 1; page <= pageCount; page++) {
+      this.pdf.setPage(page);
+      this.pdf.setLineWidth(0.3);
+      this.pdf.setDrawColor(60, 60, 60);
+
+      // Legend
+      this.pdf.rect(this.margin, top, legendWidth, this.titleBlockHeight);
+      this.pdf.setFontSize(7);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.setTextColor(60, 60, 60);
+      this.pdf.text('TRADES', this.margin + 2, top + 4);
+      this.pdf.setFont('helvetica', 'normal');
+      const shown = trades.length > perRow * legendRows ? perRow * legendRows - 1 : trades.length;
+      trades.slice(0, shown).forEach((trade, index) => {
+        const x = this.margin + 2 + (index % perRow) * itemWidth;
+        const y = top + 7 + Math.floor(index / perRow) * 5.5;
+        const color = this.hexToRgb(trade.color);
+        this.pdf.setFillColor(color.r, color.g, color.b);
+        this.pdf.rect(x, y, 4, 3, 'F');
+        this.pdf.setTextColor(40, 40, 40);
+        this.pdf.text(this.fitText(trade.name, itemWidth - 7), x + 5.5, y + 2.6);
+      });
+      if (shown < trades.length) {
+        const x = this.margin + 2 + (shown % perRow) * itemWidth;
+        const y = top + 7 + Math.floor(shown / perRow) * 5.5;
+        this.pdf.setTextColor(100, 100, 100);
+        this.pdf.text(`+${trades.length - shown} more`, x, y + 2.6);
+      }
+
+      // Title block
+      this.pdf.setDrawColor(60, 60, 60);
+      this.pdf.rect(blockX, top, blockWidth, this.titleBlockHeight);
+      this.pdf.line(blockX, top + 10, blockX + blockWidth, top + 10);
+      this.pdf.line(blockX + blockWidth - 30, top + 10, blockX + blockWidth - 30, top + this.titleBlockHeight);
+
+      this.pdf.setFontSize(11);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.setTextColor(0, 0, 0);
+      this.pdf.text(this.fitText(projectName, blockWidth - 4), blockX + 2, top + 5);
       this.pdf.setFontSize(8);
-      this.pdf.setTextColor(100, 100, 100);
-      this.pdf.text(`Note: Showing first 20 of ${tasks.length} tasks`, this.margin, currentY + 5);
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.setTextColor(60, 60, 60);
+      if (this.options.companyName) {
+        this.pdf.text(this.fitText(this.options.companyName, blockWidth - 4), blockX + 2, top + 8.5);
+      }
+
+      this.pdf.text(`Data date: ${dataDate ? this.formatDate(dataDate) : '-'}`, blockX + 2, top + 14);
+      this.pdf.text(`Revision: ${this.options.revision || '-'}`, blockX + 2, top + 18);
+      this.pdf.text(`Printed: ${this.formatDate(new Date())}`, blockX + 2, top + 22);
+
+      this.pdf.setFontSize(7);
+      this.pdf.text('PAGE', blockX + blockWidth - 28, top + 14);
+      this.pdf.setFontSize(11);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.setTextColor(0, 0, 0);
+      this.pdf.text(`${page} of ${pageCount}`, blockX + blockWidth - 28, top + 20);
     }
   }
-  
+
+  /**
+   * Achieved once it has an actual date, overdue when its date has passed without one
+   */
+  private getMilestoneStatus(task: Task, statusDate: Date): string {
+    if (task.actualStart || task.status === 'completed') return 'Achieved';
+    const today = new Date(statusDate);
+    today.setHours(0, 0, 0, 0);
+    return task.getMilestoneDate() < today ? 'Overdue' : 'Upcoming';
+  }
+
+  /**
+   * Shorten text with an ellipsis to fit a width at the current font size
+   */
+  private fitText(text: string, maxWidth: number): string {
+    if (this.pdf.getTextWidth(text) <= maxWidth) return text;
+    let shortened = text;
+    while (shortened.length > 1 && this.pdf.getTextWidth(`${shortened}...`) > maxWidth) {
+      shortened = shortened.slice(0, -1);
+    }
+    return `${shortened.trimEnd()}...`;
+  }
+
+  /**
+   * Whole calendar days from one date to another, rounded so daylight
+   * saving changes do not shift positions
+   */
+  private daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  }
+
   /**
    * Format date as MM/DD/YYYY
    */
   private formatDate(date: Date): string {
     return `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}/${date.getFullYear()}`;
   }
-  
+
   /**
    * Format date as MM/DD for timeline header
    */
   private formatShortDate(date: Date): string {
     return `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}`;
   }
-  
+
   /**
    * Convert hex color to RGB
    */
@@ -348,4 +801,4 @@ export class PdfExporter {
       b: parseInt(result[3], 16)
     } : { r: 59, g: 130, b: 246 }; // Default blue
   }
-}
\ No newline at end of file
+}
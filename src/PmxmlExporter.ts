@@ -0,0 +1,258 @@
+import { TaskManager } from './TaskManager';
+import { Calendars } from './Calendars';
+import { XerExporter } from './XerExporter';
+import { XerTable } from './XerImporter';
+import { XerCalendarData } from './XerCalendarData';
+
+/**
+ * PmxmlExporter handles exporting project data to Primavera P6 XML (PMXML)
+ *
+ * The project is first laid out as XER tables by XerExporter, so WBS nodes,
+ * activities, relationships and calendars follow the same rules as an XER
+ * export, then each row is written as its PMXML element:
+ * - CALENDAR → Calendar, with StandardWorkWeek and HolidayOrExceptions
+ * - PROJECT → Project, holding the WBS, Activity and Relationship elements
+ *
+ * PMXML needs numeric ObjectIds, so XER keys like WBS2 are renumbered.
+ * Elements are written in the alphabetical order of the P6 schema.
+ */
+export class PmxmlExporter {
+  private static readonly NAMESPACE = 'http://xmlns.oracle.com/Primavera/P6/V19.12/API/BusinessObjects';
+  /** Activity Type for each XER task_type */
+  private static readonly TASK_TYPES: Record<string, string> = {
+    TT_Task: 'Task Dependent',
+    TT_Mile: 'Start Milestone',
+    TT_FinMile: 'Finish Milestone'
+  };
+  /** Relationship Type for each XER pred_type */
+  private static readonly RELATIONSHIP_TYPES: Record<string, string> = {
+    PR_FS: 'Finish to Start',
+    PR_SS: 'Start to Start',
+    PR_FF: 'Finish to Finish',
+    PR_SF: 'Start to Finish'
+  };
+  /** PrimaryConstraintType for each XER cstr_type */
+  private static readonly CONSTRAINT_TYPES: Record<string, string> = {
+    CS_MSOA: 'Start On or After',
+    CS_MEOB: 'Finish On or Before',
+    CS_MSO: 'Start On'
+  };
+  /** Activity Status for each XER status_code */
+  private static readonly STATUS_CODES: Record<string, string> = {
+    TK_NotStart: 'Not Started',
+    TK_Active: 'In Progress',
+    TK_Complete: 'Completed'
+  };
+  private static readonly DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  private lines: string[] = [];
+  private objectIds: Map<string, number> = new Map(); // XER table and key → PMXML ObjectId
+
+  /**
+   * Export project data from TaskManager to PMXML format
+   */
+  public exportProject(
+    taskManager: TaskManager,
+    projectName: string = 'Construction Project',
+    projectShortName: string = 'CP001'
+  ): string {
+    this.lines = [];
+    this.objectIds.clear();
+
+    const tables = new XerExporter().buildTables(taskManager, projectName, projectShortName);
+    const rows = (name: string) => this.getRows(tables.get(name));
+    const project = rows('PROJECT')[0];
+    // P6 numbers projects and WBS elements from the same sequence
+    const projectId = this.getObjectId('PROJWBS', `project-${project.proj_id}`);
+
+    this.lines.push('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>');
+    this.lines.push(`<APIBusinessObjects xmlns="${PmxmlExporter.NAMESPACE}">`);
+    rows('CALENDAR').forEach(calendar => this.addCalendar(calendar));
+
+    this.lines.push('  <Project>');
+    this.addElement(2, 'ActivityDefaultCalendarObjectId', this.getObjectId('CALENDAR', project.clndr_id));
+    this.addElement(2, 'DataDate', this.toPmxmlDate(project.last_recalc_date));
+    this.addElement(2, 'Id', project.proj_short_name);
+    this.addElement(2, 'Name', project.proj_name);
+    this.addElement(2, 'ObjectId', projectId);
+    this.addElement(2, 'PlannedStartDate', this.toPmxmlDate(project.plan_start_date));
+
+    // The project node is the project itself in PMXML; its children hang off the project
+    const wbsRows = rows('PROJWBS');
+    const projectNodes = new Set(wbsRows.filter(wbs => wbs.proj_node_flag === 'Y').map(wbs => wbs.wbs_id));
+    wbsRows.filter(wbs => !projectNodes.has(wbs.wbs_id)).forEach(wbs => {
+      this.lines.push('    <WBS>');
+      this.addElement(3, 'Code', wbs.wbs_short_name);
+      this.addElement(3, 'Name', wbs.wbs_name);
+      this.addElement(3, 'ObjectId', this.getObjectId('PROJWBS', wbs.wbs_id));
+      this.addElement(3, 'ParentObjectId', projectNodes.has(wbs.parent_wbs_id) || !wbs.parent_wbs_id
+        ? projectId
+        : this.getObjectId('PROJWBS', wbs.parent_wbs_id));
+      this.addElement(3, 'ProjectObjectId', projectId);
+      this.addElement(3, 'SequenceNumber', wbs.seq_num);
+      this.lines.push('    </WBS>');
+    });
+
+    rows('TASK').forEach(task => this.addActivity(task, projectId, projectNodes));
+
+    rows('TASKPRED').forEach(pred => {
+      this.lines.push('    <Relationship>');
+      this.addElement(3, 'Lag', pred.lag_hr_cnt || '0');
+      this.addElement(3, 'ObjectId', this.getObjectId('TASKPRED', pred.task_pred_id));
+      this.addElement(3, 'PredecessorActivityObjectId', this.getObjectId('TASK', pred.pred_task_id));
+      this.addElement(3, 'SuccessorActivityObjectId', this.getObjectId('TASK', pred.task_id));
+      this.addElement(3, 'Type', PmxmlExporter.RELATIONSHIP_TYPES[pred.pred_type] || 'Finish to Start');
+      this.lines.push('    </Relationship>');
+    });
+
+    this.lines.push('  </Project>');
+    this.lines.push('</APIBusinessObjects>');
+    return this.lines.join('\n');
+  }
+
+  /**
+   * A Calendar element for a CALENDAR row, decoding its clndr_data. Work days
+   * run 08:00–16:00 as in the XER export.
+   */
+  private addCalendar(row: Record<string, string>): void {
+    const calendar = XerCalendarData.decode(row.clndr_data, row.clndr_id, row.clndr_name);
+    if (!calendar) return;
+
+    const addWorkTime = (depth: number) => {
+      this.lines.push(`${'  '.repeat(depth)}<WorkTime>`);
+      this.addElement(depth + 1, 'Start', '08:00:00');
+      this.addElement(depth + 1, 'Finish', '16:00:00');
+      this.lines.push(`${'  '.repeat(depth)}</WorkTime>`);
+    };
+    const addException = (key: string, working: boolean) => {
+      this.lines.push('      <HolidayOrException>');
+      this.addElement(4, 'Date', `${key}T00:00:00`);
+      if (working) addWorkTime(4);
+      this.lines.push('      </HolidayOrException>');
+    };
+
+    this.lines.push('  <Calendar>');
+    this.lines.push('    <HolidayOrExceptions>');
+    calendar.holidays.forEach(key => addException(key, false));
+    calendar.exceptions.forEach(exception => {
+      // decode() groups consecutive dates into ranges; PMXML lists each date
+      const date = Calendars.parseDateKey(exception.start);
+      const end = Calendars.parseDateKey(exception.end);
+      for (; date && end && date <= end; date.setDate(date.getDate() + 1)) {
+        addException(Calendars.formatDateKey(date), exception.working);
+      }
+    });
+    this.lines.push('    </HolidayOrExceptions>');
+    this.addElement(2, 'HoursPerDay', 8);
+    this.addElement(2, 'HoursPerWeek', calendar.workWeek.filter(Boolean).length * 8);
+    this.addElement(2, 'IsDefault', row.default_flag === 'Y' ? 'true' : 'false');
+    this.addElement(2, 'Name', row.clndr_name);
+    this.addElement(2, 'ObjectId', this.getObjectId('CALENDAR', row.clndr_id));
+    this.lines.push('    <StandardWorkWeek>');
+    calendar.workWeek.forEach((worked, index) => {
+      this.lines.push('      <StandardWorkHours>');
+      this.addElement(4, 'DayOfWeek', PmxmlExporter.DAYS_OF_WEEK[index]);
+      if (worked) addWorkTime(4);
+      this.lines.push('      </StandardWorkHours>');
+    });
+    this.lines.push('    </StandardWorkWeek>');
+    this.addElement(2, 'Type', 'Global');
+    this.lines.push('  </Calendar>');
+  }
+
+  /**
+   * An Activity element for a TASK row. Percent complete is a fraction in PMXML.
+   */
+  private addActivity(task: Record<string, string>, projectId: number, projectNodes: Set<string>): void {
+    this.lines.push('    <Activity>');
+    this.addElement(3, 'ActualFinishDate', this.toPmxmlDate(task.act_end_date));
+    this.addElement(3, 'ActualStartDate', this.toPmxmlDate(task.act_start_date));
+    this.addElement(3, 'CalendarObjectId', this.getObjectId('CALENDAR', task.clndr_id));
+    this.addElement(3, 'Id', task.task_code);
+    this.addElement(3, 'Name', task.task_name);
+    this.addElement(3, 'ObjectId', this.getObjectId('TASK', task.task_id));
+    this.addElement(3, 'PercentCompleteType', 'Physical');
+    this.addElement(3, 'PhysicalPercentComplete', (parseFloat(task.phys_complete_pct) || 0) / 100);
+    this.addElement(3, 'PlannedDuration', task.target_drtn_hr_cnt);
+    this.addElement(3, 'PlannedFinishDate', this.toPmxmlDate(task.target_end_date));
+    this.addElement(3, 'PlannedStartDate', this.toPmxmlDate(task.target_start_date));
+    this.addElement(3, 'PrimaryConstraintDate', this.toPmxmlDate(task.cstr_date));
+    this.addElement(3, 'PrimaryConstraintType', PmxmlExporter.CONSTRAINT_TYPES[task.cstr_type]);
+    this.addElement(3, 'ProjectObjectId', projectId);
+    this.addElement(3, 'RemainingDuration', task.remain_drtn_hr_cnt);
+    this.addElement(3, 'Status', PmxmlExporter.STATUS_CODES[task.status_code] || 'Not Started');
+    this.addElement(3, 'Type', PmxmlExporter.TASK_TYPES[task.task_type] || 'Task Dependent');
+    if (!projectNodes.has(task.wbs_id)) {
+      this.addElement(3, 'WBSObjectId', this.getObjectId('PROJWBS', task.wbs_id));
+    }
+    this.lines.push('    </Activity>');
+  }
+
+  /**
+   * Rows of an XER table as column → value records
+   */
+  private getRows(table: XerTable | undefined): Record<string, string>[] {
+    if (!table) return [];
+    return table.rows.map(row => {
+      const record: Record<string, string> = {};
+      table.columns.forEach((column, index) => { record[column] = row[index] || ''; });
+      return record;
+    });
+  }
+
+  /**
+   * Numeric ObjectId for an XER key, numbered per table in order of first use
+   */
+  private getObjectId(table: string, key: string): number {
+    const mapKey = `${table}|${key}`;
+    if (!this.objectIds.has(mapKey)) {
+      const count = Array.from(this.objectIds.keys()).filter(k => k.startsWith(`${table}|`)).length;
+      this.objectIds.set(mapKey, count + 1);
+    }
+    return this.objectIds.get(mapKey)!;
+  }
+
+  /**
+   * Write an element; empty values are left out
+   */
+  private addElement(depth: number, name: string, value: string | number | undefined): void {
+    if (value === undefined || value === '') return;
+    this.lines.push(`${'  '.repeat(depth)}<${name}>${this.escapeXml(String(value))}</${name}>`);
+  }
+
+  /**
+   * 2025-01-06 08:00 as PMXML writes it, 2025-01-06T08:00:00
+   */
+  private toPmxmlDate(value: string): string {
+    const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2})/.exec(value || '');
+    return match ? `${match[1]}T${match[2]}:00` : '';
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Save PMXML content to a file for download
+   */
+  public downloadPmxml(filename: string, content: string): void {
+    const blob = new Blob([content], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename.endsWith('.xml') ? filename : `${filename}.xml`;
+    document.body.appendChild(a);
+    a.click();
+
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+}
@@ -0,0 +1,282 @@
+import { Calendars, WorkCalendar } from './Calendars';
+import { XerImporter, XerImportResult, XerTable } from './XerImporter';
+import { XerCalendarData } from './XerCalendarData';
+
+/**
+ * PmxmlImporter handles importing Primavera P6 XML (PMXML) files
+ *
+ * PMXML holds the same P6 objects as an XER file, as XML elements with
+ * readable values ("Finish to Start") where XER has codes (PR_FS):
+ * - Calendar: StandardWorkWeek and HolidayOrExceptions (CALENDAR)
+ * - Project: data date and default calendar (PROJECT)
+ * - WBS, Activity, Relationship inside the Project (PROJWBS, TASK, TASKPRED)
+ *
+ * The elements are translated into XER tables and converted by XerImporter,
+ * so both P6 formats map WBS, activities, relationships and calendars the
+ * same way. Only the first project in the file is imported.
+ */
+export class PmxmlImporter {
+  /** XER task_type for each PMXML activity Type */
+  private static readonly TASK_TYPES: Record<string, string> = {
+    'Task Dependent': 'TT_Task',
+    'Resource Dependent': 'TT_Rsrc',
+    'Level of Effort': 'TT_LOE',
+    'Start Milestone': 'TT_Mile',
+    'Finish Milestone': 'TT_FinMile',
+    'WBS Summary': 'TT_WBS'
+  };
+  /** XER pred_type for each relationship Type */
+  private static readonly RELATIONSHIP_TYPES: Record<string, string> = {
+    'Finish to Start': 'PR_FS',
+    'Start to Start': 'PR_SS',
+    'Finish to Finish': 'PR_FF',
+    'Start to Finish': 'PR_SF'
+  };
+  /** XER cstr_type for each PrimaryConstraintType */
+  private static readonly CONSTRAINT_TYPES: Record<string, string> = {
+    'Start On or After': 'CS_MSOA',
+    'Finish On or Before': 'CS_MEOB',
+    'Start On': 'CS_MSO',
+    'Mandatory Start': 'CS_MANDSTART',
+    'Start On or Before': 'CS_MSOB',
+    'Finish On or After': 'CS_MEOA',
+    'Finish On': 'CS_MEO',
+    'Mandatory Finish': 'CS_MANDFIN',
+    'As Late As Possible': 'CS_ALAP'
+  };
+  /** XER status_code for each activity Status */
+  private static readonly STATUS_CODES: Record<string, string> = {
+    'Not Started': 'TK_NotStart',
+    'In Progress': 'TK_Active',
+    'Completed': 'TK_Complete'
+  };
+  private static readonly DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  private tables: Map<string, XerTable> = new Map();
+
+  constructor() {}
+
+  /**
+   * Import a PMXML file and return task configurations for DingPlan
+   */
+  public async importPmxmlFile(file: File): Promise<XerImportResult> {
+    try {
+      const result = this.importPmxml(await file.text());
+
+      console.log('PMXML import successful:', {
+        tasks: result.tasks.length,
+        swimlanes: result.swimlanes.length
+      });
+
+      return result;
+    } catch (error) {
+      console.error('PMXML import failed:', error);
+      throw new Error(`P6 XML import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Convert PMXML text to DingPlan task configurations
+   */
+  public importPmxml(xml: string): XerImportResult {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('File is not valid XML');
+    }
+
+    const root = doc.documentElement;
+    const project = this.getChild(root, 'Project');
+    if (!root || root.localName !== 'APIBusinessObjects' || !project) {
+      throw new Error('No Project element found in P6 XML');
+    }
+
+    this.tables.clear();
+    // Global calendars sit beside the project, project calendars inside it
+    this.addCalendars([...this.getChildren(root, 'Calendar'), ...this.getChildren(project, 'Calendar')]);
+    this.addProject(project);
+    this.addWbs(project);
+    this.addActivities(project);
+    this.addRelationships([...this.getChildren(project, 'Relationship'), ...this.getChildren(root, 'Relationship')]);
+
+    return new XerImporter().importTables(this.tables);
+  }
+
+  /**
+   * CALENDAR rows, with the work week and exceptions encoded as clndr_data.
+   * Resource calendars are skipped as activities cannot use them.
+   */
+  private addCalendars(elements: Element[]): void {
+    const rows = elements
+      .filter(element => this.getText(element, 'Type') !== 'Resource')
+      .map(element => {
+        const objectId = this.getText(element, 'ObjectId');
+        const name = this.getText(element, 'Name') || `Calendar ${objectId}`;
+        const isDefault = ['1', 'true'].includes(this.getText(element, 'IsDefault').toLowerCase());
+        return {
+          clndr_id: objectId,
+          clndr_name: name,
+          default_flag: isDefault ? 'Y' : 'N',
+          clndr_data: XerCalendarData.encode(this.parseCalendar(element, objectId, name))
+        };
+      });
+    this.addTable('CALENDAR', rows);
+  }
+
+  /**
+   * A day is worked when it has a WorkTime with a start; exceptions without
+   * one are days off
+   */
+  private parseCalendar(element: Element, objectId: string, name: string): WorkCalendar {
+    const isWorked = (day: Element) => this.getChildren(day, 'WorkTime').some(time => this.getText(time, 'Start'));
+    const calendar: WorkCalendar = { id: objectId, name, workWeek: [false, true, true, true, true, true, false], holidays: [], exceptions: [] };
+
+    this.getChildren(this.getChild(element, 'StandardWorkWeek'), 'StandardWorkHours').forEach(day => {
+      const index = PmxmlImporter.DAYS_OF_WEEK.indexOf(this.getText(day, 'DayOfWeek'));
+      if (index >= 0) calendar.workWeek[index] = isWorked(day);
+    });
+
+    this.getChildren(this.getChild(element, 'HolidayOrExceptions'), 'HolidayOrException').forEach(exception => {
+      const date = Calendars.parseDateKey(this.getText(exception, 'Date').substring(0, 10));
+      if (!date) return;
+      const key = Calendars.formatDateKey(date);
+      if (isWorked(exception)) {
+        calendar.exceptions.push({ name: 'Working', start: key, end: key, working: true });
+      } else {
+        calendar.holidays.push(key);
+      }
+    });
+
+    return calendar;
+  }
+
+  private addProject(project: Element): void {
+    this.addTable('PROJECT', [{
+      proj_id: this.getText(project, 'ObjectId'),
+      proj_short_name: this.getText(project, 'Id'),
+      proj_name: this.getText(project, 'Name'),
+      clndr_id: this.getText(project, 'ActivityDefaultCalendarObjectId'),
+      last_recalc_date: this.toXerDate(this.getText(project, 'DataDate'))
+    }]);
+  }
+
+  /**
+   * PROJWBS rows. Top-level WBS elements point at the project, which is not
+   * a WBS element in PMXML, so they become top-level swimlanes.
+   */
+  private addWbs(project: Element): void {
+    this.addTable('PROJWBS', this.getChildren(project, 'WBS').map(element => ({
+      wbs_id: this.getText(element, 'ObjectId'),
+      parent_wbs_id: this.getText(element, 'ParentObjectId'),
+      seq_num: this.getText(element, 'SequenceNumber'),
+      wbs_short_name: this.getText(element, 'Code'),
+      wbs_name: this.getText(element, 'Name'),
+      proj_node_flag: 'N'
+    })));
+  }
+
+  /**
+   * TASK rows. Durations are hours in both formats; PMXML percentages are
+   * fractions where XER has 0-100.
+   */
+  private addActivities(project: Element): void {
+    this.addTable('TASK', this.getChildren(project, 'Activity').map(element => {
+      const percent = parseFloat(this.getText(element, 'PhysicalPercentComplete'));
+      return {
+        task_id: this.getText(element, 'ObjectId'),
+        task_code: this.getText(element, 'Id'),
+        task_name: this.getText(element, 'Name'),
+        task_type: PmxmlImporter.TASK_TYPES[this.getText(element, 'Type')] || 'TT_Task',
+        wbs_id: this.getText(element, 'WBSObjectId'),
+        clndr_id: this.getText(element, 'CalendarObjectId'),
+        status_code: PmxmlImporter.STATUS_CODES[this.getText(element, 'Status')] || '',
+        target_start_date: this.toXerDate(this.getText(element, 'PlannedStartDate') || this.getText(element, 'StartDate')),
+        target_end_date: this.toXerDate(this.getText(element, 'PlannedFinishDate') || this.getText(element, 'FinishDate')),
+        target_drtn_hr_cnt: this.getText(element, 'PlannedDuration'),
+        remain_drtn_hr_cnt: this.getText(element, 'RemainingDuration'),
+        act_start_date: this.toXerDate(this.getText(element, 'ActualStartDate')),
+        act_end_date: this.toXerDate(this.getText(element, 'ActualFinishDate')),
+        phys_complete_pct: isNaN(percent) ? '' : String(percent * 100),
+        cstr_type: PmxmlImporter.CONSTRAINT_TYPES[this.getText(element, 'PrimaryConstraintType')] || '',
+        cstr_date: this.toXerDate(this.getText(element, 'PrimaryConstraintDate'))
+      };
+    }));
+  }
+
+  /**
+   * TASKPRED rows; lags are hours in both formats
+   */
+  private addRelationships(elements: Element[]): void {
+    this.addTable('TASKPRED', elements.map(element => ({
+      task_pred_id: this.getText(element, 'ObjectId'),
+      task_id: this.getText(element, 'SuccessorActivityObjectId'),
+      pred_task_id: this.getText(element, 'PredecessorActivityObjectId'),
+      pred_type: PmxmlImporter.RELATIONSHIP_TYPES[this.getText(element, 'Type')] || 'PR_FS',
+      lag_hr_cnt: this.getText(element, 'Lag')
+    })));
+  }
+
+  private addTable(name: string, rows: Record<string, string>[]): void {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    this.tables.set(name, { columns, rows: rows.map(row => columns.map(column => row[column] || '')) });
+  }
+
+  /**
+   * 2025-01-06T08:00:00 as XER writes it, 2025-01-06 08:00
+   */
+  private toXerDate(value: string): string {
+    const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/.exec(value);
+    return match ? `${match[1]} ${match[2]}` : value;
+  }
+
+  private getChild(parent: Element | null, name: string): Element | null {
+    if (!parent) return null;
+    return Array.from(parent.children).find(child => child.localName === name) || null;
+  }
+
+  private getChildren(parent: Element | null, name: string): Element[] {
+    if (!parent) return [];
+    return Array.from(parent.children).filter(child => child.localName === name);
+  }
+
+  private getText(parent: Element | null, name: string): string {
+    return this.getChild(parent, name)?.textContent?.trim() || '';
+  }
+
+  /**
+   * Show file picker and import a P6 XML file
+   */
+  public static showImportDialog(): Promise<XerImportResult> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.xml,.XML';
+      input.style.display = 'none';
+
+      input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) {
+          reject(new Error('No file selected'));
+          return;
+        }
+
+        try {
+          const importer = new PmxmlImporter();
+          const result = await importer.importPmxmlFile(file);
+          document.body.removeChild(input);
+          resolve(result);
+        } catch (error) {
+          document.body.removeChild(input);
+          reject(error);
+        }
+      };
+
+      input.oncancel = () => {
+        document.body.removeChild(input);
+        reject(new Error('File selection cancelled'));
+      };
+
+      document.body.appendChild(input);
+      input.click();
+    });
+  }
+}
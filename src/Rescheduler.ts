@@ -0,0 +1,141 @@
+import { Task } from './Task';
+import { CriticalPath } from './CriticalPath';
+
+/** auto reschedules successors when tasks move; manual leaves them and flags broken links */
+export type ScheduleMode = 'auto' | 'manual';
+
+/**
+ * Rescheduler ripples a change to some tasks through their successors
+ *
+ * Moved tasks keep the dates the user gave them. Every task downstream of
+ * them is visited in dependency order and its start is compared with the
+ * latest start its predecessor links allow:
+ * - push: successors that would start too early move later
+ * - pull (optional): successors also move earlier to close gaps
+ * Constraints are respected: MSO tasks never move and SNET tasks are never
+ * pulled before their date.
+ *
+ * Like CriticalPath, the class has no DOM dependencies.
+ */
+export class Rescheduler {
+  private taskMap: Map<string, Task> = new Map();
+  private successors: Map<string, Task[]> = new Map();
+
+  constructor(tasks: Task[]) {
+    tasks.forEach(task => {
+      this.taskMap.set(task.id, task);
+      this.successors.set(task.id, []);
+    });
+
+    tasks.forEach(task => {
+      this.getPredecessors(task).forEach(pred => {
+        this.successors.get(pred.id)!.push(task);
+      });
+    });
+  }
+
+  /**
+   * New start dates for successors of the moved tasks
+   * @param movedTaskIds Tasks the user moved or resized; these are not rescheduled
+   * @param pull Whether successors may also move earlier
+   * @returns Proposed start date per task ID, only for tasks that would move
+   */
+  calculateRipple(movedTaskIds: Iterable<string>, pull: boolean = false): Map<string, Date> {
+    const moved = new Set(movedTaskIds);
+    const proposed = new Map<string, Date>();
+
+    this.getDownstreamOrder(moved).forEach(task => {
+      if (task.constraintType === 'MSO') return;
+
+      let required: Date | null = null;
+      this.getPredecessors(task).forEach(pred => {
+        const predStart = proposed.get(pred.id) || pred.startDate;
+        const predFinish = pred.addWorkDays(predStart, pred.duration);
+        const linkStart = CriticalPath.linkEarlyStart(pred, predStart, predFinish, task);
+        if (!required || linkStart > required) {
+          required = linkStart;
+        }
+      });
+      if (!required) return;
+
+      const constraintStart = task.getConstraintStart();
+      let newStart: Date = required;
+      if (constraintStart && constraintStart > newStart) {
+        newStart = constraintStart;
+      }
+
+      const shift = task.workDaysBetween(task.startDate, newStart);
+      if (shift > 0 || (pull && shift < 0)) {
+        proposed.set(task.id, newStart);
+      }
+    });
+
+    return proposed;
+  }
+
+  /**
+   * Links whose successor starts earlier than the link allows, keyed by CriticalPath.linkKey
+   */
+  getViolatedLinks(): Set<string> {
+    const violated = new Set<string>();
+    this.taskMap.forEach(task => {
+      this.getPredecessors(task).forEach(pred => {
+        const linkStart = CriticalPath.linkEarlyStart(pred, pred.startDate, pred.getEndDate(), task);
+        if (task.workDaysBetween(task.startDate, linkStart) > 0) {
+          violated.add(CriticalPath.linkKey(pred.id, task.id));
+        }
+      });
+    });
+    return violated;
+  }
+
+  private getPredecessors(task: Task): Task[] {
+    if (!Array.isArray(task.dependencies)) return [];
+
+    return task.dependencies
+      .map(depId => this.taskMap.get(depId))
+      .filter((pred): pred is Task => !!pred && pred !== task);
+  }
+
+  /**
+   * Tasks reachable from the moved tasks, excluding the moved tasks, with
+   * every task after all of its affected predecessors. Tasks caught in a
+   * dependency loop are left out.
+   */
+  private getDownstreamOrder(moved: Set<string>): Task[] {
+    const affected = new Set<string>();
+    const stack = Array.from(moved);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      (this.successors.get(id) || []).forEach(succ => {
+        if (!moved.has(succ.id) && !affected.has(succ.id)) {
+          affected.add(succ.id);
+          stack.push(succ.id);
+        }
+      });
+    }
+
+    const inDegree = new Map<string, number>();
+    affected.forEach(id => {
+      const task = this.taskMap.get(id)!;
+      inDegree.set(id, this.getPredecessors(task).filter(pred => affected.has(pred.id)).length);
+    });
+
+    const queue = Array.from(affected).filter(id => inDegree.get(id) === 0);
+    const order: Task[] = [];
+    while (queue.length > 0) {
+      const task = this.taskMap.get(queue.shift()!)!;
+      order.push(task);
+      (this.successors.get(task.id) || []).forEach(succ => {
+        if (!affected.has(succ.id)) return;
+        const remaining = inDegree.get(succ.id)! - 1;
+        inDegree.set(succ.id, remaining);
+        if (remaining === 0) {
+          queue.push(succ.id);
+        }
+      });
+    }
+
+    return order;
+  }
+}
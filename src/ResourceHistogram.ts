@@ -1,6 +1,9 @@
 import { TimeAxis } from './TimeAxis';
 import { Camera } from './Camera';
 import { Task } from './Task';
+import { Calendars } from './Calendars';
+import { Trades } from './Trades';
+import { ResourceLeveler } from './ResourceLeveler';
 
 interface TradeResource {
   color: string;
@@ -28,6 +31,9 @@ export class ResourceHistogram {
   private maxWeeklyResource: number = 0;
   private maxMonthlyResource: number = 0;
   private tradeFilters: Map<string, boolean> = new Map(); // Store which trades should be displayed
+  private dailyOverloads: Map<string, Map<string, number>> = new Map(); // Date string -> Map<color, capacity> for over-allocated trades
+  private weeklyOverloads: Set<string> = new Set(); // Weeks with at least one over-allocated day
+  private monthlyOverloads: Set<string> = new Set(); // Months with at least one over-allocated day
 
   constructor(private timeAxis: TimeAxis) {
     // Initialize all trade filters to true (show all)
@@ -58,6 +64,7 @@ export class ResourceHistogram {
     this.maxDailyResource = 0;
     this.maxWeeklyResource = 0;
     this.maxMonthlyResource = 0;
+    this.calculateOverloads(tasks);
 
     // Group tasks by date, color, and sum crew sizes
     tasks.forEach(task => {
@@ -71,11 +78,11 @@ export class ResourceHistogram {
         return;
       }
       
-      // For each day in the task duration
+      // For each day in the task duration (the end date is exclusive)
       let currentDate = new Date(startDate);
-      while (currentDate <= endDate) {
-        // Skip weekends
-        if (!this.isWeekend(currentDate)) {
+      while (currentDate < endDate) {
+        // Skip the task's days off
+        if (!this.isWeekend(currentDate, task)) {
           // Process daily resources
           this.addResourceToMap(this.dailyResources, this.formatDailyKey(currentDate), color, task.crewSize);
           
@@ -98,6 +105,41 @@ export class ResourceHistogram {
     this.averageWeeklyAndMonthlyResources();
   }
 
+  /**
+   * Mark days on which a trade needs more crew than its capacity. Capacity is
+   * physical, so every task counts even when its trade is filtered out.
+   */
+  private calculateOverloads(tasks: Task[]): void {
+    this.dailyOverloads.clear();
+    this.weeklyOverloads.clear();
+    this.monthlyOverloads.clear();
+
+    ResourceLeveler.findOverloads(tasks).forEach(overload => {
+      const trade = Trades.getTradeById(overload.tradeId);
+      if (!trade) return;
+
+      const dateKey = this.formatDailyKey(overload.date);
+      if (!this.dailyOverloads.has(dateKey)) {
+        this.dailyOverloads.set(dateKey, new Map());
+      }
+      this.dailyOverloads.get(dateKey)!.set(trade.color, overload.capacity);
+      this.weeklyOverloads.add(this.formatWeeklyKey(overload.date));
+      this.monthlyOverloads.add(this.formatMonthlyKey(overload.date));
+    });
+  }
+
+  /**
+   * Whether any day is over capacity for a visible trade
+   */
+  hasOverloads(): boolean {
+    for (const colorMap of this.dailyOverloads.values()) {
+      for (const color of colorMap.keys()) {
+        if (!this.tradeFilters.has(color) || this.tradeFilters.get(color)) return true;
+      }
+    }
+    return false;
+  }
+
   private addResourceToMap(resourceMap: Map<string, Map<string, number>>, dateKey: string, color: string, crewSize: number): void {
     // Initialize map for this date if needed
     if (!resourceMap.has(dateKey)) {
@@ -232,9 +274,13 @@ export class ResourceHistogram {
     });
   }
 
-  private isWeekend(date: Date): boolean {
-    const day = date.getDay();
-    return day === 0 || day === 6; // 0 is Sunday, 6 is Saturday
+  /**
+   * Whether a date is a day off on the task's calendar, or on the project
+   * calendar when no task is given
+   */
+  private isWeekend(date: Date, task?: Task): boolean {
+    if (task) return task.isNonWorkingDay(date);
+    return !Calendars.isWorkDay(Calendars.getProjectCalendar(), date);
   }
 
   private formatDailyKey(date: Date): string {
@@ -391,9 +437,9 @@ export class ResourceHistogram {
     
     // Draw stacked bars for each day
     while (currentDate <= rightDate) {
-      // Skip weekends
-      if (!this.isWeekend(currentDate)) {
-        const dateKey = this.formatDailyKey(currentDate);
+      // Skip days off unless a task with its own calendar works that day
+      const dateKey = this.formatDailyKey(currentDate);
+      if (!this.isWeekend(currentDate) || this.dailyResources.has(dateKey)) {
         const colorMap = this.dailyResources.get(dateKey);
         
         if (colorMap && colorMap.size > 0) {
@@ -423,6 +469,7 @@ export class ResourceHistogram {
           // Draw stacked bars
           let currentY = histogramY + 25 + maxBarHeight;
           let currentTotal = 0;
+          const overloads = this.dailyOverloads.get(dateKey);
           
           sortedTrades.forEach(([color, value]) => {
             const barHeight = (value / maxResource) * maxBarHeight;
@@ -437,9 +484,24 @@ export class ResourceHistogram {
             ctx.lineWidth = 1;
             ctx.strokeRect(screenX - barWidth/2, currentY, barWidth, barHeight);
             
+            // Shade the crew above the trade's capacity in red
+            const capacity = overloads?.get(color);
+            if (capacity !== undefined && value > capacity) {
+              const excessHeight = ((value - capacity) / maxResource) * maxBarHeight;
+              ctx.fillStyle = ResourceHistogram.OVERLOAD_FILL;
+              ctx.fillRect(screenX - barWidth/2, currentY, barWidth, excessHeight);
+              ctx.strokeStyle = ResourceHistogram.OVERLOAD_COLOR;
+              ctx.lineWidth = 2;
+              ctx.strokeRect(screenX - barWidth/2, currentY, barWidth, barHeight);
+            }
+            
             currentTotal += value;
           });
           
+          if (overloads && sortedTrades.some(([color]) => overloads.has(color))) {
+            this.drawOverloadMarker(ctx, screenX, currentY);
+          }
+          
           // Draw total value on top of the bar if there's enough room
           const totalBarHeight = (totalForDate / maxResource) * maxBarHeight;
           if (totalBarHeight > 15) {
@@ -536,6 +598,10 @@ export class ResourceHistogram {
           ctx.fillText(totalForWeek.toString(), screenX, currentY + 12);
         }
         
+        if (this.weeklyOverloads.has(weekKey)) {
+          this.drawOverloadMarker(ctx, screenX, currentY);
+        }
+        
         // Removed week label per user request
       }
       
@@ -617,6 +683,10 @@ export class ResourceHistogram {
           ctx.fillText(totalForMonth.toString(), screenX, currentY + 12);
         }
         
+        if (this.monthlyOverloads.has(monthKey)) {
+          this.drawOverloadMarker(ctx, screenX, currentY);
+        }
+        
         // Removed month label per user request
       }
       
@@ -624,4 +694,27 @@ export class ResourceHistogram {
       currentDate.setMonth(currentDate.getMonth() + 1);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Red warning triangle above a bar that exceeds a trade's capacity
+   */
+  private drawOverloadMarker(ctx: CanvasRenderingContext2D, x: number, barTop: number): void {
+    const size = 7;
+    const y = Math.max(barTop - 4, size * 2);
+    ctx.fillStyle = ResourceHistogram.OVERLOAD_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(x, y - size * 1.6);
+    ctx.lineTo(x + size, y);
+    ctx.lineTo(x - size, y);
+    ctx.closePath();
+    ctx.fill();
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 9px Inter, system-ui, -apple-system, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('!', x, y - 1);
+  }
+
+  // Over-allocation overlay colors
+  static readonly OVERLOAD_COLOR = '#dc2626';
+  static readonly OVERLOAD_FILL = 'rgba(220, 38, 38, 0.45)';
+}
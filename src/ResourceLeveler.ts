@@ -0,0 +1,218 @@
+import { Task } from './Task';
+import { Trade } from './Trades';
+import { CriticalPath } from './CriticalPath';
+import { Rescheduler } from './Rescheduler';
+
+/**
+ * A day on which a trade needs more crew than it has
+ */
+export interface ResourceOverload {
+  tradeId: string;
+  tradeName: string;
+  date: Date;
+  /** Crew scheduled on that day */
+  demand: number;
+  /** Crew available per day */
+  capacity: number;
+}
+
+/**
+ * A task the leveler moved, with the reason it moved
+ */
+export interface LevelingMove {
+  taskId: string;
+  taskName: string;
+  from: Date;
+  to: Date;
+  /** Work days the task was delayed */
+  delay: number;
+  reason: string;
+}
+
+export interface LevelingResult {
+  moves: LevelingMove[];
+  /** Overloads that could not be removed without delaying the project */
+  unresolved: ResourceOverload[];
+}
+
+/**
+ * ResourceLeveler removes trade over-allocations by delaying tasks within
+ * their float
+ *
+ * The leveler repeatedly takes the earliest overloaded day and delays one of
+ * the trade's tasks working that day by one work day, pushing its successors
+ * along. Critical tasks never move and a delay that would move the project
+ * finish or break a constraint is undone, so leveling stays within float;
+ * the task with the most float goes first. Started tasks and Must Start On
+ * tasks stay put. Overloads no task can absorb are reported back.
+ *
+ * Like CriticalPath, the class has no DOM dependencies and works on the
+ * tasks it is given: the start dates of moved tasks are updated in place.
+ */
+export class ResourceLeveler {
+  static readonly MAX_ITERATIONS = 2000;
+
+  constructor(
+    private tasks: Task[],
+    private dataDate: Date | null = null
+  ) {}
+
+  /**
+   * Days on which any trade with a capacity is over-allocated, earliest first
+   */
+  static findOverloads(tasks: Task[]): ResourceOverload[] {
+    const demand = new Map<string, { trade: Trade; date: Date; crew: number }>();
+
+    tasks.forEach(task => {
+      const trade = task.getTrade();
+      if (!trade || !trade.capacity) return;
+
+      ResourceLeveler.getWorkDays(task).forEach(date => {
+        const key = `${trade.id}|${date.getTime()}`;
+        const entry = demand.get(key) || { trade, date, crew: 0 };
+        entry.crew += task.crewSize;
+        demand.set(key, entry);
+      });
+    });
+
+    const overloads: ResourceOverload[] = [];
+    demand.forEach(({ trade, date, crew }) => {
+      if (crew > trade.capacity!) {
+        overloads.push({ tradeId: trade.id, tradeName: trade.name, date, demand: crew, capacity: trade.capacity! });
+      }
+    });
+
+    return overloads.sort((a, b) => a.date.getTime() - b.date.getTime() || a.tradeName.localeCompare(b.tradeName));
+  }
+
+  /**
+   * Work days a task occupies, from its start up to its (exclusive) end
+   */
+  static getWorkDays(task: Task): Date[] {
+    const days: Date[] = [];
+    const current = new Date(task.startDate);
+    current.setHours(0, 0, 0, 0);
+    const end = task.getEndDate();
+    while (current < end) {
+      if (!task.isNonWorkingDay(current)) {
+        days.push(new Date(current));
+      }
+      current.setDate(current.getDate() + 1);
+    }
+    return days;
+  }
+
+  /**
+   * Level the schedule and report what moved and why
+   */
+  level(): LevelingResult {
+    const originalStarts = new Map(this.tasks.map(task => [task.id, new Date(task.startDate)]));
+    const projectFinish = this.getProjectFinish();
+    const reasons = new Map<string, string>();
+    const unresolved: ResourceOverload[] = [];
+    const skipped = new Set<string>();
+
+    for (let i = 0; i < ResourceLeveler.MAX_ITERATIONS; i++) {
+      const overload = ResourceLeveler.findOverloads(this.tasks)
+        .find(o => !skipped.has(`${o.tradeId}|${o.date.getTime()}`));
+      if (!overload) break;
+
+      const delayed = this.getCandidates(overload).find(task => this.tryDelay(task, projectFinish, reasons));
+      if (!delayed) {
+        skipped.add(`${overload.tradeId}|${overload.date.getTime()}`);
+        unresolved.push(overload);
+        continue;
+      }
+
+      if (!reasons.has(delayed.id)) {
+        reasons.set(delayed.id, `${overload.tradeName} over capacity on ${ResourceLeveler.formatDate(overload.date)} (${overload.demand} of ${overload.capacity} crew)`);
+      }
+
+      if (i === ResourceLeveler.MAX_ITERATIONS - 1) {
+        console.warn('[ResourceLeveler] Stopped after the maximum number of iterations');
+      }
+    }
+
+    const moves: LevelingMove[] = [];
+    this.tasks.forEach(task => {
+      const from = originalStarts.get(task.id)!;
+      if (from.getTime() === task.startDate.getTime()) return;
+      moves.push({
+        taskId: task.id,
+        taskName: task.name,
+        from,
+        to: new Date(task.startDate),
+        delay: task.workDaysBetween(from, task.startDate),
+        reason: reasons.get(task.id) || 'Leveled'
+      });
+    });
+    moves.sort((a, b) => a.from.getTime() - b.from.getTime());
+
+    return { moves, unresolved };
+  }
+
+  /**
+   * Non-critical tasks of the overloaded trade working that day, most float first
+   */
+  private getCandidates(overload: ResourceOverload): Task[] {
+    const { results } = new CriticalPath(this.tasks, this.dataDate).calculate();
+    const day = overload.date.getTime();
+
+    const candidates = this.tasks.filter(task => {
+      if (task.getTrade()?.id !== overload.tradeId) return false;
+      if (task.actualStart || task.constraintType === 'MSO') return false;
+      const result = results.get(task.id);
+      if (!result || result.isCritical) return false;
+      return ResourceLeveler.getWorkDays(task).some(date => date.getTime() === day);
+    });
+
+    return candidates.sort((a, b) =>
+      results.get(b.id)!.totalFloat - results.get(a.id)!.totalFloat ||
+      b.startDate.getTime() - a.startDate.getTime() ||
+      a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * Delay a task by one work day and push its successors. The change is
+   * undone if it would move the project finish or break a constraint.
+   */
+  private tryDelay(task: Task, projectFinish: Date, reasons: Map<string, string>): boolean {
+    const newStart = task.addWorkDays(task.startDate, 1);
+    const originalStart = task.startDate;
+
+    task.startDate = newStart;
+    const pushed = new Rescheduler(this.tasks).calculateRipple([task.id]);
+    const previous = new Map<Task, Date>();
+    pushed.forEach((startDate, taskId) => {
+      const successor = this.tasks.find(t => t.id === taskId)!;
+      previous.set(successor, successor.startDate);
+      successor.startDate = startDate;
+    });
+
+    const moved = [task, ...previous.keys()];
+    if (this.getProjectFinish() > projectFinish || moved.some(t => t.isConstraintViolated())) {
+      task.startDate = originalStart;
+      previous.forEach((startDate, successor) => { successor.startDate = startDate; });
+      return false;
+    }
+
+    previous.forEach((_, successor) => {
+      if (!reasons.has(successor.id)) {
+        reasons.set(successor.id, `Pushed by ${task.name}`);
+      }
+    });
+    return true;
+  }
+
+  private getProjectFinish(): Date {
+    return this.tasks.reduce((finish, task) => {
+      const end = task.getEndDate();
+      return end > finish ? end : finish;
+    }, new Date(0));
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * A schedule carried in a share link
+ */
+export interface SharedProject {
+  name: string;
+  /** Schedule in the shape of TaskManager.exportState */
+  state: any;
+}
+
+/** Format of the encoded payload; bump when the shape of SharedProject changes */
+export const SHARE_LINK_VERSION = 1;
+
+// Longer links get cut off by mail and chat apps, or rejected by servers
+export const MAX_SHARE_LINK_LENGTH = 32000;
+
+/**
+ * ShareLink packs a schedule into the hash of a URL and back:
+ * - The payload is a version byte followed by the deflated JSON, written as
+ *   URL-safe base64 without padding
+ * - New links use `#view=`; older `#share=` links, which hold the project
+ *   JSON base64-encoded as is, can still be opened
+ */
+export class ShareLink {
+  /**
+   * Encode a schedule for the hash of a share link
+   */
+  static async encode(project: SharedProject): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(project));
+    const compressed = await ShareLink.transform(json, new CompressionStream('deflate-raw'));
+
+    const bytes = new Uint8Array(compressed.length + 1);
+    bytes[0] = SHARE_LINK_VERSION;
+    bytes.set(compressed, 1);
+    return ShareLink.toBase64Url(bytes);
+  }
+
+  /**
+   * Decode a schedule encoded by encode
+   */
+  static async decode(encoded: string): Promise<SharedProject> {
+    const bytes = ShareLink.fromBase64Url(encoded);
+    if (bytes.length === 0) {
+      throw new Error('The share link is empty');
+    }
+    if (bytes[0] !== SHARE_LINK_VERSION) {
+      throw new Error(`Unsupported share link format ${bytes[0]}; it may come from a newer version of DingPlan`);
+    }
+
+    const json = await ShareLink.transform(bytes.subarray(1), new DecompressionStream('deflate-raw'));
+    const project = JSON.parse(new TextDecoder().decode(json));
+    if (!project || typeof project !== 'object' || !project.state) {
+      throw new Error('The share link does not contain a schedule');
+    }
+    return project;
+  }
+
+  /**
+   * Full share link for a schedule, on the current page
+   */
+  static async createUrl(project: SharedProject): Promise<string> {
+    return `${window.location.origin}${window.location.pathname}#view=${await ShareLink.encode(project)}`;
+  }
+
+  /**
+   * Read the schedule from a URL hash
+   * @returns null when the hash is not a share link
+   */
+  static async parseHash(hash: string): Promise<SharedProject | null> {
+    if (hash.startsWith('#view=')) {
+      return ShareLink.decode(hash.slice('#view='.length));
+    }
+    if (hash.startsWith('#share=')) {
+      return ShareLink.decodeLegacy(hash.slice('#share='.length));
+    }
+    return null;
+  }
+
+  /**
+   * Decode a `#share=` link, whose swimlanes list their tasks as objects
+   */
+  private static decodeLegacy(encoded: string): SharedProject {
+    const data = JSON.parse(decodeURIComponent(atob(encoded)));
+    const swimlanes = Array.isArray(data.swimlanes) ? data.swimlanes : [];
+    return {
+      name: data.name || 'Shared Project',
+      state: {
+        tasks: Array.isArray(data.tasks) ? data.tasks : [],
+        swimlanes: swimlanes.map((lane: any) => ({
+          ...lane,
+          tasks: Array.isArray(lane.tasks) ? lane.tasks.map((task: any) => typeof task === 'string' ? task : task.id) : [],
+          taskPositions: lane.taskPositions || {}
+        }))
+      }
+    };
+  }
+
+  private static async transform(data: Uint8Array<ArrayBuffer>, stream: GenericTransformStream): Promise<Uint8Array<ArrayBuffer>> {
+    const output = new Blob([data]).stream().pipeThrough(stream as TransformStream<Uint8Array, Uint8Array>);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+  }
+
+  private static toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    // Convert in chunks so large schedules stay under the argument limit
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  }
+}
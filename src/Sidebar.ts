@@ -1,16 +1,36 @@
 import { Task } from './Task';
-import { Trades } from './Trades';
+import { Trades, Trade } from './Trades';
+import { Calendars, WorkCalendar, CalendarException } from './Calendars';
+import { Baseline } from './Baselines';
+import { LevelingResult } from './ResourceLeveler';
+import { Wbs, WbsLink } from './Wbs';
 import { Composer } from './composer/Composer';
 import { clearLocalStorage } from './utils/localStorage';
-import { XerImporter } from './XerImporter';
+import { escapeHtml } from './utils/html';
+import { PdfExportOptions, PdfLookaheadOptions, PDF_PAPER_SIZES } from './PdfExporter';
+import { ImageExportOptions } from './ImageExporter';
+import { XerImporter, XerImportResult, XerProject } from './XerImporter';
+import { XerImportJob } from './XerImportJob';
+import { XerExporter } from './XerExporter';
+import { IcsExporter } from './IcsExporter';
+import { ShareLink, SharedProject, MAX_SHARE_LINK_LENGTH } from './ShareLink';
+import { XerMerge, XerMergeItem } from './XerMerge';
+import { PmxmlImporter } from './PmxmlImporter';
+import { PmxmlExporter } from './PmxmlExporter';
+import { MspdiImporter } from './MspdiImporter';
+import { MspdiExporter } from './MspdiExporter';
+import { SpreadsheetFile } from './SpreadsheetFile';
+import { TaskTable, TaskTableMapping, TASK_TABLE_FIELDS, TASK_TABLE_LABELS } from './TaskTable';
 import { authService } from './services/authService';
 import { 
-  loadProject, listProjects, saveProject, deleteProject, downloadProjectJSON
+  loadProject, listProjects, saveProject, deleteProject, downloadProjectJSON,
+  createProjectShare, listProjectShares, deleteProjectShare, setProjectSharePassword, listShareComments, addShareComment, getShareUrl,
+  ShareRole, ShareSession
 } from './services/projectService';
 import { WBS_TEMPLATES } from './composer/WBSTemplates';
 import { generateUUID } from './utils';
 
-export type SidebarView = 'details' | 'composer' | 'options' | 'add-task' | 'edit-swimlanes' | 'manage-trades';
+export type SidebarView = 'details' | 'composer' | 'options' | 'add-task' | 'edit-swimlanes' | 'manage-trades' | 'baselines' | 'progress';
 
 const LEFT_PANEL_WIDTH = 260;
 const RIGHT_PANEL_WIDTH = 380;
@@ -23,7 +43,8 @@ export class Sidebar {
   private currentView: SidebarView = 'details';
   private task: Task | null = null;
   private tradeFilters: Map<string, boolean> = new Map();
-  private trades = Trades.getAllTrades();
+  // Trades live in the Trades registry so undo/redo can restore them
+  private get trades(): Trade[] { return Trades.getAllTrades(); }
   private onTradeFilterChange: ((filters: Map<string, boolean>) => void) | null = null;
   private composer: Composer | null = null;
   private composerResponseArea: HTMLElement | null = null;
@@ -55,6 +76,9 @@ export class Sidebar {
 
     this.setupEventListeners();
     this.updateStatusBanner();
+
+    // Refresh panels that mirror schedule state after undo/redo
+    document.addEventListener('historyRestored', () => this.onHistoryRestored());
     this.refreshProjectList();
     
     this.trades.forEach(trade => {
@@ -104,6 +128,9 @@ export class Sidebar {
             <button class="sb-btn" data-action="manage-trades">🛠️ Trades</button>
             <button class="sb-btn" data-action="go-to-today">📅 Go to Today</button>
             <button class="sb-btn" data-action="toggle-deps">🔗 Dependencies</button>
+            <button class="sb-btn" data-action="toggle-critical">🚩 Critical Path</button>
+            <button class="sb-btn" data-action="baselines">📏 Baselines</button>
+            <button class="sb-btn" data-action="progress">📈 Progress</button>
           </div>
         </div>
 
@@ -117,9 +144,20 @@ export class Sidebar {
           <div class="sb-label">Import / Export</div>
           <div class="sb-group">
             <button class="sb-btn" data-action="import-xer">📥 Import XER</button>
+            <button class="sb-btn" data-action="export-xer">📤 Export XER</button>
+            <button class="sb-btn" data-action="import-pmxml">📥 Import P6 XML</button>
+            <button class="sb-btn" data-action="export-pmxml">📤 Export P6 XML</button>
+            <button class="sb-btn" data-action="import-mspdi">📥 Import MS Project</button>
+            <button class="sb-btn" data-action="export-mspdi">📤 Export MS Project</button>
+            <button class="sb-btn" data-action="import-table">📥 Import CSV / Excel</button>
+            <button class="sb-btn" data-action="export-xlsx">📤 Export Excel</button>
+            <button class="sb-btn" data-action="export-csv">📤 Export CSV</button>
             <button class="sb-btn" data-action="export-pdf">📄 Export PDF</button>
+            <button class="sb-btn" data-action="export-image">🖼️ Export Image</button>
+            <button class="sb-btn" data-action="export-ics">📅 Export Calendar</button>
             <button class="sb-btn" data-action="export-json">💾 Export JSON</button>
             <button class="sb-btn" data-action="share-link">🔗 Share Link</button>
+            <button class="sb-btn" data-action="publish-link">☁️ Publish Link</button>
           </div>
         </div>
 
@@ -219,6 +257,9 @@ export class Sidebar {
       { emoji: '🛠️', action: 'manage-trades', needsPanel: true },
       { emoji: '📅', action: 'go-to-today', needsPanel: false },
       { emoji: '🔗', action: 'toggle-deps', needsPanel: false },
+      { emoji: '📏', action: 'baselines', needsPanel: true },
+      { emoji: '📈', action: 'progress', needsPanel: true },
+      { emoji: '🚩', action: 'toggle-critical', needsPanel: false },
       { emoji: '🤖', action: 'composer', needsPanel: true },
     ];
 
@@ -251,6 +292,9 @@ export class Sidebar {
       'manage-trades': 'Trades',
       'go-to-today': 'Go to Today',
       'toggle-deps': 'Dependencies',
+      'toggle-critical': 'Critical Path',
+      'baselines': 'Baselines',
+      'progress': 'Progress',
       'composer': 'AI Composer',
     };
     return titles[action] || action;
@@ -352,7 +396,30 @@ export class Sidebar {
         outline: none; background: #fff; border-color: #e8e8e8;
         box-shadow: 0 0 0 3px rgba(26,26,26,0.06);
       }
+      .swimlane-calendar-select {
+        width: 120px; height: 32px; padding: 0 6px; margin-left: 6px; font-size: 12px;
+        border: 1px solid #e8e8e8; border-radius: 6px; background: #fff; color: #6b7280;
+      }
       .swimlane-actions { display: flex; margin-left: 4px; gap: 2px; }
+
+      /* Work calendars */
+      .calendar-item {
+        display: flex; align-items: center; justify-content: space-between;
+        padding: 8px 10px; margin-bottom: 6px; background: #fff;
+        border: 1px solid #f0f0f0; border-radius: 8px; font-size: 13px;
+      }
+      .calendar-item-meta { font-size: 11px; color: #9ca3af; }
+      .calendar-item button {
+        border: none; background: none; cursor: pointer; color: #6b7280;
+        font-size: 13px; padding: 4px 6px; border-radius: 4px;
+      }
+      .calendar-item button:hover { background: #f0f0f0; }
+      .calendar-days { display: flex; gap: 4px; flex-wrap: wrap; }
+      .calendar-days label { display: flex; align-items: center; gap: 3px; font-size: 12px; }
+      .calendar-editor textarea {
+        width: 100%; min-height: 64px; padding: 8px; box-sizing: border-box;
+        border: 1px solid #e8e8e8; border-radius: 8px; font-family: monospace; font-size: 12px;
+      }
       .swimlane-actions button {
         padding: 4px 6px; background: none; border: none; cursor: pointer;
         opacity: 0.4; font-size: 14px; border-radius: 6px; transition: all 0.15s;
@@ -406,6 +473,10 @@ export class Sidebar {
         cursor: pointer; padding: 0 4px 0 8px; transition: color 0.15s; line-height: 1;
       }
       .trade-filter-delete:hover { color: #ef4444; }
+      .trade-filter-capacity {
+        width: 52px; font-size: 13px; padding: 4px 6px; margin-left: 8px; flex-shrink: 0;
+        border: 1px solid #e8e8e8; border-radius: 6px; background: #fff; font-family: inherit;
+      }
 
       /* Color picker */
       .color-picker-dialog {
@@ -614,6 +685,13 @@ export class Sidebar {
         font-size: 11px; font-weight: 600; background: #e8e8e8; padding: 2px 6px;
         border-radius: 4px; color: #6b7280; font-family: monospace;
       }
+      .td-dep-link { display: flex; align-items: center; gap: 4px; margin-left: auto; }
+      .td-dep-link select, .td-dep-link input {
+        height: 28px; padding: 0 6px; font-size: 12px; font-family: monospace;
+        border: 1px solid #e5e7eb; border-radius: 4px; background: #fff;
+      }
+      .td-dep-link select { width: 56px; }
+      .td-dep-link input { width: 52px; }
       .td-dep-remove {
         border: none; background: none; color: #9ca3af; cursor: pointer;
         font-size: 16px; padding: 4px 8px; border-radius: 4px; transition: all 0.15s;
@@ -743,10 +821,36 @@ export class Sidebar {
                 ${this.renderTradeList()}
               </div>
             </div>
+            <div style="margin-top:16px; padding:12px; border:1px solid #e8e8e8; border-radius:8px;">
+              <div style="font-size:13px; font-weight:600; margin-bottom:4px;">Resource Leveling</div>
+              <p style="font-size:12px; color:#6b7280; margin:0 0 8px; line-height:1.5;">Set a max crew per day on a trade, then level to delay non-critical tasks within their float until no trade is over capacity.</p>
+              <button id="level-resources" class="btn-secondary" style="width:100%;">Level Resources</button>
+              <div id="leveling-report" style="margin-top:8px;"></div>
+            </div>
             <div class="form-actions">
               <button id="save-trades-button" class="btn-primary">Save Changes</button>
             </div>
           </div>
+          <div id="baselines-view" class="rp-view">
+            <p style="font-size:13px; color:#6b7280; margin:0 0 16px; line-height:1.5;">Capture the schedule as a baseline (e.g. at NTP) and compare current dates against it. The selected baseline shows as a thin bar under each task.</p>
+            <div style="display:flex; gap:8px; margin-bottom:16px;">
+              <input type="text" id="baseline-name" placeholder="Baseline name, e.g. NTP" style="flex:1;">
+              <button id="capture-baseline" class="btn-primary" style="white-space:nowrap;">Capture</button>
+            </div>
+            <div id="baseline-list"></div>
+          </div>
+          <div id="progress-view" class="rp-view">
+            <p style="font-size:13px; color:#6b7280; margin:0 0 16px; line-height:1.5;">Record actual start and finish dates and remaining days in each task's details, then update the schedule to the data date. Finished work stays on its actual dates and remaining work is scheduled from the data date.</p>
+            <div class="form-group">
+              <label for="data-date-input">Data date</label>
+              <input type="date" id="data-date-input">
+            </div>
+            <div style="display:flex; gap:8px; margin-bottom:16px;">
+              <button id="update-progress" class="btn-primary" style="flex:1;">Update Schedule</button>
+              <button id="clear-data-date" class="btn-secondary" style="white-space:nowrap;">Clear</button>
+            </div>
+            <div id="progress-summary"></div>
+          </div>
           <div id="settings-view" class="rp-view">
             <div style="background:#fafafa; border:1px solid #f0f0f0; border-radius:10px; padding:16px; margin-bottom:20px;">
               <h4 style="margin:0 0 6px; font-size:14px; font-weight:600; color:#1a1a1a;">About</h4>
@@ -767,6 +871,34 @@ export class Sidebar {
                 <button id="save-api-key" class="btn-primary" style="padding:10px 16px; font-size:14px; white-space:nowrap;">Save</button>
               </div>
             </div>
+            <div style="background:#fafafa; border:1px solid #f0f0f0; border-radius:10px; padding:16px; margin-bottom:20px;">
+              <h4 style="margin:0 0 6px; font-size:14px; font-weight:600; color:#1a1a1a;">Critical Path</h4>
+              <p style="font-size:13px; color:#6b7280; margin:0 0 12px; line-height:1.5;">Tasks with total float at or below this many work days are highlighted as near-critical.</p>
+              <div class="form-group" style="margin-bottom:0;">
+                <label for="settings-near-critical">Near-critical float (days)</label>
+                <input type="number" id="settings-near-critical" min="0" value="5">
+              </div>
+            </div>
+            <div style="background:#fafafa; border:1px solid #f0f0f0; border-radius:10px; padding:16px; margin-bottom:20px;">
+              <h4 style="margin:0 0 6px; font-size:14px; font-weight:600; color:#1a1a1a;">Scheduling</h4>
+              <p style="font-size:13px; color:#6b7280; margin:0 0 12px; line-height:1.5;">Auto moves successors through their links when you move or resize a task. Manual leaves them in place and shows broken links in red.</p>
+              <div class="form-group">
+                <label for="settings-schedule-mode">Schedule mode</label>
+                <select id="settings-schedule-mode">
+                  <option value="manual">Manual</option>
+                  <option value="auto">Auto</option>
+                </select>
+              </div>
+              <label style="display:flex; align-items:center; gap:8px; font-size:13px; color:#374151;">
+                <input type="checkbox" id="settings-pull-successors">
+                Also pull successors earlier to close gaps
+              </label>
+            </div>
+            <div style="background:#fafafa; border:1px solid #f0f0f0; border-radius:10px; padding:16px; margin-bottom:20px;">
+              <h4 style="margin:0 0 6px; font-size:14px; font-weight:600; color:#1a1a1a;">Work Calendars</h4>
+              <p style="font-size:13px; color:#6b7280; margin:0 0 12px; line-height:1.5;">Work week, holidays and shutdowns. Tasks use their own calendar, then their swimlane's, then the project calendar.</p>
+              <div id="settings-calendars"></div>
+            </div>
             <div style="background:#fef2f2; border:1px solid #fecaca; border-radius:10px; padding:16px;">
               <h4 style="margin:0 0 8px; font-size:14px; font-weight:600; color:#dc2626;">Danger Zone</h4>
               <p style="font-size:13px; color:#6b7280; margin:0 0 12px; line-height:1.5;">
@@ -787,6 +919,7 @@ export class Sidebar {
       <div class="trade-filter-item" data-color="${trade.color}" data-id="${trade.id}">
         <div class="trade-filter-color" style="background-color: ${trade.color}"></div>
         <input type="text" class="trade-filter-name" value="${trade.name}" data-original="${trade.name}">
+        <input type="number" class="trade-filter-capacity" min="1" placeholder="Max" title="Max crew per day" value="${trade.capacity ?? ''}">
         <div class="trade-filter-toggle active" data-id="${trade.id}"></div>
         <button class="trade-filter-delete" data-id="${trade.id}">×</button>
       </div>
@@ -959,6 +1092,9 @@ export class Sidebar {
     const addTrade = this.element.querySelector('#add-new-trade');
     if (addTrade) addTrade.addEventListener('click', () => this.addNewTrade());
 
+    const levelBtn = this.element.querySelector('#level-resources');
+    if (levelBtn) levelBtn.addEventListener('click', () => this.levelResources());
+
     const saveTrades = this.element.querySelector('#save-trades-button');
     if (saveTrades) saveTrades.addEventListener('click', () => {
       this.notifyFilterChanged();
@@ -981,6 +1117,45 @@ export class Sidebar {
       }
     });
 
+    // Settings: near-critical threshold
+    const nearCriticalInput = this.element.querySelector('#settings-near-critical') as HTMLInputElement;
+    if (nearCriticalInput) {
+      const stored = localStorage.getItem('dingplan-near-critical-days');
+      if (stored) nearCriticalInput.value = stored;
+      nearCriticalInput.addEventListener('change', () => {
+        const days = Math.max(0, parseInt(nearCriticalInput.value, 10) || 0);
+        nearCriticalInput.value = String(days);
+        localStorage.setItem('dingplan-near-critical-days', String(days));
+        if (window.canvasApp) {
+          window.canvasApp.taskManager.nearCriticalThreshold = days;
+          window.canvasApp.render();
+        }
+      });
+    }
+
+    // Settings: scheduling mode
+    const scheduleModeSelect = this.element.querySelector('#settings-schedule-mode') as HTMLSelectElement;
+    const pullSuccessorsInput = this.element.querySelector('#settings-pull-successors') as HTMLInputElement;
+    if (scheduleModeSelect && pullSuccessorsInput) {
+      this.renderScheduleModeSettings();
+      scheduleModeSelect.addEventListener('change', () => {
+        const mode = scheduleModeSelect.value === 'auto' ? 'auto' : 'manual';
+        pullSuccessorsInput.disabled = mode === 'manual';
+        if (window.canvasApp) {
+          window.canvasApp.taskManager.setScheduleMode(mode);
+          window.canvasApp.render();
+        }
+      });
+      pullSuccessorsInput.addEventListener('change', () => {
+        if (window.canvasApp) {
+          window.canvasApp.taskManager.setPullSuccessors(pullSuccessorsInput.checked);
+        }
+      });
+    }
+
+    // Settings: work calendars
+    this.renderCalendarSettings();
+
     // Settings: reset
     const clearBtn = this.element.querySelector('#clear-local-storage');
     if (clearBtn) clearBtn.addEventListener('click', () => {
@@ -1018,8 +1193,25 @@ export class Sidebar {
       }
       return;
     }
+    if (action === 'toggle-critical') {
+      if (window.canvasApp) {
+        const taskManager = window.canvasApp.taskManager;
+        taskManager.isCriticalPathVisible = !taskManager.isCriticalPathVisible;
+        activeBtn?.classList.toggle('active', taskManager.isCriticalPathVisible);
+        window.canvasApp.render();
+      }
+      return;
+    }
     if (action === 'export-pdf') {
-      if (window.canvasApp) window.canvasApp.exportToPDF();
+      this.showPdfExportModal();
+      return;
+    }
+    if (action === 'export-image') {
+      this.showImageExportModal();
+      return;
+    }
+    if (action === 'export-ics') {
+      this.showIcsExportModal();
       return;
     }
     if (action === 'export-json') {
@@ -1034,10 +1226,42 @@ export class Sidebar {
       this.handleCopyShareLink();
       return;
     }
+    if (action === 'publish-link') {
+      this.showPublishModal();
+      return;
+    }
     if (action === 'import-xer') {
       this.handleImportXER();
       return;
     }
+    if (action === 'export-xer') {
+      this.handleExportXER();
+      return;
+    }
+    if (action === 'import-pmxml') {
+      this.handleImportPMXML();
+      return;
+    }
+    if (action === 'export-pmxml') {
+      this.handleExportPMXML();
+      return;
+    }
+    if (action === 'import-mspdi') {
+      this.handleImportMSPDI();
+      return;
+    }
+    if (action === 'export-mspdi') {
+      this.handleExportMSPDI();
+      return;
+    }
+    if (action === 'import-table') {
+      this.handleImportTaskTable();
+      return;
+    }
+    if (action === 'export-xlsx' || action === 'export-csv') {
+      this.handleExportTaskTable(action === 'export-xlsx' ? 'xlsx' : 'csv');
+      return;
+    }
 
     // Actions that open the right panel
     activeBtn?.classList.add('active');
@@ -1045,6 +1269,8 @@ export class Sidebar {
       'add-task': 'add-task',
       'edit-swimlanes': 'edit-swimlanes',
       'manage-trades': 'manage-trades',
+      'baselines': 'baselines',
+      'progress': 'progress',
       'composer': 'composer',
       'settings': 'options',
     };
@@ -1183,11 +1409,13 @@ export class Sidebar {
       const template = WBS_TEMPLATES.find(t => t.id === templateId);
       if (template) {
         const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6'];
-        swimlanes = template.categories.map((category, index) => ({
-          id: generateUUID(),
-          name: category,
-          color: colors[index % colors.length]
-        }));
+        template.categories.forEach((category, index) => {
+          const parent = { id: generateUUID(), name: category, color: colors[index % colors.length] };
+          swimlanes.push(parent);
+          (template.subcategories?.[category] || []).forEach(subcategory => {
+            swimlanes.push({ id: generateUUID(), name: subcategory, color: parent.color, parentId: parent.id });
+          });
+        });
       }
     }
 
@@ -1203,177 +1431,807 @@ export class Sidebar {
   }
 
   private async handleImportXER() {
+    let job: XerImportJob | null = null;
+    let progress: { update: (text: string, fraction: number | null) => void; close: () => void } | null = null;
     try {
-      const result = await XerImporter.showImportDialog();
-      if (this.canvas && this.canvas.taskManager) {
-        const existingTasks = this.canvas.taskManager.getAllTasks();
-        existingTasks.forEach((task: any) => this.canvas.taskManager.removeTask(task.id));
-        result.tasks.forEach((taskConfig: any) => this.canvas.taskManager.addTask(taskConfig));
-        if (this.canvas.render) this.canvas.render();
-        alert(`Successfully imported ${result.tasks.length} tasks from XER file`);
-      }
+      const file = await XerImporter.showFileDialog();
+      job = new XerImportJob();
+      progress = this.showXerProgressModal(file.name, job);
+      const projects = await job.read(file);
+      if (projects.length > 1) {
+        // The picker finishes the job
+        progress.close();
+        this.showXerProjectPickerModal(job, projects);
+        return;
+      }
+      const result = await job.importProjects(projects.map(project => project.id));
+      progress.close();
+      job.dispose();
+      this.applyImportedXer(result);
     } catch (error) {
+      progress?.close();
+      job?.dispose();
+      if (job?.isCancelled) return;
       console.error('XER import failed:', error);
       alert(`XER import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private switchView(view: SidebarView) {
-    this.currentView = view;
-    // Map view to element id
-    const viewIdMap: Record<string, string> = {
-      'details': 'details-view',
-      'composer': 'composer-view',
-      'add-task': 'add-task-view',
-      'edit-swimlanes': 'edit-swimlanes-view',
-      'manage-trades': 'manage-trades-view',
-      'options': 'settings-view',
-    };
+  /**
+   * Progress of an XER import job, with a Cancel button that stops it
+   */
+  private showXerProgressModal(fileName: string, job: XerImportJob): { update: (text: string, fraction: number | null) => void; close: () => void } {
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+    modal.innerHTML = `
+      <div style="background: #1a1a1a; border-radius: 12px; padding: 24px; width: 90%; max-width: 420px;
+                  box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;">
+        <h2 style="margin: 0 0 4px 0; font-size: 18px; font-weight: 600;">Importing XER</h2>
+        <p style="color: #888; margin: 0 0 16px 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${escapeHtml(fileName)}</p>
+        <div style="background: #333; border-radius: 4px; height: 8px; overflow: hidden;">
+          <div id="xer-progress-bar" style="background: #0066cc; height: 100%; width: 0%; transition: width 0.2s;"></div>
+        </div>
+        <div id="xer-progress-text" style="color: #ccc; margin-top: 8px;">Reading file…</div>
+        <div style="display: flex; justify-content: flex-end; margin-top: 16px;">
+          <button id="xer-progress-cancel" style="
+            background: #333; border: none; color: white; padding: 8px 18px;
+            border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+          ">Cancel</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(modal);
 
-    this.element.querySelectorAll('.rp-view').forEach(v => v.classList.remove('active'));
-    const targetId = viewIdMap[view];
-    if (targetId) {
-      const el = this.element.querySelector(`#${targetId}`);
-      if (el) el.classList.add('active');
-    }
+    const bar = modal.querySelector('#xer-progress-bar') as HTMLElement;
+    const text = modal.querySelector('#xer-progress-text') as HTMLElement;
+    const update = (label: string, fraction: number | null) => {
+      text.textContent = label;
+      // Without a measure the bar is shown full and dimmed
+      bar.style.width = `${Math.round((fraction ?? 1) * 100)}%`;
+      bar.style.opacity = fraction === null ? '0.4' : '1';
+    };
+    const close = () => {
+      if (modal.parentNode) document.body.removeChild(modal);
+    };
+    job.onProgress = (phase, loaded, total) => {
+      if (phase === 'reading' && total > 0) {
+        update(`Reading file… ${Math.round(loaded / total * 100)}%`, loaded / total);
+      } else {
+        update('Converting activities…', null);
+      }
+    };
+    modal.querySelector('#xer-progress-cancel')?.addEventListener('click', () => {
+      job.cancel();
+      close();
+    });
 
-    // Update header title
-    const titleEl = this.element.querySelector('.rp-title');
-    if (titleEl) {
-      const titles: Record<string, string> = {
-        'details': 'Details',
-        'composer': 'AI Composer',
-        'add-task': 'Add Task',
-        'edit-swimlanes': 'Swimlanes',
-        'manage-trades': 'Trades',
-        'options': 'Settings',
-      };
-      titleEl.textContent = titles[view] || 'Details';
-    }
+    return { update, close };
   }
 
-  private async handleAIComposerSubmit(prompt: string, imageBase64?: string | null) {
-    const displayPrompt = prompt || (imageBase64 ? 'What do you see in this image? Generate a construction schedule based on it.' : '');
-    this.addComposerMessage(displayPrompt, true);
-    const input = this.element.querySelector('.chat-input') as HTMLTextAreaElement;
-    const button = this.element.querySelector('.chat-send-btn') as HTMLButtonElement;
-    
-    if (!this.composer) {
-      this.addComposerMessage('Composer not initialized. Please refresh the page.');
-      return;
-    }
-    
-    const userKey = localStorage.getItem('dingPlanApiKey');
-    const builtInKey = (import.meta.env.VITE_OPENAI_KEY as string) || '';
-    const isLoggedIn = !!authService.getCurrentUser();
-    const apiKey = userKey || (isLoggedIn ? builtInKey : '');
-    if (!apiKey) {
-      this.addComposerMessage(isLoggedIn ? 'AI Composer error — please try again.' : 'Sign in or add your API key (OpenAI or Anthropic) in Settings to use AI Composer.');
+  /**
+   * Load an imported XER schedule, or review it as an update when the
+   * project already has tasks
+   */
+  private applyImportedXer(result: XerImportResult) {
+    if (this.canvas?.taskManager?.getAllTasks().length > 0) {
+      this.showXerMergeModal(result);
       return;
     }
-    if (this.composer) this.composer.setApiKey(apiKey);
-    
-    try {
-      input.disabled = true;
-      button.disabled = true;
-      button.textContent = 'Processing...';
-      const response = await this.composer.processPrompt(displayPrompt, imageBase64 || undefined);
-      this.addComposerMessage(response);
-    } catch (error: unknown) {
-      this.addComposerMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
-    } finally {
-      if (input) { input.disabled = false; input.value = ''; input.style.height = 'auto'; input.focus(); }
-      if (button) { button.disabled = true; }
-    }
-  }
-
-  show(view: SidebarView = 'details', canvasInstance?: any) {
-    this.isVisible = true;
-    this.element.style.display = 'flex';
-    // Force reflow before transition
-    this.element.offsetHeight;
-    this.element.style.transform = 'translateX(0)';
-    this.switchView(view);
-    
-    if (view === 'add-task' && canvasInstance) {
-      this.populateAddTaskForm(canvasInstance);
-    } else if (view === 'edit-swimlanes' && canvasInstance) {
-      this.populateSwimlanesForm(canvasInstance);
+    if (this.loadImportedSchedule(result, 'Import XER')) {
+      alert(`Successfully imported ${result.tasks.length} tasks from XER file`);
     }
   }
 
-  hide() {
-    this.isVisible = false;
-    this.element.style.transform = `translateX(${RIGHT_PANEL_WIDTH}px)`;
-    // Clear active nav
-    this.leftPanel.querySelectorAll('.left-nav-btn').forEach(b => b.classList.remove('active'));
-    setTimeout(() => {
-      if (!this.isVisible) this.element.style.display = 'none';
-    }, 300);
-  }
+  /**
+   * Pick the projects of a multi-project XER file, then combine them into
+   * the current project with a swimlane each, or save each one as its own
+   * DingPlan project
+   */
+  private showXerProjectPickerModal(job: XerImportJob, projects: XerProject[]) {
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
 
-  showLeftPanel() {
-    this.leftPanelVisible = true;
-    this.leftPanel.style.transform = 'translateX(0)';
-    this.floatingBar.style.display = 'none';
-    this.refreshProjectList();
-  }
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 560px; max-height: 85vh; display: flex; flex-direction: column;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Import XER Projects</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">This file holds ${projects.length} projects. Choose the ones to import.</p>
+      <div style="flex: 1; overflow-y: auto; border: 1px solid #333; border-radius: 8px;">
+        ${projects.map((project, index) => `
+          <label style="display: flex; align-items: center; gap: 10px; padding: 10px 12px; border-top: ${index > 0 ? '1px solid #333' : 'none'}; cursor: pointer;">
+            <input type="checkbox" class="xer-project" value="${escapeHtml(project.id)}" checked>
+            <div style="flex: 1; min-width: 0;">
+              <div style="font-weight: 500;">${escapeHtml(project.name)}</div>
+              <div style="color: #888; font-size: 12px; margin-top: 2px;">
+                ${escapeHtml(project.shortName)}${project.shortName ? ' · ' : ''}${project.taskCount} activities${project.dataDate ? ` · Data date ${project.dataDate.toLocaleDateString()}` : ''}
+              </div>
+            </div>
+          </label>
+        `).join('')}
+      </div>
+      <div style="margin-top: 16px; display: flex; flex-direction: column; gap: 8px; color: #ccc;">
+        <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+          <input type="radio" name="xer-project-mode" value="combine" checked> Combine into this project, with a swimlane per project
+        </label>
+        <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+          <input type="radio" name="xer-project-mode" value="separate"> Save each as a separate DingPlan project
+        </label>
+      </div>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;">
+        <button id="xer-project-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Cancel</button>
+        <button id="xer-project-import" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Import</button>
+      </div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
 
-  hideLeftPanel() {
-    this.leftPanelVisible = false;
-    this.leftPanel.style.transform = `translateX(-${LEFT_PANEL_WIDTH}px)`;
-    this.floatingBar.style.display = 'flex'; // Show floating bar when sidebar closes
-  }
+    const close = () => document.body.removeChild(modal);
+    const cancel = () => {
+      close();
+      job.dispose();
+    };
+    content.querySelector('#xer-project-cancel')?.addEventListener('click', cancel);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) cancel();
+    });
 
-  isLeftPanelOpen(): boolean { return this.leftPanelVisible; }
+    content.querySelector('#xer-project-import')?.addEventListener('click', async () => {
+      const selectedIds = (Array.from(content.querySelectorAll('.xer-project')) as HTMLInputElement[])
+        .filter(box => box.checked)
+        .map(box => box.value);
+      if (selectedIds.length === 0) {
+        alert('Select at least one project to import.');
+        return;
+      }
+      const mode = (content.querySelector('input[name="xer-project-mode"]:checked') as HTMLInputElement).value;
+      close();
 
-  private updateStatusBanner() {
-    const banner = this.leftPanel.querySelector('#sidebar-status-banner');
-    if (!banner) return;
+      const progress = this.showXerProgressModal(`${selectedIds.length} of ${projects.length} projects`, job);
+      try {
+        if (mode === 'combine') {
+          const result = await job.importProjects(selectedIds);
+          progress.close();
+          this.applyImportedXer(result);
+          return;
+        }
 
-    const currentUser = authService.getCurrentUser();
-    if (currentUser) {
-      banner.innerHTML = '<span style="color: #22c55e; font-size: 8px;">●</span> <span>☁️ Synced</span>';
-      banner.style.color = '#6b7280';
-    } else {
-      banner.innerHTML = '<span style="color: #22c55e; font-size: 8px;">●</span> <span>Saves automatically</span>';
-      banner.style.color = '#6b7280';
-    }
+        const savedIds: string[] = [];
+        for (const project of projects.filter(p => selectedIds.includes(p.id))) {
+          const result = await job.importProjects([project.id]);
+          progress.update(`Saving ${project.name}…`, null);
+          savedIds.push(await this.saveImportedProject(result, project.name));
+        }
+        progress.close();
+        // Open the first one; the others are in the project menu
+        if (window.canvasApp?.loadProjectById) await window.canvasApp.loadProjectById(savedIds[0]);
+        await this.refreshProjectList();
+        alert(`Saved ${savedIds.length} projects from the XER file. Switch between them with the project menu.`);
+      } catch (error) {
+        progress.close();
+        if (job.isCancelled) return;
+        console.error('XER import failed:', error);
+        alert(`XER import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        job.dispose();
+      }
+    });
   }
 
-  getWidth(): number { return RIGHT_PANEL_WIDTH; }
-  isOpen(): boolean { return this.isVisible; }
-  getCurrentView(): SidebarView { return this.currentView; }
-
-  onTradeFiltersChanged(callback: (filters: Map<string, boolean>) => void) {
-    this.onTradeFilterChange = callback;
+  /**
+   * Save an imported schedule as a new project without loading it, in the
+   * format Canvas.saveCurrentProject writes
+   * @returns ID of the saved project
+   */
+  private saveImportedProject(result: XerImportResult, name: string): Promise<string> {
+    const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6'];
+    return saveProject({
+      id: generateUUID(),
+      name,
+      tasks: result.tasks,
+      swimlanes: result.swimlanes.map((lane, index) => ({ ...lane, color: colors[index % colors.length] })),
+      settings: {
+        calendars: { calendars: result.calendars, projectCalendarId: result.projectCalendarId, swimlaneCalendars: {} },
+        trades: Trades.exportState(),
+        dataDate: result.dataDate
+      }
+    });
   }
-  
-  getTradeFilters(): Map<string, boolean> { return new Map(this.tradeFilters); }
 
-  private notifyFilterChanged() {
-    if (this.onTradeFilterChange) {
-      this.onTradeFilterChange(new Map(this.tradeFilters));
-    }
-  }
+  /**
+   * Review the differences between an XER file and the current project,
+   * then merge the selected ones or replace the project
+   */
+  private showXerMergeModal(result: XerImportResult) {
+    const taskManager = this.canvas.taskManager;
+    const items = XerMerge.diff(taskManager.getAllTasks(), result);
+    const selected = new Set(items);
+    const formatDate = (date: Date | null) => date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'none';
+    const kindColors: Record<XerMergeItem['kind'], string> = { added: '#22c55e', changed: '#eab308', removed: '#ef4444' };
+    const count = (kind: XerMergeItem['kind']) => items.filter(item => item.kind === kind).length;
 
-  initializeComposer(canvasInstance: any) {
-    this.canvas = canvasInstance;
-    this.composer = new Composer({ canvas: canvasInstance });
-    const userKey = localStorage.getItem('dingPlanApiKey');
-    const builtInKey = (import.meta.env.VITE_OPENAI_KEY as string) || '';
-    const isLoggedIn = !!authService.getCurrentUser();
-    const apiKey = userKey || (isLoggedIn ? builtInKey : '');
-    if (apiKey && this.composer) {
-      this.composer.setApiKey(apiKey);
-    }
-    // Show empty state
-    if (this.composerResponseArea) {
-      this.composerResponseArea.innerHTML = `
-        <div style="display:flex; flex-direction:column; align-items:center; justify-content:center; flex:1; padding:40px 20px; text-align:center; color:#999;">
-          <div style="font-size:32px; margin-bottom:16px; opacity:0.5;">🏗️</div>
-          <div style="font-size:14px; font-weight:500; color:#666; margin-bottom:8px;">Describe your project</div>
-          <div style="font-size:13px; line-height:1.5; max-width:260px; color:#aaa;">
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 760px; max-height: 85vh; display: flex; flex-direction: column;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Update from XER</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">
+        ${count('added')} added · ${count('changed')} changed · ${count('removed')} removed ·
+        Data date ${formatDate(taskManager.dataDate)} → ${formatDate(result.dataDate)}
+      </p>
+      ${items.length > 0 ? `
+        <label style="display: flex; align-items: center; gap: 6px; margin-bottom: 8px; color: #ccc;">
+          <input type="checkbox" id="xer-merge-all" checked> Select all
+        </label>
+      ` : ''}
+      <div id="xer-merge-list" style="flex: 1; overflow-y: auto; border: 1px solid #333; border-radius: 8px;">
+        ${items.length === 0 ? '<div style="padding: 20px; text-align: center; color: #888;">No differences found</div>' : ''}
+        ${items.map((item, index) => `
+          <label style="display: flex; gap: 10px; padding: 10px 12px; border-top: ${index > 0 ? '1px solid #333' : 'none'}; cursor: pointer;">
+            <input type="checkbox" class="xer-merge-item" data-index="${index}" checked style="margin-top: 2px;">
+            <div style="flex: 1; min-width: 0;">
+              <div style="display: flex; align-items: center; gap: 8px;">
+                <span style="background: ${kindColors[item.kind]}; color: #111; border-radius: 4px; padding: 1px 6px; font-size: 11px; font-weight: 600; text-transform: uppercase;">${item.kind}</span>
+                <span style="font-weight: 500;">${escapeHtml(item.name)}</span>
+                <span style="color: #666; font-size: 11px;">${escapeHtml(item.xerTaskId)}</span>
+                ${item.startShift !== 0 ? `<span style="margin-left: auto; color: ${item.startShift > 0 ? '#f87171' : '#4ade80'}; font-size: 12px;">${item.startShift > 0 ? '+' : ''}${item.startShift}d</span>` : ''}
+              </div>
+              ${item.changes.map(change => `<div style="color: #aaa; font-size: 12px; margin-top: 3px;">${escapeHtml(change)}</div>`).join('')}
+            </div>
+          </label>
+        `).join('')}
+      </div>
+      <p style="color: #888; margin: 12px 0 0 0; font-size: 12px;">Merging keeps your swimlanes, trades, crews and notes. Tasks you added yourself are never changed.</p>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 16px;">
+        <button id="xer-merge-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit; margin-right: auto;
+        ">Cancel</button>
+        <button id="xer-merge-replace" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Replace Project</button>
+        <button id="xer-merge-apply" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Merge ${selected.size} Selected</button>
+      </div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
+
+    const close = () => document.body.removeChild(modal);
+    const applyButton = content.querySelector('#xer-merge-apply') as HTMLButtonElement;
+    const itemBoxes = Array.from(content.querySelectorAll('.xer-merge-item')) as HTMLInputElement[];
+    const updateApplyButton = () => {
+      applyButton.textContent = `Merge ${selected.size} Selected`;
+      applyButton.disabled = selected.size === 0;
+      applyButton.style.opacity = selected.size === 0 ? '0.5' : '1';
+    };
+    updateApplyButton();
+
+    itemBoxes.forEach(box => {
+      box.addEventListener('change', () => {
+        const item = items[parseInt(box.dataset.index || '0', 10)];
+        if (box.checked) selected.add(item);
+        else selected.delete(item);
+        updateApplyButton();
+      });
+    });
+    content.querySelector('#xer-merge-all')?.addEventListener('change', (e) => {
+      const checked = (e.target as HTMLInputElement).checked;
+      itemBoxes.forEach(box => { box.checked = checked; });
+      items.forEach(item => checked ? selected.add(item) : selected.delete(item));
+      updateApplyButton();
+    });
+
+    content.querySelector('#xer-merge-cancel')?.addEventListener('click', close);
+    content.querySelector('#xer-merge-replace')?.addEventListener('click', () => {
+      if (!confirm('Replace the whole project with the XER file? Your swimlanes, trades and notes will be lost.')) return;
+      close();
+      if (this.loadImportedSchedule(result, 'Import XER')) {
+        alert(`Successfully imported ${result.tasks.length} tasks from XER file`);
+      }
+    });
+    applyButton.addEventListener('click', () => {
+      const summary = XerMerge.apply(taskManager, result, items.filter(item => selected.has(item)));
+      close();
+      taskManager.history.commit('Merge XER update');
+      if (this.canvas.render) this.canvas.render();
+      alert(`Merged XER update: ${summary.added} added, ${summary.changed} changed, ${summary.removed} removed`);
+    });
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+  }
+
+  private handleExportXER() {
+    if (!this.canvas?.taskManager) return;
+    try {
+      const projectName = document.getElementById('project-name-display')?.textContent?.trim() || 'DingPlan Project';
+      const exporter = new XerExporter();
+      const content = exporter.exportProject(this.canvas.taskManager, projectName);
+      exporter.downloadXer(projectName.replace(/[^a-zA-Z0-9]/g, '_'), content);
+    } catch (error) {
+      console.error('XER export failed:', error);
+      alert(`XER export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleImportPMXML() {
+    try {
+      const result = await PmxmlImporter.showImportDialog();
+      if (this.loadImportedSchedule(result, 'Import P6 XML')) {
+        alert(`Successfully imported ${result.tasks.length} tasks from P6 XML file`);
+      }
+    } catch (error) {
+      console.error('P6 XML import failed:', error);
+      alert(`P6 XML import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleExportPMXML() {
+    if (!this.canvas?.taskManager) return;
+    try {
+      const projectName = document.getElementById('project-name-display')?.textContent?.trim() || 'DingPlan Project';
+      const exporter = new PmxmlExporter();
+      const content = exporter.exportProject(this.canvas.taskManager, projectName);
+      exporter.downloadPmxml(projectName.replace(/[^a-zA-Z0-9]/g, '_'), content);
+    } catch (error) {
+      console.error('P6 XML export failed:', error);
+      alert(`P6 XML export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleImportMSPDI() {
+    try {
+      const result = await MspdiImporter.showImportDialog();
+      // Register the resource trades before adding tasks so tasks pick up their colors
+      result.trades.forEach(trade => Trades.addTrade(trade));
+      if (this.loadImportedSchedule(result, 'Import MS Project')) {
+        alert(`Successfully imported ${result.tasks.length} tasks from MS Project file`);
+      }
+    } catch (error) {
+      console.error('MS Project import failed:', error);
+      alert(`MS Project import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleExportMSPDI() {
+    if (!this.canvas?.taskManager) return;
+    try {
+      const projectName = document.getElementById('project-name-display')?.textContent?.trim() || 'DingPlan Project';
+      const exporter = new MspdiExporter();
+      const content = exporter.exportProject(this.canvas.taskManager, projectName);
+      exporter.downloadMspdi(projectName.replace(/[^a-zA-Z0-9]/g, '_'), content);
+    } catch (error) {
+      console.error('MS Project export failed:', error);
+      alert(`MS Project export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleImportTaskTable() {
+    if (!this.canvas?.taskManager) return;
+    try {
+      const { fileName, rows } = await SpreadsheetFile.showOpenDialog();
+      if (rows.length === 0) {
+        alert('The file has no rows');
+        return;
+      }
+      this.showTaskTableImportModal(fileName, rows);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'File selection cancelled') return;
+      console.error('Task table import failed:', error);
+      alert(`Task table import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Column mapping dialog with a live preview of the tasks to create
+   */
+  private showTaskTableImportModal(fileName: string, rows: string[][]) {
+    let hasHeader = true;
+    let mapping: TaskTableMapping = TaskTable.guessMapping(rows[0]);
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const columnLabel = (index: number) =>
+      hasHeader && rows[0][index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`;
+
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 900px; max-height: 85vh; overflow-y: auto;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    modal.appendChild(content);
+
+    const close = () => document.body.removeChild(modal);
+
+    const render = () => {
+      const built = TaskTable.buildRows(rows, mapping, hasHeader);
+      const valid = built.filter(row => row.errors.length === 0).length;
+      const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+      content.innerHTML = `
+        <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Import Task Table</h2>
+        <p style="color: #888; margin: 0 0 16px 0;">${escapeHtml(fileName)} · ${rows.length} rows. Give a duration or a finish date for each task.</p>
+
+        <label style="display: flex; align-items: center; gap: 6px; margin-bottom: 12px; color: #ccc;">
+          <input type="checkbox" id="table-has-header" ${hasHeader ? 'checked' : ''}> First row is headers
+        </label>
+
+        <div style="display: grid; grid-template-columns: repeat(5, 1fr); gap: 10px; margin-bottom: 20px;">
+          ${TASK_TABLE_FIELDS.map(field => `
+            <label style="display: flex; flex-direction: column; gap: 4px; color: #aaa; font-size: 12px;">
+              ${TASK_TABLE_LABELS[field]}
+              <select data-field="${field}" style="background: #2a2a2a; color: white; border: 1px solid #333; border-radius: 6px; padding: 6px;">
+                <option value="">— none —</option>
+                ${Array.from({ length: columnCount }, (_, index) => `
+                  <option value="${index}" ${mapping[field] === index ? 'selected' : ''}>${escapeHtml(columnLabel(index))}</option>
+                `).join('')}
+              </select>
+            </label>
+          `).join('')}
+        </div>
+
+        <div style="max-height: 40vh; overflow: auto; border: 1px solid #333; border-radius: 8px;">
+          <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+            <thead>
+              <tr style="background: #2a2a2a; text-align: left;">
+                ${['Row', 'ID', 'Name', 'Start', 'Days', 'Trade', 'Swimlane', 'Predecessors', 'Issues']
+                  .map(header => `<th style="padding: 6px 8px; position: sticky; top: 0; background: #2a2a2a;">${header}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${built.slice(0, 200).map(row => `
+                <tr style="border-top: 1px solid #333; ${row.errors.length ? 'color: #f87171;' : ''}">
+                  <td style="padding: 4px 8px; color: #666;">${row.line}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.key)}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.config.name)}</td>
+                  <td style="padding: 4px 8px; white-space: nowrap;">${row.errors.some(e => e.includes('start')) ? '' : formatDate(row.config.startDate)}</td>
+                  <td style="padding: 4px 8px;">${row.config.milestoneType ? '◆' : row.config.duration}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.trade)}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.swimlane)}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.predecessors)}</td>
+                  <td style="padding: 4px 8px;">${escapeHtml(row.errors.join('; '))}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </div>
+        ${built.length > 200 ? `<p style="color: #888; margin: 8px 0 0 0;">Showing the first 200 of ${built.length} rows</p>` : ''}
+
+        <div style="display: flex; justify-content: flex-end; align-items: center; gap: 10px; margin-top: 20px;">
+          <span style="color: #888; margin-right: auto;">${valid} of ${built.length} rows ready${valid < built.length ? '; rows with issues are skipped' : ''}</span>
+          <button id="table-cancel" style="
+            background: #333; border: none; color: white; padding: 10px 20px;
+            border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+          ">Cancel</button>
+          <button id="table-import" ${valid === 0 ? 'disabled' : ''} style="
+            background: #0066cc; border: none; color: white; padding: 10px 20px;
+            border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+            ${valid === 0 ? 'opacity: 0.5; cursor: default;' : ''}
+          ">Import ${valid} Tasks</button>
+        </div>
+      `;
+
+      content.querySelector('#table-has-header')?.addEventListener('change', (e) => {
+        hasHeader = (e.target as HTMLInputElement).checked;
+        mapping = hasHeader ? TaskTable.guessMapping(rows[0]) : mapping;
+        render();
+      });
+      content.querySelectorAll('select[data-field]').forEach(select => {
+        select.addEventListener('change', () => {
+          const field = (select as HTMLSelectElement).dataset.field as keyof TaskTableMapping;
+          const value = (select as HTMLSelectElement).value;
+          if (value === '') {
+            delete mapping[field];
+          } else {
+            mapping[field] = parseInt(value, 10);
+          }
+          render();
+        });
+      });
+      content.querySelector('#table-cancel')?.addEventListener('click', close);
+      content.querySelector('#table-import')?.addEventListener('click', () => {
+        const tasks = TaskTable.createTasks(this.canvas.taskManager, built);
+        close();
+        this.canvas.taskManager.history.commit('Import task table');
+        this.updateTradeList();
+        if (this.canvas.render) this.canvas.render();
+        alert(`Imported ${tasks.length} tasks from ${fileName}`);
+      });
+    };
+
+    render();
+    document.body.appendChild(modal);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+  }
+
+  private handleExportTaskTable(format: 'xlsx' | 'csv') {
+    if (!this.canvas?.taskManager) return;
+    try {
+      const projectName = document.getElementById('project-name-display')?.textContent?.trim() || 'DingPlan Project';
+      const filename = projectName.replace(/[^a-zA-Z0-9]/g, '_');
+      const rows = TaskTable.exportRows(this.canvas.taskManager);
+      if (format === 'xlsx') {
+        SpreadsheetFile.download(`${filename}.xlsx`, SpreadsheetFile.writeXlsx(rows));
+      } else {
+        SpreadsheetFile.download(`${filename}.csv`, SpreadsheetFile.toCsv(rows));
+      }
+    } catch (error) {
+      console.error('Task table export failed:', error);
+      alert(`Task table export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace the schedule with an imported one: calendars, WBS swimlanes,
+   * tasks and data date
+   * @returns false when there is no canvas to load into
+   */
+  private loadImportedSchedule(result: XerImportResult, label: string): boolean {
+    if (!this.canvas || !this.canvas.taskManager) return false;
+
+    const existingTasks = this.canvas.taskManager.getAllTasks();
+    existingTasks.forEach((task: any) => this.canvas.taskManager.removeTask(task.id));
+    // Register calendars before adding tasks so start dates snap to their work days
+    result.calendars.forEach(calendar => Calendars.saveCalendar(calendar));
+    if (result.projectCalendarId) Calendars.setProjectCalendar(result.projectCalendarId);
+    // Rebuild the swimlanes from the WBS tree, keeping the current lanes if the file has none
+    if (result.swimlanes.length > 0) {
+      const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6'];
+      this.canvas.taskManager.clearSwimlanes();
+      result.swimlanes.forEach((lane, index) => {
+        this.canvas.taskManager.addSwimlane(lane.id, lane.name, colors[index % colors.length], lane.parentId);
+      });
+    }
+    result.tasks.forEach((taskConfig: any) => this.canvas.taskManager.addTask(taskConfig, taskConfig.swimlaneId));
+    this.canvas.taskManager.dataDate = result.dataDate;
+    this.canvas.taskManager.history.commit(label);
+    if (this.canvas.render) this.canvas.render();
+    return true;
+  }
+
+  /**
+   * Show the current project's scheduling mode in Settings
+   */
+  private renderScheduleModeSettings() {
+    const scheduleModeSelect = this.element.querySelector('#settings-schedule-mode') as HTMLSelectElement;
+    const pullSuccessorsInput = this.element.querySelector('#settings-pull-successors') as HTMLInputElement;
+    const taskManager = window.canvasApp?.taskManager;
+    if (!scheduleModeSelect || !pullSuccessorsInput || !taskManager) return;
+
+    scheduleModeSelect.value = taskManager.scheduleMode;
+    pullSuccessorsInput.checked = taskManager.pullSuccessors;
+    pullSuccessorsInput.disabled = taskManager.scheduleMode === 'manual';
+  }
+
+  private switchView(view: SidebarView) {
+    this.currentView = view;
+    // Map view to element id
+    const viewIdMap: Record<string, string> = {
+      'details': 'details-view',
+      'composer': 'composer-view',
+      'add-task': 'add-task-view',
+      'edit-swimlanes': 'edit-swimlanes-view',
+      'manage-trades': 'manage-trades-view',
+      'baselines': 'baselines-view',
+      'progress': 'progress-view',
+      'options': 'settings-view',
+    };
+
+    this.element.querySelectorAll('.rp-view').forEach(v => v.classList.remove('active'));
+    const targetId = viewIdMap[view];
+    if (targetId) {
+      const el = this.element.querySelector(`#${targetId}`);
+      if (el) el.classList.add('active');
+    }
+
+    // Calendars and the scheduling mode are per project, so refresh them whenever Settings opens
+    if (view === 'options') {
+      this.renderCalendarSettings();
+      this.renderScheduleModeSettings();
+    }
+
+    // Update header title
+    const titleEl = this.element.querySelector('.rp-title');
+    if (titleEl) {
+      const titles: Record<string, string> = {
+        'details': 'Details',
+        'composer': 'AI Composer',
+        'add-task': 'Add Task',
+        'edit-swimlanes': 'Swimlanes',
+        'manage-trades': 'Trades',
+        'baselines': 'Baselines',
+        'progress': 'Progress',
+        'options': 'Settings',
+      };
+      titleEl.textContent = titles[view] || 'Details';
+    }
+  }
+
+  private async handleAIComposerSubmit(prompt: string, imageBase64?: string | null) {
+    const displayPrompt = prompt || (imageBase64 ? 'What do you see in this image? Generate a construction schedule based on it.' : '');
+    this.addComposerMessage(displayPrompt, true);
+    const input = this.element.querySelector('.chat-input') as HTMLTextAreaElement;
+    const button = this.element.querySelector('.chat-send-btn') as HTMLButtonElement;
+    
+    if (!this.composer) {
+      this.addComposerMessage('Composer not initialized. Please refresh the page.');
+      return;
+    }
+    
+    const userKey = localStorage.getItem('dingPlanApiKey');
+    const builtInKey = (import.meta.env.VITE_OPENAI_KEY as string) || '';
+    const isLoggedIn = !!authService.getCurrentUser();
+    const apiKey = userKey || (isLoggedIn ? builtInKey : '');
+    if (!apiKey) {
+      this.addComposerMessage(isLoggedIn ? 'AI Composer error — please try again.' : 'Sign in or add your API key (OpenAI or Anthropic) in Settings to use AI Composer.');
+      return;
+    }
+    if (this.composer) this.composer.setApiKey(apiKey);
+    
+    try {
+      input.disabled = true;
+      button.disabled = true;
+      button.textContent = 'Processing...';
+      const response = await this.composer.processPrompt(displayPrompt, imageBase64 || undefined);
+      this.addComposerMessage(response);
+    } catch (error: unknown) {
+      this.addComposerMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      if (input) { input.disabled = false; input.value = ''; input.style.height = 'auto'; input.focus(); }
+      if (button) { button.disabled = true; }
+    }
+  }
+
+  show(view: SidebarView = 'details', canvasInstance?: any) {
+    this.isVisible = true;
+    this.element.style.display = 'flex';
+    // Force reflow before transition
+    this.element.offsetHeight;
+    this.element.style.transform = 'translateX(0)';
+    this.switchView(view);
+    
+    if (view === 'add-task' && canvasInstance) {
+      this.populateAddTaskForm(canvasInstance);
+    } else if (view === 'edit-swimlanes' && canvasInstance) {
+      this.populateSwimlanesForm(canvasInstance);
+    } else if (view === 'baselines' && canvasInstance) {
+      this.populateBaselinesView(canvasInstance);
+    } else if (view === 'progress' && canvasInstance) {
+      this.populateProgressView(canvasInstance);
+    }
+  }
+
+  hide() {
+    this.isVisible = false;
+    this.element.style.transform = `translateX(${RIGHT_PANEL_WIDTH}px)`;
+    // Clear active nav
+    this.leftPanel.querySelectorAll('.left-nav-btn').forEach(b => b.classList.remove('active'));
+    setTimeout(() => {
+      if (!this.isVisible) this.element.style.display = 'none';
+    }, 300);
+  }
+
+  showLeftPanel() {
+    this.leftPanelVisible = true;
+    this.leftPanel.style.transform = 'translateX(0)';
+    this.floatingBar.style.display = 'none';
+    this.refreshProjectList();
+  }
+
+  hideLeftPanel() {
+    this.leftPanelVisible = false;
+    this.leftPanel.style.transform = `translateX(-${LEFT_PANEL_WIDTH}px)`;
+    this.floatingBar.style.display = 'flex'; // Show floating bar when sidebar closes
+  }
+
+  isLeftPanelOpen(): boolean { return this.leftPanelVisible; }
+
+  private updateStatusBanner() {
+    const banner = this.leftPanel.querySelector('#sidebar-status-banner');
+    if (!banner) return;
+
+    const currentUser = authService.getCurrentUser();
+    if (currentUser) {
+      banner.innerHTML = '<span style="color: #22c55e; font-size: 8px;">●</span> <span>☁️ Synced</span>';
+      banner.style.color = '#6b7280';
+    } else {
+      banner.innerHTML = '<span style="color: #22c55e; font-size: 8px;">●</span> <span>Saves automatically</span>';
+      banner.style.color = '#6b7280';
+    }
+  }
+
+  getWidth(): number { return RIGHT_PANEL_WIDTH; }
+  isOpen(): boolean { return this.isVisible; }
+  getCurrentView(): SidebarView { return this.currentView; }
+
+  onTradeFiltersChanged(callback: (filters: Map<string, boolean>) => void) {
+    this.onTradeFilterChange = callback;
+  }
+  
+  getTradeFilters(): Map<string, boolean> { return new Map(this.tradeFilters); }
+
+  /**
+   * Record a sidebar edit as an undo step
+   */
+  private commitHistory(label: string) {
+    const taskManager = this.canvas?.taskManager || window.canvasApp?.taskManager;
+    if (taskManager) taskManager.history.commit(label);
+  }
+
+  private onHistoryRestored() {
+    this.updateTradeList();
+    this.renderCalendarSettings();
+    const canvasInstance = this.canvas || window.canvasApp;
+    if (!this.isVisible || !canvasInstance) return;
+    if (this.currentView === 'edit-swimlanes') {
+      this.populateSwimlanesForm(canvasInstance);
+    } else if (this.currentView === 'progress') {
+      this.populateProgressView(canvasInstance);
+    }
+  }
+
+  private notifyFilterChanged() {
+    if (this.onTradeFilterChange) {
+      this.onTradeFilterChange(new Map(this.tradeFilters));
+    }
+  }
+
+  initializeComposer(canvasInstance: any) {
+    this.canvas = canvasInstance;
+    this.composer = new Composer({ canvas: canvasInstance });
+    const userKey = localStorage.getItem('dingPlanApiKey');
+    const builtInKey = (import.meta.env.VITE_OPENAI_KEY as string) || '';
+    const isLoggedIn = !!authService.getCurrentUser();
+    const apiKey = userKey || (isLoggedIn ? builtInKey : '');
+    if (apiKey && this.composer) {
+      this.composer.setApiKey(apiKey);
+    }
+    // Show empty state
+    if (this.composerResponseArea) {
+      this.composerResponseArea.innerHTML = `
+        <div style="display:flex; flex-direction:column; align-items:center; justify-content:center; flex:1; padding:40px 20px; text-align:center; color:#999;">
+          <div style="font-size:32px; margin-bottom:16px; opacity:0.5;">🏗️</div>
+          <div style="font-size:14px; font-weight:500; color:#666; margin-bottom:8px;">Describe your project</div>
+          <div style="font-size:13px; line-height:1.5; max-width:260px; color:#aaa;">
             "3-story office buildout, 18 months, MEP + finishes" — and I'll generate the full schedule.
           </div>
           ${!apiKey ? '<div style="margin-top:16px; padding:10px 14px; background:#fff8e6; border:1px solid #f0e0b0; border-radius:8px; font-size:12px; color:#92750c;">Add your OpenAI or Anthropic API key in Settings first.</div>' : ''}
@@ -1420,6 +2278,7 @@ export class Sidebar {
         if (tradeId) {
           const trade = this.trades.find(t => t.id === tradeId);
           if (trade) trade.color = hex;
+          this.commitHistory('Change trade color');
           this.notifyFilterChanged();
         }
         colorPicker.remove();
@@ -1444,8 +2303,9 @@ export class Sidebar {
     if (!confirm('Remove this trade?')) return;
     const idx = this.trades.findIndex(t => t.id === tradeId);
     if (idx === -1) return;
-    this.trades.splice(idx, 1);
+    Trades.removeTrade(tradeId);
     this.tradeFilters.delete(tradeId);
+    this.commitHistory('Delete trade');
     this.notifyFilterChanged();
     this.updateTradeList();
   }
@@ -1454,8 +2314,9 @@ export class Sidebar {
     const color = this.getRandomColor();
     const name = "New Trade";
     const id = this.generateTradeId(name, color);
-    this.trades.push({ id, name, color });
+    Trades.addTrade({ id, name, color });
     this.tradeFilters.set(id, true);
+    this.commitHistory('Add trade');
     this.updateTradeList();
     this.notifyFilterChanged();
   }
@@ -1478,6 +2339,7 @@ export class Sidebar {
       <div class="trade-filter-item" data-color="${trade.color}" data-id="${trade.id}">
         <div class="trade-filter-color" style="background-color: ${trade.color}"></div>
         <input type="text" class="trade-filter-name" value="${trade.name}" data-original="${trade.name}">
+        <input type="number" class="trade-filter-capacity" min="1" placeholder="Max" title="Max crew per day" value="${trade.capacity ?? ''}">
         <div class="trade-filter-toggle ${this.tradeFilters.get(trade.id) ? 'active' : ''}" data-id="${trade.id}"></div>
         <button class="trade-filter-delete" data-id="${trade.id}">×</button>
       </div>
@@ -1505,6 +2367,19 @@ export class Sidebar {
         const el = e.currentTarget as HTMLInputElement;
         const id = el.closest('.trade-filter-item')?.getAttribute('data-id');
         if (id) { const t = this.trades.find(t => t.id === id); if (t) t.name = el.value; }
+        this.commitHistory('Rename trade');
+      });
+    });
+    this.element.querySelectorAll('.trade-filter-capacity').forEach(input => {
+      input.addEventListener('change', (e) => {
+        const el = e.currentTarget as HTMLInputElement;
+        const id = el.closest('.trade-filter-item')?.getAttribute('data-id');
+        const t = id ? this.trades.find(t => t.id === id) : undefined;
+        if (!t) return;
+        const capacity = parseInt(el.value, 10);
+        if (capacity > 0) { t.capacity = capacity; } else { delete t.capacity; el.value = ''; }
+        this.commitHistory('Change trade capacity');
+        document.dispatchEvent(new CustomEvent('taskUpdated'));
       });
     });
     this.element.querySelectorAll('.trade-filter-delete').forEach(btn => {
@@ -1512,6 +2387,47 @@ export class Sidebar {
     });
   }
 
+  /**
+   * Level the schedule against trade capacities and list what moved
+   */
+  private levelResources() {
+    const canvasInstance = this.canvas || window.canvasApp;
+    const taskManager = canvasInstance?.taskManager;
+    const report = this.element.querySelector('#leveling-report') as HTMLElement;
+    if (!taskManager || !report) return;
+
+    if (!this.trades.some(t => t.capacity)) {
+      alert('Set a max crew per day on at least one trade first.');
+      return;
+    }
+
+    const result: LevelingResult = taskManager.levelResources();
+    canvasInstance.render();
+
+    const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const moves = result.moves.map(move => `
+      <div style="padding:6px 0; border-bottom:1px solid #f0f0f0; font-size:12px;">
+        <div style="display:flex; justify-content:space-between; gap:8px;">
+          <span style="font-weight:500;">${move.taskName}</span>
+          <span style="color:#6b7280; white-space:nowrap;">${formatDate(move.from)} → ${formatDate(move.to)} (+${move.delay}d)</span>
+        </div>
+        <div style="color:#6b7280;">${move.reason}</div>
+      </div>
+    `).join('');
+    const unresolved = result.unresolved.map(overload => `
+      <div style="font-size:12px; color:#dc2626; padding:2px 0;">${overload.tradeName} on ${formatDate(overload.date)}: ${overload.demand} of ${overload.capacity} crew</div>
+    `).join('');
+
+    report.innerHTML = `
+      <div style="font-size:12px; font-weight:600; margin:4px 0;">${result.moves.length > 0 ? `${result.moves.length} task(s) moved` : 'No tasks moved'}</div>
+      ${moves}
+      ${result.unresolved.length > 0 ? `
+        <div style="font-size:12px; font-weight:600; margin:8px 0 4px;">Over capacity without float to absorb it</div>
+        ${unresolved}
+      ` : ''}
+    `;
+  }
+
   private generateTradeId(name: string, color: string): string {
     const nameId = name.toLowerCase().replace(/[^a-z0-9]/g, '');
     const colorId = color.replace('#', '').substring(0, 6);
@@ -1583,6 +2499,7 @@ export class Sidebar {
     };
 
     if (canvasInstance && canvasInstance.addTask) canvasInstance.addTask(taskConfig);
+    canvasInstance?.taskManager?.history.commit('Add task');
     if (createAnother) { nameInput.value = ''; nameInput.focus(); }
     else this.hide();
   }
@@ -1599,10 +2516,14 @@ export class Sidebar {
         const item = document.createElement('div');
         item.className = 'swimlane-item';
         item.style.borderLeftColor = sl.color;
+        this.setSwimlaneItemLevel(item, Wbs.getDepth(canvasInstance.taskManager.swimlanes, sl));
         item.innerHTML = `
           <div class="swimlane-color" style="background-color: ${sl.color}"></div>
           <input type="text" class="swimlane-name-input" value="${sl.name}" data-lane-id="${sl.id}">
+          ${this.renderSwimlaneCalendarSelect(sl.id)}
           <div class="swimlane-actions">
+            <button class="outdent-lane-btn" title="Move out a WBS level">←</button>
+            <button class="indent-lane-btn" title="Nest under the swimlane above">→</button>
             ${i > 0 ? `<button class="move-up-btn" data-lane-id="${sl.id}" title="Move up">↑</button>` : '<div style="width:28px"></div>'}
             ${i < canvasInstance.taskManager.swimlanes.length - 1 ? `<button class="move-down-btn" data-lane-id="${sl.id}" title="Move down">↓</button>` : '<div style="width:28px"></div>'}
             <button class="delete-lane-btn" data-lane-id="${sl.id}" title="Delete">×</button>
@@ -1611,95 +2532,765 @@ export class Sidebar {
         container.appendChild(item);
       });
     }
-    this.setupSwimlanesEventListeners(canvasInstance);
+    this.setupSwimlanesEventListeners(canvasInstance);
+  }
+
+  setupSwimlanesEventListeners(canvasInstance: any) {
+    const container = document.getElementById('sidebar-swimlane-list');
+    const addBtn = document.getElementById('sidebar-add-swimlane');
+    const saveBtn = document.getElementById('sidebar-save-swimlanes');
+    if (!container || !addBtn || !saveBtn) return;
+
+    addBtn.onclick = () => {
+      const item = document.createElement('div');
+      item.className = 'swimlane-item';
+      const id = this.generateUUID();
+      const color = this.getRandomHexColor();
+      item.style.borderLeftColor = color;
+      item.innerHTML = `
+        <div class="swimlane-color" style="background-color: ${color}"></div>
+        <input type="text" class="swimlane-name-input" value="New Swimlane" data-lane-id="${id}">
+        ${this.renderSwimlaneCalendarSelect(id)}
+        <div class="swimlane-actions">
+          <button class="outdent-lane-btn" title="Move out a WBS level">←</button>
+          <button class="indent-lane-btn" title="Nest under the swimlane above">→</button>
+          <button class="move-up-btn" data-lane-id="${id}" title="Move up">↑</button>
+          <button class="move-down-btn" data-lane-id="${id}" title="Move down">↓</button>
+          <button class="delete-lane-btn" data-lane-id="${id}" title="Delete">×</button>
+        </div>
+      `;
+      container.appendChild(item);
+      item.querySelector('input')?.focus();
+      this.bindSwimlaneMoveButtons(canvasInstance);
+    };
+
+    saveBtn.onclick = () => this.saveSwimlanesChanges(canvasInstance);
+    this.bindSwimlaneMoveButtons(canvasInstance);
+  }
+
+  bindSwimlaneMoveButtons(_canvasInstance: any) {
+    // A lane can nest at most one level below the lane above it
+    document.querySelectorAll('.indent-lane-btn').forEach(btn => {
+      (btn as HTMLElement).onclick = (e) => {
+        const item = (e.target as HTMLElement).closest('.swimlane-item') as HTMLElement;
+        const previous = item?.previousElementSibling as HTMLElement | null;
+        if (!item || !previous) return;
+        const level = Number(item.dataset.level || 0);
+        if (level <= Number(previous.dataset.level || 0)) this.setSwimlaneItemLevel(item, level + 1);
+      };
+    });
+    document.querySelectorAll('.outdent-lane-btn').forEach(btn => {
+      (btn as HTMLElement).onclick = (e) => {
+        const item = (e.target as HTMLElement).closest('.swimlane-item') as HTMLElement;
+        const level = Number(item?.dataset.level || 0);
+        if (item && level > 0) this.setSwimlaneItemLevel(item, level - 1);
+      };
+    });
+    document.querySelectorAll('.delete-lane-btn').forEach(btn => {
+      (btn as HTMLElement).addEventListener('click', (e) => {
+        const item = (e.target as HTMLElement).closest('.swimlane-item');
+        item?.parentNode?.removeChild(item);
+      });
+    });
+    document.querySelectorAll('.move-up-btn').forEach(btn => {
+      (btn as HTMLElement).addEventListener('click', (e) => {
+        const item = (e.target as HTMLElement).closest('.swimlane-item');
+        if (item?.previousElementSibling) item.parentNode?.insertBefore(item, item.previousElementSibling);
+      });
+    });
+    document.querySelectorAll('.move-down-btn').forEach(btn => {
+      (btn as HTMLElement).addEventListener('click', (e) => {
+        const item = (e.target as HTMLElement).closest('.swimlane-item');
+        if (item?.nextElementSibling) item.parentNode?.insertBefore(item.nextElementSibling, item);
+      });
+    });
+  }
+
+  saveSwimlanesChanges(canvasInstance: any) {
+    const inputs = document.querySelectorAll('.swimlane-name-input');
+    if (!canvasInstance?.taskManager) return;
+
+    const existingMap = new Map<string, any>();
+    canvasInstance.taskManager.swimlanes.forEach((s: any) => existingMap.set(s.id, s));
+
+    const updated: any[] = [];
+    const laneSpacing = 20;
+    // Most recent lane at each WBS level, to find each lane's parent
+    const ancestors: string[] = [];
+
+    inputs.forEach(input => {
+      const el = input as HTMLInputElement;
+      const id = el.dataset.laneId || '';
+      const name = el.value;
+      const existing = existingMap.get(id);
+
+      const item = el.closest('.swimlane-item') as HTMLElement | null;
+      const level = Math.min(Number(item?.dataset.level || 0), ancestors.length);
+      ancestors.length = level;
+      const parentId = level > 0 ? ancestors[level - 1] : undefined;
+      ancestors.push(id);
+
+      if (existing) {
+        const { parentId: _oldParentId, ...lane } = existing;
+        updated.push({ ...lane, name, y: 0, ...(parentId ? { parentId } : {}) });
+      } else {
+        const colorDiv = el.closest('.swimlane-item')?.querySelector('.swimlane-color') as HTMLElement;
+        let color = colorDiv?.style.backgroundColor || '#cccccc';
+        if (color.startsWith('rgb')) {
+          const m = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+          if (m) color = `#${parseInt(m[1]).toString(16).padStart(2,'0')}${parseInt(m[2]).toString(16).padStart(2,'0')}${parseInt(m[3]).toString(16).padStart(2,'0')}`;
+        }
+        updated.push({ id, name, color, y: 0, height: canvasInstance.taskManager.SWIMLANE_HEIGHT, tasks: [], taskPositions: new Map(), ...(parentId ? { parentId } : {}) });
+      }
+    });
+
+    updated.forEach((s, i) => { s.y = i * (canvasInstance.taskManager.SWIMLANE_HEIGHT + laneSpacing); });
+
+    document.querySelectorAll('.swimlane-calendar-select').forEach(select => {
+      const el = select as HTMLSelectElement;
+      Calendars.setSwimlaneCalendar(el.dataset.laneId || '', el.value || null);
+    });
+
+    canvasInstance.taskManager.swimlanes.length = 0;
+    updated.forEach(s => canvasInstance.taskManager.swimlanes.push(s));
+    canvasInstance.taskManager.refreshSwimlaneLayout();
+    canvasInstance.taskManager.history.commit('Edit swimlanes');
+    canvasInstance.render();
+    this.hide();
+  }
+
+  private setSwimlaneItemLevel(item: HTMLElement, level: number) {
+    item.dataset.level = String(level);
+    item.style.marginLeft = `${level * 16}px`;
+  }
+
+  private renderSwimlaneCalendarSelect(laneId: string): string {
+    const current = Calendars.getSwimlaneCalendarId(laneId);
+    return `
+      <select class="swimlane-calendar-select" data-lane-id="${laneId}" title="Work calendar">
+        <option value="" ${!current ? 'selected' : ''}>Project calendar</option>
+        ${Calendars.getAllCalendars().map(c => `<option value="${c.id}" ${current === c.id ? 'selected' : ''}>${c.name}</option>`).join('')}
+      </select>
+    `;
+  }
+
+  // ---- Baselines ----
+
+  populateBaselinesView(canvasInstance: any) {
+    const taskManager = canvasInstance?.taskManager;
+    const list = this.element.querySelector('#baseline-list') as HTMLElement;
+    const captureBtn = this.element.querySelector('#capture-baseline') as HTMLButtonElement;
+    const nameInput = this.element.querySelector('#baseline-name') as HTMLInputElement;
+    if (!taskManager || !list || !captureBtn || !nameInput) return;
+
+    const baselines: Baseline[] = taskManager.baselines;
+    list.innerHTML = `
+      <label class="calendar-item">
+        <span>No baseline</span>
+        <input type="radio" name="active-baseline" value="" ${!taskManager.activeBaselineId ? 'checked' : ''}>
+      </label>
+      ${baselines.map(b => `
+        <div class="calendar-item">
+          <label style="display:flex; align-items:center; gap:8px; cursor:pointer;">
+            <input type="radio" name="active-baseline" value="${b.id}" ${taskManager.activeBaselineId === b.id ? 'checked' : ''}>
+            <div>
+              <div>${b.name}</div>
+              <div class="calendar-item-meta">${new Date(b.createdAt).toLocaleString()} · ${Object.keys(b.tasks).length} tasks</div>
+            </div>
+          </label>
+          <button data-baseline-delete="${b.id}" title="Delete">×</button>
+        </div>
+      `).join('')}
+    `;
+
+    list.querySelectorAll('input[name="active-baseline"]').forEach(radio => {
+      radio.addEventListener('change', (e) => {
+        taskManager.setActiveBaseline((e.target as HTMLInputElement).value || null);
+        canvasInstance.render();
+      });
+    });
+    list.querySelectorAll('[data-baseline-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const id = (btn as HTMLElement).dataset.baselineDelete!;
+        const baseline = baselines.find(b => b.id === id);
+        if (!baseline || !confirm(`Delete baseline "${baseline.name}"?`)) return;
+        taskManager.deleteBaseline(id);
+        canvasInstance.render();
+        this.populateBaselinesView(canvasInstance);
+      });
+    });
+
+    captureBtn.onclick = () => {
+      if (taskManager.getAllTasks().length === 0) { alert('Add some tasks before capturing a baseline.'); return; }
+      const name = nameInput.value.trim() || `Baseline ${baselines.length + 1}`;
+      taskManager.captureBaseline(name);
+      nameInput.value = '';
+      canvasInstance.render();
+      this.populateBaselinesView(canvasInstance);
+    };
+  }
+
+  // ---- Progress ----
+
+  populateProgressView(canvasInstance: any) {
+    const taskManager = canvasInstance?.taskManager;
+    const dateInput = this.element.querySelector('#data-date-input') as HTMLInputElement;
+    const updateBtn = this.element.querySelector('#update-progress') as HTMLButtonElement;
+    const clearBtn = this.element.querySelector('#clear-data-date') as HTMLButtonElement;
+    const summary = this.element.querySelector('#progress-summary') as HTMLElement;
+    if (!taskManager || !dateInput || !updateBtn || !clearBtn || !summary) return;
+
+    dateInput.value = taskManager.dataDate ? Calendars.formatDateKey(taskManager.dataDate) : '';
+
+    const tasks: Task[] = taskManager.getAllTasks();
+    const finished = tasks.filter(t => t.actualFinish || t.status === 'completed').length;
+    const started = tasks.filter(t => t.actualStart && !t.actualFinish).length;
+    const overdue = taskManager.dataDate
+      ? tasks.filter(t => !t.actualStart && t.startDate < taskManager.dataDate).length
+      : 0;
+    summary.innerHTML = `
+      <div class="calendar-item"><span>Finished</span><span class="calendar-item-meta">${finished}</span></div>
+      <div class="calendar-item"><span>In progress</span><span class="calendar-item-meta">${started}</span></div>
+      <div class="calendar-item"><span>Not started</span><span class="calendar-item-meta">${tasks.length - finished - started}</span></div>
+      ${overdue > 0 ? `<div class="calendar-item" style="color:#dc2626;"><span>Planned to start before the data date</span><span>${overdue}</span></div>` : ''}
+    `;
+
+    dateInput.onchange = () => {
+      taskManager.setDataDate(Calendars.parseDateKey(dateInput.value));
+      canvasInstance.render();
+      this.populateProgressView(canvasInstance);
+    };
+
+    updateBtn.onclick = () => {
+      if (!taskManager.dataDate) { alert('Set a data date first.'); return; }
+      const changed = taskManager.updateScheduleFromDataDate();
+      canvasInstance.render();
+      this.populateProgressView(canvasInstance);
+      alert(changed > 0 ? `Schedule updated: ${changed} task(s) moved.` : 'Schedule is already up to date.');
+    };
+
+    clearBtn.onclick = () => {
+      taskManager.setDataDate(null);
+      canvasInstance.render();
+      this.populateProgressView(canvasInstance);
+    };
+  }
+
+  // ---- Calendars ----
+
+  private renderCalendarSettings(editingId?: string) {
+    const container = this.element.querySelector('#settings-calendars') as HTMLElement;
+    if (!container) return;
+
+    const project = Calendars.getProjectCalendar();
+    const editing = editingId === 'new'
+      ? { id: '', name: '', workWeek: [false, true, true, true, true, true, false], holidays: [], exceptions: [] } as WorkCalendar
+      : editingId ? Calendars.getCalendarById(editingId) : undefined;
+    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    container.innerHTML = `
+      <div class="form-group">
+        <label for="settings-project-calendar">Project calendar</label>
+        <select id="settings-project-calendar">
+          ${Calendars.getAllCalendars().map(c => `<option value="${c.id}" ${c.id === project.id ? 'selected' : ''}>${c.name}</option>`).join('')}
+        </select>
+      </div>
+      ${Calendars.getAllCalendars().map(c => `
+        <div class="calendar-item">
+          <div>
+            <div>${c.name}</div>
+            <div class="calendar-item-meta">${dayNames.filter((_, i) => c.workWeek[i]).join(' ')} · ${c.holidays.length} holidays · ${c.exceptions.length} exceptions</div>
+          </div>
+          <div>
+            <button data-calendar-edit="${c.id}" title="Edit">✎</button>
+            ${c.id !== Calendars.STANDARD_ID ? `<button data-calendar-delete="${c.id}" title="Delete">×</button>` : ''}
+          </div>
+        </div>
+      `).join('')}
+      ${editing ? `
+        <div class="calendar-editor">
+          <div class="form-group">
+            <label>Name</label>
+            <input type="text" id="calendar-edit-name" value="${editing.name}" placeholder="e.g. 6-day week">
+          </div>
+          <div class="form-group">
+            <label>Work days</label>
+            <div class="calendar-days">
+              ${dayNames.map((d, i) => `<label><input type="checkbox" class="calendar-edit-day" data-day="${i}" ${editing.workWeek[i] ? 'checked' : ''}>${d}</label>`).join('')}
+            </div>
+          </div>
+          <div class="form-group">
+            <label>Holidays (one YYYY-MM-DD per line)</label>
+            <textarea id="calendar-edit-holidays" placeholder="2025-12-25">${editing.holidays.join('\n')}</textarea>
+          </div>
+          <div class="form-group">
+            <label>Exceptions (start to end, name; add "(working)" for extra work days)</label>
+            <textarea id="calendar-edit-exceptions" placeholder="2025-12-22 to 2026-01-02 Holiday shutdown">${editing.exceptions.map(e => this.formatCalendarException(e)).join('\n')}</textarea>
+          </div>
+          <div class="form-actions">
+            <button id="calendar-edit-save" class="btn-primary">Save Calendar</button>
+            <button id="calendar-edit-cancel" class="btn-secondary">Cancel</button>
+          </div>
+        </div>
+      ` : `<button id="calendar-add" class="btn-secondary" style="width:100%;">+ New Calendar</button>`}
+    `;
+
+    container.querySelector('#settings-project-calendar')?.addEventListener('change', (e) => {
+      Calendars.setProjectCalendar((e.target as HTMLSelectElement).value);
+      this.onCalendarsChanged();
+    });
+    container.querySelector('#calendar-add')?.addEventListener('click', () => this.renderCalendarSettings('new'));
+    container.querySelector('#calendar-edit-cancel')?.addEventListener('click', () => this.renderCalendarSettings());
+    container.querySelectorAll('[data-calendar-edit]').forEach(btn => {
+      btn.addEventListener('click', () => this.renderCalendarSettings((btn as HTMLElement).dataset.calendarEdit));
+    });
+    container.querySelectorAll('[data-calendar-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const id = (btn as HTMLElement).dataset.calendarDelete!;
+        const calendar = Calendars.getCalendarById(id);
+        if (!calendar || !confirm(`Delete calendar "${calendar.name}"? Tasks and swimlanes using it will fall back to the project calendar.`)) return;
+        Calendars.removeCalendar(id);
+        window.canvasApp?.taskManager?.tasks.forEach((task: Task) => {
+          if (task.calendarId === id) task.calendarId = null;
+        });
+        this.onCalendarsChanged();
+      });
+    });
+    container.querySelector('#calendar-edit-save')?.addEventListener('click', () => {
+      if (editing) this.saveCalendarFromEditor(editing.id);
+    });
+  }
+
+  private saveCalendarFromEditor(id: string) {
+    const container = this.element.querySelector('#settings-calendars') as HTMLElement;
+    const name = (container.querySelector('#calendar-edit-name') as HTMLInputElement).value.trim();
+    if (!name) { alert('Please enter a calendar name.'); return; }
+
+    const workWeek = [false, false, false, false, false, false, false];
+    container.querySelectorAll('.calendar-edit-day').forEach(el => {
+      const input = el as HTMLInputElement;
+      workWeek[parseInt(input.dataset.day || '0', 10)] = input.checked;
+    });
+    if (!workWeek.some(Boolean)) { alert('A calendar needs at least one work day.'); return; }
+
+    const holidays: string[] = [];
+    const invalid: string[] = [];
+    (container.querySelector('#calendar-edit-holidays') as HTMLTextAreaElement).value.split('\n').forEach(line => {
+      const key = line.trim();
+      if (!key) return;
+      if (Calendars.parseDateKey(key)) holidays.push(key);
+      else invalid.push(key);
+    });
+
+    const exceptions: CalendarException[] = [];
+    (container.querySelector('#calendar-edit-exceptions') as HTMLTextAreaElement).value.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      const exception = this.parseCalendarException(line);
+      if (exception) exceptions.push(exception);
+      else invalid.push(line.trim());
+    });
+
+    if (invalid.length > 0) {
+      alert(`These lines could not be read and were skipped:\n${invalid.join('\n')}`);
+    }
+
+    Calendars.saveCalendar({ id: id || this.generateUUID(), name, workWeek, holidays, exceptions });
+    this.onCalendarsChanged();
   }
 
-  setupSwimlanesEventListeners(canvasInstance: any) {
-    const container = document.getElementById('sidebar-swimlane-list');
-    const addBtn = document.getElementById('sidebar-add-swimlane');
-    const saveBtn = document.getElementById('sidebar-save-swimlanes');
-    if (!container || !addBtn || !saveBtn) return;
+  private formatCalendarException(exception: CalendarException): string {
+    const range = exception.start === exception.end ? exception.start : `${exception.start} to ${exception.end}`;
+    return `${range}${exception.working ? ' (working)' : ''} ${exception.name}`.trim();
+  }
 
-    addBtn.onclick = () => {
-      const item = document.createElement('div');
-      item.className = 'swimlane-item';
-      const id = this.generateUUID();
-      const color = this.getRandomHexColor();
-      item.style.borderLeftColor = color;
-      item.innerHTML = `
-        <div class="swimlane-color" style="background-color: ${color}"></div>
-        <input type="text" class="swimlane-name-input" value="New Swimlane" data-lane-id="${id}">
-        <div class="swimlane-actions">
-          <button class="move-up-btn" data-lane-id="${id}" title="Move up">↑</button>
-          <button class="move-down-btn" data-lane-id="${id}" title="Move down">↓</button>
-          <button class="delete-lane-btn" data-lane-id="${id}" title="Delete">×</button>
-        </div>
-      `;
-      container.appendChild(item);
-      item.querySelector('input')?.focus();
-      this.bindSwimlaneMoveButtons(canvasInstance);
-    };
+  /**
+   * Parse an exception line like "2025-12-22 to 2026-01-02 Holiday shutdown"
+   * or "2025-03-08 (working) Saturday pour"
+   */
+  private parseCalendarException(line: string): CalendarException | null {
+    const match = /^\s*(\d{4}-\d{2}-\d{2})(?:\s*(?:to|–)\s*(\d{4}-\d{2}-\d{2}))?\s*(\(working\))?\s*(.*)$/i.exec(line);
+    if (!match) return null;
+    const start = match[1];
+    const end = match[2] || start;
+    const startDate = Calendars.parseDateKey(start);
+    const endDate = Calendars.parseDateKey(end);
+    if (!startDate || !endDate || endDate < startDate) return null;
+    return { name: match[4].trim(), start, end, working: !!match[3] };
+  }
 
-    saveBtn.onclick = () => this.saveSwimlanesChanges(canvasInstance);
-    this.bindSwimlaneMoveButtons(canvasInstance);
+  private onCalendarsChanged() {
+    this.commitHistory('Edit calendars');
+    this.renderCalendarSettings();
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+    if (window.canvasApp) window.canvasApp.render();
   }
 
-  bindSwimlaneMoveButtons(_canvasInstance: any) {
-    document.querySelectorAll('.delete-lane-btn').forEach(btn => {
-      (btn as HTMLElement).addEventListener('click', (e) => {
-        const item = (e.target as HTMLElement).closest('.swimlane-item');
-        item?.parentNode?.removeChild(item);
-      });
+  // ---- PDF / Image ----
+
+  /**
+   * Ask for the report, paper size, time scale and title block details, then
+   * export the PDF. Choices other than the lookahead start are remembered for
+   * the next export.
+   */
+  private showPdfExportModal() {
+    if (!window.canvasApp) return;
+    let saved: Partial<PdfExportOptions> = {};
+    let savedLookahead: Partial<PdfLookaheadOptions> & { report?: string } = {};
+    try {
+      saved = JSON.parse(localStorage.getItem('dingplan-pdf-options') || '{}');
+      savedLookahead = JSON.parse(localStorage.getItem('dingplan-pdf-lookahead') || '{}');
+    } catch {
+      saved = {};
+    }
+    const options: PdfExportOptions = { paperSize: 'tabloid', companyName: '', revision: '', dayWidth: 3, ...saved };
+    const report = savedLookahead.report || 'schedule';
+    // Lookaheads start on the Monday of the current week
+    const monday = new Date();
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    const mondayValue = `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
+    const scales = [
+      { value: 0, label: 'Fit to page width' },
+      { value: 1.5, label: 'Compact' },
+      { value: 3, label: 'Normal' },
+      { value: 6, label: 'Wide' }
+    ];
+    const fieldStyle = 'width: 100%; box-sizing: border-box; background: #2a2a2a; border: 1px solid #444; color: white; padding: 8px 10px; border-radius: 6px; font-size: 13px; font-family: inherit;';
+
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 440px;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Export PDF</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">Large schedules are split across pages by date range and rows.</p>
+      <div style="display: flex; flex-direction: column; gap: 12px;">
+        <label style="color: #ccc;">Report
+          <select id="pdf-report" style="${fieldStyle} margin-top: 4px;">
+            ${[['schedule', 'Full schedule'], ['2', '2-week lookahead'], ['3', '3-week lookahead'], ['6', '6-week lookahead']].map(([value, label]) =>
+              `<option value="${value}" ${value === report ? 'selected' : ''}>${label}</option>`
+            ).join('')}
+          </select>
+        </label>
+        <div id="pdf-lookahead-fields" style="display: ${report === 'schedule' ? 'none' : 'flex'}; flex-direction: column; gap: 12px;">
+          <label style="color: #ccc;">Starting
+            <input id="pdf-lookahead-start" type="date" value="${mondayValue}" style="${fieldStyle} margin-top: 4px;">
+          </label>
+          <label style="color: #ccc;">Group rows by
+            <select id="pdf-lookahead-group" style="${fieldStyle} margin-top: 4px;">
+              <option value="trade" ${savedLookahead.groupBy !== 'swimlane' ? 'selected' : ''}>Trade</option>
+              <option value="swimlane" ${savedLookahead.groupBy === 'swimlane' ? 'selected' : ''}>Swimlane</option>
+            </select>
+          </label>
+          <label style="display: flex; align-items: center; gap: 8px; color: #ccc; cursor: pointer;">
+            <input id="pdf-lookahead-per-trade" type="checkbox" ${savedLookahead.pagePerTrade ? 'checked' : ''}> One page per trade, for each foreman
+          </label>
+        </div>
+        <label style="color: #ccc;">Paper size
+          <select id="pdf-paper-size" style="${fieldStyle} margin-top: 4px;">
+            ${Object.entries(PDF_PAPER_SIZES).map(([value, paper]) =>
+              `<option value="${value}" ${value === options.paperSize ? 'selected' : ''}>${paper.label}</option>`
+            ).join('')}
+          </select>
+        </label>
+        <label id="pdf-day-width-field" style="color: #ccc; display: ${report === 'schedule' ? 'block' : 'none'};">Time scale
+          <select id="pdf-day-width" style="${fieldStyle} margin-top: 4px;">
+            ${scales.map(scale =>
+              `<option value="${scale.value}" ${scale.value === options.dayWidth ? 'selected' : ''}>${scale.label}</option>`
+            ).join('')}
+          </select>
+        </label>
+        <label style="color: #ccc;">Company
+          <input id="pdf-company" type="text" value="${escapeHtml(options.companyName)}" style="${fieldStyle} margin-top: 4px;">
+        </label>
+        <label style="color: #ccc;">Revision
+          <input id="pdf-revision" type="text" value="${escapeHtml(options.revision)}" placeholder="e.g. Rev 2" style="${fieldStyle} margin-top: 4px;">
+        </label>
+      </div>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;">
+        <button id="pdf-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Cancel</button>
+        <button id="pdf-export" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Export</button>
+      </div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
+
+    const close = () => document.body.removeChild(modal);
+    const reportSelect = content.querySelector('#pdf-report') as HTMLSelectElement;
+    reportSelect.addEventListener('change', () => {
+      // Lookaheads always fit their window to the page width
+      const lookahead = reportSelect.value !== 'schedule';
+      (content.querySelector('#pdf-lookahead-fields') as HTMLElement).style.display = lookahead ? 'flex' : 'none';
+      (content.querySelector('#pdf-day-width-field') as HTMLElement).style.display = lookahead ? 'none' : 'block';
     });
-    document.querySelectorAll('.move-up-btn').forEach(btn => {
-      (btn as HTMLElement).addEventListener('click', (e) => {
-        const item = (e.target as HTMLElement).closest('.swimlane-item');
-        if (item?.previousElementSibling) item.parentNode?.insertBefore(item, item.previousElementSibling);
-      });
+    content.querySelector('#pdf-cancel')?.addEventListener('click', close);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
     });
-    document.querySelectorAll('.move-down-btn').forEach(btn => {
-      (btn as HTMLElement).addEventListener('click', (e) => {
-        const item = (e.target as HTMLElement).closest('.swimlane-item');
-        if (item?.nextElementSibling) item.parentNode?.insertBefore(item.nextElementSibling, item);
-      });
+
+    content.querySelector('#pdf-export')?.addEventListener('click', () => {
+      const chosen: PdfExportOptions = {
+        paperSize: (content.querySelector('#pdf-paper-size') as HTMLSelectElement).value as PdfExportOptions['paperSize'],
+        dayWidth: Number((content.querySelector('#pdf-day-width') as HTMLSelectElement).value),
+        companyName: (content.querySelector('#pdf-company') as HTMLInputElement).value.trim(),
+        revision: (content.querySelector('#pdf-revision') as HTMLInputElement).value.trim()
+      };
+      const startValue = (content.querySelector('#pdf-lookahead-start') as HTMLInputElement).value;
+      if (reportSelect.value !== 'schedule' && !startValue) {
+        alert('Choose the date the lookahead starts.');
+        return;
+      }
+      const groupBy = (content.querySelector('#pdf-lookahead-group') as HTMLSelectElement).value as PdfLookaheadOptions['groupBy'];
+      const pagePerTrade = (content.querySelector('#pdf-lookahead-per-trade') as HTMLInputElement).checked;
+      localStorage.setItem('dingplan-pdf-options', JSON.stringify(chosen));
+      localStorage.setItem('dingplan-pdf-lookahead', JSON.stringify({ report: reportSelect.value, groupBy, pagePerTrade }));
+      close();
+
+      const nameInput = this.leftPanel.querySelector('#left-project-name') as HTMLInputElement;
+      const projectName = nameInput?.value.trim() || 'DingPlan Schedule';
+      if (reportSelect.value === 'schedule') {
+        window.canvasApp.exportToPDF(chosen, projectName);
+        return;
+      }
+      const [year, month, day] = startValue.split('-').map(Number);
+      window.canvasApp.exportLookaheadPDF({
+        startDate: new Date(year, month - 1, day),
+        weeks: Number(reportSelect.value),
+        groupBy,
+        pagePerTrade
+      }, chosen, projectName);
     });
   }
 
-  saveSwimlanesChanges(canvasInstance: any) {
-    const inputs = document.querySelectorAll('.swimlane-name-input');
-    if (!canvasInstance?.taskManager) return;
+  /**
+   * Ask for the format, area, size and resolution of an image of the
+   * schedule, then export it. Choices are remembered for the next export.
+   */
+  private showImageExportModal() {
+    if (!window.canvasApp) return;
+    let saved: Partial<ImageExportOptions> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem('dingplan-image-options') || '{}');
+    } catch {
+      saved = {};
+    }
+    const screen = window.canvasApp.canvas as HTMLCanvasElement;
+    const options: ImageExportOptions = { format: 'png', area: 'view', width: screen.width, height: screen.height, dpi: 192, ...saved };
+    // The visible view always starts at the size of the screen
+    if (options.area === 'view') {
+      options.width = screen.width;
+      options.height = screen.height;
+    }
+    const fieldStyle = 'width: 100%; box-sizing: border-box; background: #2a2a2a; border: 1px solid #444; color: white; padding: 8px 10px; border-radius: 6px; font-size: 13px; font-family: inherit;';
 
-    const existingMap = new Map<string, any>();
-    canvasInstance.taskManager.swimlanes.forEach((s: any) => existingMap.set(s.id, s));
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
 
-    const updated: any[] = [];
-    const laneSpacing = 20;
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 440px;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Export Image</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">A snapshot of the schedule for slides and RFIs.</p>
+      <div style="display: flex; flex-direction: column; gap: 12px;">
+        <label style="color: #ccc;">Format
+          <select id="image-format" style="${fieldStyle} margin-top: 4px;">
+            <option value="png" ${options.format === 'png' ? 'selected' : ''}>PNG (picture)</option>
+            <option value="svg" ${options.format === 'svg' ? 'selected' : ''}>SVG (vector, scales without blur)</option>
+          </select>
+        </label>
+        <label style="color: #ccc;">Area
+          <select id="image-area" style="${fieldStyle} margin-top: 4px;">
+            <option value="view" ${options.area === 'view' ? 'selected' : ''}>Visible view</option>
+            <option value="project" ${options.area === 'project' ? 'selected' : ''}>Whole project</option>
+          </select>
+        </label>
+        <div style="display: flex; gap: 10px;">
+          <label style="color: #ccc; flex: 1;">Width (px)
+            <input id="image-width" type="number" min="200" step="10" value="${options.width}" style="${fieldStyle} margin-top: 4px;">
+          </label>
+          <label id="image-height-field" style="color: #ccc; flex: 1; display: ${options.area === 'view' ? 'block' : 'none'};">Height (px)
+            <input id="image-height" type="number" min="200" step="10" value="${options.height}" style="${fieldStyle} margin-top: 4px;">
+          </label>
+        </div>
+        <label id="image-dpi-field" style="color: #ccc; display: ${options.format === 'png' ? 'block' : 'none'};">Resolution
+          <select id="image-dpi" style="${fieldStyle} margin-top: 4px;">
+            ${[[96, 'Screen (96 DPI)'], [144, '1.5× (144 DPI)'], [192, 'High (192 DPI)'], [300, 'Print (300 DPI)']].map(([dpi, label]) =>
+              `<option value="${dpi}" ${dpi === options.dpi ? 'selected' : ''}>${label}</option>`
+            ).join('')}
+          </select>
+        </label>
+      </div>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;">
+        <button id="image-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Cancel</button>
+        <button id="image-export" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Export</button>
+      </div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
 
-    inputs.forEach(input => {
-      const el = input as HTMLInputElement;
-      const id = el.dataset.laneId || '';
-      const name = el.value;
-      const existing = existingMap.get(id);
+    const formatSelect = content.querySelector('#image-format') as HTMLSelectElement;
+    const areaSelect = content.querySelector('#image-area') as HTMLSelectElement;
+    formatSelect.addEventListener('change', () => {
+      (content.querySelector('#image-dpi-field') as HTMLElement).style.display = formatSelect.value === 'png' ? 'block' : 'none';
+    });
+    areaSelect.addEventListener('change', () => {
+      // The whole project is as tall as its swimlanes
+      (content.querySelector('#image-height-field') as HTMLElement).style.display = areaSelect.value === 'view' ? 'block' : 'none';
+    });
 
-      if (existing) {
-        updated.push({ ...existing, name, y: 0 });
-      } else {
-        const colorDiv = el.closest('.swimlane-item')?.querySelector('.swimlane-color') as HTMLElement;
-        let color = colorDiv?.style.backgroundColor || '#cccccc';
-        if (color.startsWith('rgb')) {
-          const m = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-          if (m) color = `#${parseInt(m[1]).toString(16).padStart(2,'0')}${parseInt(m[2]).toString(16).padStart(2,'0')}${parseInt(m[3]).toString(16).padStart(2,'0')}`;
-        }
-        updated.push({ id, name, color, y: 0, height: canvasInstance.taskManager.SWIMLANE_HEIGHT, tasks: [], taskPositions: new Map() });
+    const close = () => document.body.removeChild(modal);
+    content.querySelector('#image-cancel')?.addEventListener('click', close);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+
+    content.querySelector('#image-export')?.addEventListener('click', () => {
+      const chosen: ImageExportOptions = {
+        format: formatSelect.value as ImageExportOptions['format'],
+        area: areaSelect.value as ImageExportOptions['area'],
+        width: Number((content.querySelector('#image-width') as HTMLInputElement).value),
+        height: Number((content.querySelector('#image-height') as HTMLInputElement).value),
+        dpi: Number((content.querySelector('#image-dpi') as HTMLSelectElement).value)
+      };
+      if (!(chosen.width >= 200) || (chosen.area === 'view' && !(chosen.height >= 200))) {
+        alert('Enter a width and height of at least 200 pixels.');
+        return;
       }
+      localStorage.setItem('dingplan-image-options', JSON.stringify(chosen));
+      close();
+
+      const nameInput = this.leftPanel.querySelector('#left-project-name') as HTMLInputElement;
+      window.canvasApp.exportImage(chosen, nameInput?.value.trim() || 'DingPlan Schedule');
     });
+  }
 
-    updated.forEach((s, i) => { s.y = i * (canvasInstance.taskManager.SWIMLANE_HEIGHT + laneSpacing); });
+  /**
+   * Ask which trade or swimlane to put in a calendar file, then export it
+   */
+  private showIcsExportModal() {
+    if (!this.canvas?.taskManager) return;
+    const taskManager = this.canvas.taskManager;
+    const usedTradeIds = new Set(taskManager.getAllTasks().map((task: Task) => task.tradeId || task.getTrade()?.id));
+    const trades = Trades.getAllTrades().filter(trade => usedTradeIds.has(trade.id));
+    const swimlanes = Wbs.order<WbsLink & { name: string }>(taskManager.swimlanes);
+    const fieldStyle = 'width: 100%; box-sizing: border-box; background: #2a2a2a; border: 1px solid #444; color: white; padding: 8px 10px; border-radius: 6px; font-size: 13px; font-family: inherit;';
 
-    canvasInstance.taskManager.swimlanes.length = 0;
-    updated.forEach(s => canvasInstance.taskManager.swimlanes.push(s));
-    canvasInstance.render();
-    this.hide();
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 440px;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Export Calendar</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">An .ics file of all-day events for phone and desktop calendars. Importing a newer file updates the events it added before.</p>
+      <div style="display: flex; flex-direction: column; gap: 12px;">
+        <label style="color: #ccc;">Trade
+          <select id="ics-trade" style="${fieldStyle} margin-top: 4px;">
+            <option value="">All trades</option>
+            ${trades.map(trade => `<option value="${escapeHtml(trade.id)}">${escapeHtml(trade.name)}</option>`).join('')}
+          </select>
+        </label>
+        <label style="color: #ccc;">Swimlane
+          <select id="ics-swimlane" style="${fieldStyle} margin-top: 4px;">
+            <option value="">All swimlanes</option>
+            ${swimlanes.map(lane =>
+              `<option value="${escapeHtml(lane.id)}">${'&nbsp;&nbsp;'.repeat(Wbs.getDepth(swimlanes, lane))}${escapeHtml(lane.name)}</option>`
+            ).join('')}
+          </select>
+        </label>
+        <div id="ics-count" style="color: #888;"></div>
+      </div>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;">
+        <button id="ics-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Cancel</button>
+        <button id="ics-export" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Export</button>
+      </div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
+
+    const exporter = new IcsExporter();
+    const tradeSelect = content.querySelector('#ics-trade') as HTMLSelectElement;
+    const swimlaneSelect = content.querySelector('#ics-swimlane') as HTMLSelectElement;
+    const getFilters = () => ({ tradeId: tradeSelect.value || undefined, swimlaneId: swimlaneSelect.value || undefined });
+    const updateCount = () => {
+      const tasks = exporter.getTasks(taskManager, getFilters());
+      const milestones = tasks.filter(task => task.isMilestone).length;
+      (content.querySelector('#ics-count') as HTMLElement).textContent =
+        `${tasks.length - milestones} tasks and ${milestones} milestones will be exported.`;
+    };
+    tradeSelect.addEventListener('change', updateCount);
+    swimlaneSelect.addEventListener('change', updateCount);
+    updateCount();
+
+    const close = () => document.body.removeChild(modal);
+    content.querySelector('#ics-cancel')?.addEventListener('click', close);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+
+    content.querySelector('#ics-export')?.addEventListener('click', () => {
+      const filters = getFilters();
+      if (exporter.getTasks(taskManager, filters).length === 0) {
+        alert('No tasks match this trade and swimlane.');
+        return;
+      }
+      try {
+        const projectName = document.getElementById('project-name-display')?.textContent?.trim() || 'DingPlan Project';
+        const scope = [
+          filters.tradeId ? tradeSelect.selectedOptions[0].textContent : '',
+          filters.swimlaneId ? swimlaneSelect.selectedOptions[0].textContent?.trim() : ''
+        ].filter(Boolean).join(' - ');
+        const calendarName = scope ? `${projectName} - ${scope}` : projectName;
+        const ics = exporter.exportTasks(taskManager, { calendarName, ...filters });
+        exporter.downloadIcs(calendarName.replace(/[^a-zA-Z0-9]/g, '_'), ics);
+        close();
+      } catch (error) {
+        console.error('Calendar export failed:', error);
+        alert(`Calendar export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
   }
 
   // ---- JSON / Share ----
@@ -1745,17 +3336,286 @@ export class Sidebar {
 
   private async handleCopyShareLink() {
     try {
-      const data = this.getCurrentProjectData();
-      if (!data) { alert('No project data to share.'); return; }
-      const base64 = btoa(encodeURIComponent(JSON.stringify(data)));
-      const url = `${window.location.origin}${window.location.pathname}#share=${base64}`;
+      const taskManager = this.canvas?.taskManager;
+      if (!taskManager) { alert('No project data to share.'); return; }
+      const nameInput = this.leftPanel.querySelector('#left-project-name') as HTMLInputElement;
+      // Only what the viewer draws; dependencies travel on the tasks themselves
+      const { dependencyMap, tradeFilters, taskPositions, baselines, activeBaselineId, ...state } = taskManager.exportState();
+      const url = await ShareLink.createUrl({
+        name: nameInput?.value || localStorage.getItem('dingplan-project-name') || 'Shared Project',
+        state
+      });
+
+      if (url.length > MAX_SHARE_LINK_LENGTH) {
+        const download = confirm(
+          `This schedule is too large for a share link (${url.length.toLocaleString()} characters, ` +
+          `the limit is ${MAX_SHARE_LINK_LENGTH.toLocaleString()}).\n\n` +
+          'Download it as a JSON file to send instead?'
+        );
+        if (download) this.handleExportJSON();
+        return;
+      }
+
       await navigator.clipboard.writeText(url);
-      alert('Share link copied to clipboard!');
+      alert('Share link copied to clipboard! It opens the schedule read-only.');
     } catch (error) {
       alert('Failed to create share link: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
 
+  /**
+   * Publish the project to the cloud behind a short link, with a role,
+   * expiry and password, and manage the links already published
+   */
+  private showPublishModal() {
+    if (!this.canvas) return;
+    if (!authService.getCurrentUser()) {
+      alert('Sign in to publish share links. Share Link works without an account.');
+      return;
+    }
+    const projectId: string = this.canvas.currentProjectId;
+    const formatDate = (date: string) => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    const roleLabels: Record<ShareRole, string> = { view: 'Can view', comment: 'Can view and comment', edit: 'Can edit' };
+    const fieldStyle = 'width: 100%; box-sizing: border-box; background: #2a2a2a; border: 1px solid #444; color: white; padding: 8px 10px; border-radius: 6px; font-size: 13px; font-family: inherit;';
+    const smallButtonStyle = 'background: #333; border: none; color: white; padding: 4px 10px; border-radius: 6px; font-size: 12px; cursor: pointer; font-family: inherit;';
+
+    const modal = document.createElement('div');
+    modal.style.cssText = `
+      position: fixed; top: 0; left: 0; right: 0; bottom: 0;
+      background: rgba(0, 0, 0, 0.8); display: flex;
+      align-items: center; justify-content: center; z-index: 10000;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: #1a1a1a; border-radius: 12px; padding: 28px;
+      width: 90%; max-width: 480px; max-height: 85vh; overflow-y: auto;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.5); color: white; font-size: 13px;
+    `;
+    content.innerHTML = `
+      <h2 style="margin: 0 0 4px 0; font-size: 20px; font-weight: 600;">Publish Share Link</h2>
+      <p style="color: #888; margin: 0 0 16px 0;">Publishes the schedule as saved now. Anyone with the link opens that revision without an account; edit links open the latest saved schedule.</p>
+      <div style="display: flex; flex-direction: column; gap: 12px;">
+        <label style="color: #ccc;">Access
+          <select id="publish-role" style="${fieldStyle} margin-top: 4px;">
+            ${(Object.keys(roleLabels) as ShareRole[]).map(role => `<option value="${role}">${roleLabels[role]}</option>`).join('')}
+          </select>
+        </label>
+        <label style="color: #ccc;">Expires
+          <select id="publish-expiry" style="${fieldStyle} margin-top: 4px;">
+            <option value="0">Never</option>
+            <option value="1">After 1 day</option>
+            <option value="7">After 7 days</option>
+            <option value="30">After 30 days</option>
+          </select>
+        </label>
+        <label style="color: #ccc;">Password
+          <input id="publish-password" type="password" placeholder="Optional" autocomplete="new-password" style="${fieldStyle} margin-top: 4px;">
+        </label>
+        <div id="publish-result" style="display: none; gap: 8px; align-items: center;">
+          <input id="publish-url" type="text" readonly style="${fieldStyle}">
+          <button id="publish-copy" style="${smallButtonStyle} padding: 8px 12px;">Copy</button>
+        </div>
+      </div>
+      <div style="display: flex; justify-content: flex-end; gap: 10px; margin-top: 20px;">
+        <button id="publish-cancel" style="
+          background: #333; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Close</button>
+        <button id="publish-create" style="
+          background: #0066cc; border: none; color: white; padding: 10px 20px;
+          border-radius: 8px; font-size: 14px; cursor: pointer; font-family: inherit;
+        ">Publish</button>
+      </div>
+      <h3 style="margin: 24px 0 8px 0; font-size: 14px; font-weight: 600;">Published links</h3>
+      <div id="publish-shares" style="display: flex; flex-direction: column; gap: 8px; color: #888;">Loading…</div>
+    `;
+    modal.appendChild(content);
+    document.body.appendChild(modal);
+
+    const sharesList = content.querySelector('#publish-shares') as HTMLElement;
+    const refreshShares = async () => {
+      const shares = await listProjectShares(projectId);
+      const comments = await listShareComments(shares.map(share => share.id));
+      if (shares.length === 0) {
+        sharesList.textContent = 'No links published for this project yet.';
+        return;
+      }
+      const now = Date.now();
+      sharesList.innerHTML = shares.map(share => {
+        const expiry = !share.expiresAt ? 'No expiry'
+          : new Date(share.expiresAt).getTime() < now ? 'Expired'
+          : `Expires ${formatDate(share.expiresAt)}`;
+        const shareComments = comments.filter(comment => comment.shareId === share.id);
+        return `
+          <div style="background: #242424; border-radius: 8px; padding: 10px 12px;">
+            <div style="display: flex; align-items: center; gap: 8px;">
+              <div style="flex: 1; color: #ccc;">
+                <div>${roleLabels[share.role]}${share.hasPassword ? ' · 🔒' : ''}</div>
+                <div style="color: #888; font-size: 12px;">Published ${formatDate(share.createdAt)} · ${expiry}</div>
+              </div>
+              <button data-copy="${escapeHtml(share.token)}" style="${smallButtonStyle}">Copy</button>
+              <button data-password="${escapeHtml(share.id)}" data-has-password="${share.hasPassword}" style="${smallButtonStyle}">Password</button>
+              <button data-revoke="${escapeHtml(share.id)}" style="${smallButtonStyle} background: #7f1d1d;">Revoke</button>
+            </div>
+            ${shareComments.map(comment => `
+              <div style="margin-top: 8px; padding-top: 8px; border-top: 1px solid #333; color: #ccc;">
+                <div style="color: #888; font-size: 12px;">${escapeHtml(comment.author)} · ${formatDate(comment.createdAt)}</div>
+                <div style="white-space: pre-wrap;">${escapeHtml(comment.body)}</div>
+              </div>
+            `).join('')}
+          </div>
+        `;
+      }).join('');
+
+      sharesList.querySelectorAll<HTMLButtonElement>('[data-copy]').forEach(button => {
+        button.addEventListener('click', async () => {
+          await navigator.clipboard.writeText(getShareUrl(button.dataset.copy!));
+          button.textContent = 'Copied';
+        });
+      });
+      sharesList.querySelectorAll<HTMLButtonElement>('[data-password]').forEach(button => {
+        button.addEventListener('click', async () => {
+          const password = prompt(button.dataset.hasPassword === 'true'
+            ? 'New password for this link. Leave empty to remove the password:'
+            : 'Password for this link:');
+          if (password === null) return;
+          if (await setProjectSharePassword(button.dataset.password!, password)) {
+            await refreshShares();
+          } else {
+            alert('Failed to change the password.');
+          }
+        });
+      });
+      sharesList.querySelectorAll<HTMLButtonElement>('[data-revoke]').forEach(button => {
+        button.addEventListener('click', async () => {
+          if (!confirm('Revoke this link? People who have it will no longer be able to open the schedule.')) return;
+          if (await deleteProjectShare(button.dataset.revoke!)) {
+            await refreshShares();
+          } else {
+            alert('Failed to revoke the link.');
+          }
+        });
+      });
+    };
+    refreshShares();
+
+    const close = () => document.body.removeChild(modal);
+    content.querySelector('#publish-cancel')?.addEventListener('click', close);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+
+    const urlInput = content.querySelector('#publish-url') as HTMLInputElement;
+    content.querySelector('#publish-copy')?.addEventListener('click', async () => {
+      await navigator.clipboard.writeText(urlInput.value);
+      alert('Share link copied to clipboard!');
+    });
+
+    const publishButton = content.querySelector('#publish-create') as HTMLButtonElement;
+    publishButton.addEventListener('click', async () => {
+      const days = parseInt((content.querySelector('#publish-expiry') as HTMLSelectElement).value, 10);
+      publishButton.disabled = true;
+      publishButton.textContent = 'Publishing…';
+      try {
+        // Publish what is on screen, not the last autosave
+        await this.canvas.saveCurrentProject();
+        const token = await createProjectShare(projectId, {
+          role: (content.querySelector('#publish-role') as HTMLSelectElement).value as ShareRole,
+          expiresAt: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+          password: (content.querySelector('#publish-password') as HTMLInputElement).value
+        });
+        urlInput.value = getShareUrl(token);
+        (content.querySelector('#publish-result') as HTMLElement).style.display = 'flex';
+        urlInput.select();
+        await refreshShares();
+      } catch (error) {
+        console.error('Publish failed:', error);
+        alert(`Publish failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        publishButton.disabled = false;
+        publishButton.textContent = 'Publish';
+      }
+    });
+  }
+
+  /**
+   * Hide the editing panels while a shared schedule is shown, and offer to
+   * keep a copy or go back to the user's own project. Cloud shares with the
+   * comment or edit role can also send comments to the owner.
+   */
+  enterViewerMode(project: SharedProject, share: ShareSession | null = null) {
+    this.hide();
+    this.hideLeftPanel();
+    this.floatingBar.style.display = 'none';
+    const toggleBtn = document.getElementById('left-panel-toggle');
+    if (toggleBtn) toggleBtn.style.display = 'none';
+
+    const nameDisplay = document.getElementById('project-name-display');
+    if (nameDisplay) nameDisplay.textContent = project.name;
+
+    const badges: Record<ShareRole, string> = {
+      view: '👁 Read-only shared schedule',
+      comment: '💬 Shared schedule: read-only, comments allowed',
+      edit: "✏️ Shared schedule: edits save to the owner's project"
+    };
+    const canComment = share?.role === 'comment' || share?.role === 'edit';
+
+    const banner = document.createElement('div');
+    banner.id = 'viewer-banner';
+    banner.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+    const buttonStyle = 'height: 30px; padding: 0 12px; border: 1px solid #ddd; border-radius: 6px; cursor: pointer; font-size: 13px;';
+    banner.innerHTML = `
+      <span style="padding: 4px 10px; border-radius: 12px; background: #fef3c7; color: #92400e; font-size: 12px; font-weight: 600;">${badges[share?.role || 'view']}</span>
+      ${canComment ? `<button id="viewer-comment" style="${buttonStyle} background: transparent; color: #444;">Comment</button>` : ''}
+      <button id="viewer-save-copy" style="${buttonStyle} background: #0066cc; border-color: #0066cc; color: white;">Save a Copy</button>
+      <button id="viewer-exit" style="${buttonStyle} background: transparent; color: #444;">Exit</button>
+    `;
+    nameDisplay?.parentElement?.appendChild(banner);
+
+    // Dropping the share token or hash reloads the page on the user's own project
+    const leaveViewer = () => window.location.replace(window.location.pathname);
+
+    banner.querySelector('#viewer-comment')?.addEventListener('click', async () => {
+      const body = prompt(`Comment on "${project.name}" for its owner:`);
+      if (!body?.trim()) return;
+      const author = prompt('Your name:', localStorage.getItem('dingplan-comment-author') || '');
+      if (author === null) return;
+      localStorage.setItem('dingplan-comment-author', author.trim());
+      try {
+        await addShareComment(share!.token, share!.password, { author: author.trim(), body: body.trim() });
+        alert('Comment sent.');
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Failed to add comment');
+      }
+    });
+
+    banner.querySelector('#viewer-save-copy')!.addEventListener('click', async () => {
+      try {
+        // The schedule as on screen, including edits made through the share
+        const state = this.canvas.taskManager.exportState();
+        const name = `${project.name} (copy)`;
+        const id = await saveProject({
+          id: generateUUID(),
+          name,
+          tasks: state.tasks,
+          swimlanes: state.swimlanes,
+          settings: { calendars: state.calendars, trades: state.trades, dataDate: state.dataDate }
+        });
+        localStorage.setItem('currentProjectId', id);
+        localStorage.setItem('dingplan-project-name', name);
+        leaveViewer();
+      } catch (error) {
+        alert('Failed to save a copy: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    });
+    banner.querySelector('#viewer-exit')!.addEventListener('click', async () => {
+      // Send the last edits before leaving
+      if (share?.role === 'edit') await this.canvas.saveCurrentProject();
+      leaveViewer();
+    });
+  }
+
   private getCurrentProjectData() {
     if (!this.canvas?.taskManager) return null;
     const nameInput = this.leftPanel.querySelector('#left-project-name') as HTMLInputElement;
@@ -1787,11 +3647,26 @@ export class Sidebar {
               crewSize: td.crewSize || 1,
               color: td.color || '#3B82F6',
               tradeId: td.tradeId || '',
-              dependencies: td.dependencies || []
+              dependencies: td.dependencies || [],
+              dependencyLinks: td.dependencyLinks || {},
+              milestoneType: td.milestoneType || null,
+              constraintType: td.constraintType || null,
+              constraintDate: td.constraintDate || null,
+              progress: td.progress || 0,
+              status: td.status || 'not-started',
+              actualStart: td.actualStart || null,
+              actualFinish: td.actualFinish || null,
+              remainingDuration: td.remainingDuration ?? null,
+              xerTaskId: td.xerTaskId || undefined,
+              tags: td.tags || [],
+              priority: td.priority || 'medium',
+              notes: td.notes || '',
+              customFields: td.customFields || {}
             });
           } catch (err) { console.error('Error loading task:', err); }
         });
       }
+      this.canvas.taskManager.history.commit('Import JSON');
       if (this.canvas.render) this.canvas.render();
     } catch (error) { console.error('Error loading project:', error); }
   }
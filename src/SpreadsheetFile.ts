@@ -0,0 +1,438 @@
+/**
+ * A cell written to a spreadsheet; dates become real Excel dates
+ */
+export type SpreadsheetCell = string | number | Date | null;
+
+/**
+ * Entry of a zip archive
+ */
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Reads and writes the two spreadsheet formats people send task tables in:
+ * CSV and Excel XLSX
+ *
+ * XLSX is a zip of XML parts. Only the first worksheet is read, with shared
+ * strings, inline strings and numbers; dates come back as Excel serial
+ * numbers since telling them apart needs the cell styles. Written workbooks
+ * hold a single sheet with inline strings and are stored uncompressed, and
+ * compressed parts are inflated with the browser's DecompressionStream, so
+ * no zip library is needed.
+ */
+export class SpreadsheetFile {
+  private static readonly MIME_XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  /** Excel day serials count from 1899-12-30 */
+  private static readonly EXCEL_EPOCH = new Date(1899, 11, 30);
+  private static crcTable: Uint32Array | null = null;
+
+  /**
+   * Read a CSV or XLSX file into rows of cell text
+   */
+  static async read(file: File): Promise<string[][]> {
+    if (/\.xlsx$/i.test(file.name)) {
+      return SpreadsheetFile.readXlsx(await file.arrayBuffer());
+    }
+    return SpreadsheetFile.parseCsv(await file.text());
+  }
+
+  /**
+   * Let the user pick a CSV or XLSX file and read it
+   */
+  static showOpenDialog(): Promise<{ fileName: string; rows: string[][] }> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.csv,.xlsx,.CSV,.XLSX';
+      input.style.display = 'none';
+
+      input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        document.body.removeChild(input);
+        if (!file) {
+          reject(new Error('No file selected'));
+          return;
+        }
+        try {
+          resolve({ fileName: file.name, rows: await SpreadsheetFile.read(file) });
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      input.oncancel = () => {
+        document.body.removeChild(input);
+        reject(new Error('File selection cancelled'));
+      };
+
+      document.body.appendChild(input);
+      input.click();
+    });
+  }
+
+  /**
+   * Parse CSV text. The delimiter (comma, semicolon or tab) is taken from
+   * the first line; quoted fields may hold delimiters, quotes and line breaks.
+   */
+  static parseCsv(text: string): string[][] {
+    const content = text.replace(/^﻿/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  }
+
+  /**
+   * Write rows as CSV. Dates are written as YYYY-MM-DD; the byte order mark
+   * makes Excel read the file as UTF-8.
+   */
+  static toCsv(rows: SpreadsheetCell[][]): string {
+    const escape = (cell: SpreadsheetCell): string => {
+      const text = SpreadsheetFile.cellToText(cell);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return '﻿' + rows.map(row => row.map(escape).join(',')).join('\r\n');
+  }
+
+  /**
+   * Read the first worksheet of an XLSX workbook
+   */
+  static async readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+    const entries = await SpreadsheetFile.unzip(new Uint8Array(buffer));
+    const decoder = new TextDecoder();
+    const readXml = (name: string): Document | null => {
+      const entry = entries.find(e => e.name === name);
+      return entry ? new DOMParser().parseFromString(decoder.decode(entry.data), 'application/xml') : null;
+    };
+
+    const sheetPath = SpreadsheetFile.getFirstSheetPath(readXml('xl/workbook.xml'), readXml('xl/_rels/workbook.xml.rels'))
+      || entries.map(e => e.name).filter(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+    const sheet = sheetPath ? readXml(sheetPath) : null;
+    if (!sheet) {
+      throw new Error('No worksheet found in workbook');
+    }
+
+    const sharedStrings = Array.from(readXml('xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+      .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+    const rows: string[][] = [];
+    Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+      const row: string[] = [];
+      Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+        const column = SpreadsheetFile.columnIndex(cell.getAttribute('r')) ?? position;
+        const type = cell.getAttribute('t');
+        const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+        let text: string;
+        if (type === 's') {
+          text = sharedStrings[parseInt(value, 10)] || '';
+        } else if (type === 'inlineStr') {
+          text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+        } else if (type === 'b') {
+          text = value === '1' ? 'TRUE' : 'FALSE';
+        } else {
+          text = value;
+        }
+        while (row.length < column) row.push('');
+        row[column] = text;
+      });
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    });
+    return rows;
+  }
+
+  /**
+   * Write rows as a single-sheet XLSX workbook
+   */
+  static writeXlsx(rows: SpreadsheetCell[][], sheetName: string = 'Tasks'): Blob {
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    const sheetRows = rows.map((row, rowIndex) => {
+      const cells = row.map((cell, columnIndex) => {
+        const ref = `${SpreadsheetFile.columnName(columnIndex)}${rowIndex + 1}`;
+        if (cell === null || cell === '') return '';
+        if (cell instanceof Date) {
+          // Style 1 shows the serial as a date
+          return `<c r="${ref}" s="1"><v>${SpreadsheetFile.toExcelSerial(cell)}</v></c>`;
+        }
+        if (typeof cell === 'number') {
+          return `<c r="${ref}"><v>${cell}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escape(cell)}</t></is></c>`;
+      }).join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    }).join('');
+
+    const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+    const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+    const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+    const parts: Record<string, string> = {
+      '[Content_Types].xml': `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>',
+      '_rels/.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>`
+        + '</Relationships>',
+      'xl/workbook.xml': `${xmlHeader}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">`
+        + `<sheets><sheet name="${escape(sheetName.substring(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>',
+      'xl/_rels/workbook.xml.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>`
+        + `<Relationship Id="rId2" Type="${relNs}/styles" Target="styles.xml"/>`
+        + '</Relationships>',
+      'xl/styles.xml': `${xmlHeader}<styleSheet xmlns="${mainNs}">`
+        + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+        + '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>'
+        + '</styleSheet>',
+      'xl/worksheets/sheet1.xml': `${xmlHeader}<worksheet xmlns="${mainNs}"><sheetData>${sheetRows}</sheetData></worksheet>`
+    };
+
+    const encoder = new TextEncoder();
+    const zip = SpreadsheetFile.zip(Object.entries(parts).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+    return new Blob([zip], { type: SpreadsheetFile.MIME_XLSX });
+  }
+
+  /**
+   * Excel day serial for a date, ignoring the time of day
+   */
+  static toExcelSerial(date: Date): number {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    return Math.round((day.getTime() - SpreadsheetFile.EXCEL_EPOCH.getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  /**
+   * Date for an Excel day serial
+   */
+  static fromExcelSerial(serial: number): Date {
+    const epoch = SpreadsheetFile.EXCEL_EPOCH;
+    return new Date(epoch.getFullYear(), epoch.getMonth(), epoch.getDate() + Math.floor(serial));
+  }
+
+  /**
+   * Save a blob or text as a file download
+   */
+  static download(filename: string, content: Blob | string): void {
+    const blob = typeof content === 'string' ? new Blob([content], { type: 'text/csv;charset=utf-8' }) : content;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+
+    setTimeout(() => {
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  private static cellToText(cell: SpreadsheetCell): string {
+    if (cell === null) return '';
+    if (cell instanceof Date) {
+      return `${cell.getFullYear()}-${String(cell.getMonth() + 1).padStart(2, '0')}-${String(cell.getDate()).padStart(2, '0')}`;
+    }
+    return String(cell);
+  }
+
+  /**
+   * Path of the first sheet listed in the workbook, resolved through its relationship
+   */
+  private static getFirstSheetPath(workbook: Document | null, rels: Document | null): string | null {
+    const sheet = workbook?.getElementsByTagName('sheet')[0];
+    if (!sheet || !rels) return null;
+    const relId = sheet.getAttribute('r:id')
+      || sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const rel = Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (!target) return null;
+    return target.startsWith('/') ? target.substring(1) : `xl/${target}`;
+  }
+
+  /**
+   * Zero-based column index of a cell reference such as "AB12"
+   */
+  private static columnIndex(ref: string | null): number | null {
+    const letters = ref && /^([A-Z]+)\d+$/i.exec(ref)?.[1];
+    if (!letters) return null;
+    return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  }
+
+  private static columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  /**
+   * Read the entries of a zip archive from its central directory
+   */
+  private static async unzip(bytes: Uint8Array): Promise<ZipEntry[]> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('File is not an XLSX workbook');
+    }
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(offset, true) !== 0x02014b50) break;
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        entries.push({ name, data: raw });
+      } else if (method === 8) {
+        entries.push({ name, data: await SpreadsheetFile.inflate(raw) });
+      } else {
+        console.warn(`[SpreadsheetFile] Skipping ${name}: unsupported compression method ${method}`);
+      }
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  /**
+   * Build a zip archive with the entries stored uncompressed
+   */
+  private static zip(entries: ZipEntry[]): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+      const name = encoder.encode(entry.name);
+      const crc = SpreadsheetFile.crc32(entry.data);
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true); // Version needed
+      local.setUint16(8, 0, true); // Stored
+      local.setUint16(12, 0x21, true); // 1980-01-01
+      local.setUint32(14, crc, true);
+      local.setUint32(18, entry.data.length, true);
+      local.setUint32(22, entry.data.length, true);
+      local.setUint16(26, name.length, true);
+      chunks.push(new Uint8Array(local.buffer), name, entry.data);
+
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true); // Version needed
+      header.setUint16(14, 0x21, true);
+      header.setUint32(16, crc, true);
+      header.setUint32(20, entry.data.length, true);
+      header.setUint32(24, entry.data.length, true);
+      header.setUint16(28, name.length, true);
+      header.setUint32(42, offset, true);
+      central.push(new Uint8Array(header.buffer), name);
+
+      offset += 30 + name.length + entry.data.length;
+    });
+
+    const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const all = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(all.reduce((size, chunk) => size + chunk.length, 0));
+    let position = 0;
+    all.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result.buffer;
+  }
+
+  private static crc32(data: Uint8Array): number {
+    if (!SpreadsheetFile.crcTable) {
+      SpreadsheetFile.crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        SpreadsheetFile.crcTable[n] = c >>> 0;
+      }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = SpreadsheetFile.crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * An affine transform as the six values setTransform takes
+ */
+type Matrix = [number, number, number, number, number, number];
+
+/**
+ * Drawing state kept by save() and restore()
+ */
+interface SvgContextState {
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  lineDash: number[];
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  clipId: string | null;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Records the 2D canvas calls the schedule is drawn with as an SVG document,
+ * so the same drawing code can render to a vector image. Paths are stored in
+ * output coordinates, so transforms may change while a path is built, just
+ * as on a canvas. Shadows are accepted and left out.
+ *
+ * Only the parts of CanvasRenderingContext2D the app draws with are
+ * implemented; pass it where a context is expected with a cast.
+ */
+export class SvgContext {
+  readonly canvas: { width: number; height: number };
+
+  fillStyle: string = '#000000';
+  strokeStyle: string = '#000000';
+  lineWidth: number = 1;
+  lineCap: CanvasLineCap = 'butt';
+  lineJoin: CanvasLineJoin = 'miter';
+  font: string = '10px sans-serif';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+  shadowColor: string = 'transparent';
+  shadowBlur: number = 0;
+  shadowOffsetX: number = 0;
+  shadowOffsetY: number = 0;
+
+  private matrix: Matrix = [...IDENTITY];
+  private lineDash: number[] = [];
+  private clipId: string | null = null;
+  private stack: SvgContextState[] = [];
+  private path: string[] = [];
+  private elements: string[] = [];
+  private clipPaths: string[] = [];
+  private measurer: CanvasRenderingContext2D | null = null;
+
+  constructor(width: number, height: number) {
+    this.canvas = { width, height };
+    if (typeof document !== 'undefined') {
+      this.measurer = document.createElement('canvas').getContext('2d');
+    }
+  }
+
+  /**
+   * The finished SVG document
+   */
+  toSvg(): string {
+    const { width, height } = this.canvas;
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      this.clipPaths.length > 0 ? `<defs>${this.clipPaths.join('')}</defs>` : '',
+      ...this.elements,
+      '</svg>'
+    ].join('\n');
+  }
+
+  // ---- State ----
+
+  save(): void {
+    this.stack.push({
+      matrix: [...this.matrix],
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      lineCap: this.lineCap,
+      lineJoin: this.lineJoin,
+      lineDash: [...this.lineDash],
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      clipId: this.clipId
+    });
+  }
+
+  restore(): void {
+    const state = this.stack.pop();
+    if (!state) return;
+    this.matrix = state.matrix;
+    this.fillStyle = state.fillStyle;
+    this.strokeStyle = state.strokeStyle;
+    this.lineWidth = state.lineWidth;
+    this.lineCap = state.lineCap;
+    this.lineJoin = state.lineJoin;
+    this.lineDash = state.lineDash;
+    this.font = state.font;
+    this.textAlign = state.textAlign;
+    this.textBaseline = state.textBaseline;
+    this.clipId = state.clipId;
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = [...segments];
+  }
+
+  getLineDash(): number[] {
+    return [...this.lineDash];
+  }
+
+  // ---- Transforms ----
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.matrix = [a, b, c, d, e, f];
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    const [ma, mb, mc, md, me, mf] = this.matrix;
+    this.matrix = [
+      ma * a + mc * b,
+      mb * a + md * b,
+      ma * c + mc * d,
+      mb * c + md * d,
+      ma * e + mc * f + me,
+      mb * e + md * f + mf
+    ];
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  // ---- Paths ----
+
+  beginPath(): void {
+    this.path = [];
+  }
+
+  closePath(): void {
+    this.path.push('Z');
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${this.point(x, y)}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push(`L${this.point(x, y)}`);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.path.push(`Q${this.point(cpx, cpy)} ${this.point(x, y)}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.path.push(`C${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)}`);
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  /**
+   * Rounded rectangle; radii follow the canvas rules for one to four values
+   */
+  roundRect(x: number, y: number, width: number, height: number, radii: number | number[] = 0): void {
+    const list = Array.isArray(radii) ? radii : [radii];
+    const [tl, tr, br, bl] = list.length === 1 ? [list[0], list[0], list[0], list[0]]
+      : list.length === 2 ? [list[0], list[1], list[0], list[1]]
+      : list.length === 3 ? [list[0], list[1], list[2], list[1]]
+      : list;
+    const limit = Math.min(Math.abs(width), Math.abs(height)) / 2;
+    const [r1, r2, r3, r4] = [tl, tr, br, bl].map(r => Math.min(Math.max(r || 0, 0), limit));
+    // Control point distance for a quarter circle drawn as a cubic curve
+    const k = 1 - 0.5523;
+
+    this.moveTo(x + r1, y);
+    this.lineTo(x + width - r2, y);
+    this.bezierCurveTo(x + width - r2 * k, y, x + width, y + r2 * k, x + width, y + r2);
+    this.lineTo(x + width, y + height - r3);
+    this.bezierCurveTo(x + width, y + height - r3 * k, x + width - r3 * k, y + height, x + width - r3, y + height);
+    this.lineTo(x + r4, y + height);
+    this.bezierCurveTo(x + r4 * k, y + height, x, y + height - r4 * k, x, y + height - r4);
+    this.lineTo(x, y + r1);
+    this.bezierCurveTo(x, y + r1 * k, x + r1 * k, y, x + r1, y);
+    this.closePath();
+  }
+
+  clip(): void {
+    if (this.path.length === 0) return;
+    const id = `clip${this.clipPaths.length + 1}`;
+    // A clip inside another clip is limited by it too
+    const parent = this.clipId ? ` clip-path="url(#${this.clipId})"` : '';
+    this.clipPaths.push(`<clipPath id="${id}"${parent}><path d="${this.path.join('')}"/></clipPath>`);
+    this.clipId = id;
+  }
+
+  // ---- Drawing ----
+
+  fill(): void {
+    if (this.path.length === 0) return;
+    this.emitFill(this.path.join(''));
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+    this.emitStroke(this.path.join(''));
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.emitFill(this.rectPath(x, y, width, height));
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number): void {
+    this.emitStroke(this.rectPath(x, y, width, height));
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const paint = this.parseColor(this.fillStyle);
+    if (paint.opacity === 0 || text === '') return;
+
+    const font = this.parseFont(this.font);
+    const anchor = this.textAlign === 'center' ? 'middle'
+      : this.textAlign === 'right' || this.textAlign === 'end' ? 'end'
+      : 'start';
+    const baselines: Partial<Record<CanvasTextBaseline, string>> = {
+      top: 'text-before-edge',
+      hanging: 'hanging',
+      middle: 'central',
+      bottom: 'text-after-edge',
+      ideographic: 'ideographic'
+    };
+    const baseline = baselines[this.textBaseline];
+
+    const attributes = [
+      `x="${this.round(x)}"`,
+      `y="${this.round(y)}"`,
+      `transform="matrix(${this.matrix.map(value => this.round(value)).join(' ')})"`,
+      `font-family="${this.escape(font.family)}"`,
+      `font-size="${font.size}"`,
+      font.weight !== 'normal' ? `font-weight="${font.weight}"` : '',
+      font.style !== 'normal' ? `font-style="${font.style}"` : '',
+      anchor !== 'start' ? `text-anchor="${anchor}"` : '',
+      baseline ? `dominant-baseline="${baseline}"` : '',
+      `fill="${paint.color}"`,
+      paint.opacity < 1 ? `fill-opacity="${paint.opacity}"` : '',
+      this.clipAttribute()
+    ].filter(Boolean).join(' ');
+    this.elements.push(`<text ${attributes}>${this.escape(text)}</text>`);
+  }
+
+  /**
+   * Text width at the current font, measured on a real canvas where there is
+   * one and estimated otherwise
+   */
+  measureText(text: string): { width: number } {
+    if (this.measurer) {
+      this.measurer.font = this.font;
+      return { width: this.measurer.measureText(text).width };
+    }
+    return { width: text.length * this.parseFont(this.font).size * 0.55 };
+  }
+
+  // ---- Output helpers ----
+
+  private emitFill(d: string): void {
+    const paint = this.parseColor(this.fillStyle);
+    if (paint.opacity === 0) return;
+    const opacity = paint.opacity < 1 ? ` fill-opacity="${paint.opacity}"` : '';
+    this.elements.push(`<path d="${d}" fill="${paint.color}"${opacity}${this.clipAttribute(' ')}/>`);
+  }
+
+  private emitStroke(d: string): void {
+    const paint = this.parseColor(this.strokeStyle);
+    if (paint.opacity === 0 || this.lineWidth <= 0) return;
+    const scale = this.getScale();
+    const attributes = [
+      `d="${d}"`,
+      'fill="none"',
+      `stroke="${paint.color}"`,
+      paint.opacity < 1 ? `stroke-opacity="${paint.opacity}"` : '',
+      `stroke-width="${this.round(this.lineWidth * scale)}"`,
+      this.lineCap !== 'butt' ? `stroke-linecap="${this.lineCap}"` : '',
+      this.lineJoin !== 'miter' ? `stroke-linejoin="${this.lineJoin}"` : '',
+      this.lineDash.length > 0 ? `stroke-dasharray="${this.lineDash.map(length => this.round(length * scale)).join(' ')}"` : '',
+      this.clipAttribute()
+    ].filter(Boolean).join(' ');
+    this.elements.push(`<path ${attributes}/>`);
+  }
+
+  private rectPath(x: number, y: number, width: number, height: number): string {
+    return `M${this.point(x, y)}L${this.point(x + width, y)}L${this.point(x + width, y + height)}L${this.point(x, y + height)}Z`;
+  }
+
+  private clipAttribute(prefix: string = ''): string {
+    return this.clipId ? `${prefix}clip-path="url(#${this.clipId})"` : '';
+  }
+
+  /**
+   * A point in output coordinates
+   */
+  private point(x: number, y: number): string {
+    const [a, b, c, d, e, f] = this.matrix;
+    return `${this.round(a * x + c * y + e)} ${this.round(b * x + d * y + f)}`;
+  }
+
+  /**
+   * How much the current transform scales lengths, for line widths and dashes
+   */
+  private getScale(): number {
+    const [a, b, c, d] = this.matrix;
+    return Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Split a CSS color into an opaque color and an opacity, since not every
+   * SVG reader understands alpha in colors
+   */
+  private parseColor(value: string): { color: string; opacity: number } {
+    const color = value.trim().toLowerCase();
+    if (color === 'transparent') return { color: '#000000', opacity: 0 };
+
+    const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(color);
+    if (hex) {
+      let digits = hex[1];
+      if (digits.length <= 4) digits = digits.split('').map(digit => digit + digit).join('');
+      const opacity = digits.length === 8 ? this.round(parseInt(digits.slice(6), 16) / 255) : 1;
+      return { color: `#${digits.slice(0, 6)}`, opacity };
+    }
+
+    const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(color);
+    if (rgb) {
+      const alpha = rgb[4] === undefined ? 1
+        : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100
+        : parseFloat(rgb[4]);
+      return { color: `rgb(${rgb[1]}, ${rgb[2]}, ${rgb[3]})`, opacity: this.round(alpha) };
+    }
+
+    return { color: value, opacity: 1 };
+  }
+
+  /**
+   * Split a canvas font such as "bold 15px Inter, sans-serif" into SVG font attributes
+   */
+  private parseFont(value: string): { style: string; weight: string; size: number; family: string } {
+    const match = /^\s*((?:(?:italic|oblique|normal|bold|bolder|lighter|small-caps|\d{3})\s+)*)([\d.]+)px\s*(?:\/\s*\S+\s+)?(.+)$/i.exec(value);
+    if (!match) return { style: 'normal', weight: 'normal', size: 10, family: 'sans-serif' };
+    const words = match[1].trim().split(/\s+/).filter(Boolean);
+    return {
+      style: words.find(word => word === 'italic' || word === 'oblique') || 'normal',
+      weight: words.find(word => /^(bold|bolder|lighter|\d{3})$/.test(word)) || 'normal',
+      size: parseFloat(match[2]),
+      family: match[3].trim()
+    };
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -1,4 +1,6 @@
 import { Trades, Trade } from './Trades';
+import { Calendars, WorkCalendar } from './Calendars';
+import { TaskBaseline } from './Baselines';
 import { v4 as uuidv4 } from 'uuid';
 
 // Define missing interfaces
@@ -15,31 +17,79 @@ export interface SubTask {
   completed: boolean;
 }
 
+/**
+ * Relationship between a predecessor and its successor:
+ * FS = finish-to-start, SS = start-to-start, FF = finish-to-finish, SF = start-to-finish
+ */
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export interface DependencyLink {
+  type: DependencyType;
+  lag: number; // in working days, negative for lead
+}
+
+/**
+ * Date constraint on a task:
+ * SNET = start no earlier than, FNLT = finish no later than, MSO = must start on
+ */
+export type ConstraintType = 'SNET' | 'FNLT' | 'MSO';
+
+export const CONSTRAINT_TYPES: ConstraintType[] = ['SNET', 'FNLT', 'MSO'];
+
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+  SNET: 'Start No Earlier Than',
+  FNLT: 'Finish No Later Than',
+  MSO: 'Must Start On'
+};
+
+/**
+ * Zero-duration milestone: a start milestone happens at the beginning of its
+ * day, a finish milestone at the end of the previous work day
+ */
+export type MilestoneType = 'start' | 'finish';
+
+export const MILESTONE_TYPES: MilestoneType[] = ['start', 'finish'];
+
+export const MILESTONE_LABELS: Record<MilestoneType, string> = {
+  start: 'Start Milestone',
+  finish: 'Finish Milestone'
+};
+
 export interface TaskConfig {
   id?: string;
   name: string;
   startDate: Date;
-  duration: number; // in business days
+  duration: number; // in business days; always 0 for milestones
   crewSize?: number;
   color?: string;
   tradeId?: string; // ID of the trade this task belongs to
   dependencies?: string[]; // IDs of tasks that must complete before this one can start
+  dependencyLinks?: Record<string, DependencyLink>; // Relationship type and lag per predecessor ID (FS+0 when absent)
   swimlaneId?: string;
-  isMillestone?: boolean;
+  milestoneType?: MilestoneType | null; // Zero-duration start or finish milestone
   iconType?: string;
   tags?: string[];
   priority?: 'low' | 'medium' | 'high';
   status?: 'not-started' | 'in-progress' | 'completed' | 'blocked';
   notes?: string;
+  customFields?: Record<string, string | number | Date>; // Extra fields, e.g. P6 user-defined fields by label
   showDetails?: boolean;
   assignees?: string[];
   materials?: TaskMaterial[];
   cost?: number;
   progress?: number;
   subtasks?: SubTask[];
-  xerTaskId?: string; // ID used when exporting to XER format
+  xerTaskId?: string; // P6 task_id of the imported activity
   workOnSaturday?: boolean; // Whether this task includes Saturday as a workday
   workOnSunday?: boolean; // Whether this task includes Sunday as a workday
+  calendarId?: string; // Work calendar for this task; falls back to the swimlane and project calendars
+  constraintType?: ConstraintType | null; // Date constraint honored by the scheduler
+  constraintDate?: Date | string | null; // Constraint date; for FNLT the last day work may happen
+  actualStart?: Date | string | null; // Day work actually started
+  actualFinish?: Date | string | null; // Last day work actually happened
+  remainingDuration?: number | null; // Work days left as of the data date; derived from progress when absent
 }
 
 // Generated browser-compatible UUID
@@ -50,6 +100,9 @@ function generateUUID(): string {
 }
 
 export class Task {
+  /** Width and height of the milestone diamond */
+  static readonly MILESTONE_SIZE = 24;
+
   public id: string;
   public name: string;
   public startDate: Date;
@@ -57,9 +110,10 @@ export class Task {
   public crewSize: number;
   public color: string;
   public dependencies: string[] = [];
+  public dependencyLinks: Record<string, DependencyLink> = {};
   public swimlaneId: string | null = null;
   public tradeId: string | null = null;
-  public isMilestone: boolean = false;
+  public milestoneType: MilestoneType | null = null;
   public iconType: string | null = null;
   public tags: string[] = [];
   public priority: 'low' | 'medium' | 'high' = 'medium';
@@ -74,23 +128,30 @@ export class Task {
   public customFields: Map<string, any> = new Map();
   public workOnSaturday: boolean = false;
   public workOnSunday: boolean = false;
+  public calendarId: string | null = null;
+  public constraintType: ConstraintType | null = null;
+  public constraintDate: Date | null = null;
+  public actualStart: Date | null = null;
+  public actualFinish: Date | null = null;
+  public remainingDuration: number | null = null;
   public height: number = 40;
   private isHovered: boolean = false;
   
-  // Property for XER export
+  // P6 task_id of the activity this task was imported from, used to match XER updates
   xerTaskId?: string;
 
   constructor(config: TaskConfig) {
-    this.id = config.id || self.crypto.randomUUID ? self.crypto.randomUUID() : 'task-' + Math.random().toString(36).substring(2, 15);
+    this.id = config.id || (self.crypto && self.crypto.randomUUID ? self.crypto.randomUUID() : 'task-' + Math.random().toString(36).substring(2, 15));
     this.name = config.name;
     this.startDate = config.startDate;
-    this.duration = Math.max(1, config.duration);
+    this.milestoneType = config.milestoneType && MILESTONE_TYPES.includes(config.milestoneType) ? config.milestoneType : null;
+    this.duration = this.milestoneType ? 0 : Math.max(1, config.duration);
     this.crewSize = config.crewSize || 1;
     this.color = config.color || '#3b82f6';
     this.dependencies = config.dependencies || [];
+    this.dependencyLinks = { ...(config.dependencyLinks || {}) };
     this.swimlaneId = config.swimlaneId || null;
     this.tradeId = config.tradeId || null;
-    this.isMilestone = config.isMillestone || false;
     this.iconType = config.iconType || null;
     this.tags = config.tags || [];
     this.priority = config.priority || 'medium';
@@ -102,6 +163,7 @@ export class Task {
     this.cost = config.cost || 0;
     this.progress = config.progress || 0;
     this.subtasks = config.subtasks || [];
+    this.customFields = new Map(Object.entries(config.customFields || {}));
     
     // Handle trade assignment
     if (this.tradeId) {
@@ -122,11 +184,40 @@ export class Task {
     // Weekend work preferences
     this.workOnSaturday = config.workOnSaturday || false;
     this.workOnSunday = config.workOnSunday || false;
+    this.calendarId = config.calendarId || null;
+    this.setConstraint(config.constraintType || null, config.constraintDate);
+    this.setActuals(config.actualStart, config.actualFinish);
+    this.remainingDuration = Number.isFinite(config.remainingDuration) ? Math.max(0, Math.round(config.remainingDuration!)) : null;
+    this.xerTaskId = config.xerTaskId;
     
     // Adjust start date if it falls on a weekend
     this.adjustStartDate();
   }
 
+  get isMilestone(): boolean {
+    return this.milestoneType !== null;
+  }
+
+  /**
+   * Turn the task into a start or finish milestone, or back into a regular
+   * task of at least one day
+   */
+  setMilestoneType(type: MilestoneType | null): void {
+    this.milestoneType = type && MILESTONE_TYPES.includes(type) ? type : null;
+    this.duration = this.milestoneType ? 0 : Math.max(1, this.duration);
+  }
+
+  /**
+   * Day the milestone falls on: its start for a start milestone, the last
+   * work day before its start for a finish milestone
+   */
+  getMilestoneDate(): Date {
+    if (this.milestoneType === 'finish') {
+      return this.subtractWorkDays(this.startDate, 1);
+    }
+    return new Date(this.startDate);
+  }
+
   /**
    * Get the trade this task belongs to
    */
@@ -156,27 +247,298 @@ export class Task {
     }
   }
 
-  static isWeekend(date: Date, workOnSaturday: boolean = false, workOnSunday: boolean = false): boolean {
+  /**
+   * Relationship type and lag for a predecessor, defaulting to finish-to-start with no lag
+   */
+  getDependencyLink(predecessorId: string): DependencyLink {
+    const link = this.dependencyLinks[predecessorId];
+    return {
+      type: link && DEPENDENCY_TYPES.includes(link.type) ? link.type : 'FS',
+      lag: link && Number.isFinite(link.lag) ? Math.round(link.lag) : 0
+    };
+  }
+
+  /**
+   * Set the relationship type and lag for a predecessor. Plain FS links are not stored.
+   */
+  setDependencyLink(predecessorId: string, type: DependencyType, lag: number = 0): void {
+    if (type === 'FS' && !lag) {
+      delete this.dependencyLinks[predecessorId];
+    } else {
+      this.dependencyLinks[predecessorId] = { type, lag: Math.round(lag) };
+    }
+  }
+
+  /**
+   * Remove a predecessor along with its relationship settings
+   */
+  removeDependency(predecessorId: string): void {
+    this.dependencies = this.dependencies.filter(id => id !== predecessorId);
+    delete this.dependencyLinks[predecessorId];
+  }
+
+  /**
+   * Short label for a predecessor link, e.g. "FS", "SS+2" or "FF-1"
+   */
+  static formatDependencyLink(link: DependencyLink): string {
+    if (!link.lag) return link.type;
+    return `${link.type}${link.lag > 0 ? '+' : ''}${link.lag}`;
+  }
+
+  /**
+   * Set or clear the date constraint. Invalid types or dates clear it.
+   */
+  setConstraint(type: ConstraintType | null, date?: Date | string | null): void {
+    const constraintDate = date ? new Date(date) : null;
+    if (!type || !CONSTRAINT_TYPES.includes(type) || !constraintDate || isNaN(constraintDate.getTime())) {
+      this.constraintType = null;
+      this.constraintDate = null;
+      return;
+    }
+    constraintDate.setHours(0, 0, 0, 0);
+    this.constraintType = type;
+    this.constraintDate = constraintDate;
+  }
+
+  /**
+   * Earliest start allowed by an SNET or MSO constraint, moved onto a work day
+   */
+  getConstraintStart(): Date | null {
+    if (!this.constraintDate || (this.constraintType !== 'SNET' && this.constraintType !== 'MSO')) {
+      return null;
+    }
+    const start = new Date(this.constraintDate);
+    while (this.isNonWorkingDay(start)) {
+      start.setDate(start.getDate() + 1);
+    }
+    return start;
+  }
+
+  /**
+   * Latest end date (exclusive, like getEndDate) allowed by the constraint.
+   * FNLT allows work up to and including the constraint date; MSO pins the finish too.
+   */
+  getConstraintFinish(): Date | null {
+    if (!this.constraintDate) return null;
+    if (this.constraintType === 'MSO') {
+      return this.addWorkDays(this.getConstraintStart()!, this.duration);
+    }
+    if (this.constraintType !== 'FNLT') return null;
+
+    const finish = new Date(this.constraintDate);
+    finish.setDate(finish.getDate() + 1);
+    while (this.isNonWorkingDay(finish)) {
+      finish.setDate(finish.getDate() + 1);
+    }
+    return finish;
+  }
+
+  /**
+   * Whether the task's current dates break its constraint
+   */
+  isConstraintViolated(): boolean {
+    const constraintStart = this.getConstraintStart();
+    const start = new Date(this.startDate);
+    start.setHours(0, 0, 0, 0);
+
+    switch (this.constraintType) {
+      case 'SNET':
+        return !!constraintStart && start < constraintStart;
+      case 'MSO':
+        return !!constraintStart && start.getTime() !== constraintStart.getTime();
+      case 'FNLT':
+        return this.getEndDate() > this.getConstraintFinish()!;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Short label for the constraint, e.g. "SNET Mar 3, 2025"
+   */
+  getConstraintLabel(): string {
+    if (!this.constraintType || !this.constraintDate) return '';
+    return `${this.constraintType} ${this.constraintDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  /**
+   * Set or clear the actual start and finish. Invalid dates clear the value,
+   * and a finish without a start assumes the task started as planned.
+   */
+  setActuals(actualStart?: Date | string | null, actualFinish?: Date | string | null): void {
+    const toDay = (value?: Date | string | null): Date | null => {
+      const date = value ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) return null;
+      date.setHours(0, 0, 0, 0);
+      return date;
+    };
+
+    this.actualFinish = toDay(actualFinish);
+    this.actualStart = toDay(actualStart) || (this.actualFinish ? toDay(this.startDate) : null);
+    if (this.actualStart && this.actualFinish && this.actualFinish < this.actualStart) {
+      this.actualFinish = new Date(this.actualStart);
+    }
+  }
+
+  /**
+   * Work days left: none once finished, the recorded remaining duration if
+   * set, else the part of the duration not covered by progress
+   */
+  getRemainingDuration(): number {
+    if (this.actualFinish || this.status === 'completed') return 0;
+    if (this.remainingDuration !== null) return this.remainingDuration;
+    return Math.ceil(this.duration * (100 - Math.min(100, Math.max(0, this.progress))) / 100);
+  }
+
+  /**
+   * End date (exclusive, like getEndDate) implied by the actual finish
+   */
+  getActualEnd(): Date | null {
+    return this.actualFinish ? this.addWorkDays(this.actualFinish, 1) : null;
+  }
+
+  /**
+   * Keep status and progress consistent with the recorded actuals
+   */
+  syncStatusWithActuals(): void {
+    if (this.actualFinish || (this.isMilestone && this.actualStart)) {
+      this.status = 'completed';
+      this.progress = 100;
+      this.remainingDuration = 0;
+    } else if (this.actualStart) {
+      if (this.status === 'not-started' || this.status === 'completed') {
+        this.status = 'in-progress';
+      }
+      if (this.progress >= 100) {
+        this.progress = 99;
+      }
+    }
+  }
+
+  /**
+   * Move the bar onto its actual dates and re-plan the remaining work from
+   * the data date: finished tasks span their actuals, started tasks keep
+   * their actual start and finish the remaining duration after the data date.
+   * Tasks that have not started are left to the scheduler. Reached
+   * milestones move onto their actual date.
+   */
+  applyDataDate(dataDate: Date): void {
+    if (!this.actualStart) return;
+
+    if (this.milestoneType === 'finish') {
+      this.startDate = this.addWorkDays(this.actualFinish || this.actualStart, 1);
+      return;
+    }
+    if (this.isMilestone) {
+      this.startDate = new Date(this.actualStart);
+      return;
+    }
+
+    this.startDate = new Date(this.actualStart);
+    let end = this.getActualEnd();
+    if (!end) {
+      const resume = new Date(Math.max(dataDate.getTime(), this.actualStart.getTime()));
+      resume.setHours(0, 0, 0, 0);
+      while (this.isNonWorkingDay(resume)) {
+        resume.setDate(resume.getDate() + 1);
+      }
+      end = this.addWorkDays(resume, this.getRemainingDuration());
+    }
+    this.duration = Math.max(1, this.workDaysBetween(this.startDate, end));
+  }
+
+  static isWeekend(date: Date, workOnSaturday: boolean = false, workOnSunday: boolean = false, calendar?: WorkCalendar): boolean {
+    if (calendar) {
+      return !Calendars.isWorkDay(calendar, date, workOnSaturday, workOnSunday);
+    }
     const day = date.getDay();
     // If working on Saturday, don't consider it a weekend
     // If working on Sunday, don't consider it a weekend
     return (day === 0 && !workOnSunday) || (day === 6 && !workOnSaturday);
   }
 
-  private static addBusinessDays(date: Date, days: number, workOnSaturday: boolean = false, workOnSunday: boolean = false): Date {
+  static addBusinessDays(date: Date, days: number, workOnSaturday: boolean = false, workOnSunday: boolean = false, calendar?: WorkCalendar): Date {
+    if (days < 0) {
+      return Task.subtractBusinessDays(date, -days, workOnSaturday, workOnSunday, calendar);
+    }
     let result = new Date(date);
     let addedDays = 0;
     while (addedDays < days) {
       result.setDate(result.getDate() + 1);
-      if (!Task.isWeekend(result, workOnSaturday, workOnSunday)) {
+      if (!Task.isWeekend(result, workOnSaturday, workOnSunday, calendar)) {
         addedDays++;
       }
     }
     return result;
   }
 
+  /**
+   * Inverse of addBusinessDays: walks backwards until the given number of
+   * work days has been counted, so addBusinessDays(result, days) === date
+   */
+  static subtractBusinessDays(date: Date, days: number, workOnSaturday: boolean = false, workOnSunday: boolean = false, calendar?: WorkCalendar): Date {
+    let result = new Date(date);
+    let removedDays = 0;
+    while (removedDays < days) {
+      result.setDate(result.getDate() - 1);
+      if (!Task.isWeekend(result, workOnSaturday, workOnSunday, calendar)) {
+        removedDays++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Number of work days from one date to another, counted the same way as
+   * addBusinessDays. Negative when `to` is before `from`.
+   */
+  static businessDaysBetween(from: Date, to: Date, workOnSaturday: boolean = false, workOnSunday: boolean = false, calendar?: WorkCalendar): number {
+    const start = new Date(from);
+    const end = new Date(to);
+    start.setHours(0, 0, 0, 0);
+    end.setHours(0, 0, 0, 0);
+    
+    const sign = end < start ? -1 : 1;
+    const current = sign > 0 ? start : end;
+    const last = sign > 0 ? end : start;
+    let days = 0;
+    while (current < last) {
+      current.setDate(current.getDate() + 1);
+      if (!Task.isWeekend(current, workOnSaturday, workOnSunday, calendar)) {
+        days++;
+      }
+    }
+    return days * sign;
+  }
+
+  /**
+   * Work calendar for this task: its own, else its swimlane's, else the project's
+   */
+  getCalendar(): WorkCalendar {
+    return Calendars.resolve(this.calendarId, this.swimlaneId);
+  }
+
+  /**
+   * Whether a date is a day off for this task (weekend, holiday or shutdown)
+   */
+  isNonWorkingDay(date: Date): boolean {
+    return Task.isWeekend(date, this.workOnSaturday, this.workOnSunday, this.getCalendar());
+  }
+
+  addWorkDays(date: Date, days: number): Date {
+    return Task.addBusinessDays(date, days, this.workOnSaturday, this.workOnSunday, this.getCalendar());
+  }
+
+  subtractWorkDays(date: Date, days: number): Date {
+    return Task.subtractBusinessDays(date, days, this.workOnSaturday, this.workOnSunday, this.getCalendar());
+  }
+
+  workDaysBetween(from: Date, to: Date): number {
+    return Task.businessDaysBetween(from, to, this.workOnSaturday, this.workOnSunday, this.getCalendar());
+  }
+
   getEndDate(): Date {
-    return Task.addBusinessDays(this.startDate, this.duration, this.workOnSaturday, this.workOnSunday);
+    return this.addWorkDays(this.startDate, this.duration);
   }
 
   setHovered(hovered: boolean) {
@@ -215,10 +577,10 @@ export class Task {
     ctx.restore();
   }
 
-  draw(ctx: CanvasRenderingContext2D, timeAxis: any, y: number): boolean {
+  draw(ctx: CanvasRenderingContext2D, timeAxis: any, y: number, baseline: TaskBaseline | null = null): boolean {
     try {
       // Basic validation - ensure we have required properties
-      if (!this.startDate || !this.duration) {
+      if (!this.startDate || (!this.duration && !this.isMilestone)) {
         console.warn(`[Task] Cannot draw task ${this.id} - missing required properties`);
         return false;
       }
@@ -236,10 +598,19 @@ export class Task {
         return false;
       }
       
+      if (this.isMilestone) {
+        this.drawMilestone(ctx, timeAxis, y, baseline);
+        return true;
+      }
+      
       // Ensure minimum width for the card
       const width = Math.max(endX - startX, 80); // Increased minimum width
       const radius = 8;
       
+      if (baseline) {
+        this.drawBaselineBar(ctx, timeAxis, y, baseline);
+      }
+      
       // Save current canvas state
       ctx.save();
       
@@ -290,6 +661,23 @@ export class Task {
       }
       ctx.fill();
       
+      // Shade the completed share of the card
+      if (this.progress > 0) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(startX, y + 6, width * Math.min(100, this.progress) / 100, this.height - 6);
+        ctx.clip();
+        ctx.fillStyle = `${this.color}33`; // 20% opacity of the trade color
+        ctx.beginPath();
+        if (ctx.roundRect) {
+          ctx.roundRect(startX, y + 6, width, this.height - 6, [0, 0, radius, radius]);
+        } else {
+          this.drawRoundedRectBottomOnly(ctx, startX, y + 6, width, this.height - 6, radius);
+        }
+        ctx.fill();
+        ctx.restore();
+      }
+      
       // Draw card border
       ctx.strokeStyle = 'rgba(0, 0, 0, 0.08)';
       ctx.lineWidth = 1;
@@ -301,6 +689,10 @@ export class Task {
       }
       ctx.stroke();
       
+      if (this.constraintType) {
+        this.drawConstraintMarker(ctx, timeAxis, y, startX, width, radius);
+      }
+      
       // Only proceed with inner content if card is wide enough
       if (width > 70) {
         // Set text alignment properties explicitly
@@ -385,6 +777,133 @@ export class Task {
     }
   }
 
+  /**
+   * Diamond centred on the milestone's start line, with its name and date to
+   * the right. Milestones that have been reached are filled; upcoming ones
+   * are outlined.
+   */
+  private drawMilestone(ctx: CanvasRenderingContext2D, timeAxis: any, y: number, baseline: TaskBaseline | null): void {
+    const x = timeAxis.dateToWorld(this.startDate);
+    const half = Task.MILESTONE_SIZE / 2;
+    const centerY = y + this.height / 2;
+    const reached = this.status === 'completed' || !!this.actualStart;
+    
+    if (baseline) {
+      this.drawBaselineBar(ctx, timeAxis, y, baseline);
+    }
+    
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.15)';
+    ctx.shadowBlur = this.isHovered ? 12 : 6;
+    ctx.shadowOffsetY = 2;
+    ctx.fillStyle = reached ? this.color : '#ffffff';
+    ctx.beginPath();
+    ctx.moveTo(x, centerY - half);
+    ctx.lineTo(x + half, centerY);
+    ctx.lineTo(x, centerY + half);
+    ctx.lineTo(x - half, centerY);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+    
+    ctx.save();
+    ctx.strokeStyle = this.isHovered ? Task.adjustColor(this.color, 0.9) : this.color;
+    ctx.lineWidth = 2.5;
+    ctx.beginPath();
+    ctx.moveTo(x, centerY - half);
+    ctx.lineTo(x + half, centerY);
+    ctx.lineTo(x, centerY + half);
+    ctx.lineTo(x - half, centerY);
+    ctx.closePath();
+    ctx.stroke();
+    
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.font = '600 12px Inter, system-ui, -apple-system, sans-serif';
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillText(this.name, x + half + 6, centerY - 13);
+    ctx.font = '400 10px Inter, system-ui, -apple-system, sans-serif';
+    ctx.fillStyle = '#666666';
+    const date = this.getMilestoneDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    ctx.fillText(`${this.milestoneType === 'finish' ? 'Finish' : 'Start'} · ${date}`, x + half + 6, centerY + 2);
+    ctx.restore();
+    
+    if (this.constraintType) {
+      this.drawConstraintMarker(ctx, timeAxis, y, x - half, Task.MILESTONE_SIZE, 4);
+    }
+  }
+
+  /**
+   * Thin ghost bar just below the card showing where the task sat in the baseline
+   */
+  private drawBaselineBar(ctx: CanvasRenderingContext2D, timeAxis: any, y: number, baseline: TaskBaseline): void {
+    const baselineStartX = timeAxis.dateToWorld(new Date(baseline.startDate));
+    const baselineEndX = timeAxis.dateToWorld(new Date(baseline.finishDate));
+    const barY = y + this.height + 2;
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(100, 116, 139, 0.35)';
+    ctx.strokeStyle = 'rgba(100, 116, 139, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.rect(baselineStartX, barY, Math.max(baselineEndX - baselineStartX, 2), 4);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Flag at the constraint date: SNET points right, FNLT points left and MSO is
+   * a diamond. Drawn red with a dashed outline when the task breaks the constraint.
+   */
+  private drawConstraintMarker(ctx: CanvasRenderingContext2D, timeAxis: any, y: number, startX: number, width: number, radius: number): void {
+    const markerDate = this.constraintType === 'FNLT' ? this.getConstraintFinish() : this.getConstraintStart();
+    if (!markerDate) return;
+    
+    const violated = this.isConstraintViolated();
+    const color = violated ? '#ef4444' : '#475569';
+    const markerX = timeAxis.dateToWorld(markerDate);
+    const size = 5;
+    
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 1.5;
+    
+    // Vertical line through the card at the constraint date
+    ctx.beginPath();
+    ctx.moveTo(markerX, y - size * 2);
+    ctx.lineTo(markerX, y + this.height);
+    ctx.stroke();
+    
+    ctx.beginPath();
+    if (this.constraintType === 'MSO') {
+      ctx.moveTo(markerX, y - size * 3);
+      ctx.lineTo(markerX + size, y - size * 2);
+      ctx.lineTo(markerX, y - size);
+      ctx.lineTo(markerX - size, y - size * 2);
+    } else {
+      const direction = this.constraintType === 'SNET' ? 1 : -1;
+      ctx.moveTo(markerX, y - size * 3);
+      ctx.lineTo(markerX + direction * size * 1.5, y - size * 2);
+      ctx.lineTo(markerX, y - size);
+    }
+    ctx.closePath();
+    ctx.fill();
+    
+    if (violated) {
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      if (ctx.roundRect) {
+        ctx.roundRect(startX - 2, y - 2, width + 4, this.height + 4, radius + 2);
+      } else {
+        this.drawRoundedRect(ctx, startX - 2, y - 2, width + 4, this.height + 4, radius + 2);
+      }
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
   // Utility method for drawing rounded rectangles when ctx.roundRect is not available
   private drawRoundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
     ctx.beginPath();
@@ -443,10 +962,21 @@ export class Task {
     return truncated + ellipsis;
   }
 
+  /**
+   * Horizontal extent used for hit testing: the bar from start to end, or
+   * the diamond around the start line for a milestone
+   */
+  getDrawnRange(timeAxis: any): { startX: number; endX: number } {
+    const startX = timeAxis.dateToWorld(this.startDate);
+    if (this.isMilestone) {
+      return { startX: startX - Task.MILESTONE_SIZE / 2, endX: startX + Task.MILESTONE_SIZE / 2 };
+    }
+    return { startX, endX: timeAxis.dateToWorld(this.getEndDate()) };
+  }
+
   // Helper method to check if a point is inside the task card
   containsPoint(x: number, y: number, timeAxis: any, taskY: number): boolean {
-    const startX = timeAxis.dateToWorld(this.startDate);
-    const endX = timeAxis.dateToWorld(this.getEndDate());
+    const { startX, endX } = this.getDrawnRange(timeAxis);
     
     return x >= startX && x <= endX && 
            y >= taskY && y <= taskY + this.height;
@@ -490,13 +1020,16 @@ export class Task {
   // Adjust start date if it falls on a non-work day based on settings
   adjustStartDate(): void {
     // If start date is on weekend and not working on that day, move to next work day
-    while (Task.isWeekend(this.startDate, this.workOnSaturday, this.workOnSunday)) {
+    while (this.isNonWorkingDay(this.startDate)) {
       this.startDate.setDate(this.startDate.getDate() + 1);
     }
   }
 
   // Add method to get task width based on its duration
   getWidth(timeAxis?: any): number {
+    if (this.isMilestone) {
+      return Task.MILESTONE_SIZE;
+    }
     if (timeAxis) {
       const startX = timeAxis.dateToWorld(this.startDate);
       const endX = timeAxis.dateToWorld(this.getEndDate());
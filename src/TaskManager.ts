@@ -1,6 +1,13 @@
-import { Task, TaskConfig } from './Task';
+import { Task, TaskConfig, DependencyType, DependencyLink, DEPENDENCY_TYPES, ConstraintType, CONSTRAINT_TYPES, CONSTRAINT_LABELS, MilestoneType, MILESTONE_TYPES, MILESTONE_LABELS } from './Task';
+import { CriticalPath, CriticalPathResult } from './CriticalPath';
+import { Calendars } from './Calendars';
+import { Baselines, Baseline, TaskBaseline } from './Baselines';
 import { Camera } from './Camera';
 import { Trades, Trade } from './Trades';
+import { HistoryManager } from './HistoryManager';
+import { Rescheduler, ScheduleMode } from './Rescheduler';
+import { ResourceLeveler, LevelingResult } from './ResourceLeveler';
+import { Wbs } from './Wbs';
 import { Logger } from './utils/logger';
 import { generateUUID } from './utils';
 
@@ -18,6 +25,8 @@ interface Swimlane {
   tasks: Task[];
   taskPositions: Map<string, { x: number; y: number }>;
   wbsId?: string; // ID used when exporting to XER format
+  parentId?: string; // Parent swimlane in the WBS tree; top-level when absent
+  collapsed?: boolean; // Tasks and child swimlanes hidden behind the summary bar
 }
 
 export class TaskManager {
@@ -45,18 +54,83 @@ export class TaskManager {
   private selectionBoxStart: { x: number; y: number } | null = null;
   private selectionBoxEnd: { x: number; y: number } | null = null;
   areDependenciesVisible: boolean = true; // For dependency visibility
+  isCriticalPathVisible: boolean = false; // Highlight zero-float tasks and driving links
+  nearCriticalThreshold: number = 5; // Tasks with total float at or below this many days are near-critical
+  scheduleMode: ScheduleMode = 'manual'; // Saved per project; auto reschedules successors on move/resize, manual only flags violated links
+  pullSuccessors: boolean = false; // Saved per project; in auto mode, also pull successors earlier to close gaps
+
+  // Successor start dates the current drag or resize would produce (auto mode only)
+  private ripplePreview: Map<string, Date> | null = null;
 
   // New property for trade filters
   private tradeFilters: Map<string, boolean> = new Map();
 
+  // Most recent CPM calculation (see calculateCriticalPath); cleared when the schedule changes
+  private criticalPathResult: CriticalPathResult | null = null;
+
+  // Links whose successor starts too early (see getViolatedLinks); cleared when the schedule changes
+  private violatedLinks: Set<string> | null = null;
+
+  // Captured schedule baselines; the active one is drawn as ghost bars
+  baselines: Baseline[] = [];
+  activeBaselineId: string | null = null;
+
+  // Status date for progress updates; remaining work is scheduled from here
+  dataDate: Date | null = null;
+  
+  // Shared schedules open read-only: the mouse and keyboard only look around
+  readOnly: boolean = false;
+
+  // Undo/redo for schedule edits; call history.commit() after every edit
+  history: HistoryManager;
+
   constructor(private timeAxis: any) {
     this.tasks = [];
+    this.history = new HistoryManager(
+      () => this.serializeHistoryState(),
+      state => this.restoreHistoryState(state)
+    );
+    this.history.onChange = () => this.invalidateSchedule();
+
+    // Task edits, including drags in progress, change dates and links
+    document.addEventListener('taskUpdated', () => this.invalidateSchedule());
     
     // Default swimlanes are now created by the template system
     // This constructor no longer initializes default zones
 
     // Add keyboard listener for mode switching and shortcuts
     document.addEventListener('keydown', (e) => {
+      // Leave typing in forms alone, including Backspace and the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' ||
+          target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+
+      // Add dependency toggle on 'D' key press
+      if (e.key === 'd' || e.key === 'D') {
+        this.areDependenciesVisible = !this.areDependenciesVisible;
+      }
+
+      // The rest edit the schedule
+      if (this.readOnly) return;
+
+      // Handle undo (Ctrl+Z or Cmd+Z) and redo (Ctrl+Shift+Z, Cmd+Shift+Z or Ctrl+Y)
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z')) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.redo();
+        } else {
+          this.undo();
+        }
+        return;
+      }
+      if (e.ctrlKey && (e.key === 'y' || e.key === 'Y')) {
+        e.preventDefault();
+        this.redo();
+        return;
+      }
+
       if (e.key === ' ') { // Spacebar
         // Toggle hand mode when spacebar is pressed
         this.isHandMode = !this.isHandMode;
@@ -74,20 +148,21 @@ export class TaskManager {
       if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
         this.pasteSelectedTasks(this.timeAxis);
       }
-      
-      // Add dependency toggle on 'D' key press
-      if (e.key === 'd' || e.key === 'D') {
-        this.areDependenciesVisible = !this.areDependenciesVisible;
-      }
     });
 
     // Initialize the trade filters with all trades visible by default
     Trades.getAllTrades().forEach(trade => {
       this.tradeFilters.set(trade.id, true);
     });
+
+    // Restore the near-critical threshold chosen in Settings
+    const storedThreshold = parseInt(localStorage.getItem('dingplan-near-critical-days') || '', 10);
+    if (!isNaN(storedThreshold) && storedThreshold >= 0) {
+      this.nearCriticalThreshold = storedThreshold;
+    }
   }
 
-  addSwimlane(id: string, name: string, color: string): void {
+  addSwimlane(id: string, name: string, color: string, parentId?: string): void {
     // Calculate y as the sum of all previous swimlane heights
     let y = 0;
     this.swimlanes.forEach(existingSwimlane => {
@@ -101,17 +176,59 @@ export class TaskManager {
       height: this.SWIMLANE_HEIGHT,
       color,
       tasks: [],
-      taskPositions: new Map()
+      taskPositions: new Map(),
+      ...(parentId ? { parentId } : {})
     });
+    
+    // A child lane goes below its parent's subtree rather than at the end
+    if (parentId) {
+      this.recalculateSwimlaneHeights();
+    }
   }
 
   getSwimlaneAt(worldY: number): Swimlane | null {
     return this.swimlanes.find(lane => 
+      !Wbs.isHidden(this.swimlanes, lane) &&
       worldY >= lane.y && 
       worldY <= lane.y + lane.height
     ) || null;
   }
 
+  /**
+   * Whether a swimlane's tasks are hidden, because it or one of its WBS
+   * ancestors is collapsed
+   */
+  isSwimlaneFolded(lane: Swimlane): boolean {
+    return !!lane.collapsed || Wbs.isHidden(this.swimlanes, lane);
+  }
+
+  /**
+   * Collapse a WBS node to its summary bar, or expand it again. Collapsing is
+   * a view setting and is never recorded as an undo step.
+   */
+  setSwimlaneCollapsed(id: string, collapsed: boolean): void {
+    const lane = this.swimlanes.find(s => s.id === id);
+    if (!lane) return;
+    lane.collapsed = collapsed;
+    // Hidden tasks cannot stay selected
+    this.selectedTasks.forEach(task => {
+      const taskLane = this.swimlanes.find(s => s.id === task.swimlaneId);
+      if (taskLane && this.isSwimlaneFolded(taskLane)) {
+        this.selectedTasks.delete(task);
+      }
+    });
+    this.selectedTasksInOrder = this.selectedTasksInOrder.filter(task => this.selectedTasks.has(task));
+    this.recalculateSwimlaneHeights();
+  }
+
+  /**
+   * Re-sort swimlanes into WBS order and lay them out again, e.g. after the
+   * swimlane list was edited directly
+   */
+  refreshSwimlaneLayout(): void {
+    this.recalculateSwimlaneHeights();
+  }
+
   // Check if there is currently a selected task
   hasSelectedTask(): boolean {
     return this.selectedTasks.size > 0;
@@ -201,8 +318,22 @@ export class TaskManager {
     const taskSpacing = 6;
     const bottomPadding = 20;
     
+    // Children follow their parent in the WBS tree
+    const ordered = Wbs.order(this.swimlanes);
+    this.swimlanes.splice(0, this.swimlanes.length, ...ordered);
+    
     // First, calculate heights based on task count
     this.swimlanes.forEach(swimlane => {
+      // Lanes under a collapsed node take no space; a collapsed node shows only its summary bar
+      if (Wbs.isHidden(this.swimlanes, swimlane)) {
+        swimlane.height = 0;
+        return;
+      }
+      if (swimlane.collapsed) {
+        swimlane.height = TaskManager.COLLAPSED_SWIMLANE_HEIGHT;
+        return;
+      }
+      
       const taskCount = swimlane.tasks.length;
       const calculatedHeight = Math.max(
         MIN_HEIGHT,
@@ -217,9 +348,10 @@ export class TaskManager {
       swimlane.y = currentY;
       currentY += swimlane.height;
       
-      // Update task positions within each swimlane
+      // Update task positions within each swimlane; hidden tasks rest at the top of their lane
+      const folded = this.isSwimlaneFolded(swimlane);
       swimlane.tasks.forEach((task, index) => {
-        const yPosition = swimlane.y + topPadding + (index * (rowHeight + taskSpacing));
+        const yPosition = folded ? swimlane.y : swimlane.y + topPadding + (index * (rowHeight + taskSpacing));
         swimlane.taskPositions.set(task.id, {
           x: swimlane.taskPositions.get(task.id)?.x || 0,
           y: yPosition
@@ -255,6 +387,147 @@ export class TaskManager {
     return this.tasks.find(t => t.id === id);
   }
 
+  /**
+   * Run the critical path calculation over all tasks and keep the result
+   * for the rest of the app (details panel, rendering, exporters)
+   */
+  calculateCriticalPath(): CriticalPathResult {
+    this.criticalPathResult = new CriticalPath(this.tasks, this.dataDate).calculate();
+    return this.criticalPathResult;
+  }
+
+  /**
+   * Forget results calculated from the schedule, after tasks, links,
+   * calendars or the data date change
+   */
+  invalidateSchedule(): void {
+    this.criticalPathResult = null;
+    this.violatedLinks = null;
+  }
+
+  /**
+   * Links whose successor starts before the link allows, calculated on
+   * demand and kept until the schedule changes
+   */
+  getViolatedLinks(): Set<string> {
+    if (!this.violatedLinks) {
+      this.violatedLinks = new Rescheduler(this.tasks).getViolatedLinks();
+    }
+    return this.violatedLinks;
+  }
+
+  /**
+   * Last critical path result, calculated on demand if none exists yet
+   */
+  getCriticalPathResult(): CriticalPathResult {
+    return this.criticalPathResult || this.calculateCriticalPath();
+  }
+
+  /**
+   * Float tier used for critical path highlighting
+   */
+  getFloatTier(taskId: string, criticalPath: CriticalPathResult = this.getCriticalPathResult()): 'critical' | 'near-critical' | null {
+    const result = criticalPath.results.get(taskId);
+    if (!result) return null;
+    if (result.isCritical) return 'critical';
+    if (result.totalFloat <= this.nearCriticalThreshold) return 'near-critical';
+    return null;
+  }
+
+  /**
+   * Snapshot every task's current dates as a new baseline and make it active
+   */
+  captureBaseline(name: string): Baseline {
+    const baseline = Baselines.capture(this.tasks, name, generateUUID());
+    this.baselines.push(baseline);
+    this.activeBaselineId = baseline.id;
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+    return baseline;
+  }
+
+  deleteBaseline(id: string): void {
+    this.baselines = this.baselines.filter(baseline => baseline.id !== id);
+    if (this.activeBaselineId === id) {
+      this.activeBaselineId = null;
+    }
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+  }
+
+  /**
+   * Choose the baseline shown as ghost bars, or null to hide them
+   */
+  setActiveBaseline(id: string | null): void {
+    this.activeBaselineId = id && this.baselines.some(baseline => baseline.id === id) ? id : null;
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+  }
+
+  getActiveBaseline(): Baseline | null {
+    return this.baselines.find(baseline => baseline.id === this.activeBaselineId) || null;
+  }
+
+  /**
+   * A task's entry in the active baseline, if it existed when the baseline was captured
+   */
+  getTaskBaseline(taskId: string): TaskBaseline | null {
+    const baseline = this.getActiveBaseline();
+    return baseline ? baseline.tasks[taskId] || null : null;
+  }
+
+  /**
+   * Set or clear the project data date
+   */
+  setDataDate(date: Date | null): void {
+    const dataDate = date && !isNaN(date.getTime()) ? new Date(date) : null;
+    dataDate?.setHours(0, 0, 0, 0);
+    this.dataDate = dataDate;
+    this.history.commit('Set data date');
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+  }
+
+  /**
+   * Bring the schedule up to the data date: started and finished tasks move
+   * onto their actuals, then tasks that have not started are pushed past the
+   * data date and their updated predecessors
+   * @returns Number of tasks whose dates changed
+   */
+  updateScheduleFromDataDate(): number {
+    if (!this.dataDate) return 0;
+    const dataDate = this.dataDate;
+
+    const before = new Map(this.tasks.map(task => [task.id, `${task.startDate.getTime()}:${task.duration}`]));
+    this.tasks.forEach(task => {
+      task.syncStatusWithActuals();
+      task.applyDataDate(dataDate);
+    });
+
+    const { results } = this.calculateCriticalPath();
+    this.tasks.forEach(task => {
+      const result = results.get(task.id);
+      if (!task.actualStart && result && result.earlyStart > task.startDate) {
+        task.startDate = new Date(result.earlyStart);
+      }
+    });
+
+    const changed = this.tasks.filter(task => before.get(task.id) !== `${task.startDate.getTime()}:${task.duration}`).length;
+    console.log(`[TaskManager] Updated schedule to data date ${dataDate.toDateString()}: ${changed} tasks changed`);
+    this.history.commit('Update progress');
+    document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { hasDependencies: true } }));
+    return changed;
+  }
+
+  /**
+   * Delay non-critical tasks within their float until no trade is over its
+   * crew capacity, or no further task can move without delaying the project
+   * @returns The tasks that moved and the overloads that remain
+   */
+  levelResources(): LevelingResult {
+    const result = new ResourceLeveler(this.tasks, this.dataDate).level();
+    console.log(`[TaskManager] Leveled resources: ${result.moves.length} tasks moved, ${result.unresolved.length} overloads unresolved`);
+    this.history.commit('Level resources');
+    document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { hasDependencies: true } }));
+    return result;
+  }
+
   draw(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera) {
     // Do not clear the canvas, as Canvas.ts already handles this
     this.drawTasks(ctx, timeAxis, camera);
@@ -294,6 +567,7 @@ export class TaskManager {
   }
 
   handleMouseDown(e: MouseEvent, canvas: HTMLCanvasElement, camera: Camera, timeAxis: any) {
+    if (this.readOnly) return;
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
@@ -328,8 +602,7 @@ export class TaskManager {
           const pos = swimlane.taskPositions.get(task.id);
           if (!pos) continue;
 
-          const startX = timeAxis.dateToWorld(task.startDate);
-          const endX = timeAxis.dateToWorld(task.getEndDate());
+          const { startX, endX } = task.getDrawnRange(timeAxis);
           
           // Add padding to hit area for easier clicking
           const hitStartX = startX - hitPadding;
@@ -341,8 +614,10 @@ export class TaskManager {
               worldY >= hitStartY && worldY <= hitEndY) {
             clickedTask = task;
             
-            // Check for edge dragging with fixed pixel sensitivity
-            if (Math.abs(worldX - startX) <= edgeSensitivity) {
+            // Check for edge dragging with fixed pixel sensitivity; milestones have no duration to resize
+            if (task.isMilestone) {
+              canvas.style.cursor = 'grab';
+            } else if (Math.abs(worldX - startX) <= edgeSensitivity) {
               this.isDraggingLeftEdge = true;
               canvas.style.cursor = 'ew-resize';
             } else if (Math.abs(worldX - endX) <= edgeSensitivity) {
@@ -392,6 +667,7 @@ export class TaskManager {
   }
 
   handleMouseMove(e: MouseEvent, canvas: HTMLCanvasElement, camera: Camera, timeAxis: any) {
+    if (this.readOnly) return;
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
@@ -420,8 +696,7 @@ export class TaskManager {
           const pos = swimlane.taskPositions.get(task.id);
           if (!pos) return;
 
-          const taskStartX = timeAxis.dateToWorld(task.startDate);
-          const taskEndX = timeAxis.dateToWorld(task.getEndDate());
+          const { startX: taskStartX, endX: taskEndX } = task.getDrawnRange(timeAxis);
           const taskTop = pos.y;
           const taskBottom = pos.y + task.getCurrentHeight();
 
@@ -440,6 +715,7 @@ export class TaskManager {
       const selectedTask = Array.from(this.selectedTasks)[0];
       if (this.isDraggingLeftEdge || this.isDraggingRightEdge) {
         this.handleEdgeDragging(worldX, selectedTask, timeAxis);
+        this.updateRipplePreview(this.selectedTasks);
         
         // Update task details when resizing
         if (this.selectedTasks.size === 1) {
@@ -477,7 +753,8 @@ export class TaskManager {
       const dragStartY = originalPos.y;
       const verticalMovement = worldY - this.dragStartPosition.y - dragStartY;
       
-      // Get all tasks to move: selected tasks and dependent tasks
+      // Get all tasks to move: the selection moves together, successors are
+      // rescheduled through their links on mouse-up (see updateRipplePreview)
       const tasksToMove = new Set<Task>();
       
       // First add all selected tasks
@@ -488,26 +765,6 @@ export class TaskManager {
         tasksToMove.add(draggedTask);
       }
       
-      // Get tasks that depend on any of the selected tasks (only if showDependencies is enabled)
-      if (this.areDependenciesVisible) {
-        // Find dependents for each selected/dragged task
-        const processedTasks = new Set<string>();
-        
-        tasksToMove.forEach(task => {
-          if (!processedTasks.has(task.id)) {
-            processedTasks.add(task.id);
-            
-            // Get successor tasks (those that depend on this task)
-            const successors = this.getSuccessorTasks(task.id, true);
-            successors.forEach(successor => {
-              if (!tasksToMove.has(successor)) {
-                tasksToMove.add(successor);
-              }
-            });
-          }
-        });
-      }
-      
       // Now move all tasks in tasksToMove
       tasksToMove.forEach(task => {
         // Skip the dragged task as we'll handle it separately
@@ -569,6 +826,7 @@ export class TaskManager {
 
       // Update the dragged task's start date (using snapped date)
       draggedTask.startDate = snappedDate;
+      this.updateRipplePreview(tasksToMove);
       
       // Update task details in real-time while dragging
       this.updateTaskDetails(draggedTask);
@@ -600,8 +858,7 @@ export class TaskManager {
           const pos = swimlane.taskPositions.get(task.id);
           if (!pos) continue;
 
-          const startX = timeAxis.dateToWorld(task.startDate);
-          const endX = timeAxis.dateToWorld(task.getEndDate());
+          const { startX, endX } = task.getDrawnRange(timeAxis);
           
           // Use hit area with padding for cursor detection
           const hitStartX = startX - hitPadding;
@@ -613,7 +870,11 @@ export class TaskManager {
               worldY >= hitStartY && worldY <= hitEndY) {
             
             // Check for edge resize zones first
-            if (Math.abs(worldX - startX) <= edgeSensitivity) {
+            if (task.isMilestone) {
+              canvas.style.cursor = 'pointer';
+              cursorSet = true;
+              break;
+            } else if (Math.abs(worldX - startX) <= edgeSensitivity) {
               canvas.style.cursor = 'ew-resize';
               cursorSet = true;
               break;
@@ -651,7 +912,7 @@ export class TaskManager {
       
       while (testDate < endDate && businessDays < 1) {
         // Check if the day is a work day based on task settings
-        const isWeekend = Task.isWeekend(testDate, selectedTask.workOnSaturday, selectedTask.workOnSunday);
+        const isWeekend = selectedTask.isNonWorkingDay(testDate);
         if (!isWeekend) {
           businessDays++;
         }
@@ -668,7 +929,7 @@ export class TaskManager {
           const current = new Date(newStartDate);
           while (current < taskEndDate) {
             // Use task-specific weekend settings
-            const isWeekend = Task.isWeekend(current, task.workOnSaturday, task.workOnSunday);
+            const isWeekend = task.isNonWorkingDay(current);
             if (!isWeekend) {
               days++;
             }
@@ -694,7 +955,7 @@ export class TaskManager {
       
       while (testDate < newEndDate && businessDays < 1) {
         // Check if the day is a work day based on task settings
-        const isWeekend = Task.isWeekend(testDate, selectedTask.workOnSaturday, selectedTask.workOnSunday);
+        const isWeekend = selectedTask.isNonWorkingDay(testDate);
         if (!isWeekend) {
           businessDays++;
         }
@@ -709,7 +970,7 @@ export class TaskManager {
           let days = 0;
           while (current < newEndDate) {
             // Use task-specific weekend settings
-            const isWeekend = Task.isWeekend(current, task.workOnSaturday, task.workOnSunday);
+            const isWeekend = task.isNonWorkingDay(current);
             if (!isWeekend) {
               days++;
             }
@@ -727,7 +988,77 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Recalculate where successors would land if the current drag or resize
+   * ended now. Only used in auto scheduling mode.
+   */
+  private updateRipplePreview(movedTasks: Iterable<Task>): void {
+    // Dates are changing under the cursor
+    this.invalidateSchedule();
+
+    if (this.scheduleMode !== 'auto') {
+      this.ripplePreview = null;
+      return;
+    }
+
+    const movedIds = Array.from(movedTasks, task => task.id);
+    const ripple = new Rescheduler(this.tasks).calculateRipple(movedIds, this.pullSuccessors);
+    this.ripplePreview = ripple.size > 0 ? ripple : null;
+  }
+
+  private applyRipplePreview(): void {
+    if (!this.ripplePreview) return;
+
+    this.ripplePreview.forEach((startDate, taskId) => {
+      const task = this.getTask(taskId);
+      if (task) task.startDate = new Date(startDate);
+    });
+    this.ripplePreview = null;
+    document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { hasDependencies: true } }));
+  }
+
+  /**
+   * Push (and, if enabled, pull) the successors of the given tasks to satisfy
+   * their links. Does nothing in manual scheduling mode.
+   * @returns Number of tasks that moved
+   */
+  rescheduleSuccessors(tasks: Task[]): number {
+    if (this.scheduleMode !== 'auto') return 0;
+
+    const ripple = new Rescheduler(this.tasks).calculateRipple(tasks.map(task => task.id), this.pullSuccessors);
+    ripple.forEach((startDate, taskId) => {
+      const task = this.getTask(taskId);
+      if (task) task.startDate = startDate;
+    });
+    if (ripple.size > 0) {
+      console.log(`Rescheduled ${ripple.size} successor task(s)`);
+    }
+    return ripple.size;
+  }
+
+  setScheduleMode(mode: ScheduleMode): void {
+    this.scheduleMode = mode;
+    this.ripplePreview = null;
+    // Saved with the project
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+  }
+
+  setPullSuccessors(pull: boolean): void {
+    this.pullSuccessors = pull;
+    document.dispatchEvent(new CustomEvent('taskUpdated'));
+  }
+
   handleMouseUp(canvas?: HTMLCanvasElement) {
+    // Move successors to the previewed dates so the ripple is part of the same undo step
+    this.applyRipplePreview();
+
+    // Record the drag or resize that just finished as one undo step
+    if (this.isDraggingLeftEdge || this.isDraggingRightEdge) {
+      this.history.commit('Resize task');
+    } else if (this.draggedTask) {
+      this.history.commit('Move task');
+    }
+
     this.isDrawingSelectionBox = false;
     this.selectionBoxStart = null;
     this.selectionBoxEnd = null;
@@ -798,28 +1129,31 @@ export class TaskManager {
     // Calculate successors - any task that has this task as a dependency
     const successors = this.tasks.filter(t => t.dependencies.includes(task.id));
 
-    // Determine relationship types (default to FS - Finish-to-Start)
-    const calculateRelationship = (task: Task, relatedTask: Task, isSuccessor: boolean): string => {
-      // For now, we'll assume FS relationships with calculated lag
-      const mainTask = isSuccessor ? task : relatedTask;
-      const otherTask = isSuccessor ? relatedTask : task;
-      
-      // Calculate the lag in business days
-      const mainTaskEnd = mainTask.getEndDate();
-      const otherTaskStart = otherTask.startDate;
-      
-      // Calculate business days between dates
-      let lagDays = 0;
-      let currentDate = new Date(mainTaskEnd);
-      
-      while (currentDate < otherTaskStart) {
-        currentDate.setDate(currentDate.getDate() + 1);
-        if (!Task.isWeekend(currentDate, mainTask.workOnSaturday, mainTask.workOnSunday)) {
-          lagDays++;
-        }
-      }
-      
-      return lagDays > 0 ? `FS+${lagDays}` : 'FS';
+    // Early/late dates and float from the CPM engine
+    const schedule = this.getCriticalPathResult().results.get(task.id);
+    const formatShortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+    // Slip against the active baseline, positive = late
+    const activeBaseline = this.getActiveBaseline();
+    const baselineEntry = this.getTaskBaseline(task.id);
+    const variance = baselineEntry ? Baselines.calculateVariance(task, baselineEntry) : null;
+    const formatVariance = (days: number) => {
+      const color = days > 0 ? '#dc2626' : days < 0 ? '#16a34a' : '#1a1a1a';
+      const label = days > 0 ? `+${days}d late` : days < 0 ? `${-days}d early` : 'On time';
+      return `<div class="td-readonly-field" style="color: ${color};">${label}</div>`;
+    };
+
+    // Relationship type and lag editor for a predecessor link
+    const renderLinkEditor = (predecessorId: string): string => {
+      const link = task.getDependencyLink(predecessorId);
+      return `
+        <div class="td-dep-link">
+          <select class="td-dep-link-type" data-pred-id="${predecessorId}" title="Relationship type">
+            ${DEPENDENCY_TYPES.map(type => `<option value="${type}" ${link.type === type ? 'selected' : ''}>${type}</option>`).join('')}
+          </select>
+          <input type="number" class="td-dep-link-lag" data-pred-id="${predecessorId}" value="${link.lag}" step="1" title="Lag in working days (negative for lead)">
+        </div>
+      `;
     };
 
     // Details panel — uses .form-group design system from Sidebar
@@ -893,9 +1227,18 @@ export class TaskManager {
             <label>Start Date</label>
             <input type="date" value="${task.startDate.toISOString().split('T')[0]}" data-field="startDate">
           </div>
+          <div class="form-group">
+            <label>Type</label>
+            <select data-field="milestoneType">
+              <option value="" ${!task.milestoneType ? 'selected' : ''}>Task</option>
+              ${MILESTONE_TYPES.map(type => `
+                <option value="${type}" ${task.milestoneType === type ? 'selected' : ''}>${MILESTONE_LABELS[type]}</option>
+              `).join('')}
+            </select>
+          </div>
           <div class="form-group">
             <label>Duration (days)</label>
-            <input type="number" value="${task.duration}" min="1" data-field="duration">
+            <input type="number" value="${task.duration}" min="${task.isMilestone ? 0 : 1}" data-field="duration" ${task.isMilestone ? 'disabled' : ''}>
           </div>
           <div class="form-group">
             <label>Crew Size</label>
@@ -907,6 +1250,77 @@ export class TaskManager {
           </div>
         </div>
 
+        <!-- Critical Path -->
+        ${schedule ? `
+        <div class="td-section-label">CRITICAL PATH</div>
+        <div class="td-grid">
+          <div class="form-group">
+            <label>Early Start / Finish</label>
+            <div class="td-readonly-field">${formatShortDate(schedule.earlyStart)} – ${formatShortDate(schedule.earlyFinish)}</div>
+          </div>
+          <div class="form-group">
+            <label>Late Start / Finish</label>
+            <div class="td-readonly-field">${formatShortDate(schedule.lateStart)} – ${formatShortDate(schedule.lateFinish)}</div>
+          </div>
+          <div class="form-group">
+            <label>Total Float</label>
+            <div class="td-readonly-field" style="${schedule.isCritical ? 'color: #dc2626; font-weight: 600;' : ''}">${schedule.totalFloat}d${schedule.isCritical ? ' (critical)' : ''}</div>
+          </div>
+          <div class="form-group">
+            <label>Free Float</label>
+            <div class="td-readonly-field">${schedule.freeFloat}d</div>
+          </div>
+        </div>
+        ` : ''}
+
+        <!-- Constraint -->
+        <div class="td-section-label">CONSTRAINT</div>
+        <div class="td-grid">
+          <div class="form-group">
+            <label>Type</label>
+            <select data-field="constraintType">
+              <option value="" ${!task.constraintType ? 'selected' : ''}>None</option>
+              ${CONSTRAINT_TYPES.map(type => `
+                <option value="${type}" ${task.constraintType === type ? 'selected' : ''}>${CONSTRAINT_LABELS[type]}</option>
+              `).join('')}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Date</label>
+            <input type="date" value="${task.constraintDate ? Calendars.formatDateKey(task.constraintDate) : ''}" data-field="constraintDate" ${!task.constraintType ? 'disabled' : ''}>
+          </div>
+        </div>
+        ${task.isConstraintViolated() || schedule?.constraintViolated ? `
+        <div class="td-readonly-field" style="color: #dc2626; font-weight: 600;">
+          ${task.isConstraintViolated() ? `Current dates break ${task.getConstraintLabel()}` : `Predecessors push this task past ${task.getConstraintLabel()}`}
+        </div>
+        ` : ''}
+
+        <!-- Baseline -->
+        ${activeBaseline ? `
+        <div class="td-section-label">BASELINE · ${activeBaseline.name.toUpperCase()}</div>
+        ${baselineEntry && variance ? `
+        <div class="td-grid">
+          <div class="form-group">
+            <label>Baseline Start / Finish</label>
+            <div class="td-readonly-field">${formatShortDate(new Date(baselineEntry.startDate))} – ${formatShortDate(new Date(baselineEntry.finishDate))}</div>
+          </div>
+          <div class="form-group">
+            <label>Baseline Duration</label>
+            <div class="td-readonly-field">${baselineEntry.duration}d</div>
+          </div>
+          <div class="form-group">
+            <label>Start Variance</label>
+            ${formatVariance(variance.startVariance)}
+          </div>
+          <div class="form-group">
+            <label>Finish Variance</label>
+            ${formatVariance(variance.finishVariance)}
+          </div>
+        </div>
+        ` : '<div class="td-dep-empty">Added after this baseline was captured</div>'}
+        ` : ''}
+
         <!-- Status -->
         <div class="form-group">
           <label>STATUS</label>
@@ -918,6 +1332,27 @@ export class TaskManager {
           </select>
         </div>
 
+        <!-- Progress -->
+        <div class="td-section-label">PROGRESS${this.dataDate ? ` · AS OF ${formatShortDate(this.dataDate).toUpperCase()}` : ''}</div>
+        <div class="td-grid">
+          <div class="form-group">
+            <label>Actual Start</label>
+            <input type="date" value="${task.actualStart ? Calendars.formatDateKey(task.actualStart) : ''}" data-field="actualStart">
+          </div>
+          <div class="form-group">
+            <label>Actual Finish</label>
+            <input type="date" value="${task.actualFinish ? Calendars.formatDateKey(task.actualFinish) : ''}" data-field="actualFinish">
+          </div>
+          <div class="form-group">
+            <label>% Complete</label>
+            <input type="number" value="${task.progress}" min="0" max="100" data-field="progress">
+          </div>
+          <div class="form-group">
+            <label>Remaining (days)</label>
+            <input type="number" value="${task.remainingDuration ?? ''}" min="0" placeholder="${task.getRemainingDuration()}" data-field="remainingDuration" ${task.actualFinish ? 'disabled' : ''}>
+          </div>
+        </div>
+
         <!-- Work Schedule -->
         <div class="td-section-label">WORK SCHEDULE</div>
         <div class="td-toggle-group">
@@ -932,6 +1367,15 @@ export class TaskManager {
             <span>Sundays</span>
           </label>
         </div>
+        <div class="form-group">
+          <label>CALENDAR</label>
+          <select data-field="calendarId">
+            <option value="" ${!task.calendarId ? 'selected' : ''}>Inherit (${Calendars.resolve(null, task.swimlaneId).name})</option>
+            ${Calendars.getAllCalendars().map(calendar => `
+              <option value="${calendar.id}" ${task.calendarId === calendar.id ? 'selected' : ''}>${calendar.name}</option>
+            `).join('')}
+          </select>
+        </div>
 
         <!-- Predecessors -->
         <div class="td-section-label">PREDECESSORS</div>
@@ -953,8 +1397,8 @@ export class TaskManager {
                 <div class="td-dep-info">
                   <div class="td-dep-dot" style="background: ${depTask.color}"></div>
                   <span class="td-dep-name">${depTask.name}</span>
-                  <span class="td-dep-type">${calculateRelationship(task, depTask, false)}</span>
                 </div>
+                ${renderLinkEditor(depId)}
                 <button class="td-dep-remove" onclick="this.closest('#details-view').dispatchEvent(new CustomEvent('removePredecessor', { detail: { taskId: '${task.id}', predecessorId: '${depId}' } }))">×</button>
               </div>
             ` : '';
@@ -970,7 +1414,7 @@ export class TaskManager {
               <div class="td-dep-info">
                 <div class="td-dep-dot" style="background: ${succ.color}"></div>
                 <span class="td-dep-name">${succ.name}</span>
-                <span class="td-dep-type">${calculateRelationship(task, succ, true)}</span>
+                <span class="td-dep-type">${Task.formatDependencyLink(succ.getDependencyLink(task.id))}</span>
               </div>
               <button class="td-dep-remove" onclick="this.closest('#details-view').dispatchEvent(new CustomEvent('removeSuccessor', { detail: { taskId: '${task.id}', successorId: '${succ.id}' } }))">×</button>
             </div>
@@ -991,13 +1435,54 @@ export class TaskManager {
         // Convert types based on field
         if (fieldName === 'duration' || fieldName === 'crewSize' || fieldName === 'progress') {
           value = Number(value);
+          if (fieldName === 'progress') {
+            value = Math.min(100, Math.max(0, value || 0));
+          }
+        } else if (fieldName === 'actualStart' || fieldName === 'actualFinish' || fieldName === 'remainingDuration') {
+          const startInput = detailsView.querySelector('[data-field="actualStart"]') as HTMLInputElement;
+          const finishInput = detailsView.querySelector('[data-field="actualFinish"]') as HTMLInputElement;
+          if (fieldName === 'remainingDuration') {
+            task.remainingDuration = value === '' ? null : Math.max(0, Math.round(Number(value)) || 0);
+          } else {
+            task.setActuals(Calendars.parseDateKey(startInput.value), Calendars.parseDateKey(finishInput.value));
+          }
+          task.syncStatusWithActuals();
+          this.history.commit('Edit progress');
+          this.updateTaskDetails(task);
+          document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { task } }));
+          return;
         } else if (fieldName === 'workOnSaturday' || fieldName === 'workOnSunday') {
           value = e.target.checked;
           
           // When weekend work settings change, recalculate task end date
           this.updateTaskField(task.id, fieldName, value);
+          this.history.commit('Edit task');
           
           return; // Skip the general update below since we handled it specifically
+        } else if (fieldName === 'calendarId') {
+          // Empty selection inherits the swimlane or project calendar
+          this.updateTaskField(task.id, fieldName, value || null);
+          this.history.commit('Change task calendar');
+          document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { task } }));
+          return;
+        } else if (fieldName === 'milestoneType') {
+          task.setMilestoneType((value || null) as MilestoneType | null);
+          this.rescheduleSuccessors([task]);
+          this.history.commit('Change task type');
+          this.updateTaskDetails(task);
+          document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { task, hasDependencies: true } }));
+          return;
+        } else if (fieldName === 'constraintType' || fieldName === 'constraintDate') {
+          const typeSelect = detailsView.querySelector('[data-field="constraintType"]') as HTMLSelectElement;
+          const dateInput = detailsView.querySelector('[data-field="constraintDate"]') as HTMLInputElement;
+          const type = (typeSelect.value || null) as ConstraintType | null;
+          // Picking a type without a date constrains the task to where it sits now
+          const date = Calendars.parseDateKey(dateInput.value) || (type ? new Date(task.startDate) : null);
+          task.setConstraint(type, date);
+          this.history.commit('Edit constraint');
+          this.updateTaskDetails(task);
+          document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { task } }));
+          return;
         } else if (fieldName === 'startDate') {
           value = new Date(value);
           task.startDate = value;
@@ -1026,6 +1511,7 @@ export class TaskManager {
             
             // Refresh the task details view to show updated color
             this.updateTaskDetails(task);
+            this.history.commit('Change task trade');
             
             // Force a refresh to update the UI
             document.dispatchEvent(new Event('taskUpdated'));
@@ -1037,6 +1523,10 @@ export class TaskManager {
         if (task.hasOwnProperty(fieldName)) {
           (task as any)[fieldName] = value;
         }
+        if ((fieldName === 'startDate' || fieldName === 'duration') && this.rescheduleSuccessors([task]) > 0) {
+          document.dispatchEvent(new CustomEvent('taskUpdated', { detail: { task, hasDependencies: true } }));
+        }
+        this.history.commit('Edit task');
       });
     });
     
@@ -1064,9 +1554,35 @@ export class TaskManager {
             endDateElement.textContent = endDate.toLocaleDateString();
           }
         }
+        this.history.commit('Edit task');
       });
     });
     
+    // Relationship type and lag changes for predecessor links
+    const updateLink = (predecessorId: string) => {
+      const typeSelect = detailsView.querySelector(`.td-dep-link-type[data-pred-id="${predecessorId}"]`) as HTMLSelectElement | null;
+      const lagInput = detailsView.querySelector(`.td-dep-link-lag[data-pred-id="${predecessorId}"]`) as HTMLInputElement | null;
+      if (!typeSelect || !lagInput) return;
+
+      const lag = parseInt(lagInput.value, 10);
+      task.setDependencyLink(predecessorId, typeSelect.value as DependencyType, isNaN(lag) ? 0 : lag);
+      lagInput.value = String(task.getDependencyLink(predecessorId).lag);
+      const predecessor = this.getTask(predecessorId);
+      if (predecessor) this.rescheduleSuccessors([predecessor]);
+      this.history.commit('Edit dependency');
+
+      document.dispatchEvent(new CustomEvent('taskUpdated', {
+        detail: {
+          task: task,
+          hasDependencies: true
+        }
+      }));
+    };
+
+    detailsView.querySelectorAll('.td-dep-link-type, .td-dep-link-lag').forEach(element => {
+      element.addEventListener('change', (e: any) => updateLink(e.target.dataset.predId));
+    });
+
     // Add event listener for add and remove predecessor buttons
     detailsView.addEventListener('addPredecessor', (e: any) => {
       const taskId = e.detail.taskId;
@@ -1087,6 +1603,8 @@ export class TaskManager {
       
       // Add dependency
       task.dependencies.push(predecessorId);
+      this.rescheduleSuccessors([predecessor]);
+      this.history.commit('Add dependency');
       
       // Dispatch taskUpdated event for autosave
       const taskUpdatedEvent = new CustomEvent('taskUpdated', {
@@ -1108,7 +1626,8 @@ export class TaskManager {
       if (!task) return;
       
       // Remove dependency
-      task.dependencies = task.dependencies.filter(id => id !== predecessorId);
+      task.removeDependency(predecessorId);
+      this.history.commit('Remove dependency');
       
       // Dispatch taskUpdated event for autosave
       const taskUpdatedEvent = new CustomEvent('taskUpdated', {
@@ -1130,7 +1649,8 @@ export class TaskManager {
       if (!successor) return;
       
       // Remove the dependency from the successor task
-      successor.dependencies = successor.dependencies.filter(id => id !== taskId);
+      successor.removeDependency(taskId);
+      this.history.commit('Remove dependency');
       
       // Dispatch taskUpdated event for autosave
       const taskUpdatedEvent = new CustomEvent('taskUpdated', {
@@ -1174,8 +1694,12 @@ export class TaskManager {
       crewSize: task.crewSize,
       color: task.color,
       dependencies: [...task.dependencies],
+      dependencyLinks: { ...task.dependencyLinks },
       tradeId: task.tradeId,
-      status: task.status
+      status: task.status,
+      milestoneType: task.milestoneType,
+      constraintType: task.constraintType,
+      constraintDate: task.constraintDate
     }));
   }
 
@@ -1229,6 +1753,8 @@ export class TaskManager {
       
       this.selectedTasks.add(task);
     });
+
+    this.history.commit('Paste tasks');
   }
 
   // Add new method for deleting selected tasks
@@ -1247,7 +1773,7 @@ export class TaskManager {
       // Filter out dependencies to deleted tasks
       if (task.dependencies.some(depId => deletedTaskIds.includes(depId))) {
         const originalCount = task.dependencies.length;
-        task.dependencies = task.dependencies.filter(depId => !deletedTaskIds.includes(depId));
+        deletedTaskIds.forEach(depId => task.removeDependency(depId));
         console.log(`[TaskManager] Removed ${originalCount - task.dependencies.length} dependencies from task ${task.id} due to deletion`);
       }
     });
@@ -1277,6 +1803,7 @@ export class TaskManager {
     }
     
     console.log('Deleted selected tasks');
+    this.history.commit('Delete tasks');
     
     // Dispatch a taskUpdated event to trigger autosave
     const taskUpdatedEvent = new CustomEvent('taskUpdated', {
@@ -1333,6 +1860,9 @@ export class TaskManager {
     const hitPadding = camera ? this.getHitPaddingWorld(camera) : 0;
     
     for (const swimlane of this.swimlanes) {
+      // Tasks under a collapsed WBS node cannot be picked
+      if (this.isSwimlaneFolded(swimlane)) continue;
+      
       for (const task of swimlane.tasks) {
         // Skip tasks that are filtered out by trade
         if (task.tradeId && task.color) {
@@ -1347,8 +1877,7 @@ export class TaskManager {
         const pos = swimlane.taskPositions.get(task.id);
         if (!pos) continue;
         
-        const startX = this.timeAxis.dateToWorld(task.startDate);
-        const endX = this.timeAxis.dateToWorld(task.getEndDate());
+        const { startX, endX } = task.getDrawnRange(this.timeAxis);
         
         // Apply hit padding for easier hover detection
         const hitStartX = startX - hitPadding;
@@ -1408,6 +1937,14 @@ export class TaskManager {
         return;
       }
       
+      if (Wbs.isHidden(this.swimlanes, lane)) return;
+      
+      // WBS nodes with children, and collapsed nodes, get a bar rolling up everything below them
+      if (lane.collapsed || Wbs.hasChildren(this.swimlanes, lane.id)) {
+        this.drawSummaryBar(ctx, timeAxis, camera, lane);
+      }
+      if (lane.collapsed) return;
+      
       // Draw tasks in this swimlane, respecting trade filters
       lane.tasks.forEach(task => {
         try {
@@ -1440,25 +1977,40 @@ export class TaskManager {
           const position = lane.taskPositions.get(task.id) || { x: 0, y: lane.y + 40 };
           
           // Skip rendering tasks that are completely outside the visible area
-          const startX = timeAxis.dateToWorld(task.startDate);
-          const endX = timeAxis.dateToWorld(task.getEndDate());
+          const { startX, endX } = task.getDrawnRange(timeAxis);
           
           if (endX < visibleLeft || startX > visibleRight || 
               position.y + task.getCurrentHeight() < visibleTop || position.y > visibleBottom) {
             return;
           }
           
-          // Draw the task
-          task.draw(ctx, timeAxis, position.y);
+          // Draw the task, with its baseline ghost bar if a baseline is active
+          task.draw(ctx, timeAxis, position.y, this.getTaskBaseline(task.id));
         } catch (error) {
           console.error(`[TaskManager] Error drawing task ${task?.id || 'unknown'}:`, error);
         }
       });
     });
 
+    // Vertical line at the status date of the last progress update
+    if (this.dataDate) {
+      this.drawDataDateLine(ctx, timeAxis, camera, visibleTop, visibleBottom);
+    }
+
+    // Show where successors will land when the current drag or resize ends
+    if (this.ripplePreview) {
+      this.drawRipplePreview(ctx, timeAxis, camera);
+    }
+
+    // Float for highlighting, recalculated only after the schedule changes
+    const criticalPath = this.isCriticalPathVisible ? this.getCriticalPathResult() : null;
+    if (criticalPath) {
+      this.drawCriticalPathHighlights(ctx, timeAxis, camera, criticalPath);
+    }
+
     // Draw dependency arrows if enabled
     if (this.areDependenciesVisible) {
-      this.drawDependencies(ctx, timeAxis, camera);
+      this.drawDependencies(ctx, timeAxis, camera, criticalPath);
     }
 
     // Draw selection highlight for selected tasks
@@ -1477,12 +2029,11 @@ export class TaskManager {
         }
         
         const swimlane = this.swimlanes.find(s => s.tasks.includes(task));
-        if (swimlane) {
+        if (swimlane && !this.isSwimlaneFolded(swimlane)) {
           const pos = swimlane.taskPositions.get(task.id);
           if (pos) {
             // Calculate task bounds
-            const startX = timeAxis.dateToWorld(task.startDate);
-            const endX = timeAxis.dateToWorld(task.getEndDate());
+            const { startX, endX } = task.getDrawnRange(timeAxis);
             const width = endX - startX;
             const height = task.getCurrentHeight();
             
@@ -1582,6 +2133,8 @@ export class TaskManager {
       }
     }
     
+    this.history.commit('Link tasks');
+    
     // Update task details after creating dependencies if a single task is selected
     if (this.selectedTasks.size === 1) {
       const selectedTask = Array.from(this.selectedTasks)[0];
@@ -1610,7 +2163,7 @@ export class TaskManager {
     let adjustedDate = new Date(targetDate);
     
     // Check if target date is a weekend and adjust if needed based on task settings
-    while (Task.isWeekend(adjustedDate, firstTask.workOnSaturday, firstTask.workOnSunday)) {
+    while (firstTask.isNonWorkingDay(adjustedDate)) {
       adjustedDate.setDate(adjustedDate.getDate() + 1);
     }
     
@@ -1622,12 +2175,13 @@ export class TaskManager {
       const newStartDate = new Date(task.startDate.getTime() + offset);
       
       // Adjust start date if it falls on a weekend based on task settings
-      while (Task.isWeekend(newStartDate, task.workOnSaturday, task.workOnSunday)) {
+      while (task.isNonWorkingDay(newStartDate)) {
         newStartDate.setDate(newStartDate.getDate() + 1);
       }
       
       task.startDate = newStartDate;
     });
+    this.history.commit('Move tasks');
     
     // Update task details if a single task is selected
     if (this.selectedTasks.size === 1) {
@@ -1635,20 +2189,158 @@ export class TaskManager {
     }
   }
 
+  // Outline critical and near-critical tasks
+  private drawCriticalPathHighlights(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera, criticalPath: CriticalPathResult) {
+    ctx.save();
+    
+    this.swimlanes.forEach(swimlane => {
+      swimlane.tasks.forEach(task => {
+        const tier = this.getFloatTier(task.id, criticalPath);
+        if (!tier) return;
+        
+        // Skip tasks hidden by the trade filter
+        if (task.tradeId && task.color && this.tradeFilters.has(task.color) && !this.tradeFilters.get(task.color)) {
+          return;
+        }
+        
+        const pos = swimlane.taskPositions.get(task.id);
+        if (!pos) return;
+        
+        const { startX, endX } = task.getDrawnRange(timeAxis);
+        const width = task.isMilestone ? endX - startX : Math.max(endX - startX, 80); // Match Task.draw minimum width
+        const offset = 2 / camera.zoom;
+        
+        ctx.strokeStyle = tier === 'critical' ? TaskManager.CRITICAL_COLOR : TaskManager.NEAR_CRITICAL_COLOR;
+        ctx.lineWidth = (tier === 'critical' ? 2.5 : 1.5) / camera.zoom;
+        ctx.setLineDash(tier === 'critical' ? [] : [4 / camera.zoom, 3 / camera.zoom]);
+        
+        ctx.beginPath();
+        if (ctx.roundRect) {
+          ctx.roundRect(startX - offset, pos.y - offset, width + offset * 2, task.getCurrentHeight() + offset * 2, 9);
+        } else {
+          ctx.rect(startX - offset, pos.y - offset, width + offset * 2, task.getCurrentHeight() + offset * 2);
+        }
+        ctx.stroke();
+      });
+    });
+    
+    ctx.restore();
+  }
+
+  /**
+   * Bracket-shaped bar over a WBS node spanning the rolled-up dates of
+   * everything below it, filled to its rolled-up progress
+   */
+  private drawSummaryBar(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera, lane: Swimlane) {
+    const rollup = Wbs.rollup(this.swimlanes, lane.id);
+    if (!rollup) return;
+
+    const startX = timeAxis.dateToWorld(rollup.start);
+    const endX = timeAxis.dateToWorld(rollup.finish);
+    const y = lane.y + 10;
+    const height = 10;
+    const tip = 6;
+
+    ctx.save();
+    ctx.fillStyle = TaskManager.SUMMARY_BAR_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(startX, y);
+    ctx.lineTo(endX, y);
+    ctx.lineTo(endX, y + height + tip);
+    ctx.lineTo(endX - tip, y + height);
+    ctx.lineTo(startX + tip, y + height);
+    ctx.lineTo(startX, y + height + tip);
+    ctx.closePath();
+    ctx.fill();
+
+    if (rollup.progress > 0) {
+      ctx.fillStyle = lane.color;
+      ctx.fillRect(startX, y + 2, (endX - startX) * rollup.progress / 100, height - 4);
+    }
+
+    ctx.fillStyle = TaskManager.SUMMARY_BAR_COLOR;
+    ctx.font = `${11 / camera.zoom}px Inter, system-ui, -apple-system, sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`${rollup.progress}%`, endX + 6 / camera.zoom, y + height / 2);
+    ctx.restore();
+  }
+
+  private drawDataDateLine(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera, top: number, bottom: number) {
+    const x = timeAxis.dateToWorld(this.dataDate!);
+
+    ctx.save();
+    ctx.strokeStyle = TaskManager.DATA_DATE_COLOR;
+    ctx.lineWidth = 2 / camera.zoom;
+    ctx.setLineDash([8 / camera.zoom, 4 / camera.zoom]);
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, bottom);
+    ctx.stroke();
+
+    ctx.setLineDash([]);
+    ctx.font = `600 ${11 / camera.zoom}px Inter, system-ui, -apple-system, sans-serif`;
+    ctx.fillStyle = TaskManager.DATA_DATE_COLOR;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(`Data date ${this.dataDate!.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`, x + 4 / camera.zoom, top + 4 / camera.zoom);
+    ctx.restore();
+  }
+
+  // Dashed ghost bars at the start dates the current drag would give successors
+  private drawRipplePreview(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera) {
+    ctx.save();
+
+    this.ripplePreview!.forEach((startDate, taskId) => {
+      const task = this.getTask(taskId);
+      if (!task) return;
+
+      const swimlane = this.swimlanes.find(s => s.tasks.includes(task));
+      const pos = swimlane?.taskPositions.get(task.id);
+      if (!pos) return;
+
+      const startX = timeAxis.dateToWorld(startDate);
+      const endX = timeAxis.dateToWorld(task.addWorkDays(startDate, task.duration));
+      const width = Math.max(endX - startX, 80); // Match Task.draw minimum width
+      const height = task.getCurrentHeight();
+
+      ctx.fillStyle = 'rgba(16, 163, 127, 0.08)';
+      ctx.strokeStyle = '#10a37f';
+      ctx.lineWidth = 1.5 / camera.zoom;
+      ctx.setLineDash([5 / camera.zoom, 4 / camera.zoom]);
+      ctx.beginPath();
+      if (ctx.roundRect) {
+        ctx.roundRect(startX, pos.y, width, height, 9);
+      } else {
+        ctx.rect(startX, pos.y, width, height);
+      }
+      ctx.fill();
+      ctx.stroke();
+
+      // Connect the current bar to its preview so the shift is easy to follow
+      const currentX = timeAxis.dateToWorld(task.startDate);
+      ctx.beginPath();
+      ctx.moveTo(currentX, pos.y + height / 2);
+      ctx.lineTo(startX, pos.y + height / 2);
+      ctx.stroke();
+    });
+
+    ctx.restore();
+  }
+
   // Add new method to draw dependencies between tasks
-  private drawDependencies(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera) {
+  private drawDependencies(ctx: CanvasRenderingContext2D, timeAxis: any, camera: Camera, criticalPath: CriticalPathResult | null = null) {
     // Save context state
     ctx.save();
-    
-    // Set arrow style - soft purple with slight opacity
-    ctx.strokeStyle = 'rgba(159, 122, 234, 0.7)';
-    ctx.lineWidth = 1.5 / camera.zoom;
+
+    // In manual scheduling mode nothing moves successors, so flag the links they break
+    const violatedLinks = this.scheduleMode === 'manual' ? this.getViolatedLinks() : null;
     
     // Loop through all tasks
     this.tasks.forEach(task => {
       // Find this task's position
       const swimlane = this.swimlanes.find(s => s.tasks.includes(task));
-      if (!swimlane) return;
+      if (!swimlane || this.isSwimlaneFolded(swimlane)) return;
       
       const taskPos = swimlane.taskPositions.get(task.id);
       if (!taskPos) return;
@@ -1661,53 +2353,98 @@ export class TaskManager {
         
         // Find the dependency's position
         const depSwimlane = this.swimlanes.find(s => s.tasks.includes(depTask));
-        if (!depSwimlane) return;
+        if (!depSwimlane || this.isSwimlaneFolded(depSwimlane)) return;
         
         const depPos = depSwimlane.taskPositions.get(depTask.id);
         if (!depPos) return;
         
-        // Calculate position coordinates
-        const taskStartX = timeAxis.dateToWorld(task.startDate); // Successor task start
+        // Set arrow style - driving links between critical tasks stand out,
+        // everything else is soft purple with slight opacity
+        let linkColor = 'rgba(159, 122, 234, 0.7)';
+        let linkWidth = 1.5;
+        if (criticalPath && criticalPath.drivingLinks.has(CriticalPath.linkKey(depTask.id, task.id))) {
+          const predTier = this.getFloatTier(depTask.id, criticalPath);
+          const succTier = this.getFloatTier(task.id, criticalPath);
+          if (predTier === 'critical' && succTier === 'critical') {
+            linkColor = TaskManager.CRITICAL_COLOR;
+            linkWidth = 2.5;
+          } else if (predTier && succTier) {
+            linkColor = TaskManager.NEAR_CRITICAL_COLOR;
+            linkWidth = 2;
+          }
+        }
+        const isViolated = !!violatedLinks && violatedLinks.has(CriticalPath.linkKey(depTask.id, task.id));
+        if (isViolated) {
+          linkColor = TaskManager.VIOLATED_LINK_COLOR;
+          linkWidth = 2.5;
+        }
+        ctx.strokeStyle = linkColor;
+        ctx.lineWidth = linkWidth / camera.zoom;
+        ctx.setLineDash(isViolated ? [6 / camera.zoom, 4 / camera.zoom] : []);
+        
+        // Anchor each end on the side its relationship type refers to:
+        // FS links run from predecessor finish to successor start, SS from start
+        // to start, FF from finish to finish and SF from start to finish
+        const link = task.getDependencyLink(depTask.id);
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toFinish = link.type === 'FF' || link.type === 'SF';
+
+        const toX = timeAxis.dateToWorld(toFinish ? task.getEndDate() : task.startDate);
         const taskY = taskPos.y + task.getCurrentHeight() / 2;   // Successor task Y center
         
-        const depEndX = timeAxis.dateToWorld(depTask.getEndDate()); // Predecessor task end
+        const fromX = timeAxis.dateToWorld(fromStart ? depTask.startDate : depTask.getEndDate());
         const depY = depPos.y + depTask.getCurrentHeight() / 2;     // Predecessor task Y center
         
         // Draw the arrow line FROM predecessor TO successor
-        // (opposite of previous implementation)
         ctx.beginPath();
-        ctx.moveTo(depEndX, depY); // Start from predecessor end
+        ctx.moveTo(fromX, depY);
         
-        // If tasks are in different swimlanes, draw a curved arrow
-        if (depSwimlane !== swimlane) {
-          const controlPointX = (taskStartX + depEndX) / 2;
-          ctx.bezierCurveTo(
-            controlPointX, depY,
-            controlPointX, taskY,
-            taskStartX, taskY
-          );
+        // Point the arrowhead is drawn from, i.e. the direction the line enters the successor
+        let approachX = fromX;
+        let approachY = depY;
+
+        if (link.type === 'FS') {
+          // If tasks are in different swimlanes, draw a curved arrow
+          if (depSwimlane !== swimlane) {
+            const controlPointX = (toX + fromX) / 2;
+            ctx.bezierCurveTo(
+              controlPointX, depY,
+              controlPointX, taskY,
+              toX, taskY
+            );
+          } else {
+            // Simple line for same swimlane
+            ctx.lineTo(toX, taskY);
+          }
         } else {
-          // Simple line for same swimlane
-          ctx.lineTo(taskStartX, taskY);
+          // Leave start anchors to the left and finish anchors to the right,
+          // then enter the successor from the matching side
+          const bend = Math.max(30 / camera.zoom, Math.abs(toX - fromX) / 2);
+          const exitX = fromX + (fromStart ? -bend : bend);
+          const entryX = toX + (toFinish ? bend : -bend);
+          ctx.bezierCurveTo(exitX, depY, entryX, taskY, toX, taskY);
+          approachX = entryX;
+          approachY = taskY;
         }
         ctx.stroke();
+        ctx.setLineDash([]);
         
-        // Draw arrowhead at the successor task (reversed from previous)
+        // Draw arrowhead at the successor task
         const arrowSize = 6 / camera.zoom;
-        const angle = Math.atan2(taskY - depY, taskStartX - depEndX);
+        const angle = Math.atan2(taskY - approachY, toX - approachX);
         
         ctx.beginPath();
-        ctx.moveTo(taskStartX, taskY);
+        ctx.moveTo(toX, taskY);
         ctx.lineTo(
-          taskStartX - arrowSize * Math.cos(angle - Math.PI/6),
+          toX - arrowSize * Math.cos(angle - Math.PI/6),
           taskY - arrowSize * Math.sin(angle - Math.PI/6)
         );
         ctx.lineTo(
-          taskStartX - arrowSize * Math.cos(angle + Math.PI/6),
+          toX - arrowSize * Math.cos(angle + Math.PI/6),
           taskY - arrowSize * Math.sin(angle + Math.PI/6)
         );
         ctx.closePath();
-        ctx.fillStyle = 'rgba(159, 122, 234, 0.7)';
+        ctx.fillStyle = linkColor;
         ctx.fill();
       });
     });
@@ -1739,7 +2476,7 @@ export class TaskManager {
     
     while (current < endDate) {
       // Use task-specific weekend settings
-      if (!Task.isWeekend(current, task.workOnSaturday, task.workOnSunday)) {
+      if (!task.isNonWorkingDay(current)) {
         days++;
       }
       current.setDate(current.getDate() + 1);
@@ -1823,6 +2560,55 @@ export class TaskManager {
     }
   }
 
+  /**
+   * Undo the most recent schedule edit
+   */
+  undo(): void {
+    const label = this.history.undo();
+    if (label) console.log(`[TaskManager] Undo: ${label}`);
+  }
+
+  /**
+   * Redo the most recently undone schedule edit
+   */
+  redo(): void {
+    const label = this.history.redo();
+    if (label) console.log(`[TaskManager] Redo: ${label}`);
+  }
+
+  /**
+   * Schedule state recorded by the undo history: tasks, swimlanes, links,
+   * calendars, trades and the data date. Baselines are large and never edited,
+   * so they are left out to keep each snapshot small; filters, the active
+   * baseline and the scheduling mode are view settings and never become undo steps.
+   */
+  private serializeHistoryState(): string {
+    const {
+      tradeFilters, baselines, activeBaselineId, scheduleMode, pullSuccessors, ...schedule
+    } = this.exportState();
+    schedule.swimlanes.forEach((lane: any) => { delete lane.collapsed; });
+    return JSON.stringify(schedule);
+  }
+
+  private restoreHistoryState(state: string): void {
+    const collapsed = new Set(this.swimlanes.filter(lane => lane.collapsed).map(lane => lane.id));
+    // Baselines and view settings are not recorded, so keep the current ones
+    const { baselines, activeBaselineId, scheduleMode, pullSuccessors } = this;
+    this.importState({ ...JSON.parse(state), baselines, activeBaselineId, scheduleMode, pullSuccessors });
+    this.swimlanes.forEach(lane => { lane.collapsed = collapsed.has(lane.id) || undefined; });
+    this.recalculateSwimlaneHeights();
+
+    const detailsView = document.getElementById('details-view');
+    if (detailsView) {
+      detailsView.innerHTML = '<div style="color: #666; text-align: center; padding: 40px;">Select a task to view details</div>';
+    }
+
+    document.dispatchEvent(new CustomEvent('historyRestored'));
+    document.dispatchEvent(new CustomEvent('taskUpdated', {
+      detail: { type: 'history', hasDependencies: true }
+    }));
+  }
+
   /**
    * Export the current state as a serializable object
    * @returns The serialized state
@@ -1847,7 +2633,9 @@ export class TaskManager {
         color: swimlane.color,
         tasks: swimlane.tasks.map(task => task.id),
         taskPositions,
-        wbsId: swimlane.wbsId
+        wbsId: swimlane.wbsId,
+        parentId: swimlane.parentId,
+        collapsed: swimlane.collapsed
       };
     });
     
@@ -1871,6 +2659,14 @@ export class TaskManager {
       if (validDependencies.length > 0) {
         dependencyMap[task.id] = [...validDependencies];
       }
+
+      // Keep relationship type and lag only for links that survived validation
+      const dependencyLinks: Record<string, DependencyLink> = {};
+      validDependencies.forEach(depId => {
+        if (task.dependencyLinks[depId]) {
+          dependencyLinks[depId] = task.getDependencyLink(depId);
+        }
+      });
       
       return {
         id: task.id,
@@ -1881,10 +2677,23 @@ export class TaskManager {
         color: task.color,
         tradeId: task.tradeId,
         dependencies: validDependencies, // Use the validated dependencies
+        dependencyLinks,
         progress: task.progress,
         status: task.status,
         workOnSaturday: task.workOnSaturday,
         workOnSunday: task.workOnSunday,
+        calendarId: task.calendarId,
+        milestoneType: task.milestoneType,
+        constraintType: task.constraintType,
+        constraintDate: task.constraintDate,
+        actualStart: task.actualStart,
+        actualFinish: task.actualFinish,
+        remainingDuration: task.remainingDuration,
+        xerTaskId: task.xerTaskId,
+        tags: task.tags,
+        priority: task.priority,
+        notes: task.notes,
+        customFields: Object.fromEntries(task.customFields),
         swimlaneId: task.swimlaneId // Ensure swimlaneId is included
       };
     });
@@ -1903,7 +2712,14 @@ export class TaskManager {
       swimlanes: serializedSwimlanes,
       taskPositions: serializedTaskPositions,
       tradeFilters: Array.from(this.tradeFilters.entries()),
-      dependencyMap: dependencyMap // Add the dedicated dependency map as a redundant backup
+      dependencyMap: dependencyMap, // Add the dedicated dependency map as a redundant backup
+      calendars: Calendars.exportState(),
+      trades: Trades.exportState(),
+      baselines: this.baselines,
+      activeBaselineId: this.activeBaselineId,
+      dataDate: this.dataDate,
+      scheduleMode: this.scheduleMode,
+      pullSuccessors: this.pullSuccessors
     };
   }
 
@@ -1923,17 +2739,41 @@ export class TaskManager {
     
     // Clear current state
     this.tasks = [];
+    this.invalidateSchedule();
     this.selectedTasks.clear();
     this.selectedTasksInOrder = [];
     this.taskPositions.clear();
     this.swimlanes.length = 0; // Clear swimlanes array
     
+    // Restore calendars before creating tasks so start dates snap to the right work days
+    Calendars.importState(state.calendars || state.settings?.calendars);
+    
+    // Restore trades (with their crew capacities) before tasks look them up
+    Trades.importState(state.trades || state.settings?.trades);
+    
+    // Restore baselines
+    this.baselines = Baselines.sanitize(state.baselines);
+    this.activeBaselineId = this.baselines.some(b => b.id === state.activeBaselineId) ? state.activeBaselineId : null;
+    
+    // Restore the data date
+    const storedDataDate = state.dataDate || state.settings?.dataDate;
+    const dataDate = storedDataDate ? new Date(storedDataDate) : null;
+    this.dataDate = dataDate && !isNaN(dataDate.getTime()) ? dataDate : null;
+    
+    // Restore the scheduling mode; projects saved before it was stored keep successors in place
+    this.scheduleMode = (state.scheduleMode ?? state.settings?.scheduleMode) === 'auto' ? 'auto' : 'manual';
+    this.pullSuccessors = Boolean(state.pullSuccessors ?? state.settings?.pullSuccessors);
+    this.ripplePreview = null;
+    
     // First pass: Create all tasks to ensure they exist for dependency linking
     const taskMap = new Map<string, Task>();
     
     // Keep track of dependencies to ensure they are all properly preserved
     const taskDependencies = new Map<string, string[]>();
     
+    // Relationship type and lag per predecessor, keyed by successor task ID
+    const taskDependencyLinks = new Map<string, Record<string, DependencyLink>>();
+    
     // Prefer the dedicated dependency map if available, as it's more reliable
     if (state.dependencyMap && typeof state.dependencyMap === 'object') {
       console.log(`[TaskManager] Using dedicated dependency map with ${Object.keys(state.dependencyMap).length} task dependencies`);
@@ -1964,6 +2804,10 @@ export class TaskManager {
             console.log(`[TaskManager] Stored ${taskData.dependencies.length} dependencies for task ${taskId} from task data`);
           }
           
+          if (taskData.dependencyLinks && typeof taskData.dependencyLinks === 'object') {
+            taskDependencyLinks.set(taskId, taskData.dependencyLinks);
+          }
+          
           // Create the task initially without dependencies
           const task = new Task({
             id: taskId,
@@ -1978,6 +2822,18 @@ export class TaskManager {
             status: taskData.status || 'not-started',
             workOnSaturday: taskData.workOnSaturday || false,
             workOnSunday: taskData.workOnSunday || false,
+            calendarId: taskData.calendarId || undefined,
+            milestoneType: taskData.milestoneType || null,
+            constraintType: taskData.constraintType || null,
+            constraintDate: taskData.constraintDate || null,
+            actualStart: taskData.actualStart || null,
+            actualFinish: taskData.actualFinish || null,
+            remainingDuration: taskData.remainingDuration ?? null,
+            xerTaskId: taskData.xerTaskId || undefined,
+            tags: taskData.tags || [],
+            priority: taskData.priority || 'medium',
+            notes: taskData.notes || '',
+            customFields: taskData.customFields || {},
             swimlaneId: taskData.swimlaneId || null
           });
           
@@ -2014,6 +2870,14 @@ export class TaskManager {
           // Set the validated dependencies
           if (validDependencies.length > 0) {
             task.dependencies = validDependencies;
+            
+            const links = taskDependencyLinks.get(task.id) || {};
+            validDependencies.forEach(depId => {
+              const link = links[depId];
+              if (link && DEPENDENCY_TYPES.includes(link.type)) {
+                task.setDependencyLink(depId, link.type, Number(link.lag) || 0);
+              }
+            });
             console.log(`[TaskManager] Set ${validDependencies.length} dependencies for task ${task.id}:`, JSON.stringify(validDependencies));
           }
         }
@@ -2065,7 +2929,9 @@ export class TaskManager {
             color: swimlaneData.color,
             tasks: swimlaneTasks,
             taskPositions: taskPositionsMap,
-            wbsId: swimlaneData.wbsId
+            wbsId: swimlaneData.wbsId,
+            ...(swimlaneData.parentId ? { parentId: swimlaneData.parentId } : {}),
+            ...(swimlaneData.collapsed ? { collapsed: true } : {})
           });
           
           console.log(`[TaskManager] Created swimlane ${swimlaneData.id} with ${swimlaneTasks.length} tasks`);
@@ -2075,6 +2941,9 @@ export class TaskManager {
       });
     }
     
+    // Children follow their parent in the WBS tree
+    this.swimlanes.splice(0, this.swimlanes.length, ...Wbs.order(this.swimlanes));
+    
     // Restore global task positions
     if (state.taskPositions) {
       Object.entries(state.taskPositions).forEach(([taskId, pos]: [string, any]) => {
@@ -2273,7 +3142,8 @@ export class TaskManager {
         
         const pos = swimlane.taskPositions.get(task.id);
         
-        // Check if position exists and is valid
+        // Check if position exists and is valid (tasks under a collapsed WBS node are not laid out)
+        if (this.isSwimlaneFolded(swimlane) && pos) return;
         if (!pos || pos.y < swimlane.y || pos.y > swimlane.y + swimlane.height || isNaN(pos.y)) {
           // Calculate a valid y-position within this swimlane
           const yPosition = swimlane.y + 50 + (swimlane.tasks.indexOf(task) * 40);
@@ -2338,7 +3208,9 @@ export class TaskManager {
         
         // Check that position is within the swimlane's vertical bounds
         const pos = swimlane.taskPositions.get(task.id);
-        if (pos) {
+        if (this.isSwimlaneFolded(swimlane)) {
+          // Hidden tasks rest at the top of their collapsed lane
+        } else if (pos) {
           const taskHeight = task.getCurrentHeight();
           const minValidY = swimlane.y;
           const maxValidY = swimlane.y + swimlane.height - taskHeight;
@@ -2374,6 +3246,17 @@ export class TaskManager {
   // Add static counter for integrity checks
   static _integrityCheckCounter: number = 0;
   
+  // Critical path highlight colors
+  static readonly CRITICAL_COLOR = '#dc2626';
+  static readonly NEAR_CRITICAL_COLOR = '#f59e0b';
+  // Links whose successor starts too early (manual scheduling mode)
+  static readonly VIOLATED_LINK_COLOR = '#ef4444';
+  // Data date line drawn after a progress update
+  static readonly DATA_DATE_COLOR = '#7c3aed';
+  // WBS summary bars
+  static readonly SUMMARY_BAR_COLOR = '#374151';
+  static readonly COLLAPSED_SWIMLANE_HEIGHT = 48;
+  
   // Method to force a full integrity check
   forceIntegrityCheck(): void {
     console.log("[TaskManager] Performing integrity check");
@@ -2479,6 +3362,10 @@ export class TaskManager {
     // Clear other state
     this.selectedTasks.clear();
     this.taskPositions.clear();
+    Calendars.reset();
+    this.baselines = [];
+    this.activeBaselineId = null;
+    this.dataDate = null;
     
     // Recalculate swimlane heights after clearing
     this.recalculateSwimlaneHeights();
@@ -201,7 +201,7 @@ export class TaskMenu {
         break;
       case 'Duration:':
         const duration = parseInt(this.inputValue);
-        if (!isNaN(duration) && duration >= 1) {
+        if (!isNaN(duration) && duration >= 1 && !this.task.isMilestone) {
           this.task.duration = duration;
         }
         break;
@@ -0,0 +1,342 @@
+import { Task, TaskConfig, DependencyLink, DependencyType, DEPENDENCY_TYPES } from './Task';
+import { Trades } from './Trades';
+import { Calendars } from './Calendars';
+import { SpreadsheetFile, SpreadsheetCell } from './SpreadsheetFile';
+import { generateUUID } from './utils';
+import type { TaskManager } from './TaskManager';
+
+/**
+ * A task property a spreadsheet column can be mapped to
+ */
+export type TaskTableField = 'id' | 'name' | 'start' | 'duration' | 'finish' | 'trade' | 'swimlane' | 'predecessors' | 'crew' | 'progress';
+
+export const TASK_TABLE_FIELDS: TaskTableField[] = ['id', 'name', 'start', 'duration', 'finish', 'trade', 'swimlane', 'predecessors', 'crew', 'progress'];
+
+/** Column headers, also used when exporting */
+export const TASK_TABLE_LABELS: Record<TaskTableField, string> = {
+  id: 'ID',
+  name: 'Name',
+  start: 'Start',
+  duration: 'Duration',
+  finish: 'Finish',
+  trade: 'Trade',
+  swimlane: 'Swimlane',
+  predecessors: 'Predecessors',
+  crew: 'Crew',
+  progress: '% Complete'
+};
+
+/**
+ * Zero-based column index for each mapped field
+ */
+export type TaskTableMapping = Partial<Record<TaskTableField, number>>;
+
+/**
+ * One entry of a predecessors cell, e.g. "12FS+2"
+ */
+export interface TaskTablePredecessor {
+  /** ID (or row number) of the predecessor row */
+  key: string;
+  type: DependencyType;
+  lag: number;
+}
+
+/**
+ * A spreadsheet row turned into a task, for preview and import
+ */
+export interface TaskTableRow {
+  /** Row number as the spreadsheet shows it */
+  line: number;
+  /** What predecessors cells use to refer to this row */
+  key: string;
+  /** Task to create; trade and swimlane are resolved on import */
+  config: TaskConfig;
+  trade: string;
+  swimlane: string;
+  predecessors: string;
+  /** Problems that keep the row from being imported */
+  errors: string[];
+}
+
+/**
+ * Converts between spreadsheet task tables and tasks
+ *
+ * Subcontractors send durations as CSV or Excel tables. Columns are mapped to
+ * task fields (guessed from the headers, adjustable in the import dialog),
+ * and each row becomes a task. Rows need a name, a start date and either a
+ * duration in work days or a finish date, the last day of work. Predecessors
+ * use MS Project notation: "12", "12FS+2", "7SS, 9FF-1", referring to the ID
+ * column, or to the task number (first data row is 1) when there is none.
+ * exportRows() writes the same columns so a table can round-trip through Excel.
+ */
+export class TaskTable {
+  /** Header spellings recognized for each field, compared in lower case */
+  private static readonly HEADER_ALIASES: Record<TaskTableField, string[]> = {
+    id: ['id', '#', 'task id', 'activity id', 'no', 'no.', 'number'],
+    name: ['name', 'task', 'task name', 'activity', 'activity name', 'description'],
+    start: ['start', 'start date', 'begin', 'planned start'],
+    duration: ['duration', 'dur', 'days', 'original duration', 'work days'],
+    finish: ['finish', 'end', 'finish date', 'end date', 'planned finish'],
+    trade: ['trade', 'resource', 'resource names', 'sub', 'subcontractor', 'contractor'],
+    swimlane: ['swimlane', 'lane', 'area', 'location', 'zone', 'phase', 'wbs'],
+    predecessors: ['predecessors', 'predecessor', 'preds', 'depends on', 'dependencies'],
+    crew: ['crew', 'crew size', 'workers', 'manpower'],
+    progress: ['% complete', 'percent complete', 'progress', 'complete']
+  };
+
+  private static readonly LANE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+  /**
+   * Guess the column for each field from the header row. Exact header
+   * matches win over headers that merely start with a known name, such as
+   * "Duration (days)"; each column is used at most once.
+   */
+  static guessMapping(headers: string[]): TaskTableMapping {
+    const normalized = headers.map(header => header.trim().toLowerCase().replace(/\s+/g, ' '));
+    const mapping: TaskTableMapping = {};
+    const used = new Set<number>();
+
+    const assign = (matches: (header: string, alias: string) => boolean) => {
+      TASK_TABLE_FIELDS.forEach(field => {
+        if (mapping[field] !== undefined) return;
+        const index = normalized.findIndex((header, i) =>
+          !used.has(i) && TaskTable.HEADER_ALIASES[field].some(alias => matches(header, alias))
+        );
+        if (index >= 0) {
+          mapping[field] = index;
+          used.add(index);
+        }
+      });
+    };
+    assign((header, alias) => header === alias);
+    assign((header, alias) => alias.length > 2 && header.startsWith(alias));
+
+    return mapping;
+  }
+
+  /**
+   * Turn spreadsheet rows into tasks. Every row is returned so the preview
+   * can show why some will be skipped.
+   */
+  static buildRows(rows: string[][], mapping: TaskTableMapping, hasHeader: boolean = true): TaskTableRow[] {
+    const calendar = Calendars.getProjectCalendar();
+    const firstLine = hasHeader ? 2 : 1;
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    const tableRows = dataRows.map((cells, index): TaskTableRow => {
+      const cell = (field: TaskTableField) => {
+        const column = mapping[field];
+        return column !== undefined ? (cells[column] || '').trim() : '';
+      };
+      const errors: string[] = [];
+
+      const name = cell('name');
+      if (!name) errors.push('Missing name');
+
+      const startDate = TaskTable.parseDate(cell('start'));
+      if (!startDate) errors.push(cell('start') ? `Invalid start "${cell('start')}"` : 'Missing start');
+
+      let duration: number | null = null;
+      if (cell('duration')) {
+        duration = TaskTable.parseDuration(cell('duration'));
+        if (duration === null) errors.push(`Invalid duration "${cell('duration')}"`);
+      } else if (cell('finish')) {
+        const finish = TaskTable.parseDate(cell('finish'));
+        if (!finish) {
+          errors.push(`Invalid finish "${cell('finish')}"`);
+        } else if (startDate) {
+          // The finish day is worked, so it counts toward the duration
+          duration = Task.businessDaysBetween(startDate, finish, false, false, calendar) + 1;
+          if (duration < 1) {
+            errors.push('Finish is before start');
+            duration = null;
+          }
+        }
+      } else {
+        errors.push('Missing duration or finish');
+      }
+
+      const crewSize = cell('crew') ? parseInt(cell('crew'), 10) : 1;
+      const progress = cell('progress') ? parseFloat(cell('progress').replace('%', '')) : 0;
+
+      return {
+        line: firstLine + index,
+        key: cell('id') || String(index + 1),
+        config: {
+          id: generateUUID(),
+          name,
+          startDate: startDate || new Date(),
+          duration: duration ?? 1,
+          milestoneType: duration === 0 ? 'start' : null,
+          crewSize: Number.isFinite(crewSize) && crewSize > 0 ? crewSize : 1,
+          progress: Number.isFinite(progress) ? Math.max(0, Math.min(100, Math.round(progress))) : 0,
+          dependencies: [],
+          dependencyLinks: {}
+        },
+        trade: cell('trade'),
+        swimlane: cell('swimlane'),
+        predecessors: cell('predecessors'),
+        errors
+      };
+    });
+
+    // Resolve predecessors once every row has its ID
+    const idsByKey = new Map(tableRows.map(row => [row.key.toLowerCase(), row.config.id!]));
+    tableRows.forEach(row => {
+      const predecessors = TaskTable.parsePredecessors(row.predecessors);
+      if (!predecessors) {
+        row.errors.push(`Invalid predecessors "${row.predecessors}"`);
+        return;
+      }
+      predecessors.forEach(predecessor => {
+        const predecessorId = idsByKey.get(predecessor.key.toLowerCase());
+        if (!predecessorId || predecessorId === row.config.id) {
+          row.errors.push(`Unknown predecessor "${predecessor.key}"`);
+          return;
+        }
+        row.config.dependencies!.push(predecessorId);
+        if (predecessor.type !== 'FS' || predecessor.lag) {
+          row.config.dependencyLinks![predecessorId] = { type: predecessor.type, lag: predecessor.lag };
+        }
+      });
+    });
+
+    return tableRows;
+  }
+
+  /**
+   * Parse a predecessors cell such as "12FS+2, 14SS"; a bare lag like "12+3"
+   * is finish-to-start
+   * @returns null when an entry cannot be read
+   */
+  static parsePredecessors(text: string): TaskTablePredecessor[] | null {
+    const entries = text.split(/[,;]/).map(entry => entry.trim()).filter(entry => entry);
+    const predecessors: TaskTablePredecessor[] = [];
+    for (const entry of entries) {
+      const match = /^([^\s+-]+?)\s*(FS|SS|FF|SF)?\s*(?:([+-])\s*(\d+(?:\.\d+)?)\s*(?:d|days?|wd)?)?$/i.exec(entry);
+      if (!match) return null;
+      const type = (match[2] || 'FS').toUpperCase() as DependencyType;
+      const lag = match[4] ? Math.round(parseFloat(match[4])) * (match[3] === '-' ? -1 : 1) : 0;
+      predecessors.push({ key: match[1], type: DEPENDENCY_TYPES.includes(type) ? type : 'FS', lag });
+    }
+    return predecessors;
+  }
+
+  /**
+   * Read a date cell: YYYY-MM-DD, US M/D/YYYY, an Excel day serial or
+   * anything Date can parse
+   */
+  static parseDate(text: string): Date | null {
+    const value = text.trim();
+    if (!value) return null;
+
+    let date: Date;
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+    const us = /^(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})$/.exec(value);
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      date = SpreadsheetFile.fromExcelSerial(parseFloat(value));
+    } else if (iso) {
+      date = new Date(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+    } else if (us) {
+      const year = parseInt(us[3], 10);
+      date = new Date(year < 100 ? 2000 + year : year, parseInt(us[1], 10) - 1, parseInt(us[2], 10));
+    } else {
+      date = new Date(value);
+    }
+
+    if (isNaN(date.getTime())) return null;
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  /**
+   * Read a duration cell in work days, e.g. "5", "5d", "3 days" or "2w"
+   * @returns null when the cell is not a duration
+   */
+  static parseDuration(text: string): number | null {
+    const match = /^(\d+(?:\.\d+)?)\s*(d|days?|wd|w|wks?|weeks?)?$/i.exec(text.trim());
+    if (!match) return null;
+    const days = parseFloat(match[1]) * (match[2] && /^w/i.test(match[2]) ? 5 : 1);
+    return Math.ceil(days);
+  }
+
+  /**
+   * Create the rows without errors as tasks. Swimlanes are matched by name
+   * and added when missing; trades are matched by name and created when
+   * missing. Links to rows that were skipped are dropped.
+   * @returns the created tasks
+   */
+  static createTasks(taskManager: TaskManager, rows: TaskTableRow[]): Task[] {
+    const validRows = rows.filter(row => row.errors.length === 0);
+    const validIds = new Set(validRows.map(row => row.config.id));
+
+    const findLane = (name: string) =>
+      taskManager.swimlanes.find(lane => lane.name.trim().toLowerCase() === name.toLowerCase());
+    const addLane = (name: string) => {
+      const color = TaskTable.LANE_COLORS[taskManager.swimlanes.length % TaskTable.LANE_COLORS.length];
+      taskManager.addSwimlane(generateUUID(), name, color);
+      return taskManager.swimlanes[taskManager.swimlanes.length - 1];
+    };
+
+    return validRows.map(row => {
+      const lane = row.swimlane
+        ? findLane(row.swimlane) || addLane(row.swimlane)
+        : taskManager.swimlanes[0] || addLane('Imported Tasks');
+
+      const dependencies = (row.config.dependencies || []).filter(id => validIds.has(id));
+      const dependencyLinks: Record<string, DependencyLink> = {};
+      dependencies.forEach(id => {
+        const link = row.config.dependencyLinks?.[id];
+        if (link) dependencyLinks[id] = link;
+      });
+
+      const trade = row.trade ? Trades.getOrCreate(row.trade) : undefined;
+      return taskManager.addTask({
+        ...row.config,
+        dependencies,
+        dependencyLinks,
+        ...(trade ? { tradeId: trade.id, color: trade.color } : {})
+      }, lane.id);
+    });
+  }
+
+  /**
+   * The schedule as a table with the import columns, one row per task in
+   * swimlane order. Finish is the last day of work, matching what import expects.
+   */
+  static exportRows(taskManager: TaskManager): SpreadsheetCell[][] {
+    const lanes = taskManager.swimlanes;
+    const tasks = lanes.flatMap(lane =>
+      [...lane.tasks].sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+    );
+    const keys = new Map(tasks.map((task, index) => [task.id, String(index + 1)]));
+
+    const rows: SpreadsheetCell[][] = [TASK_TABLE_FIELDS.map(field => TASK_TABLE_LABELS[field])];
+    tasks.forEach(task => {
+      const predecessors = task.dependencies
+        .filter(id => keys.has(id))
+        .map(id => {
+          const link = task.getDependencyLink(id);
+          return keys.get(id)! + (link.type === 'FS' && !link.lag ? '' : Task.formatDependencyLink(link));
+        })
+        .join(', ');
+      const date = task.isMilestone ? task.getMilestoneDate() : task.startDate;
+      const finish = task.isMilestone ? date : task.subtractWorkDays(task.getEndDate(), 1);
+
+      const values: Record<TaskTableField, SpreadsheetCell> = {
+        id: Number(keys.get(task.id)),
+        name: task.name,
+        start: new Date(date),
+        duration: task.duration,
+        finish: new Date(finish),
+        trade: task.getTradeName(),
+        swimlane: lanes.find(lane => lane.id === task.swimlaneId)?.name || '',
+        predecessors,
+        crew: task.crewSize,
+        progress: task.progress || 0
+      };
+      rows.push(TASK_TABLE_FIELDS.map(field => values[field]));
+    });
+    return rows;
+  }
+}
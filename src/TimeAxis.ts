@@ -1,3 +1,5 @@
+import { Calendars } from './Calendars';
+
 export interface TimeScale {
   unit: 'hour' | 'day' | 'week' | 'month' | 'year';
   pixelsPerUnit: number;
@@ -86,9 +88,11 @@ export class TimeAxis {
     return detailScale;
   }
 
+  /**
+   * Whether a date is a day off on the project calendar (weekends, holidays and shutdowns)
+   */
   private isWeekend(date: Date): boolean {
-    const day = date.getDay();
-    return day === 0 || day === 6; // 0 is Sunday, 6 is Saturday
+    return !Calendars.isWorkDay(Calendars.getProjectCalendar(), date);
   }
 
   private drawWeekendShading(ctx: CanvasRenderingContext2D, camera: { x: number; y: number; zoom: number; width: number; height: number }) {
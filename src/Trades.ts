@@ -10,6 +10,8 @@ export interface Trade {
   color: string;
   /** Optional description of the trade */
   description?: string;
+  /** Most workers the trade can put on site per day; unlimited when absent */
+  capacity?: number;
 }
 
 /**
@@ -17,7 +19,7 @@ export interface Trade {
  */
 export class Trades {
   /** Standard set of construction trades with predefined colors */
-  private static standardTrades: Trade[] = [
+  private static readonly defaultTrades: Trade[] = [
     { id: 'general', name: 'General', color: '#9E9E9E', description: 'General contractor / misc work' },
     { id: 'framing', name: 'Framing', color: '#FFB74D', description: 'Structural framing work including walls, floors, and roofs' },
     { id: 'electrical', name: 'Electrical', color: '#90CAF9', description: 'All electrical installations and wiring' },
@@ -41,6 +43,9 @@ export class Trades {
     { id: 'ceiling', name: 'Ceiling', color: '#FFF176', description: 'ACT ceiling grid and tile' }
   ];
 
+  /** Trades of the open project: the standard set plus custom and imported trades */
+  private static standardTrades: Trade[] = Trades.defaultTrades.map(trade => ({ ...trade }));
+
   /** Colors for auto-generated trades */
   private static readonly extraColors = [
     '#CE93D8', '#80DEEA', '#FFAB91', '#C5E1A5', '#EF9A9A', 
@@ -69,6 +74,44 @@ export class Trades {
     return trade;
   }
 
+  /**
+   * Add a trade, replacing any trade with the same ID
+   */
+  public static addTrade(trade: Trade): Trade {
+    const index = this.standardTrades.findIndex(t => t.id === trade.id);
+    if (index >= 0) {
+      this.standardTrades[index] = trade;
+    } else {
+      this.standardTrades.push(trade);
+    }
+    return trade;
+  }
+
+  /**
+   * Remove a trade by its ID
+   */
+  public static removeTrade(id: string): boolean {
+    const before = this.standardTrades.length;
+    this.standardTrades = this.standardTrades.filter(trade => trade.id !== id);
+    return this.standardTrades.length < before;
+  }
+
+  /**
+   * Copy of all trades for saving or undo history
+   */
+  public static exportState(): Trade[] {
+    return this.standardTrades.map(trade => ({ ...trade }));
+  }
+
+  /**
+   * Replace all trades with saved state. Projects saved without trades get
+   * the standard set, so the previous project's custom trades never linger.
+   */
+  public static importState(trades?: Trade[] | null): void {
+    const saved = Array.isArray(trades) ? trades.filter(trade => trade && trade.id) : [];
+    this.standardTrades = (saved.length > 0 ? saved : this.defaultTrades).map(trade => ({ ...trade }));
+  }
+
   /**
    * Find a trade by its ID
    */
@@ -0,0 +1,154 @@
+import { Task } from './Task';
+
+/**
+ * The parts of a swimlane that place it in the WBS tree
+ */
+export interface WbsLink {
+  id: string;
+  /** Parent swimlane ID; top-level when absent */
+  parentId?: string;
+}
+
+/**
+ * A swimlane in the WBS tree, with what summary bars need
+ */
+export interface WbsNode extends WbsLink {
+  /** Whether the node's own tasks and all its descendants are hidden behind its summary bar */
+  collapsed?: boolean;
+  tasks: Task[];
+}
+
+/**
+ * Dates, cost and progress of a WBS node and everything below it
+ */
+export interface WbsRollup {
+  start: Date;
+  /** Exclusive like Task.getEndDate */
+  finish: Date;
+  cost: number;
+  /** Percent complete, weighted by task duration */
+  progress: number;
+  taskCount: number;
+}
+
+/**
+ * Helpers for the WBS tree formed by swimlanes
+ *
+ * Swimlanes stay a flat list, as the canvas lays them out top to bottom;
+ * the tree comes from each lane's parentId. order() sorts the list so every
+ * lane directly follows its parent and earlier siblings' subtrees, which is
+ * the order the lanes are drawn in.
+ */
+export class Wbs {
+  static getParent<T extends WbsLink>(nodes: T[], node: T): T | undefined {
+    return node.parentId ? nodes.find(n => n.id === node.parentId) : undefined;
+  }
+
+  static getChildren<T extends WbsLink>(nodes: T[], id: string): T[] {
+    return nodes.filter(n => n.parentId === id);
+  }
+
+  static hasChildren(nodes: WbsLink[], id: string): boolean {
+    return nodes.some(n => n.parentId === id);
+  }
+
+  /**
+   * Number of ancestors; top-level nodes are at depth 0
+   */
+  static getDepth<T extends WbsLink>(nodes: T[], node: T): number {
+    let depth = 0;
+    let parent = Wbs.getParent(nodes, node);
+    while (parent && depth < nodes.length) {
+      depth++;
+      parent = Wbs.getParent(nodes, parent);
+    }
+    return depth;
+  }
+
+  /**
+   * All nodes below a node, in tree order
+   */
+  static getDescendants<T extends WbsLink>(nodes: T[], id: string): T[] {
+    const descendants: T[] = [];
+    Wbs.getChildren(nodes, id).forEach(child => {
+      descendants.push(child, ...Wbs.getDescendants(nodes, child.id));
+    });
+    return descendants;
+  }
+
+  /**
+   * Whether a node is hidden because one of its ancestors is collapsed
+   */
+  static isHidden<T extends WbsNode>(nodes: T[], node: T): boolean {
+    let parent = Wbs.getParent(nodes, node);
+    for (let i = 0; parent && i < nodes.length; i++) {
+      if (parent.collapsed) return true;
+      parent = Wbs.getParent(nodes, parent);
+    }
+    return false;
+  }
+
+  /**
+   * Clear parent links that point to missing nodes or form a loop, then
+   * return the nodes in tree order. Siblings keep their relative order.
+   */
+  static order<T extends WbsLink>(nodes: T[]): T[] {
+    const ids = new Set(nodes.map(n => n.id));
+    nodes.forEach(node => {
+      if (node.parentId && (!ids.has(node.parentId) || Wbs.isInLoop(nodes, node))) {
+        delete node.parentId;
+      }
+    });
+
+    const ordered: T[] = [];
+    const visit = (node: T) => {
+      ordered.push(node);
+      Wbs.getChildren(nodes, node.id).forEach(visit);
+    };
+    nodes.filter(n => !n.parentId).forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Roll up the tasks of a node and all its descendants
+   * @returns null when the subtree has no tasks
+   */
+  static rollup<T extends WbsNode>(nodes: T[], id: string): WbsRollup | null {
+    const node = nodes.find(n => n.id === id);
+    if (!node) return null;
+
+    const tasks = [node, ...Wbs.getDescendants(nodes, id)].flatMap(n => n.tasks);
+    if (tasks.length === 0) return null;
+
+    let start = tasks[0].startDate;
+    let finish = tasks[0].getEndDate();
+    let cost = 0;
+    let weightedProgress = 0;
+    let totalDuration = 0;
+    tasks.forEach(task => {
+      const end = task.getEndDate();
+      if (task.startDate < start) start = task.startDate;
+      if (end > finish) finish = end;
+      cost += task.cost || 0;
+      weightedProgress += (task.progress || 0) * task.duration;
+      totalDuration += task.duration;
+    });
+
+    return {
+      start: new Date(start),
+      finish: new Date(finish),
+      cost,
+      progress: totalDuration > 0 ? Math.round(weightedProgress / totalDuration) : 0,
+      taskCount: tasks.length
+    };
+  }
+
+  private static isInLoop<T extends WbsLink>(nodes: T[], node: T): boolean {
+    let parent = Wbs.getParent(nodes, node);
+    for (let i = 0; parent && i < nodes.length; i++) {
+      if (parent === node) return true;
+      parent = Wbs.getParent(nodes, parent);
+    }
+    return false;
+  }
+}
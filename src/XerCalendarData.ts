@@ -0,0 +1,186 @@
+import { Calendars, WorkCalendar, CalendarException } from './Calendars';
+
+/**
+ * Node in P6's clndr_data tree, e.g. `(0||DaysOfWeek()( ...children... ))`
+ */
+interface ClndrNode {
+  name: string;
+  attrs: string;
+  children: ClndrNode[];
+}
+
+/**
+ * Reads and writes the `clndr_data` column of the XER CALENDAR table
+ *
+ * P6 stores calendars as nested `(index||name(attributes)(children))` nodes:
+ * - DaysOfWeek has one child per weekday, 1 = Sunday through 7 = Saturday,
+ *   and a day is worked when it has work periods `(s|08:00|f|16:00)`
+ * - Exceptions has one child per date `(d|45658)`, counted in days since
+ *   1899-12-30; an exception with work periods is a working day
+ */
+export class XerCalendarData {
+  /** P6 day serials count from 1899-12-30 */
+  private static readonly SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+  private static readonly WORK_PERIOD = '(0||0(s|08:00|f|16:00)())';
+
+  /**
+   * Encode a calendar as clndr_data
+   */
+  static encode(calendar: WorkCalendar): string {
+    const days = calendar.workWeek.map((worked, index) =>
+      `(0||${index + 1}()(${worked ? this.WORK_PERIOD : ''}))`
+    ).join('');
+
+    const exceptionDates = new Map<string, boolean>();
+    calendar.holidays.forEach(key => exceptionDates.set(key, false));
+    calendar.exceptions.forEach(exception => {
+      this.expandRange(exception.start, exception.end).forEach(key => exceptionDates.set(key, exception.working));
+    });
+
+    const exceptions = Array.from(exceptionDates.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, working], index) =>
+        `(0||${index}(d|${this.toSerial(key)})(${working ? this.WORK_PERIOD : ''}))`
+      ).join('');
+
+    return `(0||CalendarData()((0||DaysOfWeek()(${days}))(0||Exceptions()(${exceptions}))))`;
+  }
+
+  /**
+   * Decode clndr_data into a calendar. Returns null when the data has no
+   * DaysOfWeek section so callers can fall back to a default calendar.
+   */
+  static decode(data: string, id: string, name: string): WorkCalendar | null {
+    let root: ClndrNode | null;
+    try {
+      root = this.parse(data);
+    } catch (error) {
+      console.warn(`[XerCalendarData] Could not parse calendar "${name}":`, error);
+      return null;
+    }
+
+    const daysOfWeek = root && this.findNode(root, 'DaysOfWeek');
+    if (!daysOfWeek) return null;
+
+    const workWeek = [false, false, false, false, false, false, false];
+    daysOfWeek.children.forEach(day => {
+      const index = parseInt(day.name, 10) - 1;
+      if (index >= 0 && index < 7) {
+        workWeek[index] = day.children.length > 0;
+      }
+    });
+
+    // Group consecutive exception dates into ranges
+    const offDates: string[] = [];
+    const onDates: string[] = [];
+    const exceptionsNode = this.findNode(root!, 'Exceptions');
+    (exceptionsNode?.children || []).forEach(exception => {
+      const match = /d\|(\d+)/.exec(exception.attrs);
+      if (!match) return;
+      const key = this.fromSerial(parseInt(match[1], 10));
+      (exception.children.length > 0 ? onDates : offDates).push(key);
+    });
+
+    const holidays: string[] = [];
+    const exceptions: CalendarException[] = [];
+    this.toRanges(offDates).forEach(([start, end]) => {
+      if (start === end) holidays.push(start);
+      else exceptions.push({ name: 'Non-working', start, end, working: false });
+    });
+    this.toRanges(onDates).forEach(([start, end]) => {
+      exceptions.push({ name: 'Working', start, end, working: true });
+    });
+
+    return { id, name, workWeek, holidays, exceptions };
+  }
+
+  private static parse(data: string): ClndrNode | null {
+    let pos = 0;
+
+    const skipFiller = () => {
+      while (pos < data.length && data[pos] !== '(' && data[pos] !== ')') pos++;
+    };
+
+    const readUntil = (token: string): string => {
+      const end = data.indexOf(token, pos);
+      if (end === -1) throw new Error(`Expected "${token}" at ${pos}`);
+      const value = data.substring(pos, end);
+      pos = end + token.length;
+      return value;
+    };
+
+    const parseNode = (): ClndrNode => {
+      pos++; // (
+      readUntil('||'); // index
+      const name = readUntil('(').trim();
+      const attrs = readUntil(')');
+      skipFiller();
+      if (data[pos] !== '(') throw new Error(`Expected children at ${pos}`);
+      pos++;
+
+      const children: ClndrNode[] = [];
+      skipFiller();
+      while (data[pos] === '(') {
+        children.push(parseNode());
+        skipFiller();
+      }
+      pos++; // ) closing children
+      skipFiller();
+      pos++; // ) closing node
+      return { name, attrs, children };
+    };
+
+    skipFiller();
+    return data[pos] === '(' ? parseNode() : null;
+  }
+
+  private static findNode(node: ClndrNode, name: string): ClndrNode | null {
+    if (node.name === name) return node;
+    for (const child of node.children) {
+      const found = this.findNode(child, name);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private static toSerial(key: string): number {
+    const date = Calendars.parseDateKey(key)!;
+    const utc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+    return Math.round((utc - this.SERIAL_EPOCH) / this.MS_PER_DAY);
+  }
+
+  private static fromSerial(serial: number): string {
+    const utc = new Date(this.SERIAL_EPOCH + serial * this.MS_PER_DAY);
+    return Calendars.formatDateKey(new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate()));
+  }
+
+  private static expandRange(start: string, end: string): string[] {
+    const keys: string[] = [];
+    const current = Calendars.parseDateKey(start);
+    const last = Calendars.parseDateKey(end);
+    if (!current || !last) return keys;
+    while (current <= last) {
+      keys.push(Calendars.formatDateKey(current));
+      current.setDate(current.getDate() + 1);
+    }
+    return keys;
+  }
+
+  /**
+   * Collapse sorted date keys into [start, end] runs of consecutive days
+   */
+  private static toRanges(keys: string[]): [string, string][] {
+    const serials = Array.from(new Set(keys.map(key => this.toSerial(key)))).sort((a, b) => a - b);
+    const ranges: [string, string][] = [];
+    serials.forEach(serial => {
+      const last = ranges[ranges.length - 1];
+      if (last && this.toSerial(last[1]) === serial - 1) {
+        last[1] = this.fromSerial(serial);
+      } else {
+        ranges.push([this.fromSerial(serial), this.fromSerial(serial)]);
+      }
+    });
+    return ranges;
+  }
+}
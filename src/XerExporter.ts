@@ -1,5 +1,9 @@
 import { Task } from './Task';
 import { TaskManager } from './TaskManager';
+import { Calendars, WorkCalendar } from './Calendars';
+import { XerCalendarData } from './XerCalendarData';
+import { Wbs } from './Wbs';
+import { XerTable } from './XerImporter';
 
 /**
  * XerExporter class handles exporting project data to Primavera P6 XER format
@@ -14,7 +18,9 @@ export class XerExporter {
   private username: string;
   private exportDate: string;
   private currency: string;
-  private tables: Map<string, { columns: string[], rows: string[][] }>;
+  private tables: Map<string, XerTable>;
+  private calendarIds: Map<string, string> = new Map(); // DingPlan calendar key → XER clndr_id
+  private taskIds: Map<string, string> = new Map(); // DingPlan task ID → XER task_id
   
   private readonly ENCODING = 'cp1252'; // Standard encoding for XER files
   
@@ -122,14 +128,32 @@ export class XerExporter {
     projectName: string = 'Construction Project',
     projectShortName: string = 'CP001'
   ): string {
+    this.buildTables(taskManager, projectName, projectShortName);
+    
+    // Generate the XER content
+    return this.generateXer();
+  }
+  
+  /**
+   * Fill the XER tables from TaskManager without writing them out, e.g. to
+   * save them in another P6 format
+   */
+  public buildTables(
+    taskManager: TaskManager, 
+    projectName: string = 'Construction Project',
+    projectShortName: string = 'CP001'
+  ): Map<string, XerTable> {
     // Initialize required tables
     this.setupRequiredTables();
     
     // Generate unique IDs for XER
     const projectId = '1'; // Simple ID for now
     
+    // Add work calendars
+    this.addCalendarData();
+    
     // Add project data
-    this.addProjectData(projectId, projectName, projectShortName);
+    this.addProjectData(projectId, projectName, projectShortName, taskManager.dataDate);
     
     // Add WBS structure (swimlanes)
     this.addWbsData(projectId, taskManager);
@@ -140,8 +164,12 @@ export class XerExporter {
     // Add task dependencies
     this.addTaskDependencies(taskManager);
     
-    // Generate the XER content
-    return this.generateXer();
+    // Add trades as resources and activity codes, and task fields as UDFs
+    this.addResourceData(projectId, taskManager);
+    this.addActivityCodeData(projectId, taskManager);
+    this.addUdfData(projectId, taskManager);
+    
+    return this.tables;
   }
   
   /**
@@ -154,14 +182,6 @@ export class XerExporter {
       'clndr_data', 'day_hr_cnt', 'week_hr_cnt'
     ]);
     
-    // Add a standard calendar
-    this.addRow('CALENDAR', [
-      '1', 'Standard', 'CA_Base', 'Y', 
-      // Calendar data: workdays Mon-Fri (0=Sun, 1=Mon, etc.)
-      '(0||1(0800|1700|0|0)|1(0800|1700|0|0)|1(0800|1700|0|0)|1(0800|1700|0|0)|1(0800|1700|0|0)|0||)',
-      '8', '40'
-    ]);
-    
     // CURRTYPE table - currency settings
     this.addTable('CURRTYPE', [
       'curr_id', 'curr_short_name', 'curr_symbol', 'decimal_digit_cnt',
@@ -179,24 +199,60 @@ export class XerExporter {
       'plan_start_date', 'plan_end_date', 'last_recalc_date'
     ]);
     
+    // RSRC table - one labor resource per trade
+    this.addTable('RSRC', [
+      'rsrc_id', 'rsrc_name', 'rsrc_short_name', 'rsrc_type', 'clndr_id', 'active_flag'
+    ]);
+    
+    // ACTVTYPE and ACTVCODE tables - activity code types and their values
+    this.addTable('ACTVTYPE', [
+      'actv_code_type_id', 'actv_short_len', 'seq_num', 'actv_code_type', 'proj_id', 'actv_code_type_scope'
+    ]);
+    this.addTable('ACTVCODE', [
+      'actv_code_id', 'parent_actv_code_id', 'actv_code_type_id', 'actv_code_name', 'short_name', 'seq_num'
+    ]);
+    
+    // UDFTYPE table - user-defined fields on activities
+    this.addTable('UDFTYPE', [
+      'udf_type_id', 'table_name', 'udf_type_name', 'udf_type_label', 'logical_data_type', 'super_flag'
+    ]);
+    
     // PROJWBS table
     this.addTable('PROJWBS', [
       'wbs_id', 'parent_wbs_id', 'proj_id', 'seq_num', 
-      'wbs_short_name', 'wbs_name', 'wbs_level_cnt'
+      'wbs_short_name', 'wbs_name', 'wbs_level_cnt', 'proj_node_flag'
     ]);
     
     // TASK table
     this.addTable('TASK', [
       'task_id', 'proj_id', 'wbs_id', 'clndr_id', 
-      'task_type', 'task_code', 'task_name', 'task_status',
+      'task_type', 'task_code', 'task_name', 'status_code',
       'target_start_date', 'target_end_date', 
-      'target_drtn_hr_cnt', 'remain_drtn_hr_cnt'
+      'act_start_date', 'act_end_date',
+      'target_drtn_hr_cnt', 'remain_drtn_hr_cnt', 'phys_complete_pct',
+      'cstr_type', 'cstr_date'
     ]);
     
     // TASKPRED table
     this.addTable('TASKPRED', [
       'task_pred_id', 'task_id', 'pred_task_id', 'pred_type', 'lag_hr_cnt'
     ]);
+    
+    // TASKACTV table - activity code values per task
+    this.addTable('TASKACTV', [
+      'task_id', 'actv_code_type_id', 'actv_code_id', 'proj_id'
+    ]);
+    
+    // TASKRSRC table - resource assignments
+    this.addTable('TASKRSRC', [
+      'taskrsrc_id', 'task_id', 'proj_id', 'rsrc_id', 'rsrc_type',
+      'target_qty', 'target_qty_per_hr', 'remain_qty', 'remain_qty_per_hr'
+    ]);
+    
+    // UDFVALUE table - user-defined field values per task
+    this.addTable('UDFVALUE', [
+      'udf_type_id', 'fk_id', 'proj_id', 'udf_date', 'udf_number', 'udf_text'
+    ]);
   }
   
   /**
@@ -205,10 +261,11 @@ export class XerExporter {
   private addProjectData(
     projectId: string, 
     projectName: string,
-    projectShortName: string
+    projectShortName: string,
+    dataDate: Date | null
   ): void {
     const now = new Date();
-    // Calculate project dates (use today as data date and add 1 year for end date)
+    // Calculate project dates (use today as the default data date and add 1 year for end date)
     const endDate = new Date(now);
     endDate.setFullYear(endDate.getFullYear() + 1);
     
@@ -216,15 +273,16 @@ export class XerExporter {
       projectId,
       projectShortName,
       projectName,
-      '1', // Calendar ID
+      this.getCalendarId(Calendars.getProjectCalendar()), // Calendar ID
       this.formatXerDate(now), // Plan start date
       this.formatXerDate(endDate), // Plan end date
-      this.formatXerDate(now) // Last recalc date (data date)
+      this.formatXerDate(dataDate || now) // Last recalc date (data date)
     ]);
   }
   
   /**
-   * Add WBS structure based on swimlanes
+   * Add WBS structure based on swimlanes. Nested swimlanes become nested WBS
+   * nodes under the project node.
    */
   private addWbsData(projectId: string, taskManager: TaskManager): void {
     // Add root WBS node
@@ -235,21 +293,25 @@ export class XerExporter {
       '1000', // Sequence number
       'ROOT', // Short name
       'Project Root', // Name
-      '1' // Level
+      '1', // Level
+      'Y' // Project node
     ]);
     
-    // Add swimlanes as WBS nodes
-    taskManager.swimlanes.forEach((swimlane, index) => {
+    // Add swimlanes as WBS nodes; swimlanes are in tree order, so parents get their IDs first
+    const swimlanes = taskManager.swimlanes;
+    swimlanes.forEach((swimlane, index) => {
       const wbsId = `WBS${index + 2}`; // Start from WBS2
+      const parent = Wbs.getParent(swimlanes, swimlane);
       
       this.addRow('PROJWBS', [
         wbsId,
-        'WBS1', // Parent is the root
+        parent?.wbsId || 'WBS1', // Parent WBS node, or the root
         projectId,
         String((index + 1) * 1000), // Sequence number
         swimlane.id.toUpperCase(), // Short name
         swimlane.name, // Name
-        '2' // Level
+        String(Wbs.getDepth(swimlanes, swimlane) + 2), // Level
+        'N'
       ]);
       
       // Store mapping of swimlane ID to WBS ID for tasks
@@ -262,11 +324,13 @@ export class XerExporter {
    */
   private addTaskData(projectId: string, taskManager: TaskManager): void {
     let taskIdCounter = 1;
+    this.taskIds.clear();
     
     taskManager.swimlanes.forEach(swimlane => {
       swimlane.tasks.forEach(task => {
+        // Kept apart from task.xerTaskId, which matches the task to the owner's P6 activity
         const xerTaskId = String(taskIdCounter++);
-        task.xerTaskId = xerTaskId; // Store for dependencies
+        this.taskIds.set(task.id, xerTaskId);
         
         // Calculate duration in hours (8 hours per workday)
         const durationHours = task.duration * 8;
@@ -283,20 +347,134 @@ export class XerExporter {
           xerTaskId,
           projectId,
           swimlane.wbsId, // WBS ID
-          '1', // Calendar ID
-          'TT_Task', // Task type (normal task)
+          this.getTaskCalendarId(task), // Calendar ID
+          this.getTaskType(task),
           task.id.substring(0, 8), // Task code (shorten UUID)
           task.name,
           taskStatus,
-          this.formatXerDate(task.startDate),
-          this.formatXerDate(task.getEndDate()),
+          ...this.getTargetDates(task),
+          task.actualStart ? this.formatXerDate(task.actualStart) : '',
+          this.getActualFinishDate(task),
           String(durationHours), // Target duration in hours
-          task.status === 'completed' ? '0' : String(durationHours) // Remaining duration
+          String(task.getRemainingDuration() * 8), // Remaining duration in hours
+          String(task.progress), // Physical % complete
+          this.getConstraintType(task),
+          this.getConstraintDate(task)
         ]);
       });
     });
   }
   
+  /**
+   * P6 activity type: TT_Mile for start milestones, TT_FinMile for finish milestones
+   */
+  private getTaskType(task: Task): string {
+    switch (task.milestoneType) {
+      case 'start': return 'TT_Mile';
+      case 'finish': return 'TT_FinMile';
+      default: return 'TT_Task';
+    }
+  }
+  
+  /**
+   * Target start and end. A finish milestone is written at the end of its
+   * milestone date, the way P6 stores it.
+   */
+  private getTargetDates(task: Task): [string, string] {
+    if (task.milestoneType === 'finish') {
+      const date = task.getMilestoneDate();
+      date.setHours(17, 0, 0, 0);
+      return [this.formatXerDate(date), this.formatXerDate(date)];
+    }
+    return [this.formatXerDate(task.startDate), this.formatXerDate(task.getEndDate())];
+  }
+  
+  /**
+   * Actual finish at the end of the last work day, like P6 writes it
+   */
+  private getActualFinishDate(task: Task): string {
+    if (!task.actualFinish) return '';
+    const date = new Date(task.actualFinish);
+    date.setHours(17, 0, 0, 0);
+    return this.formatXerDate(date);
+  }
+  
+  /**
+   * Map a DingPlan constraint to P6's cstr_type
+   */
+  private getConstraintType(task: Task): string {
+    switch (task.constraintType) {
+      case 'SNET': return 'CS_MSOA'; // Start On or After
+      case 'FNLT': return 'CS_MEOB'; // Finish On or Before
+      case 'MSO': return 'CS_MSO'; // Must Start On
+      default: return '';
+    }
+  }
+  
+  /**
+   * P6 reads finish constraints as a time of day, so FNLT dates are written
+   * at the end of the work day rather than midnight
+   */
+  private getConstraintDate(task: Task): string {
+    if (!task.constraintType || !task.constraintDate) return '';
+    const date = new Date(task.constraintDate);
+    if (task.constraintType === 'FNLT') date.setHours(17, 0, 0, 0);
+    return this.formatXerDate(date);
+  }
+  
+  /**
+   * Add every DingPlan calendar to the CALENDAR table, flagging the project calendar as default
+   */
+  private addCalendarData(): void {
+    this.calendarIds.clear();
+    Calendars.getAllCalendars().forEach(calendar => this.getCalendarId(calendar));
+  }
+  
+  /**
+   * XER clndr_id for a calendar, adding its CALENDAR row on first use
+   */
+  private getCalendarId(calendar: WorkCalendar, key: string = calendar.id): string {
+    const existing = this.calendarIds.get(key);
+    if (existing) return existing;
+    
+    const clndrId = String(this.calendarIds.size + 1);
+    this.calendarIds.set(key, clndrId);
+    
+    const workDays = calendar.workWeek.filter(Boolean).length;
+    this.addRow('CALENDAR', [
+      clndrId,
+      calendar.name,
+      'CA_Base',
+      key === Calendars.getProjectCalendar().id ? 'Y' : 'N',
+      XerCalendarData.encode(calendar),
+      '8',
+      String(workDays * 8)
+    ]);
+    return clndrId;
+  }
+  
+  /**
+   * XER clndr_id for a task. P6 has no per-task weekend overrides, so tasks
+   * that work weekend days outside their calendar get a variant calendar.
+   */
+  private getTaskCalendarId(task: Task): string {
+    const calendar = task.getCalendar();
+    const addSaturday = task.workOnSaturday && !calendar.workWeek[6];
+    const addSunday = task.workOnSunday && !calendar.workWeek[0];
+    if (!addSaturday && !addSunday) {
+      return this.getCalendarId(calendar);
+    }
+    
+    const workWeek = [...calendar.workWeek];
+    if (addSunday) workWeek[0] = true;
+    if (addSaturday) workWeek[6] = true;
+    const suffix = [addSaturday ? 'Sat' : '', addSunday ? 'Sun' : ''].filter(Boolean).join('+');
+    return this.getCalendarId(
+      { ...calendar, name: `${calendar.name} +${suffix}`, workWeek },
+      `${calendar.id}|${suffix}`
+    );
+  }
+  
   /**
    * Add task dependencies to TASKPRED table
    */
@@ -307,21 +485,166 @@ export class XerExporter {
     taskManager.getAllTasks().forEach(task => {
       // For each dependency
       task.dependencies.forEach(predId => {
-        const predTask = taskManager.getTask(predId);
+        const predXerId = this.taskIds.get(predId);
+        const xerTaskId = this.taskIds.get(task.id);
         
-        if (predTask && predTask.xerTaskId && task.xerTaskId) {
+        if (predXerId && xerTaskId) {
+          const link = task.getDependencyLink(predId);
           this.addRow('TASKPRED', [
             String(predIdCounter++), // Unique ID for this relationship
-            task.xerTaskId, // Successor task ID
-            predTask.xerTaskId, // Predecessor task ID
-            'FS', // Finish-to-Start relationship
-            '0' // No lag
+            xerTaskId, // Successor task ID
+            predXerId, // Predecessor task ID
+            `PR_${link.type}`, // Relationship type (PR_FS, PR_SS, PR_FF, PR_SF)
+            String(link.lag * 8) // Lag in hours (8 hours per workday)
           ]);
         }
       });
     });
   }
   
+  /**
+   * Add the trade of each task as a labor resource assigned to it. The crew
+   * size is the assignment's units per hour (target_qty_per_hr), so the
+   * target quantity is crew hours. P6 milestones cannot take resources.
+   */
+  private addResourceData(projectId: string, taskManager: TaskManager): void {
+    const rsrcIds = new Map<string, string>(); // Trade ID → XER rsrc_id
+    let assignmentId = 1;
+    
+    taskManager.getAllTasks().forEach(task => {
+      const xerTaskId = this.taskIds.get(task.id);
+      const trade = task.getTrade();
+      if (!xerTaskId || !trade || task.isMilestone) return;
+      
+      let rsrcId = rsrcIds.get(trade.id);
+      if (!rsrcId) {
+        rsrcId = String(rsrcIds.size + 1);
+        rsrcIds.set(trade.id, rsrcId);
+        this.addRow('RSRC', [
+          rsrcId,
+          trade.name,
+          trade.id.toUpperCase().substring(0, 20),
+          'RT_Labor',
+          this.getCalendarId(Calendars.getProjectCalendar()),
+          'Y'
+        ]);
+      }
+      
+      this.addRow('TASKRSRC', [
+        String(assignmentId++),
+        xerTaskId,
+        projectId,
+        rsrcId,
+        'RT_Labor',
+        String(task.crewSize * task.duration * 8), // Crew hours
+        String(task.crewSize),
+        String(task.crewSize * task.getRemainingDuration() * 8),
+        String(task.crewSize)
+      ]);
+    });
+  }
+  
+  /**
+   * Add "Trade" and "Tags" activity codes. P6 allows one value per code type
+   * on an activity, so a task's tags are written as a single comma-separated value.
+   */
+  private addActivityCodeData(projectId: string, taskManager: TaskManager): void {
+    const typeIds = new Map<string, string>(); // Code type name → actv_code_type_id
+    const codeIds = new Map<string, string>(); // Type ID and code name → actv_code_id
+    const codeCounts = new Map<string, number>(); // Type ID → codes so far, for seq_num
+    
+    const getTypeId = (typeName: string): string => {
+      let typeId = typeIds.get(typeName);
+      if (!typeId) {
+        typeId = String(typeIds.size + 1);
+        typeIds.set(typeName, typeId);
+        this.addRow('ACTVTYPE', [typeId, '20', typeId, typeName, projectId, 'AS_Project']);
+      }
+      return typeId;
+    };
+    
+    const assignCode = (xerTaskId: string, typeName: string, codeName: string, shortName: (seq: number) => string) => {
+      const typeId = getTypeId(typeName);
+      const key = `${typeId}|${codeName}`;
+      let codeId = codeIds.get(key);
+      if (!codeId) {
+        codeId = String(codeIds.size + 1);
+        codeIds.set(key, codeId);
+        const seq = (codeCounts.get(typeId) || 0) + 1;
+        codeCounts.set(typeId, seq);
+        this.addRow('ACTVCODE', [codeId, '', typeId, codeName, shortName(seq), String(seq)]);
+      }
+      this.addRow('TASKACTV', [xerTaskId, typeId, codeId, projectId]);
+    };
+    
+    taskManager.getAllTasks().forEach(task => {
+      const xerTaskId = this.taskIds.get(task.id);
+      if (!xerTaskId) return;
+      
+      const trade = task.getTrade();
+      if (trade) {
+        assignCode(xerTaskId, 'Trade', trade.name, () => trade.id.toUpperCase().substring(0, 20));
+      }
+      if (task.tags.length > 0) {
+        assignCode(xerTaskId, 'Tags', task.tags.join(', '), seq => `TAG${seq}`);
+      }
+    });
+  }
+  
+  /**
+   * Add notes, priority and custom fields as activity UDFs, one UDF type per
+   * label. A custom field is a number or date UDF when all its values are
+   * numbers or dates, and text otherwise.
+   */
+  private addUdfData(projectId: string, taskManager: TaskManager): void {
+    const tasks = taskManager.getAllTasks().filter(task => this.taskIds.has(task.id));
+    const values: [Task, string, string | number | Date][] = [];
+    tasks.forEach(task => {
+      if (task.notes) values.push([task, 'Notes', task.notes]);
+      values.push([task, 'Priority', task.priority]);
+      task.customFields.forEach((value, label) => {
+        if (value !== null && value !== undefined && value !== '') values.push([task, label, value]);
+      });
+    });
+    
+    const dataTypes = new Map<string, string>(); // Label → logical_data_type
+    values.forEach(([, label, value]) => {
+      const dataType = value instanceof Date ? 'FT_START_DATE'
+        : typeof value === 'number' ? 'FT_FLOAT_2_DECIMALS'
+        : 'FT_TEXT';
+      const existing = dataTypes.get(label);
+      dataTypes.set(label, !existing || existing === dataType ? dataType : 'FT_TEXT');
+    });
+    
+    const typeIds = new Map<string, string>(); // Label → udf_type_id
+    dataTypes.forEach((dataType, label) => {
+      const typeId = String(typeIds.size + 1);
+      typeIds.set(label, typeId);
+      this.addRow('UDFTYPE', [typeId, 'TASK', `user_field_${typeId}`, label, dataType, 'N']);
+    });
+    
+    values.forEach(([task, label, value]) => {
+      const dataType = dataTypes.get(label);
+      this.addRow('UDFVALUE', [
+        typeIds.get(label),
+        this.taskIds.get(task.id),
+        projectId,
+        dataType === 'FT_START_DATE' ? this.formatXerDate(value as Date) : '',
+        dataType === 'FT_FLOAT_2_DECIMALS' ? String(value) : '',
+        dataType === 'FT_TEXT' ? this.formatUdfText(value) : ''
+      ]);
+    });
+  }
+  
+  /**
+   * Text UDF value on one line, since rows are tab and line delimited, and
+   * within P6's 255 character limit
+   */
+  private formatUdfText(value: string | number | Date): string {
+    const text = value instanceof Date ? this.formatDate(value) : String(value);
+    return text.replace(/[\t\r\n]+/g, ' ').trim().substring(0, 255);
+  }
+  
   /**
    * Save XER content to a file for download
    */
@@ -0,0 +1,132 @@
+import { XerImporter, XerImportResult, XerProject } from './XerImporter';
+import { Trades, Trade } from './Trades';
+
+/**
+ * Messages from the page to XerImportWorker
+ */
+export type XerJobRequest =
+  | { type: 'read'; file: Blob }
+  | { type: 'import'; projectIds: string[]; trades: Trade[] };
+
+/**
+ * Messages from XerImportWorker back to the page
+ */
+export type XerJobResponse =
+  | { type: 'progress'; phase: XerJobPhase; loaded: number; total: number }
+  | { type: 'read'; projects: XerProject[] }
+  | { type: 'imported'; result: XerImportResult; trades: Trade[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Reading reports bytes read of the file size; converting has no measure
+ */
+export type XerJobPhase = 'reading' | 'converting';
+
+/**
+ * Reads and converts an XER file in a Web Worker, so a large schedule does
+ * not freeze the page. The file is read first, listing its projects, and
+ * the chosen projects are converted next. A job reports progress and can
+ * be cancelled at any point; where workers are unavailable it runs
+ * XerImporter on the main thread instead.
+ */
+export class XerImportJob {
+  /** Called as the file is read and converted */
+  public onProgress: ((phase: XerJobPhase, loaded: number, total: number) => void) | null = null;
+
+  private worker: Worker | null = null;
+  private importer: XerImporter | null = null;
+  private pending: { resolve: (response: XerJobResponse) => void; reject: (error: Error) => void } | null = null;
+  private cancelled: boolean = false;
+
+  constructor() {
+    if (typeof Worker === 'undefined') {
+      this.importer = new XerImporter();
+      return;
+    }
+    this.worker = new Worker(new URL('./XerImportWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<XerJobResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.settle(new Error(event.message || 'XER worker failed'));
+    };
+  }
+
+  /**
+   * Whether cancel was called; a cancelled job's promises reject
+   */
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Read and parse the file
+   * @returns The projects in the file
+   */
+  async read(file: Blob): Promise<XerProject[]> {
+    if (this.importer) {
+      return this.importer.readXerFile(file, (loaded, total) => this.onProgress?.('reading', loaded, total));
+    }
+    const response = await this.request({ type: 'read', file });
+    return response.type === 'read' ? response.projects : [];
+  }
+
+  /**
+   * Convert projects of the file that was read. Trades the file introduces
+   * are added to the page's trades.
+   */
+  async importProjects(projectIds: string[]): Promise<XerImportResult> {
+    if (this.importer) {
+      this.onProgress?.('converting', 0, 0);
+      return this.importer.importProjects(projectIds);
+    }
+    const response = await this.request({ type: 'import', projectIds, trades: Trades.exportState() });
+    if (response.type !== 'imported') throw new Error('XER worker sent no result');
+    Trades.importState(response.trades);
+    return response.result;
+  }
+
+  /**
+   * Stop the job; the pending read or import rejects
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.dispose();
+    this.settle(new Error('XER import cancelled'));
+  }
+
+  /**
+   * Stop the worker once the job is done with
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private request(message: XerJobRequest): Promise<XerJobResponse> {
+    if (!this.worker) {
+      return Promise.reject(new Error(this.cancelled ? 'XER import cancelled' : 'XER import has finished'));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.worker!.postMessage(message);
+    });
+  }
+
+  private handleMessage(response: XerJobResponse): void {
+    if (response.type === 'progress') {
+      this.onProgress?.(response.phase, response.loaded, response.total);
+    } else if (response.type === 'error') {
+      this.settle(new Error(response.message));
+    } else {
+      const pending = this.pending;
+      this.pending = null;
+      pending?.resolve(response);
+    }
+  }
+
+  private settle(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+}
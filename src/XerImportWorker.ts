@@ -0,0 +1,36 @@
+import { XerImporter } from './XerImporter';
+import { Trades } from './Trades';
+import type { XerJobRequest, XerJobResponse } from './XerImportJob';
+
+/**
+ * Web Worker that reads and converts XER files for XerImportJob, keeping
+ * the parsed file between the read and import requests so projects can be
+ * picked in between
+ */
+const scope = self as unknown as Worker;
+let importer: XerImporter | null = null;
+
+const post = (message: XerJobResponse) => scope.postMessage(message);
+
+scope.onmessage = async (event: MessageEvent<XerJobRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'read') {
+      importer = new XerImporter();
+      const projects = await importer.readXerFile(request.file, (loaded, total) => {
+        post({ type: 'progress', phase: 'reading', loaded, total });
+      });
+      post({ type: 'read', projects });
+      return;
+    }
+
+    if (!importer) throw new Error('No XER file has been read');
+    // Trades live in module state, so the worker works on a copy of the page's
+    post({ type: 'progress', phase: 'converting', loaded: 0, total: 0 });
+    Trades.importState(request.trades);
+    const result = importer.importProjects(request.projectIds);
+    post({ type: 'imported', result, trades: Trades.exportState() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -1,7 +1,55 @@
-import { Task, TaskConfig } from './Task';
-import { TaskManager } from './TaskManager';
+import { Task, TaskConfig, DependencyLink, DependencyType, DEPENDENCY_TYPES, ConstraintType, MilestoneType } from './Task';
 import { generateUUID } from './utils';
 import { Trades } from './Trades';
+import { WorkCalendar } from './Calendars';
+import { XerCalendarData } from './XerCalendarData';
+
+/**
+ * Everything read from an XER file, ready to load into DingPlan
+ */
+export interface XerImportResult {
+  tasks: TaskConfig[];
+  /** Swimlanes for the PROJWBS nodes, parents before their children */
+  swimlanes: { id: string; name: string; parentId?: string }[];
+  /** Calendars from the CALENDAR table */
+  calendars: WorkCalendar[];
+  /** Calendar the project uses by default, if the file names one */
+  projectCalendarId: string | null;
+  /** Data date of the last schedule update (PROJECT last_recalc_date), if the file has one */
+  dataDate: Date | null;
+}
+
+/**
+ * A table of an XER file: column names and the rows' values in column order
+ */
+export interface XerTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * A project in an XER file, for choosing which ones to import
+ */
+export interface XerProject {
+  /** PROJECT proj_id */
+  id: string;
+  shortName: string;
+  name: string;
+  /** Activities in the project, not counting WBS summaries */
+  taskCount: number;
+  dataDate: Date | null;
+}
+
+/**
+ * A row of the PROJWBS table
+ */
+interface XerWbsNode {
+  name: string;
+  parentId: string;
+  seqNum: number;
+  /** The node that stands for the project itself (proj_node_flag) */
+  isProjectNode: boolean;
+}
 
 /**
  * XerImporter class handles importing Primavera P6 XER format files
@@ -12,30 +60,31 @@ import { Trades } from './Trades';
  * - %E marker at the end
  * 
  * Key tables:
- * - PROJWBS: Work Breakdown Structure (maps to swimlanes)
+ * - PROJWBS: Work Breakdown Structure (maps to nested swimlanes via parent_wbs_id)
  * - TASK: Activities/tasks
  * - TASKPRED: Task relationships/dependencies
  * - CALENDAR: Working calendars
+ * - PROJECT: The file's projects, with the data date of the last schedule update
+ * - RSRC, TASKRSRC: Resource assignments (crew size, and trade when a resource is named after one)
+ * - ACTVTYPE, ACTVCODE, TASKACTV: Activity codes ("Trade" sets the trade, others become tags)
+ * - UDFTYPE, UDFVALUE: Activity UDFs ("Notes" and "Priority", others become custom fields)
  */
 export class XerImporter {
-  private fileContent: string = '';
-  private tables: Map<string, { columns: string[], rows: string[][] }> = new Map();
-  private projectId: string = '';
+  private tables: Map<string, XerTable> = new Map();
+  private projectIds: string[] = []; // proj_ids to import; all projects when empty
   private tasks: Map<string, any> = new Map(); // Map XER task ID to task data
-  private wbsMap: Map<string, string> = new Map(); // Map WBS ID to name
+  private wbsMap: Map<string, XerWbsNode> = new Map(); // Map WBS ID to its PROJWBS row
+  private calendarMap: Map<string, WorkCalendar> = new Map(); // Map XER clndr_id to calendar
+  private currentTable: string = ''; // Table the parsed lines belong to
   
   constructor() {}
   
   /**
    * Import XER file and return task configurations for DingPlan
    */
-  public async importXerFile(file: File): Promise<{
-    tasks: TaskConfig[],
-    swimlanes: { id: string; name: string }[]
-  }> {
+  public async importXerFile(file: Blob): Promise<XerImportResult> {
     try {
-      this.fileContent = await this.readFileContent(file);
-      this.parseXerContent();
+      await this.parseFile(file);
       
       const result = this.convertToTaskConfigs();
       
@@ -52,109 +101,224 @@ export class XerImporter {
   }
   
   /**
-   * Read file content as text
+   * Read and parse an XER file without converting it, so the projects to
+   * import can be chosen with getProjects and importProjects
+   * @param onProgress Called after each chunk with the bytes read so far and the file size
    */
-  private readFileContent(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          resolve(e.target.result as string);
-        } else {
-          reject(new Error('Failed to read file content'));
-        }
-      };
-      
-      reader.onerror = () => {
-        reject(new Error('File reading error'));
-      };
-      
-      // Try different encodings for XER files
-      try {
-        reader.readAsText(file, 'UTF-8');
-      } catch (error) {
-        try {
-          reader.readAsText(file, 'windows-1252'); // Common for XER files
-        } catch (fallbackError) {
-          reader.readAsText(file); // Default encoding
-        }
+  public async readXerFile(file: Blob, onProgress?: (loaded: number, total: number) => void): Promise<XerProject[]> {
+    try {
+      await this.parseFile(file, onProgress);
+      if (!this.tables.has('TASK')) {
+        throw new Error('No TASK table found in XER file');
       }
+      return this.getProjects();
+    } catch (error) {
+      console.error('XER import failed:', error);
+      throw new Error(`XER import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Convert tables that were already read, e.g. from P6 XML, to DingPlan
+   * task configurations with the same rules as an XER file
+   */
+  public importTables(tables: Map<string, XerTable>): XerImportResult {
+    this.tables = tables;
+    return this.convertToTaskConfigs();
+  }
+  
+  /**
+   * The projects in the parsed file, in PROJECT table order. P6 keeps the
+   * project name on its PROJWBS project node.
+   */
+  public getProjects(): XerProject[] {
+    const projectTable = this.tables.get('PROJECT');
+    if (!projectTable) return [];
+    
+    const taskTable = this.tables.get('TASK');
+    const taskCounts = new Map<string, number>();
+    taskTable?.rows.forEach(row => {
+      if (this.isSkippedTaskType(this.getColumnValue(taskTable, row, 'task_type'))) return;
+      const projId = this.getColumnValue(taskTable, row, 'proj_id');
+      taskCounts.set(projId, (taskCounts.get(projId) || 0) + 1);
     });
+    
+    const wbsTable = this.tables.get('PROJWBS');
+    const projectNodeName = (projId: string) => {
+      const row = wbsTable?.rows.find(wbsRow =>
+        this.getColumnValue(wbsTable, wbsRow, 'proj_node_flag') === 'Y' &&
+        this.getColumnValue(wbsTable, wbsRow, 'proj_id') === projId
+      );
+      return row ? this.getColumnValue(wbsTable!, row, 'wbs_name') : '';
+    };
+    
+    const singleProject = projectTable.rows.length === 1;
+    return projectTable.rows.map(row => {
+      const id = this.getColumnValue(projectTable, row, 'proj_id');
+      const shortName = this.getColumnValue(projectTable, row, 'proj_short_name');
+      return {
+        id,
+        shortName,
+        name: this.getColumnValue(projectTable, row, 'proj_name') || projectNodeName(id) || shortName || `Project ${id}`,
+        // Tables from P6 XML carry no proj_id on activities
+        taskCount: (taskCounts.get(id) || 0) + (singleProject ? taskCounts.get('') || 0 : 0),
+        dataDate: this.parseDataDate(row)
+      };
+    });
+  }
+  
+  /**
+   * Convert the chosen projects of the parsed file to DingPlan task
+   * configurations. With several projects, each becomes a top-level swimlane
+   * holding its WBS.
+   */
+  public importProjects(projectIds: string[]): XerImportResult {
+    this.projectIds = projectIds;
+    const result = this.convertToTaskConfigs();
+    console.log('XER import successful:', {
+      projects: projectIds.length,
+      tasks: result.tasks.length,
+      swimlanes: result.swimlanes.length
+    });
+    return result;
+  }
+  
+  /**
+   * Whether a PROJECT row, or an activity's proj_id, is part of the import.
+   * Activities without a proj_id always are.
+   */
+  private isSelectedProject(projId: string): boolean {
+    return this.projectIds.length === 0 || !projId || this.projectIds.includes(projId);
+  }
+  
+  /**
+   * PROJECT row of the first imported project, which sets the project
+   * calendar and data date
+   */
+  private getProjectRow(): string[] | null {
+    const projectTable = this.tables.get('PROJECT');
+    if (!projectTable) return null;
+    return projectTable.rows.find(row => this.isSelectedProject(this.getColumnValue(projectTable, row, 'proj_id'))) || null;
   }
   
   /**
-   * Parse XER content into tables
+   * Parse an XER file chunk by chunk, so a large file is never held as one
+   * string. The file is read as UTF-8 (or UTF-16 with a byte order mark);
+   * when it turns out not to be valid UTF-8 it is read again as
+   * windows-1252, the code page P6 writes by default.
    */
-  private parseXerContent(): void {
-    const lines = this.fileContent.split('\n').map(line => line.trim());
+  private async parseFile(file: Blob, onProgress?: (loaded: number, total: number) => void): Promise<void> {
+    const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const encoding = head[0] === 0xFF && head[1] === 0xFE ? 'utf-16le'
+      : head[0] === 0xFE && head[1] === 0xFF ? 'utf-16be'
+      : 'utf-8';
     
-    let currentTable = '';
-    let currentColumns: string[] = [];
+    if (!await this.parseStream(file, encoding, onProgress)) {
+      console.log('XER file is not UTF-8, reading it as windows-1252');
+      await this.parseStream(file, 'windows-1252', onProgress);
+    }
     
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (!line || line.startsWith('//')) {
-        continue; // Skip empty lines and comments
-      }
-      
-      if (line.startsWith('ERMHDR')) {
-        // Parse header for basic info
-        const parts = line.split('\t');
-        if (parts.length > 4) {
-          console.log('XER version:', parts[1]);
-          console.log('Export date:', parts[2]);
-          console.log('Username:', parts[4]);
+    console.log('Parsed XER tables:', Array.from(this.tables.keys()));
+  }
+  
+  /**
+   * Decode and parse the file's lines as they stream in
+   * @returns false when the bytes are not valid in the encoding
+   */
+  private async parseStream(file: Blob, encoding: string, onProgress?: (loaded: number, total: number) => void): Promise<boolean> {
+    this.tables = new Map();
+    this.currentTable = '';
+    
+    const decoder = new TextDecoder(encoding, { fatal: true });
+    const reader = file.stream().getReader();
+    let loaded = 0;
+    let pending = ''; // Start of a line whose end is in the next chunk
+    
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        let text: string;
+        try {
+          text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+        } catch (error) {
+          return false;
         }
-        continue;
-      }
-      
-      if (line.startsWith('%T\t')) {
-        // Table header
-        currentTable = line.substring(3).trim();
-        currentColumns = [];
-        this.tables.set(currentTable, { columns: [], rows: [] });
-        continue;
-      }
-      
-      if (line.startsWith('%F\t')) {
-        // Field names
-        currentColumns = line.substring(3).split('\t');
-        const table = this.tables.get(currentTable);
-        if (table) {
-          table.columns = currentColumns;
+        
+        const lines = (pending + text).split('\n');
+        pending = done ? '' : lines.pop()!;
+        for (const line of lines) {
+          if (!this.parseLine(line.trim())) return true;
         }
-        continue;
+        
+        if (done) return true;
+        loaded += value.byteLength;
+        onProgress?.(loaded, file.size);
       }
-      
-      if (line.startsWith('%R\t')) {
-        // Row data
-        const rowData = line.substring(3).split('\t');
-        const table = this.tables.get(currentTable);
-        if (table) {
-          table.rows.push(rowData);
-        }
-        continue;
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+  
+  /**
+   * Parse one line of the file into the tables
+   * @returns false at the %E end marker
+   */
+  private parseLine(line: string): boolean {
+    if (!line || line.startsWith('//')) {
+      return true; // Skip empty lines and comments
+    }
+    
+    if (line.startsWith('ERMHDR')) {
+      // Parse header for basic info
+      const parts = line.split('\t');
+      if (parts.length > 4) {
+        console.log('XER version:', parts[1]);
+        console.log('Export date:', parts[2]);
+        console.log('Username:', parts[4]);
       }
-      
-      if (line === '%E') {
-        // End of file
-        break;
+      return true;
+    }
+    
+    if (line.startsWith('%T\t')) {
+      // Table header
+      this.currentTable = line.substring(3).trim();
+      this.tables.set(this.currentTable, { columns: [], rows: [] });
+      return true;
+    }
+    
+    if (line.startsWith('%F\t')) {
+      // Field names
+      const table = this.tables.get(this.currentTable);
+      if (table) {
+        table.columns = line.substring(3).split('\t');
       }
+      return true;
     }
     
-    console.log('Parsed XER tables:', Array.from(this.tables.keys()));
+    if (line.startsWith('%R\t')) {
+      // Row data
+      const table = this.tables.get(this.currentTable);
+      if (table) {
+        table.rows.push(line.substring(3).split('\t'));
+      }
+      return true;
+    }
+    
+    // End of file
+    return line !== '%E';
   }
   
   /**
    * Convert parsed XER data to DingPlan task configurations
    */
-  private convertToTaskConfigs(): {
-    tasks: TaskConfig[],
-    swimlanes: { id: string; name: string }[]
-  } {
-    // Parse WBS structure first
+  private convertToTaskConfigs(): XerImportResult {
+    // Start over for each conversion, as one file may be imported project by project
+    this.tasks.clear();
+    this.wbsMap.clear();
+    this.calendarMap.clear();
+    
+    // Parse calendars and WBS structure first
+    const projectCalendarId = this.parseCalendars();
     this.parseWBS();
     
     // Parse tasks
@@ -163,46 +327,159 @@ export class XerImporter {
     // Parse dependencies
     this.parseDependencies();
     
+    // Parse crews, trades, tags and user-defined fields
+    this.parseResources();
+    this.parseActivityCodes();
+    this.parseUdfs();
+    
     // Convert to DingPlan format
     const tasks: TaskConfig[] = [];
-    const swimlaneSet = new Set<string>();
+    const usedWbsIds = new Set<string>();
+    
+    // Assign DingPlan IDs up front so dependencies can refer to them
+    const idMap = new Map<string, string>();
+    this.tasks.forEach((taskData, taskId) => {
+      if (!this.isSkippedTaskType(taskData.task_type)) {
+        idMap.set(taskId, generateUUID());
+      }
+    });
     
     this.tasks.forEach((taskData, taskId) => {
-      // Skip summary/milestone tasks
-      if (taskData.task_type === 'TT_WBS' || taskData.task_type === 'TT_Mile') {
+      // Skip summary tasks
+      if (this.isSkippedTaskType(taskData.task_type)) {
         return;
       }
       
       try {
+        // Translate XER predecessor IDs to DingPlan IDs, dropping links to skipped tasks
+        const dependencies: string[] = [];
+        const dependencyLinks: Record<string, DependencyLink> = {};
+        taskData.dependencies.forEach((predTaskId: string) => {
+          const predId = idMap.get(predTaskId);
+          if (!predId || dependencies.includes(predId)) return;
+          dependencies.push(predId);
+          const link: DependencyLink = taskData.dependencyLinks[predTaskId];
+          if (link && (link.type !== 'FS' || link.lag !== 0)) {
+            dependencyLinks[predId] = link;
+          }
+        });
+        
+        const milestoneType = this.parseMilestoneType(taskData.task_type);
         const taskConfig: TaskConfig = {
-          id: generateUUID(),
+          id: idMap.get(taskId)!,
           name: this.cleanTaskName(taskData.task_name),
-          startDate: this.parseXerDate(taskData.target_start_date),
-          duration: this.parseXerDuration(taskData.target_drtn_hr_cnt),
-          crewSize: 1, // Default crew size
+          startDate: milestoneType === 'finish'
+            ? this.getFinishMilestoneStart(taskData.target_end_date)
+            : this.parseXerDate(taskData.target_start_date),
+          duration: milestoneType ? 0 : this.parseXerDuration(taskData.target_drtn_hr_cnt),
+          milestoneType,
+          crewSize: taskData.crewSize || 1,
           color: this.getTradeColor(taskData.wbs_name || 'General'),
-          tradeId: this.mapToTradeId(taskData.wbs_name || 'General'),
-          dependencies: taskData.dependencies || [],
+          tradeId: taskData.tradeId || this.mapToTradeId(taskData.wbs_name || 'General'),
+          tags: taskData.tags,
+          priority: taskData.priority,
+          notes: taskData.notes,
+          customFields: taskData.customFields,
+          dependencies,
+          dependencyLinks,
+          calendarId: this.getTaskCalendarId(taskData.clndr_id, projectCalendarId),
+          ...this.parseConstraint(taskData.cstr_type, taskData.cstr_date),
+          ...this.parseProgress(taskData),
           xerTaskId: taskId // Store for reference
         };
         
         tasks.push(taskConfig);
-        
-        // Add WBS to swimlanes
-        const wbsName = taskData.wbs_name || 'General';
-        swimlaneSet.add(wbsName);
+        usedWbsIds.add(taskData.wbs_id);
         
       } catch (error) {
         console.warn('Skipping invalid task:', taskData.task_name, error);
       }
     });
     
-    const swimlanes = Array.from(swimlaneSet).map((name, index) => ({
-      id: `swimlane-${index + 1}`,
-      name: name
-    }));
+    // Place each task in the swimlane of its WBS node, under a swimlane per project when there are several
+    const swimlanes: XerImportResult['swimlanes'] = [];
+    const laneIds = new Map<string, string>();
+    const projects = this.getProjects().filter(project => this.isSelectedProject(project.id));
+    if (projects.length > 1) {
+      projects.forEach(project => {
+        const projectWbsIds = new Set(tasks
+          .map(task => this.tasks.get(task.xerTaskId!))
+          .filter(taskData => taskData.proj_id === project.id)
+          .map(taskData => taskData.wbs_id));
+        if (projectWbsIds.size === 0) return;
+        const projectLaneId = `swimlane-${swimlanes.length + 1}`;
+        swimlanes.push({ id: projectLaneId, name: project.name });
+        // Activities on the project node itself go straight into the project's swimlane
+        projectWbsIds.forEach(wbsId => {
+          if (!this.wbsMap.get(wbsId)?.isProjectNode) return;
+          laneIds.set(wbsId, projectLaneId);
+          projectWbsIds.delete(wbsId);
+        });
+        this.buildSwimlanes(projectWbsIds, swimlanes, laneIds, projectLaneId);
+      });
+    } else {
+      this.buildSwimlanes(usedWbsIds, swimlanes, laneIds);
+    }
+    tasks.forEach(task => {
+      const taskData = this.tasks.get(task.xerTaskId!);
+      task.swimlaneId = laneIds.get(taskData?.wbs_id);
+    });
     
-    return { tasks, swimlanes };
+    const projectRow = this.getProjectRow();
+    return {
+      tasks,
+      swimlanes,
+      calendars: Array.from(this.calendarMap.values()),
+      projectCalendarId,
+      dataDate: projectRow ? this.parseDataDate(projectRow) : null
+    };
+  }
+  
+  /**
+   * Parse work calendars from CALENDAR table
+   * @returns ID of the project's default calendar, if any
+   */
+  private parseCalendars(): string | null {
+    const calendarTable = this.tables.get('CALENDAR');
+    if (!calendarTable) return null;
+    
+    let defaultCalendarId: string | null = null;
+    calendarTable.rows.forEach(row => {
+      const clndrId = this.getColumnValue(calendarTable, row, 'clndr_id');
+      if (!clndrId) return;
+      
+      const name = this.getColumnValue(calendarTable, row, 'clndr_name') || `Calendar ${clndrId}`;
+      const calendar = XerCalendarData.decode(this.getColumnValue(calendarTable, row, 'clndr_data'), `xer-${clndrId}`, name);
+      if (!calendar) {
+        console.warn(`Calendar ${name} has no readable work week, tasks using it will use the project calendar`);
+        return;
+      }
+      
+      this.calendarMap.set(clndrId, calendar);
+      if (this.getColumnValue(calendarTable, row, 'default_flag') === 'Y') {
+        defaultCalendarId = calendar.id;
+      }
+    });
+    
+    // The PROJECT row's calendar wins over the global default
+    const projectTable = this.tables.get('PROJECT');
+    const projectRow = this.getProjectRow();
+    const projectClndrId = projectTable && projectRow
+      ? this.getColumnValue(projectTable, projectRow, 'clndr_id')
+      : '';
+    const projectCalendar = this.calendarMap.get(projectClndrId);
+    
+    console.log('Parsed calendars:', this.calendarMap.size);
+    return projectCalendar ? projectCalendar.id : defaultCalendarId;
+  }
+  
+  /**
+   * Calendar ID for a task, or undefined when it simply uses the project calendar
+   */
+  private getTaskCalendarId(clndrId: string, projectCalendarId: string | null): string | undefined {
+    const calendar = this.calendarMap.get(clndrId);
+    if (!calendar || calendar.id === projectCalendarId) return undefined;
+    return calendar.id;
   }
   
   /**
@@ -219,13 +496,68 @@ export class XerImporter {
                      'General';
       
       if (wbsId) {
-        this.wbsMap.set(wbsId, wbsName);
+        this.wbsMap.set(wbsId, {
+          name: wbsName,
+          parentId: this.getColumnValue(wbsTable, row, 'parent_wbs_id'),
+          seqNum: parseFloat(this.getColumnValue(wbsTable, row, 'seq_num')) || 0,
+          isProjectNode: this.getColumnValue(wbsTable, row, 'proj_node_flag') === 'Y'
+        });
       }
     });
     
     console.log('Parsed WBS:', Array.from(this.wbsMap.entries()));
   }
   
+  /**
+   * Swimlanes for the WBS nodes that hold tasks and their ancestors, nested
+   * as in PROJWBS and ordered by seq_num. The project node is left out unless
+   * tasks sit on it directly. Tasks without a known WBS node go to "General".
+   * Swimlanes are appended in tree order below parentLaneId, and laneIds
+   * receives the swimlane ID for each wbs_id.
+   */
+  private buildSwimlanes(
+    usedWbsIds: Set<string>,
+    swimlanes: XerImportResult['swimlanes'],
+    laneIds: Map<string, string>,
+    parentLaneId?: string
+  ): void {
+    const needed = new Set<string>();
+    usedWbsIds.forEach(wbsId => {
+      if (!this.wbsMap.has(wbsId)) return;
+      needed.add(wbsId);
+      let parentId = this.wbsMap.get(wbsId)!.parentId;
+      while (parentId && !needed.has(parentId) && this.wbsMap.has(parentId) && !this.wbsMap.get(parentId)!.isProjectNode) {
+        needed.add(parentId);
+        parentId = this.wbsMap.get(parentId)!.parentId;
+      }
+    });
+    
+    const bySeq = (a: string, b: string) => this.wbsMap.get(a)!.seqNum - this.wbsMap.get(b)!.seqNum;
+    const children = (parentId: string) => Array.from(needed)
+      .filter(id => this.wbsMap.get(id)!.parentId === parentId)
+      .sort(bySeq);
+    
+    const visit = (wbsId: string, parentId?: string) => {
+      const laneId = `swimlane-${swimlanes.length + 1}`;
+      laneIds.set(wbsId, laneId);
+      swimlanes.push({ id: laneId, name: this.wbsMap.get(wbsId)!.name, ...(parentId ? { parentId } : {}) });
+      children(wbsId).forEach(childId => visit(childId, laneId));
+    };
+    Array.from(needed)
+      .filter(id => !needed.has(this.wbsMap.get(id)!.parentId))
+      .sort(bySeq)
+      .forEach(id => visit(id, parentLaneId));
+    
+    const hasOrphans = Array.from(usedWbsIds).some(id => !laneIds.has(id));
+    if (hasOrphans) {
+      const generalId = `swimlane-${swimlanes.length + 1}`;
+      swimlanes.push({ id: generalId, name: 'General', ...(parentLaneId ? { parentId: parentLaneId } : {}) });
+      usedWbsIds.forEach(id => {
+        if (!laneIds.has(id)) laneIds.set(id, generalId);
+      });
+    }
+  }
+  
   /**
    * Parse tasks from TASK table
    */
@@ -237,16 +569,22 @@ export class XerImporter {
     
     taskTable.rows.forEach(row => {
       const taskId = this.getColumnValue(taskTable, row, 'task_id');
-      if (!taskId) return;
+      const projId = this.getColumnValue(taskTable, row, 'proj_id');
+      if (!taskId || !this.isSelectedProject(projId)) return;
       
       const wbsId = this.getColumnValue(taskTable, row, 'wbs_id');
-      const wbsName = this.wbsMap.get(wbsId) || 'General';
+      const wbsName = this.wbsMap.get(wbsId)?.name || 'General';
       
       const taskData = {
         task_id: taskId,
+        proj_id: projId,
         task_name: this.getColumnValue(taskTable, row, 'task_name') || 'Unnamed Task',
         task_type: this.getColumnValue(taskTable, row, 'task_type'),
-        task_status: this.getColumnValue(taskTable, row, 'task_status'),
+        status_code: this.getColumnValue(taskTable, row, 'status_code') ||
+                    this.getColumnValue(taskTable, row, 'task_status'),
+        act_start_date: this.getColumnValue(taskTable, row, 'act_start_date'),
+        act_end_date: this.getColumnValue(taskTable, row, 'act_end_date'),
+        phys_complete_pct: this.getColumnValue(taskTable, row, 'phys_complete_pct'),
         target_start_date: this.getColumnValue(taskTable, row, 'target_start_date') ||
                           this.getColumnValue(taskTable, row, 'act_start_date'),
         target_end_date: this.getColumnValue(taskTable, row, 'target_end_date') ||
@@ -254,9 +592,19 @@ export class XerImporter {
         target_drtn_hr_cnt: this.getColumnValue(taskTable, row, 'target_drtn_hr_cnt') ||
                           this.getColumnValue(taskTable, row, 'act_work_qty'),
         remain_drtn_hr_cnt: this.getColumnValue(taskTable, row, 'remain_drtn_hr_cnt'),
+        clndr_id: this.getColumnValue(taskTable, row, 'clndr_id'),
+        cstr_type: this.getColumnValue(taskTable, row, 'cstr_type'),
+        cstr_date: this.getColumnValue(taskTable, row, 'cstr_date'),
         wbs_id: wbsId,
         wbs_name: wbsName,
-        dependencies: [] as string[]
+        dependencies: [] as string[],
+        dependencyLinks: {} as Record<string, DependencyLink>,
+        crewSize: 0,
+        tradeId: '',
+        tags: [] as string[],
+        priority: undefined as TaskConfig['priority'],
+        notes: '',
+        customFields: {} as Record<string, string | number | Date>
       };
       
       this.tasks.set(taskId, taskData);
@@ -275,13 +623,18 @@ export class XerImporter {
     predTable.rows.forEach(row => {
       const taskId = this.getColumnValue(predTable, row, 'task_id');
       const predTaskId = this.getColumnValue(predTable, row, 'pred_task_id');
-      const predType = this.getColumnValue(predTable, row, 'pred_type') || 'FS';
+      const predType = this.getColumnValue(predTable, row, 'pred_type') || 'PR_FS';
+      const lagHours = this.getColumnValue(predTable, row, 'lag_hr_cnt');
       
       if (taskId && predTaskId && this.tasks.has(taskId)) {
         const taskData = this.tasks.get(taskId);
         if (taskData && this.tasks.has(predTaskId)) {
-          // Map XER task ID to DingPlan UUID (will be resolved after import)
+          // XER task IDs are mapped to DingPlan IDs in convertToTaskConfigs
           taskData.dependencies.push(predTaskId);
+          taskData.dependencyLinks[predTaskId] = {
+            type: this.parsePredType(predType),
+            lag: this.parseXerLag(lagHours)
+          };
         }
       }
     });
@@ -289,10 +642,268 @@ export class XerImporter {
     console.log('Processed dependencies');
   }
   
+  /**
+   * Crew size from TASKRSRC: the units per hour of the task's labor
+   * assignments, or their target quantity over the task's duration. A task
+   * without a trade code takes the trade its resource is named after.
+   */
+  private parseResources(): void {
+    const assignmentTable = this.tables.get('TASKRSRC');
+    if (!assignmentTable) return;
+    
+    const rsrcTable = this.tables.get('RSRC');
+    const resources = new Map<string, { name: string; type: string }>();
+    rsrcTable?.rows.forEach(row => {
+      resources.set(this.getColumnValue(rsrcTable, row, 'rsrc_id'), {
+        name: this.getColumnValue(rsrcTable, row, 'rsrc_name'),
+        type: this.getColumnValue(rsrcTable, row, 'rsrc_type')
+      });
+    });
+    
+    assignmentTable.rows.forEach(row => {
+      const taskData = this.tasks.get(this.getColumnValue(assignmentTable, row, 'task_id'));
+      if (!taskData) return;
+      
+      const resource = resources.get(this.getColumnValue(assignmentTable, row, 'rsrc_id'));
+      const rsrcType = this.getColumnValue(assignmentTable, row, 'rsrc_type') || resource?.type || 'RT_Labor';
+      if (rsrcType !== 'RT_Labor') return;
+      
+      let crew = parseFloat(this.getColumnValue(assignmentTable, row, 'target_qty_per_hr'));
+      if (isNaN(crew)) {
+        const hours = parseFloat(taskData.target_drtn_hr_cnt);
+        crew = parseFloat(this.getColumnValue(assignmentTable, row, 'target_qty')) / hours;
+      }
+      if (isFinite(crew) && crew > 0) {
+        taskData.crewSize += crew;
+      }
+      
+      const trade = resource && Trades.getTradeByName(resource.name);
+      if (trade && !taskData.tradeId) {
+        taskData.tradeId = trade.id;
+      }
+    });
+    
+    this.tasks.forEach(taskData => {
+      if (taskData.crewSize > 0) taskData.crewSize = Math.max(1, Math.round(taskData.crewSize));
+    });
+    console.log('Parsed resource assignments:', assignmentTable.rows.length);
+  }
+  
+  /**
+   * Activity codes from TASKACTV. The "Trade" code sets the task's trade,
+   * creating it when missing, and wins over the resource. "Tags" values are
+   * comma-separated tags; any other code becomes a "Type: Code" tag.
+   */
+  private parseActivityCodes(): void {
+    const taskCodeTable = this.tables.get('TASKACTV');
+    const typeTable = this.tables.get('ACTVTYPE');
+    const codeTable = this.tables.get('ACTVCODE');
+    if (!taskCodeTable || !typeTable || !codeTable) return;
+    
+    const typeNames = new Map<string, string>();
+    typeTable.rows.forEach(row => {
+      typeNames.set(this.getColumnValue(typeTable, row, 'actv_code_type_id'), this.getColumnValue(typeTable, row, 'actv_code_type'));
+    });
+    const codeNames = new Map<string, string>();
+    codeTable.rows.forEach(row => {
+      codeNames.set(
+        this.getColumnValue(codeTable, row, 'actv_code_id'),
+        this.getColumnValue(codeTable, row, 'actv_code_name') || this.getColumnValue(codeTable, row, 'short_name')
+      );
+    });
+    
+    taskCodeTable.rows.forEach(row => {
+      const taskData = this.tasks.get(this.getColumnValue(taskCodeTable, row, 'task_id'));
+      const typeName = typeNames.get(this.getColumnValue(taskCodeTable, row, 'actv_code_type_id'));
+      const codeName = codeNames.get(this.getColumnValue(taskCodeTable, row, 'actv_code_id'));
+      if (!taskData || !typeName || !codeName) return;
+      
+      switch (typeName.toLowerCase()) {
+        case 'trade':
+          taskData.tradeId = Trades.getOrCreate(codeName, codeName).id;
+          break;
+        case 'tags':
+          codeName.split(',').map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+            if (!taskData.tags.includes(tag)) taskData.tags.push(tag);
+          });
+          break;
+        default:
+          taskData.tags.push(`${typeName}: ${codeName}`);
+      }
+    });
+    
+    console.log('Parsed activity codes:', taskCodeTable.rows.length);
+  }
+  
+  /**
+   * Activity UDFs from UDFVALUE, typed by their UDFTYPE. "Notes" and a
+   * "Priority" of low, medium or high fill those task fields; other UDFs are
+   * kept as custom fields by label.
+   */
+  private parseUdfs(): void {
+    const valueTable = this.tables.get('UDFVALUE');
+    const typeTable = this.tables.get('UDFTYPE');
+    if (!valueTable || !typeTable) return;
+    
+    const udfTypes = new Map<string, { label: string; dataType: string }>();
+    typeTable.rows.forEach(row => {
+      if (this.getColumnValue(typeTable, row, 'table_name') !== 'TASK') return;
+      udfTypes.set(this.getColumnValue(typeTable, row, 'udf_type_id'), {
+        label: this.getColumnValue(typeTable, row, 'udf_type_label') || this.getColumnValue(typeTable, row, 'udf_type_name'),
+        dataType: this.getColumnValue(typeTable, row, 'logical_data_type')
+      });
+    });
+    
+    valueTable.rows.forEach(row => {
+      const udfType = udfTypes.get(this.getColumnValue(valueTable, row, 'udf_type_id'));
+      const taskData = this.tasks.get(this.getColumnValue(valueTable, row, 'fk_id'));
+      if (!udfType || !taskData) return;
+      
+      const text = this.getColumnValue(valueTable, row, 'udf_text');
+      const number = parseFloat(this.getColumnValue(valueTable, row, 'udf_number'));
+      const date = this.getColumnValue(valueTable, row, 'udf_date');
+      let value: string | number | Date | null;
+      if (udfType.dataType.endsWith('_DATE')) {
+        value = date ? this.parseXerDate(date) : null;
+      } else if (udfType.dataType === 'FT_TEXT') {
+        value = text || null;
+      } else {
+        value = isNaN(number) ? text || null : number;
+      }
+      if (value === null) return;
+      
+      const priority = String(value).toLowerCase();
+      if (udfType.label === 'Notes') {
+        taskData.notes = String(value);
+      } else if (udfType.label === 'Priority' && ['low', 'medium', 'high'].includes(priority)) {
+        taskData.priority = priority as TaskConfig['priority'];
+      } else {
+        taskData.customFields[udfType.label] = value;
+      }
+    });
+    
+    console.log('Parsed UDF values:', valueTable.rows.length);
+  }
+  
+  /**
+   * WBS summary activities are not imported as tasks; the WBS becomes swimlanes instead
+   */
+  private isSkippedTaskType(taskType: string): boolean {
+    return taskType === 'TT_WBS';
+  }
+  
+  /**
+   * Map P6 milestone activities: TT_Mile is a start milestone and TT_FinMile a finish milestone
+   */
+  private parseMilestoneType(taskType: string): MilestoneType | null {
+    switch (taskType) {
+      case 'TT_Mile': return 'start';
+      case 'TT_FinMile': return 'finish';
+      default: return null;
+    }
+  }
+  
+  /**
+   * A finish milestone happens at the end of its target_end_date, so it sits
+   * at the start of the following day; Task moves it onto the next work day
+   */
+  private getFinishMilestoneStart(targetEndDate: string): Date {
+    const date = this.parseXerDate(targetEndDate);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + 1);
+    return date;
+  }
+  
+  /**
+   * Map P6 relationship types (PR_FS, PR_SS, PR_FF, PR_SF) to DingPlan types
+   */
+  private parsePredType(predType: string): DependencyType {
+    const type = predType.trim().toUpperCase().replace(/^PR_/, '') as DependencyType;
+    return DEPENDENCY_TYPES.includes(type) ? type : 'FS';
+  }
+  
+  /**
+   * Map P6 primary constraints to DingPlan constraints. Start On or After
+   * becomes SNET, Finish On or Before becomes FNLT, and Must Start On /
+   * Mandatory Start become MSO; other P6 constraints are not supported.
+   */
+  private parseConstraint(cstrType: string, cstrDate: string): { constraintType?: ConstraintType; constraintDate?: Date } {
+    const typeMap: Record<string, ConstraintType> = {
+      CS_MSOA: 'SNET',
+      CS_MEOB: 'FNLT',
+      CS_MSO: 'MSO',
+      CS_MANDSTART: 'MSO'
+    };
+    if (!cstrType) return {};
+    const type = typeMap[cstrType.trim().toUpperCase()];
+    if (!type || !cstrDate) {
+      console.warn(`Unsupported XER constraint ${cstrType}, ignoring`);
+      return {};
+    }
+    return { constraintType: type, constraintDate: this.parseXerDate(cstrDate) };
+  }
+  
+  /**
+   * Map P6 progress fields (status_code, act_start_date, act_end_date,
+   * remain_drtn_hr_cnt, phys_complete_pct) to DingPlan actuals
+   */
+  private parseProgress(taskData: any): Partial<TaskConfig> {
+    const statusMap: Record<string, TaskConfig['status']> = {
+      TK_NOTSTART: 'not-started',
+      TK_ACTIVE: 'in-progress',
+      TK_COMPLETE: 'completed'
+    };
+    const status = statusMap[(taskData.status_code || '').trim().toUpperCase()] || 'not-started';
+    const progress: Partial<TaskConfig> = { status };
+
+    const percent = parseFloat(taskData.phys_complete_pct);
+    if (!isNaN(percent)) {
+      progress.progress = Math.min(100, Math.max(0, Math.round(percent)));
+    }
+
+    if (status !== 'not-started' && taskData.act_start_date) {
+      progress.actualStart = this.parseXerDate(taskData.act_start_date);
+    }
+    if (status === 'completed') {
+      progress.actualFinish = taskData.act_end_date ? this.parseXerDate(taskData.act_end_date) : null;
+      progress.progress = 100;
+      progress.remainingDuration = 0;
+    } else if (status === 'in-progress' && taskData.remain_drtn_hr_cnt) {
+      const hours = parseFloat(taskData.remain_drtn_hr_cnt);
+      if (!isNaN(hours) && hours >= 0) {
+        progress.remainingDuration = Math.round(hours / 8);
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * Data date from a PROJECT row (P6 stores it as last_recalc_date)
+   */
+  private parseDataDate(row: string[]): Date | null {
+    const projectTable = this.tables.get('PROJECT');
+    if (!projectTable) return null;
+
+    const value = this.getColumnValue(projectTable, row, 'last_recalc_date');
+    if (!value) return null;
+    const date = this.parseXerDate(value);
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  /**
+   * Convert lag hours to working days (8 hours per day), keeping the sign for leads
+   */
+  private parseXerLag(lagHours: string): number {
+    const hours = parseFloat(lagHours);
+    if (isNaN(hours)) return 0;
+    return Math.round(hours / 8);
+  }
+  
   /**
    * Get column value from row by column name
    */
-  private getColumnValue(table: { columns: string[], rows: string[][] }, row: string[], columnName: string): string {
+  private getColumnValue(table: XerTable, row: string[], columnName: string): string {
     const index = table.columns.findIndex(col => 
       col.toLowerCase() === columnName.toLowerCase()
     );
@@ -507,33 +1118,23 @@ export class XerImporter {
   }
   
   /**
-   * Show file picker and import XER file
+   * Show file picker for an XER file. Reading it is left to XerImportJob,
+   * which parses large files off the main thread.
    */
-  public static showImportDialog(): Promise<{
-    tasks: TaskConfig[],
-    swimlanes: { id: string; name: string }[]
-  }> {
+  public static showFileDialog(): Promise<File> {
     return new Promise((resolve, reject) => {
       const input = document.createElement('input');
       input.type = 'file';
       input.accept = '.xer,.XER';
       input.style.display = 'none';
       
-      input.onchange = async (e) => {
+      input.onchange = (e) => {
         const file = (e.target as HTMLInputElement).files?.[0];
-        if (!file) {
+        document.body.removeChild(input);
+        if (file) {
+          resolve(file);
+        } else {
           reject(new Error('No file selected'));
-          return;
-        }
-        
-        try {
-          const importer = new XerImporter();
-          const result = await importer.importXerFile(file);
-          document.body.removeChild(input);
-          resolve(result);
-        } catch (error) {
-          document.body.removeChild(input);
-          reject(error);
         }
       };
       
@@ -546,4 +1147,4 @@ export class XerImporter {
       input.click();
     });
   }
-}
\ No newline at end of file
+}
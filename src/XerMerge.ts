@@ -0,0 +1,237 @@
+import { Task, TaskConfig, DependencyLink, MILESTONE_LABELS } from './Task';
+import { Calendars } from './Calendars';
+import { XerImportResult } from './XerImporter';
+import { generateUUID } from './utils';
+import type { TaskManager } from './TaskManager';
+
+/**
+ * A difference between the current project and an updated XER file
+ */
+export interface XerMergeItem {
+  /** P6 task_id the item is matched by */
+  xerTaskId: string;
+  kind: 'added' | 'removed' | 'changed';
+  name: string;
+  /** The project's task; absent for added activities */
+  task?: Task;
+  /** The activity from the file; absent for removed activities */
+  incoming?: TaskConfig;
+  /** Readable field changes, e.g. "Duration: 5 → 8" */
+  changes: string[];
+  /** Work days the start moved, positive when later */
+  startShift: number;
+}
+
+/**
+ * Counts of what a merge did
+ */
+export interface XerMergeSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Compares an updated XER file against the current project and merges the
+ * accepted differences
+ *
+ * Activities are matched by xerTaskId, the P6 task_id they were imported
+ * with; tasks without one were added in DingPlan and are never touched.
+ * A merge takes the schedule data from the file (name, dates, duration,
+ * milestone type, constraint, progress and logic between P6 activities)
+ * but keeps the project's swimlane, trade, crew and notes for each task,
+ * and links to DingPlan-only tasks stay in place. Added activities go to the
+ * swimlane with their WBS name, which is created when missing.
+ */
+export class XerMerge {
+  private static readonly LANE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+  /**
+   * Differences between the project's tasks and the file: added activities
+   * first, then changed, then removed
+   */
+  static diff(tasks: Task[], result: XerImportResult): XerMergeItem[] {
+    const existing = new Map(tasks.filter(task => task.xerTaskId).map(task => [task.xerTaskId!, task]));
+    const incoming = new Map(result.tasks.filter(config => config.xerTaskId).map(config => [config.xerTaskId!, config]));
+    const incomingXerIds = new Map(result.tasks.map(config => [config.id!, config.xerTaskId || '']));
+
+    const added: XerMergeItem[] = [];
+    const changed: XerMergeItem[] = [];
+    incoming.forEach((config, xerTaskId) => {
+      const task = existing.get(xerTaskId);
+      if (!task) {
+        added.push({ xerTaskId, kind: 'added', name: config.name, incoming: config, changes: [], startShift: 0 });
+        return;
+      }
+
+      const changes: string[] = [];
+      const startDate = XerMerge.getStartDate(task, config);
+      const startShift = XerMerge.dayOf(startDate).getTime() === XerMerge.dayOf(task.startDate).getTime()
+        ? 0
+        : task.workDaysBetween(task.startDate, startDate);
+      if (config.name !== task.name) changes.push(`Name: ${task.name} → ${config.name}`);
+      if (startShift !== 0) {
+        changes.push(`Start: ${XerMerge.formatDate(task.startDate)} → ${XerMerge.formatDate(startDate)} (${startShift > 0 ? '+' : ''}${startShift}d)`);
+      }
+      if ((config.milestoneType || null) !== task.milestoneType) {
+        changes.push(`Type: ${XerMerge.formatType(task.milestoneType)} → ${XerMerge.formatType(config.milestoneType || null)}`);
+      } else if (!task.isMilestone && config.duration !== task.duration) {
+        changes.push(`Duration: ${task.duration}d → ${config.duration}d`);
+      }
+      const constraintBefore = XerMerge.formatConstraint(task.constraintType, task.constraintDate);
+      const constraintAfter = XerMerge.formatConstraint(config.constraintType || null, config.constraintDate || null);
+      if (constraintBefore !== constraintAfter) changes.push(`Constraint: ${constraintBefore} → ${constraintAfter}`);
+      if ((config.progress || 0) !== (task.progress || 0)) changes.push(`Progress: ${task.progress || 0}% → ${config.progress || 0}%`);
+
+      const logicBefore = XerMerge.formatLogic(
+        task.dependencies.map(id => [tasks.find(t => t.id === id)?.xerTaskId || '', task.getDependencyLink(id)])
+      );
+      const logicAfter = XerMerge.formatLogic(
+        (config.dependencies || []).map(id => [incomingXerIds.get(id) || '', XerMerge.getLink(config, id)])
+      );
+      if (logicBefore !== logicAfter) changes.push(`Predecessors: ${logicBefore || 'none'} → ${logicAfter || 'none'}`);
+
+      if (changes.length > 0) {
+        changed.push({ xerTaskId, kind: 'changed', name: task.name, task, incoming: config, changes, startShift });
+      }
+    });
+
+    const removed: XerMergeItem[] = [];
+    existing.forEach((task, xerTaskId) => {
+      if (!incoming.has(xerTaskId)) {
+        removed.push({ xerTaskId, kind: 'removed', name: task.name, task, changes: [], startShift: 0 });
+      }
+    });
+
+    return [...added, ...changed, ...removed];
+  }
+
+  /**
+   * Apply the accepted items. Calendars from the file are registered so
+   * merged tasks can use them, and the file's data date replaces the project's.
+   */
+  static apply(taskManager: TaskManager, result: XerImportResult, accepted: XerMergeItem[]): XerMergeSummary {
+    result.calendars.forEach(calendar => Calendars.saveCalendar(calendar));
+    if (result.dataDate) taskManager.dataDate = result.dataDate;
+
+    // Add new activities first so logic can point at them
+    accepted.filter(item => item.kind === 'added').forEach(item => {
+      const config = item.incoming!;
+      taskManager.addTask({
+        ...config,
+        id: generateUUID(),
+        dependencies: [],
+        dependencyLinks: {}
+      }, XerMerge.getSwimlaneId(taskManager, result, config.swimlaneId));
+    });
+
+    const byXerId = new Map(taskManager.getAllTasks().filter(task => task.xerTaskId).map(task => [task.xerTaskId!, task]));
+    const incomingXerIds = new Map(result.tasks.map(config => [config.id!, config.xerTaskId || '']));
+    accepted.filter(item => item.kind !== 'removed').forEach(item => {
+      const config = item.incoming!;
+      const task = byXerId.get(item.xerTaskId);
+      if (!task) return;
+
+      if (item.kind === 'changed') {
+        task.name = config.name;
+        task.setMilestoneType(config.milestoneType || null);
+        if (!task.isMilestone) task.duration = Math.max(1, config.duration);
+        task.startDate = XerMerge.getStartDate(task, config);
+        task.setConstraint(config.constraintType || null, config.constraintDate);
+        task.progress = config.progress || 0;
+        task.status = config.status || task.status;
+        task.setActuals(config.actualStart, config.actualFinish);
+        task.remainingDuration = config.remainingDuration ?? null;
+      }
+
+      // Replace links between P6 activities, keeping links to DingPlan-only tasks
+      task.dependencies
+        .filter(id => taskManager.getTask(id)?.xerTaskId)
+        .forEach(id => task.removeDependency(id));
+      (config.dependencies || []).forEach(id => {
+        const predecessor = byXerId.get(incomingXerIds.get(id) || '');
+        if (!predecessor || predecessor === task || task.dependencies.includes(predecessor.id)) return;
+        const link = XerMerge.getLink(config, id);
+        task.dependencies.push(predecessor.id);
+        task.setDependencyLink(predecessor.id, link.type, link.lag);
+      });
+    });
+
+    accepted.filter(item => item.kind === 'removed').forEach(item => {
+      const task = byXerId.get(item.xerTaskId);
+      if (!task) return;
+      taskManager.getAllTasks().forEach(other => other.removeDependency(task.id));
+      taskManager.removeTask(task.id);
+    });
+
+    return {
+      added: accepted.filter(item => item.kind === 'added').length,
+      removed: accepted.filter(item => item.kind === 'removed').length,
+      changed: accepted.filter(item => item.kind === 'changed').length
+    };
+  }
+
+  /**
+   * Start from the file, moved onto the task's next work day the way Task
+   * places it; a finish milestone's start may fall on a weekend
+   */
+  private static getStartDate(task: Task, config: TaskConfig): Date {
+    const date = new Date(config.startDate);
+    while (task.isNonWorkingDay(date)) {
+      date.setDate(date.getDate() + 1);
+    }
+    return date;
+  }
+
+  /**
+   * The swimlane for an added activity: the project's lane with the same
+   * name as its WBS node, else a new lane under the matching parent
+   */
+  private static getSwimlaneId(taskManager: TaskManager, result: XerImportResult, importedLaneId?: string): string | undefined {
+    const importedLane = result.swimlanes.find(lane => lane.id === importedLaneId);
+    if (!importedLane) return undefined;
+
+    const existing = taskManager.swimlanes.find(lane => lane.name.trim().toLowerCase() === importedLane.name.trim().toLowerCase());
+    if (existing) return existing.id;
+
+    const parentId = importedLane.parentId ? XerMerge.getSwimlaneId(taskManager, result, importedLane.parentId) : undefined;
+    const id = generateUUID();
+    taskManager.addSwimlane(id, importedLane.name, XerMerge.LANE_COLORS[taskManager.swimlanes.length % XerMerge.LANE_COLORS.length], parentId);
+    return id;
+  }
+
+  private static getLink(config: TaskConfig, predecessorId: string): DependencyLink {
+    return config.dependencyLinks?.[predecessorId] || { type: 'FS', lag: 0 };
+  }
+
+  /**
+   * Logic as sorted "task_id TYPE±lag" entries, so it compares regardless of order.
+   * Links to tasks that are not P6 activities are left out.
+   */
+  private static formatLogic(links: [string, DependencyLink][]): string {
+    return links
+      .filter(([xerTaskId]) => xerTaskId)
+      .map(([xerTaskId, link]) => `${xerTaskId} ${Task.formatDependencyLink(link)}`)
+      .sort()
+      .join(', ');
+  }
+
+  private static formatConstraint(type: string | null, date: Date | string | null | undefined): string {
+    if (!type || !date) return 'none';
+    return `${type} ${XerMerge.formatDate(new Date(date))}`;
+  }
+
+  private static formatType(type: Task['milestoneType']): string {
+    return type ? MILESTONE_LABELS[type] : 'Task';
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  private static dayOf(date: Date): Date {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day;
+  }
+}
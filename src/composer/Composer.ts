@@ -1,5 +1,7 @@
 import { Canvas } from '../Canvas';
 import { Trades } from '../Trades';
+import { Task } from '../Task';
+import { CriticalPath } from '../CriticalPath';
 import { getTemplate, getTemplateNames, findTemplateMatches, TEMPLATES } from './Templates';
 import { WBSTemplate, getWBSTemplate, getWBSTemplateIds, getWBSTemplateNames, findBestMatchingWBSTemplate, getAllWBSTemplates } from './WBSTemplates';
 import crypto from 'crypto';
@@ -227,6 +229,7 @@ class Composer {
           
           // Auto-schedule, render, save
           this.autoSchedule();
+          this.canvas.taskManager.history?.commit('AI Composer schedule');
           this.canvas.render();
           if (this.canvas.saveCurrentProject) {
             await this.canvas.saveCurrentProject();
@@ -857,47 +860,55 @@ SEQUENCING: foundations→structure→rough-in (FP→HVAC→plumb→elec)→insu
       // Log the function call for debugging
       this.debug(`Function call: ${functionName}`, args);
       
-      switch (functionName) {
-        case "createTask":
-          return await this.createTask(args);
-        case "createMultipleTasks":
-          return await this.createMultipleTasks(args);
-        case "createTaskSequence":
-          return await this.createTaskSequence(args);
-        case "createFromTemplate":
-          return await this.createFromTemplate(args);
-        case "listTemplates":
-          return this.listTemplates();
-        case "addDependency":
-          return this.addDependency(args);
-        case "listTasks":
-          return this.listTasks(args);
-        case "deleteTask":
-          return this.deleteTask(args);
-        case "listSwimlanes":
-          return this.listSwimlanes();
-        case "createSwimlane":
-          return this.createSwimlane(args);
-        case "updateSwimlane":
-          return this.updateSwimlane(args);
-        case "reorderSwimlanes":
-          return this.reorderSwimlanes(args);
-        case "adjustPlan":
-          return this.adjustPlan(args);
-        case "listWBSTemplates":
-          return this.listWBSTemplates(args);
-        case "applyWBSTemplate":
-          return await this.applyWBSTemplate(args);
-        case "customizeSwimlaneTemplate":
-          return await this.customizeSwimlaneTemplate(args);
-        default:
-          return `Unknown function: ${functionName}`;
-      }
+      const result = await this.executeFunction(functionName, args);
+      
+      // Record the whole bulk operation as a single undo step
+      this.canvas.taskManager.history?.commit(`AI Composer: ${functionName}`);
+      return result;
     } catch (error) {
       return this.handleError("executing function", error);
     }
   }
   
+  private async executeFunction(functionName: string, args: any): Promise<string> {
+    switch (functionName) {
+      case "createTask":
+        return await this.createTask(args);
+      case "createMultipleTasks":
+        return await this.createMultipleTasks(args);
+      case "createTaskSequence":
+        return await this.createTaskSequence(args);
+      case "createFromTemplate":
+        return await this.createFromTemplate(args);
+      case "listTemplates":
+        return this.listTemplates();
+      case "addDependency":
+        return this.addDependency(args);
+      case "listTasks":
+        return this.listTasks(args);
+      case "deleteTask":
+        return this.deleteTask(args);
+      case "listSwimlanes":
+        return this.listSwimlanes();
+      case "createSwimlane":
+        return this.createSwimlane(args);
+      case "updateSwimlane":
+        return this.updateSwimlane(args);
+      case "reorderSwimlanes":
+        return this.reorderSwimlanes(args);
+      case "adjustPlan":
+        return this.adjustPlan(args);
+      case "listWBSTemplates":
+        return this.listWBSTemplates(args);
+      case "applyWBSTemplate":
+        return await this.applyWBSTemplate(args);
+      case "customizeSwimlaneTemplate":
+        return await this.customizeSwimlaneTemplate(args);
+      default:
+        return `Unknown function: ${functionName}`;
+    }
+  }
+  
   // Fix the customizeSwimlaneTemplate method to avoid accessing private properties
   async customizeSwimlaneTemplate(args: any): Promise<string> {
     try {
@@ -2203,49 +2214,20 @@ SEQUENCING: foundations→structure→rough-in (FP→HVAC→plumb→elec)→insu
       const tasks = this.canvas.taskManager.getAllTasks();
       if (!tasks || tasks.length === 0) return;
 
-      // Build dependency graph
-      const taskMap = new Map<string, any>();
-      tasks.forEach((t: any) => taskMap.set(t.id, t));
-
-      // Topological sort + forward pass
-      const visited = new Set<string>();
-      const scheduled = new Set<string>();
-      
-      const scheduleTask = (task: any) => {
-        if (scheduled.has(task.id)) return;
-        if (visited.has(task.id)) return; // cycle protection
-        visited.add(task.id);
-
-        // Schedule predecessors first
-        if (task.dependencies && task.dependencies.length > 0) {
-          task.dependencies.forEach((depId: string) => {
-            const dep = taskMap.get(depId);
-            if (dep) scheduleTask(dep);
-          });
-        }
-
-        // Calculate start date
-        if (task.dependencies && task.dependencies.length > 0) {
-          let latestEnd = new Date(0);
-          task.dependencies.forEach((depId: string) => {
-            const dep = taskMap.get(depId);
-            if (dep) {
-              const depEnd = new Date(dep.startDate);
-              depEnd.setDate(depEnd.getDate() + (dep.duration || 1));
-              if (depEnd > latestEnd) latestEnd = depEnd;
-            }
-          });
-          if (latestEnd.getTime() > 0) {
-            task.startDate = latestEnd;
-          }
+      // Forward pass from the CPM engine (business days, weekend settings per task)
+      const { results, cyclicTaskIds } = new CriticalPath(tasks).calculate();
+      tasks.forEach((task: Task) => {
+        const result = results.get(task.id);
+        if (result) {
+          // Tasks with no dependencies keep their current start date (today)
+          task.startDate = new Date(result.earlyStart);
         }
-        // Tasks with no dependencies keep their current start date (today)
-        
-        scheduled.add(task.id);
-      };
+      });
 
-      tasks.forEach((t: any) => scheduleTask(t));
-      this.debug(`Auto-scheduled ${scheduled.size} tasks`);
+      if (cyclicTaskIds.length > 0) {
+        this.debug(`Skipped ${cyclicTaskIds.length} tasks in dependency loops`);
+      }
+      this.debug(`Auto-scheduled ${results.size} tasks`);
     } catch (error) {
       console.error('Auto-schedule error:', error);
     }
@@ -2463,7 +2445,7 @@ SEQUENCING: foundations→structure→rough-in (FP→HVAC→plumb→elec)→insu
             return "scaleFactor is required for scaling durations.";
           }
           
-          tasksToModify.forEach(task => {
+          tasksToModify.filter(task => !task.isMilestone).forEach(task => {
             task.duration = Math.max(1, Math.round(task.duration * scaleFactor));
           });
           
@@ -18,6 +18,7 @@ export interface WBSTemplate {
   description: string; // Brief description of this template
   projectTypes: string[];  // For matching project types when users mention them
   categories: string[];    // These will become swimlanes
+  subcategories?: Record<string, string[]>; // Nested WBS levels under a category; these become child swimlanes
 }
 
 /**
@@ -40,7 +41,11 @@ export const WBS_TEMPLATES: WBSTemplate[] = [
       "Specialties & Equipment",
       "Site Work",
       "Commissioning & Close-out"
-    ]
+    ],
+    subcategories: {
+      "Mechanical Systems": ["HVAC", "Plumbing", "Fire Protection"],
+      "Electrical Systems": ["Power Distribution", "Lighting", "Low Voltage & Controls"]
+    }
   },
   {
     id: "residential_building",
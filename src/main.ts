@@ -1,8 +1,8 @@
 import { Canvas } from './Canvas';
-import { generateUUID } from './utils';
+import { ShareLink } from './ShareLink';
 import { authService } from './services/authService';
 import { authUI } from './services/authUI';
-import { importProjectFromURL } from './services/projectService';
+import { importProjectFromURL, loadSharedProject, SharePasswordError } from './services/projectService';
 import { createWelcomeProject } from './services/onboarding';
 
 declare global {
@@ -89,6 +89,38 @@ function updateCanvasSize(canvasElement: HTMLCanvasElement, app: any, panelOpen:
   if (app) app.resize(canvasElement.width, canvasElement.height);
 }
 
+/**
+ * Open a share link published to the cloud, asking for its password if it
+ * has one. No account is needed; the database checks the token.
+ */
+async function openCloudShare(app: Canvas, token: string) {
+  let password: string | undefined;
+  for (;;) {
+    try {
+      const revision = await loadSharedProject(token, password);
+      const { tasks, swimlanes, settings, baselines, activeBaselineId } = revision.data;
+      app.enterViewerMode(
+        { name: revision.name, state: { tasks: tasks || [], swimlanes: swimlanes || [], settings, baselines, activeBaselineId } },
+        { token, password, role: revision.role, revision: revision.revision }
+      );
+      return;
+    } catch (error) {
+      if (error instanceof SharePasswordError) {
+        const entered = prompt(password === undefined
+          ? 'This schedule is password protected. Enter the password:'
+          : 'Wrong password. Try again:');
+        if (entered === null) break;
+        password = entered;
+        continue;
+      }
+      console.error('Failed to open share link:', error);
+      alert('Could not open the share link: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      break;
+    }
+  }
+  window.history.replaceState({}, document.title, window.location.pathname);
+}
+
 document.addEventListener('DOMContentLoaded', async () => {
   // Initialize auth first
   console.log('Initializing DingPlan with Supabase auth...');
@@ -167,7 +199,7 @@ document.addEventListener('DOMContentLoaded', async () => {
   // Keyboard shortcut for composer
   document.addEventListener('keydown', (e) => {
     if (e.ctrlKey && e.code === 'Space') {
-      if (app && app.sidebar) {
+      if (app && app.sidebar && !app.readOnly) {
         app.sidebar.show?.('composer');
         e.preventDefault();
       }
@@ -189,57 +221,22 @@ document.addEventListener('DOMContentLoaded', async () => {
   // The Canvas constructor already sets up autosave with the new unified methods
   // No additional save handlers needed here anymore
   
-  // Check for shared project in URL
-  setTimeout(async () => {
-    const hash = window.location.hash;
-    if (hash.startsWith('#share=')) {
-      try {
-        const base64Data = hash.slice(7);
-        const jsonString = decodeURIComponent(atob(base64Data));
-        const projectData = JSON.parse(jsonString);
-        
-        if (app && app.taskManager) {
-          const existingTasks = app.taskManager.getAllTasks();
-          existingTasks.forEach((task: any) => {
-            app.taskManager.removeTask(task.id);
-          });
-          
-          if (projectData.swimlanes && Array.isArray(projectData.swimlanes)) {
-            projectData.swimlanes.forEach((sl: any) => {
-              app.taskManager.addSwimlane(sl.id || sl.name, sl.name, sl.color || '#3B82F6');
-            });
-          }
-          
-          if (projectData.tasks && Array.isArray(projectData.tasks)) {
-            projectData.tasks.forEach((taskData: any) => {
-              try {
-                app.taskManager.addTask({
-                  id: taskData.id || generateUUID(),
-                  name: taskData.name || 'Untitled Task',
-                  startDate: new Date(taskData.startDate),
-                  duration: taskData.duration || 1,
-                  crewSize: taskData.crewSize || 1,
-                  color: taskData.color || '#3B82F6',
-                  tradeId: taskData.tradeId || '',
-                  dependencies: taskData.dependencies || []
-                });
-              } catch (taskErr) {
-                console.error('Error loading shared task:', taskErr, taskData);
-              }
-            });
-          }
-          
-          app.render();
-          window.history.replaceState({}, document.title, window.location.pathname);
-          console.log(`Loaded shared project: ${projectData.name} with ${projectData.tasks?.length || 0} tasks`);
-          alert(`Loaded shared project: ${projectData.name}`);
-        }
-      } catch (error) {
-        console.error('Failed to load shared project:', error);
-        window.history.replaceState({}, document.title, window.location.pathname);
+  // Open a schedule from a share link, leaving the user's own project as it is
+  const shareToken = new URLSearchParams(window.location.search).get('s');
+  if (shareToken) {
+    await openCloudShare(app, shareToken);
+  } else {
+    try {
+      const sharedProject = await ShareLink.parseHash(window.location.hash);
+      if (sharedProject) {
+        app.enterViewerMode(sharedProject);
       }
+    } catch (error) {
+      console.error('Failed to load shared project:', error);
+      alert('Could not open the share link: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      window.history.replaceState({}, document.title, window.location.pathname + window.location.search);
     }
-  }, 1000);
+  }
 });
 
 window.forceSave = function() {
@@ -139,6 +139,8 @@ export function createWelcomeProject(canvas: any): void {
       nameInput.value = 'Tenant Improvement — Suite 200';
     }
 
+    canvas.taskManager.history?.reset();
+
     // Render the canvas
     canvas.render();
   }
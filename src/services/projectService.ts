@@ -14,10 +14,22 @@ export interface ProjectData {
   tasks: any[];
   swimlanes?: any[];
   settings?: any;
+  baselines?: any[];
+  activeBaselineId?: string | null;
 }
 
 const STORAGE_KEY = 'dingplan_projects';
 
+/**
+ * Thrown when a cloud save is based on an older revision of the project than
+ * the one saved, e.g. after edits through a share link. Saving anyway would
+ * throw those edits away.
+ */
+export class ProjectConflictError extends Error {}
+
+// Cloud revision each project was last loaded or saved at, by project ID
+const cloudRevisions = new Map<string, number>();
+
 // Local Storage functions
 function getProjectIndex(): ProjectMetadata[] {
   try {
@@ -66,10 +78,27 @@ function deleteProjectFromLocalStorage(id: string): boolean {
 
 // === Supabase functions ===
 
-async function saveProjectToSupabase(project: ProjectData): Promise<string> {
+async function saveProjectToSupabase(project: ProjectData, overwrite: boolean): Promise<string> {
   const user = authService.getCurrentUser();
   if (!user) throw new Error('User not authenticated');
   
+  // Only write over the revision this tab has; the database bumps it on every save
+  const revision = cloudRevisions.get(project.id);
+  if (revision !== undefined && !overwrite) {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ name: project.name, data: project })
+      .eq('id', project.id)
+      .eq('user_id', user.id)
+      .eq('revision', revision)
+      .select('id, revision');
+    
+    if (error) throw new Error(`Failed to save project: ${error.message}`);
+    if (data.length === 0) throw new ProjectConflictError('The project was changed elsewhere since it was opened');
+    cloudRevisions.set(data[0].id, data[0].revision);
+    return data[0].id;
+  }
+  
   const { data, error } = await supabase
     .from('projects')
     .upsert({
@@ -78,10 +107,11 @@ async function saveProjectToSupabase(project: ProjectData): Promise<string> {
       name: project.name,
       data: project
     })
-    .select()
+    .select('id, revision')
     .single();
   
   if (error) throw new Error(`Failed to save project: ${error.message}`);
+  cloudRevisions.set(data.id, data.revision);
   return data.id;
 }
 
@@ -101,6 +131,7 @@ async function loadProjectFromSupabase(id: string): Promise<ProjectData | null>
     return null;
   }
   
+  cloudRevisions.set(data.id, data.revision);
   return data.data;
 }
 
@@ -163,7 +194,7 @@ export async function syncLocalToCloud(): Promise<void> {
         // Check if project already exists in cloud
         const cloudProject = await loadProjectFromSupabase(project.id);
         if (!cloudProject) {
-          await saveProjectToSupabase(project);
+          await saveProjectToSupabase(project, false);
           syncCount++;
           console.log(`Synced project "${project.name}" to cloud`);
         }
@@ -196,13 +227,18 @@ export async function listProjects(): Promise<ProjectMetadata[]> {
   );
 }
 
-export async function saveProject(project: ProjectData): Promise<string> {
+/**
+ * Save a project to the cloud when signed in, else to localStorage
+ * @param overwrite Save over newer changes made elsewhere instead of throwing ProjectConflictError
+ */
+export async function saveProject(project: ProjectData, overwrite: boolean = false): Promise<string> {
   const user = authService.getCurrentUser();
   
   if (user) {
     try {
-      return await saveProjectToSupabase(project);
+      return await saveProjectToSupabase(project, overwrite);
     } catch (error) {
+      if (error instanceof ProjectConflictError) throw error;
       console.error('Failed to save to cloud, saving locally:', error);
     }
   }
@@ -292,4 +328,229 @@ export async function downloadProjectJSON(projectId: string): Promise<void> {
   a.download = `${project?.name || 'project'}.dingplan.json`;
   a.click();
   URL.revokeObjectURL(url);
+}
+
+// === Cloud share links ===
+
+export type ShareRole = 'view' | 'comment' | 'edit';
+
+export interface ProjectShare {
+  id: string;
+  token: string;
+  role: ShareRole;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  createdAt: string;
+}
+
+export interface SharedRevision {
+  name: string;
+  data: ProjectData;
+  role: ShareRole;
+  expiresAt: string | null;
+  /** Project revision the data was saved at; edits are saved against it */
+  revision: number;
+}
+
+/** A share link opened in this tab, with the password that unlocked it */
+export interface ShareSession {
+  token: string;
+  password?: string;
+  role: ShareRole;
+  /** Project revision the schedule on screen is based on */
+  revision: number;
+}
+
+export interface ShareComment {
+  id: string;
+  shareId: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Thrown when a share link is password protected and the password is
+ * missing or wrong
+ */
+export class SharePasswordError extends Error {}
+
+// Postgres invalid_password, raised by open_project_share
+const INVALID_PASSWORD = '28P01';
+
+// Postgres serialization_failure, raised by save_project_share for an outdated revision
+const REVISION_CONFLICT = '40001';
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/?s=${token}`;
+}
+
+/**
+ * Publish the saved cloud copy of a project. Recipients open the revision
+ * saved at this moment, with the given role, until it expires or is revoked.
+ * Edit links always open the project as last saved.
+ * @returns The share token
+ */
+export async function createProjectShare(
+  projectId: string,
+  options: { role: ShareRole; expiresAt: Date | null; password: string }
+): Promise<string> {
+  if (!authService.getCurrentUser()) throw new Error('Sign in to publish share links');
+
+  const { data, error } = await supabase.rpc('create_project_share', {
+    share_project_id: projectId,
+    share_role: options.role,
+    share_expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+    share_password: options.password || null
+  });
+
+  if (error) throw new Error(`Failed to publish project: ${error.message}`);
+  return data as string;
+}
+
+export async function listProjectShares(projectId: string): Promise<ProjectShare[]> {
+  const user = authService.getCurrentUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('project_shares')
+    .select('id, token, role, expires_at, has_password, created_at')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to list share links:', error.message);
+    return [];
+  }
+
+  return data.map(s => ({
+    id: s.id,
+    token: s.token,
+    role: s.role,
+    expiresAt: s.expires_at,
+    hasPassword: s.has_password,
+    createdAt: s.created_at
+  }));
+}
+
+export async function deleteProjectShare(shareId: string): Promise<boolean> {
+  const user = authService.getCurrentUser();
+  if (!user) return false;
+
+  const { error } = await supabase
+    .from('project_shares')
+    .delete()
+    .eq('id', shareId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Failed to revoke share link:', error.message);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Set or change the password of a share link; an empty password removes it.
+ * The database hashes it, like passwords given when publishing.
+ */
+export async function setProjectSharePassword(shareId: string, password: string): Promise<boolean> {
+  if (!authService.getCurrentUser()) return false;
+
+  const { error } = await supabase.rpc('set_project_share_password', {
+    share_id: shareId,
+    share_password: password || null
+  });
+
+  if (error) {
+    console.error('Failed to change the share link password:', error.message);
+    return false;
+  }
+
+  return true;
+}
+
+export async function listShareComments(shareIds: string[]): Promise<ShareComment[]> {
+  if (!authService.getCurrentUser() || shareIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('project_share_comments')
+    .select('*')
+    .in('share_id', shareIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load share comments:', error.message);
+    return [];
+  }
+
+  return data.map(c => ({
+    id: c.id,
+    shareId: c.share_id,
+    author: c.author,
+    body: c.body,
+    createdAt: c.created_at
+  }));
+}
+
+/**
+ * Load the revision behind a share token. Works signed out; the token and
+ * password are checked by the database.
+ */
+export async function loadSharedProject(token: string, password?: string): Promise<SharedRevision> {
+  const { data, error } = await supabase
+    .rpc('get_project_share', { share_token: token, share_password: password || null })
+    .single();
+
+  if (error) {
+    if (error.code === INVALID_PASSWORD) throw new SharePasswordError(error.message);
+    throw new Error(error.message);
+  }
+
+  const share = data as { name: string; data: ProjectData; role: ShareRole; expires_at: string | null; revision: number };
+  return { name: share.name, data: share.data, role: share.role, expiresAt: share.expires_at, revision: share.revision };
+}
+
+/**
+ * Save changes made through a share link with the edit role back to the
+ * owner's project
+ * @param revision The project revision the changes are based on
+ * @returns The project's new revision
+ * @throws ProjectConflictError when the project was saved since that revision
+ */
+export async function saveSharedProject(
+  token: string,
+  password: string | undefined,
+  project: ProjectData,
+  revision: number
+): Promise<number> {
+  const { data, error } = await supabase.rpc('save_project_share', {
+    share_token: token,
+    share_password: password || null,
+    share_data: project,
+    share_revision: revision
+  });
+
+  if (error) {
+    if (error.code === REVISION_CONFLICT) throw new ProjectConflictError(error.message);
+    throw new Error(`Failed to save shared project: ${error.message}`);
+  }
+  return data as number;
+}
+
+export async function addShareComment(
+  token: string,
+  password: string | undefined,
+  comment: { author: string; body: string }
+): Promise<void> {
+  const { error } = await supabase.rpc('add_project_share_comment', {
+    share_token: token,
+    share_password: password || null,
+    comment_author: comment.author,
+    comment_body: comment.body
+  });
+
+  if (error) throw new Error(`Failed to add comment: ${error.message}`);
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for work calendars and their XER clndr_data encoding
+ */
+
+import { Calendars, WorkCalendar } from '../Calendars';
+import { XerCalendarData } from '../XerCalendarData';
+import { Task } from '../Task';
+import { describe, expect, test, beforeEach } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+const SHUTDOWN: WorkCalendar = {
+  id: 'shutdown',
+  name: 'Site calendar',
+  workWeek: [false, true, true, true, true, true, true],
+  holidays: ['2025-01-08'],
+  exceptions: [
+    { name: 'Shutdown', start: '2025-01-13', end: '2025-01-15', working: false },
+    { name: 'Sunday pour', start: '2025-01-19', end: '2025-01-19', working: true }
+  ]
+};
+
+describe('Calendars', () => {
+  beforeEach(() => {
+    Calendars.reset();
+  });
+
+  test('skips holidays and shutdowns when computing end dates', () => {
+    Calendars.saveCalendar(SHUTDOWN);
+    const task = new Task({ name: 'Pour', startDate: new Date(MONDAY), duration: 3, calendarId: 'shutdown' });
+
+    // Mon, Tue, skip Wed holiday, Thu
+    expect(task.getEndDate()).toEqual(new Date(2025, 0, 10));
+  });
+
+  test('works Saturdays and working exceptions from the calendar', () => {
+    Calendars.saveCalendar(SHUTDOWN);
+    const task = new Task({ name: 'Frame', startDate: new Date(2025, 0, 16), duration: 4, calendarId: 'shutdown' });
+
+    // Thu, Fri, Sat, Sun (working exception)
+    expect(task.getEndDate()).toEqual(new Date(2025, 0, 20));
+  });
+
+  test('resolves task, then swimlane, then project calendar', () => {
+    Calendars.saveCalendar(SHUTDOWN);
+    Calendars.saveCalendar({ ...SHUTDOWN, id: 'lane', name: 'Lane calendar' });
+    Calendars.setSwimlaneCalendar('zone-a', 'lane');
+
+    expect(Calendars.resolve('shutdown', 'zone-a').id).toBe('shutdown');
+    expect(Calendars.resolve(null, 'zone-a').id).toBe('lane');
+    expect(Calendars.resolve(null, 'zone-b').id).toBe(Calendars.STANDARD_ID);
+  });
+
+  test('falls back to the standard calendar when a calendar is removed', () => {
+    Calendars.saveCalendar(SHUTDOWN);
+    Calendars.setProjectCalendar('shutdown');
+    Calendars.removeCalendar('shutdown');
+
+    expect(Calendars.getProjectCalendar().id).toBe(Calendars.STANDARD_ID);
+  });
+});
+
+describe('XerCalendarData', () => {
+  test('round-trips work week, holidays and exceptions', () => {
+    const decoded = XerCalendarData.decode(XerCalendarData.encode(SHUTDOWN), 'xer-1', 'Site calendar')!;
+
+    expect(decoded.workWeek).toEqual(SHUTDOWN.workWeek);
+    expect(decoded.holidays).toEqual(['2025-01-08']);
+    expect(decoded.exceptions.map(e => [e.start, e.end, e.working])).toEqual([
+      ['2025-01-13', '2025-01-15', false],
+      ['2025-01-19', '2025-01-19', true]
+    ]);
+  });
+
+  test('reads clndr_data written by P6', () => {
+    const data = '(0||CalendarData()(\x7f\x7f(0||DaysOfWeek()(\x7f\x7f(0||1()())\x7f\x7f' +
+      '(0||2()(\x7f\x7f(0||0(s|08:00|f|12:00)())\x7f\x7f(0||1(s|13:00|f|17:00)())))\x7f\x7f' +
+      '(0||3()((0||0(s|08:00|f|16:00)())))(0||4()((0||0(s|08:00|f|16:00)())))' +
+      '(0||5()((0||0(s|08:00|f|16:00)())))(0||6()((0||0(s|08:00|f|16:00)())))(0||7()())))\x7f\x7f' +
+      '(0||VIEW(ShowTotal|Y)())\x7f\x7f(0||Exceptions()(\x7f\x7f(0||0(d|45658)())))))';
+
+    const decoded = XerCalendarData.decode(data, 'xer-1', 'Standard')!;
+
+    expect(decoded.workWeek).toEqual([false, true, true, true, true, true, false]);
+    expect(decoded.holidays).toEqual(['2025-01-01']);
+  });
+
+  test('returns null for data without a work week', () => {
+    expect(XerCalendarData.decode('', 'xer-1', 'Empty')).toBe(null);
+  });
+});
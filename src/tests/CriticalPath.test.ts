@@ -0,0 +1,226 @@
+/**
+ * Unit tests for the CriticalPath engine
+ */
+
+import { CriticalPath } from '../CriticalPath';
+import { Task } from '../Task';
+import { describe, expect, test } from '@jest/globals';
+import { day, createTask } from './scheduleHelpers';
+
+describe('CriticalPath', () => {
+  test('computes early and late dates for a simple chain', () => {
+    const tasks = [
+      createTask('a', 2),
+      createTask('b', 3, ['a']),
+      createTask('c', 1, ['b'])
+    ];
+
+    const { results, projectFinish, criticalTaskIds } = new CriticalPath(tasks).calculate();
+
+    expect(results.get('a')!.earlyStart).toEqual(day(0));
+    expect(results.get('a')!.earlyFinish).toEqual(day(2));
+    expect(results.get('b')!.earlyStart).toEqual(day(2));
+    // B works Wed, Thu, Fri and finishes into the next Monday
+    expect(results.get('b')!.earlyFinish).toEqual(day(7));
+    expect(results.get('c')!.earlyFinish).toEqual(day(8));
+    expect(projectFinish).toEqual(day(8));
+    expect(criticalTaskIds).toEqual(['a', 'b', 'c']);
+  });
+
+  test('computes total and free float on a parallel branch', () => {
+    const tasks = [
+      createTask('start', 1),
+      createTask('long', 5, ['start']),
+      createTask('short', 2, ['start']),
+      createTask('finish', 1, ['long', 'short'])
+    ];
+
+    const { results } = new CriticalPath(tasks).calculate();
+    const short = results.get('short')!;
+
+    expect(short.totalFloat).toBe(3);
+    expect(short.freeFloat).toBe(3);
+    expect(short.isCritical).toBe(false);
+    expect(short.lateStart).toEqual(day(4));
+    expect(results.get('long')!.totalFloat).toBe(0);
+    expect(results.get('finish')!.isCritical).toBe(true);
+  });
+
+  test('free float is zero when a successor has other drivers', () => {
+    const tasks = [
+      createTask('a', 1),
+      createTask('b', 3, ['a']),
+      createTask('c', 1, ['a']),
+      createTask('d', 1, ['c']),
+      createTask('e', 1, ['b', 'd'])
+    ];
+
+    const { results } = new CriticalPath(tasks).calculate();
+
+    // C can slip one day before it delays the project, but not without delaying D
+    expect(results.get('c')!.totalFloat).toBe(1);
+    expect(results.get('c')!.freeFloat).toBe(0);
+    expect(results.get('b')!.totalFloat).toBe(0);
+  });
+
+  test('respects weekend work settings', () => {
+    const a = createTask('a', 5);
+    a.workOnSaturday = true;
+    const b = createTask('b', 1, ['a']);
+
+    const { results } = new CriticalPath([a, b]).calculate();
+
+    // A's fifth work day after Monday is Saturday, which B does not work
+    expect(results.get('a')!.earlyFinish).toEqual(day(5));
+    expect(results.get('b')!.earlyStart).toEqual(day(7));
+  });
+
+  test('marks the links that drive each early start', () => {
+    const tasks = [
+      createTask('start', 1),
+      createTask('long', 5, ['start']),
+      createTask('short', 2, ['start']),
+      createTask('finish', 1, ['long', 'short'])
+    ];
+
+    const { drivingLinks } = new CriticalPath(tasks).calculate();
+
+    expect(drivingLinks.has(CriticalPath.linkKey('long', 'finish'))).toBe(true);
+    expect(drivingLinks.has(CriticalPath.linkKey('short', 'finish'))).toBe(false);
+    expect(drivingLinks.has(CriticalPath.linkKey('start', 'short'))).toBe(true);
+  });
+
+  test('applies start-to-start and finish-to-finish links with lag', () => {
+    const a = createTask('a', 5);
+    const b = createTask('b', 1, ['a']);
+    b.setDependencyLink('a', 'SS', 2);
+    const c = createTask('c', 2, ['a']);
+    c.setDependencyLink('a', 'FF', 0);
+
+    const { results } = new CriticalPath([a, b, c]).calculate();
+
+    expect(results.get('b')!.earlyStart).toEqual(day(2));
+    // C finishes with A on the following Monday, so it starts Thursday
+    expect(results.get('c')!.earlyFinish).toEqual(day(7));
+    expect(results.get('c')!.earlyStart).toEqual(day(3));
+  });
+
+  test('negative lag lets a successor start before its predecessor finishes', () => {
+    const a = createTask('a', 3);
+    const b = createTask('b', 1, ['a']);
+    b.setDependencyLink('a', 'FS', -1);
+
+    const { results, drivingLinks } = new CriticalPath([a, b]).calculate();
+
+    expect(results.get('b')!.earlyStart).toEqual(day(2));
+    expect(drivingLinks.has(CriticalPath.linkKey('a', 'b'))).toBe(true);
+  });
+
+  test('backward pass honours start-to-start links', () => {
+    const a = createTask('a', 5);
+    const b = createTask('b', 5, ['a']);
+    b.setDependencyLink('a', 'SS', 1);
+
+    const { results, projectFinish } = new CriticalPath([a, b]).calculate();
+
+    expect(projectFinish).toEqual(day(8));
+    expect(results.get('a')!.lateFinish).toEqual(day(7));
+    expect(results.get('a')!.isCritical).toBe(true);
+    expect(results.get('b')!.isCritical).toBe(true);
+  });
+
+  test('delays a task to its start-no-earlier-than date', () => {
+    const a = createTask('a', 2);
+    const b = createTask('b', 2, ['a']);
+    b.setConstraint('SNET', day(7));
+
+    const { results, constraintViolationIds } = new CriticalPath([a, b]).calculate();
+
+    expect(results.get('b')!.earlyStart).toEqual(day(7));
+    expect(results.get('a')!.freeFloat).toBe(3);
+    expect(constraintViolationIds).toEqual([]);
+  });
+
+  test('pins must-start-on tasks and flags predecessors that push them late', () => {
+    const a = createTask('a', 5);
+    const b = createTask('b', 1, ['a']);
+    b.setConstraint('MSO', day(2));
+
+    const { results, constraintViolationIds } = new CriticalPath([a, b]).calculate();
+
+    expect(results.get('b')!.earlyStart).toEqual(day(2));
+    expect(results.get('b')!.constraintViolated).toBe(true);
+    expect(constraintViolationIds).toEqual(['b']);
+  });
+
+  test('finish-no-later-than dates cap late finish and produce negative float', () => {
+    const a = createTask('a', 5);
+    const b = createTask('b', 3, ['a']);
+    // B must be done by Tuesday of the second week but works through Wednesday
+    b.setConstraint('FNLT', day(8));
+
+    const { results, constraintViolationIds } = new CriticalPath([a, b]).calculate();
+
+    expect(results.get('b')!.lateFinish).toEqual(day(9));
+    expect(results.get('b')!.totalFloat).toBe(-1);
+    expect(results.get('a')!.totalFloat).toBe(-1);
+    expect(constraintViolationIds).toEqual(['b']);
+  });
+
+  test('reports tasks in dependency loops instead of scheduling them', () => {
+    const tasks = [
+      createTask('a', 1),
+      createTask('b', 1, ['a', 'c']),
+      createTask('c', 1, ['b'])
+    ];
+
+    const { results, cyclicTaskIds } = new CriticalPath(tasks).calculate();
+
+    expect(results.has('a')).toBe(true);
+    expect(results.has('b')).toBe(false);
+    expect(cyclicTaskIds.sort()).toEqual(['b', 'c']);
+  });
+
+  test('schedules remaining work from the data date', () => {
+    const started = createTask('started', 5);
+    started.setActuals(day(0));
+    started.remainingDuration = 2;
+    const finished = createTask('finished', 3);
+    finished.setActuals(day(0), day(1));
+    const tasks = [started, finished, createTask('next', 1, ['started']), createTask('late', 1)];
+
+    // Data date is Wednesday
+    const { results } = new CriticalPath(tasks, day(2)).calculate();
+
+    expect(results.get('started')!.earlyStart).toEqual(day(0));
+    expect(results.get('started')!.earlyFinish).toEqual(day(4));
+    expect(results.get('next')!.earlyStart).toEqual(day(4));
+    expect(results.get('finished')!.earlyFinish).toEqual(day(2));
+    expect(results.get('finished')!.isCritical).toBe(false);
+    expect(results.get('late')!.earlyStart).toEqual(day(2));
+  });
+
+  test('schedules zero-duration milestones in the chain', () => {
+    const a = createTask('a', 2);
+    const done = new Task({ id: 'done', name: 'DONE', startDate: day(2), duration: 5, dependencies: ['a'], milestoneType: 'finish' });
+    const b = createTask('b', 3, ['done']);
+
+    const { results, criticalTaskIds } = new CriticalPath([a, done, b]).calculate();
+
+    expect(done.duration).toBe(0);
+    expect(results.get('done')!.earlyStart).toEqual(day(2));
+    expect(results.get('done')!.earlyFinish).toEqual(day(2));
+    expect(results.get('b')!.earlyStart).toEqual(day(2));
+    expect(criticalTaskIds).toContain('done');
+    expect(done.getMilestoneDate()).toEqual(day(1));
+  });
+
+  test('ignores dependencies on tasks outside the set', () => {
+    const tasks = [createTask('a', 2, ['missing'])];
+
+    const { results } = new CriticalPath(tasks).calculate();
+
+    expect(results.get('a')!.earlyStart).toEqual(day(0));
+    expect(results.get('a')!.totalFloat).toBe(0);
+  });
+});
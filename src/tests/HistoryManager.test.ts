@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the undo/redo history
+ */
+
+import { HistoryManager } from '../HistoryManager';
+import { Trades } from '../Trades';
+import { describe, expect, test, beforeEach } from '@jest/globals';
+
+describe('HistoryManager', () => {
+  let state: string[];
+  let history: HistoryManager;
+
+  beforeEach(() => {
+    state = [];
+    history = new HistoryManager(
+      () => JSON.stringify(state),
+      snapshot => { state = JSON.parse(snapshot); },
+      3
+    );
+    history.reset();
+  });
+
+  test('undoes and redoes committed edits in order', () => {
+    state.push('a');
+    history.commit('Add a');
+    state.push('b');
+    history.commit('Add b');
+
+    expect(history.undo()).toBe('Add b');
+    expect(state).toEqual(['a']);
+    expect(history.undo()).toBe('Add a');
+    expect(state).toEqual([]);
+    expect(history.undo()).toBeNull();
+
+    expect(history.redo()).toBe('Add a');
+    expect(history.redo()).toBe('Add b');
+    expect(state).toEqual(['a', 'b']);
+  });
+
+  test('skips commits that change nothing', () => {
+    expect(history.commit('Click')).toBe(false);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  test('a new edit clears the redo stack', () => {
+    state.push('a');
+    history.commit('Add a');
+    history.undo();
+    state.push('c');
+    history.commit('Add c');
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBe('Add c');
+    expect(state).toEqual([]);
+  });
+
+  test('drops the oldest steps past the size limit', () => {
+    ['a', 'b', 'c', 'd'].forEach(item => {
+      state.push(item);
+      history.commit(`Add ${item}`);
+    });
+
+    history.undo();
+    history.undo();
+    history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(state).toEqual(['a']);
+  });
+
+  test('uncommitted edits are recorded before undoing', () => {
+    state.push('a');
+    history.undo();
+    expect(state).toEqual([]);
+
+    history.redo();
+    expect(state).toEqual(['a']);
+  });
+
+  test('reports changes to the recorded schedule', () => {
+    let changes = 0;
+    history.onChange = () => { changes++; };
+
+    history.commit('Click');
+    expect(changes).toBe(0);
+    state.push('a');
+    history.commit('Add a');
+    history.undo();
+    history.redo();
+    expect(changes).toBe(3);
+  });
+
+  test('undoes a trade delete', () => {
+    const trades = new HistoryManager(
+      () => JSON.stringify(Trades.exportState()),
+      snapshot => Trades.importState(JSON.parse(snapshot))
+    );
+    trades.reset();
+    Trades.getTradeById('framing')!.capacity = 4;
+    trades.commit('Change trade capacity');
+    Trades.removeTrade('framing');
+    trades.commit('Delete trade');
+
+    expect(trades.undo()).toBe('Delete trade');
+    expect(Trades.getTradeById('framing')?.capacity).toBe(4);
+    expect(trades.undo()).toBe('Change trade capacity');
+    expect(Trades.getTradeById('framing')?.capacity).toBeUndefined();
+  });
+});
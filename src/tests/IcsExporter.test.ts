@@ -0,0 +1,59 @@
+/**
+ * Unit tests for exporting tasks to iCalendar files
+ */
+
+import { IcsExporter } from '../IcsExporter';
+import { Task } from '../Task';
+import { describe, expect, test } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+function createTaskManager(): any {
+  const pour = new Task({ id: 'pour', name: 'Pour slab, level 1', startDate: new Date(MONDAY), duration: 2, crewSize: 4, tradeId: 'concrete' });
+  const wire = new Task({ id: 'wire', name: 'Pull wire', startDate: new Date(2025, 0, 8), duration: 3, tradeId: 'electrical' });
+  const done = new Task({ id: 'done', name: 'Slab done', startDate: new Date(2025, 0, 8), duration: 0, milestoneType: 'finish', tradeId: 'concrete' });
+  const swimlanes = [
+    { id: 'site', name: 'Site', tasks: [pour, done] },
+    { id: 'level-1', name: 'Level 1', parentId: 'site', tasks: [wire] }
+  ];
+  return { swimlanes, getAllTasks: () => [pour, wire, done] };
+}
+
+describe('IcsExporter', () => {
+  test('writes an all-day event per task, flagging milestones', () => {
+    const exporter = new IcsExporter(new Date(Date.UTC(2025, 0, 2, 9, 30)));
+    const ics = exporter.exportTasks(createTaskManager(), { calendarName: 'Tower - Concrete', tradeId: 'concrete' });
+    const lines = ics.split('\r\n');
+
+    expect(lines.slice(0, 6)).toEqual([
+      'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//DingPlan//Construction Schedule//EN',
+      'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', 'X-WR-CALNAME:Tower - Concrete'
+    ]);
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual(['UID:pour@dingplan', 'UID:done@dingplan']);
+    expect(lines).toContain('DTSTAMP:20250102T093000Z');
+    expect(lines).toContain('SUMMARY:Pour slab\\, level 1');
+    // The exclusive end of a two-day task is the day after it finishes
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250106');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250108');
+    // A finish milestone falls on the last work day before its start
+    expect(lines).toContain('SUMMARY:◆ Slab done');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250107');
+    expect(lines).toContain('CATEGORIES:Milestone,Concrete');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  test('filters by swimlane including nested swimlanes, and folds long lines', () => {
+    const taskManager = createTaskManager();
+    const exporter = new IcsExporter();
+
+    expect(exporter.getTasks(taskManager, { swimlaneId: 'site' }).map(task => task.id)).toEqual(['pour', 'wire', 'done']);
+    expect(exporter.getTasks(taskManager, { swimlaneId: 'level-1' }).map(task => task.id)).toEqual(['wire']);
+
+    taskManager.getAllTasks()[1].name = 'Pull wire '.repeat(10);
+    const lines = exporter.exportTasks(taskManager, { calendarName: 'Level 1', swimlaneId: 'level-1' }).split('\r\n');
+    const summary = lines.findIndex(line => line.startsWith('SUMMARY:'));
+    expect(lines[summary].length).toBe(75);
+    expect(lines[summary + 1].startsWith(' ')).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for successor rescheduling
+ */
+
+import { Rescheduler } from '../Rescheduler';
+import { CriticalPath } from '../CriticalPath';
+import { describe, expect, test } from '@jest/globals';
+import { day, createTask } from './scheduleHelpers';
+
+describe('Rescheduler', () => {
+  test('pushes the whole chain when a predecessor moves later', () => {
+    const a = createTask('a', 2, [], day(1));
+    const b = createTask('b', 1, ['a'], day(2));
+    const c = createTask('c', 1, ['b'], day(3));
+
+    const ripple = new Rescheduler([a, b, c]).calculateRipple(['a']);
+
+    // A works Tue and Wed, so B moves to Thu and C to Fri
+    expect(ripple.get('b')).toEqual(day(3));
+    expect(ripple.get('c')).toEqual(day(4));
+    expect(ripple.has('a')).toBe(false);
+  });
+
+  test('only pulls successors earlier when asked to', () => {
+    const a = createTask('a', 1);
+    const b = createTask('b', 1, ['a'], day(3));
+    const rescheduler = new Rescheduler([a, b]);
+
+    expect(rescheduler.calculateRipple(['a']).size).toBe(0);
+    expect(rescheduler.calculateRipple(['a'], true).get('b')).toEqual(day(1));
+  });
+
+  test('leaves Must Start On tasks where they are', () => {
+    const a = createTask('a', 3);
+    const b = createTask('b', 1, ['a'], day(1));
+    b.setConstraint('MSO', day(1));
+
+    expect(new Rescheduler([a, b]).calculateRipple(['a']).size).toBe(0);
+  });
+
+  test('flags links whose successor starts too early', () => {
+    const a = createTask('a', 3);
+    const b = createTask('b', 1, ['a'], day(1));
+    const c = createTask('c', 1, ['a'], day(3));
+
+    const violated = new Rescheduler([a, b, c]).getViolatedLinks();
+
+    expect(violated.has(CriticalPath.linkKey('a', 'b'))).toBe(true);
+    expect(violated.has(CriticalPath.linkKey('a', 'c'))).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for resource leveling against trade capacity
+ */
+
+import { ResourceLeveler } from '../ResourceLeveler';
+import { Task } from '../Task';
+import { Trades } from '../Trades';
+import { describe, expect, test, beforeEach } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+function day(offset: number): Date {
+  const date = new Date(MONDAY);
+  date.setDate(date.getDate() + offset);
+  return date;
+}
+
+function createTask(id: string, duration: number, dependencies: string[] = [], startDate: Date = MONDAY, tradeId: string = 'crane'): Task {
+  return new Task({
+    id,
+    name: id.toUpperCase(),
+    startDate: new Date(startDate),
+    duration,
+    dependencies,
+    tradeId,
+    crewSize: 2
+  });
+}
+
+describe('ResourceLeveler', () => {
+  beforeEach(() => {
+    Trades.addTrade({ id: 'crane', name: 'Crane', color: '#123456', capacity: 2 });
+  });
+
+  test('finds days where a trade is over capacity', () => {
+    const a = createTask('a', 2);
+    const b = createTask('b', 1, [], day(1));
+
+    const overloads = ResourceLeveler.findOverloads([a, b]);
+
+    expect(overloads).toHaveLength(1);
+    expect(overloads[0].date).toEqual(day(1));
+    expect(overloads[0].demand).toBe(4);
+    expect(overloads[0].capacity).toBe(2);
+  });
+
+  test('delays the task with float and explains why', () => {
+    // A (3 days) and C are critical; B (1 day) overlaps A and can finish as late as C
+    const a = createTask('a', 3);
+    const b = createTask('b', 1);
+    const c = createTask('c', 1, ['a'], day(3), 'other');
+
+    const { moves, unresolved } = new ResourceLeveler([a, b, c]).level();
+
+    expect(a.startDate).toEqual(MONDAY);
+    expect(b.startDate).toEqual(day(3));
+    expect(c.startDate).toEqual(day(3));
+    expect(unresolved).toHaveLength(0);
+    expect(moves.map(move => move.taskId)).toEqual(['b']);
+    expect(moves[0].delay).toBe(3);
+    expect(moves[0].reason).toContain('Crane over capacity');
+  });
+
+  test('reports overloads it cannot remove without delaying the project', () => {
+    const a = createTask('a', 2);
+    const b = createTask('b', 2);
+
+    const { moves, unresolved } = new ResourceLeveler([a, b]).level();
+
+    expect(moves).toHaveLength(0);
+    expect(unresolved).toHaveLength(2);
+    expect(a.startDate).toEqual(MONDAY);
+    expect(b.startDate).toEqual(MONDAY);
+  });
+});
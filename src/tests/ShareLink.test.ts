@@ -0,0 +1,59 @@
+/**
+ * Unit tests for packing schedules into share links
+ */
+
+import { ShareLink, SHARE_LINK_VERSION } from '../ShareLink';
+import { describe, expect, test } from '@jest/globals';
+
+function createProject() {
+  const tasks = Array.from({ length: 300 }, (_, i) => ({
+    id: `task-${i}`,
+    name: `Frame walls, unit ${i}`,
+    startDate: new Date(2025, 0, 6 + i).toISOString(),
+    duration: 3,
+    tradeId: 'framing',
+    dependencies: i > 0 ? [`task-${i - 1}`] : [],
+    swimlaneId: 'level-1'
+  }));
+  return {
+    name: 'Tower – Phase 1',
+    state: { tasks, swimlanes: [{ id: 'level-1', name: 'Level 1', tasks: tasks.map(task => task.id), taskPositions: {} }] }
+  };
+}
+
+describe('ShareLink', () => {
+  test('round-trips a schedule through a compact, URL-safe payload', async () => {
+    const project = createProject();
+    const encoded = await ShareLink.encode(project);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    // Repetitive schedules compress well below their JSON size
+    expect(encoded.length).toBeLessThan(JSON.stringify(project).length / 5);
+    expect(await ShareLink.parseHash(`#view=${encoded}`)).toEqual(project);
+    expect(await ShareLink.parseHash('#tasks')).toBeNull();
+  });
+
+  test('rejects unknown payload versions', async () => {
+    const encoded = await ShareLink.encode(createProject());
+    const bytes = Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+    expect(bytes[0]).toBe(SHARE_LINK_VERSION);
+
+    bytes[0] = SHARE_LINK_VERSION + 1;
+    const newer = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    await expect(ShareLink.decode(newer)).rejects.toThrow('Unsupported share link format 2');
+  });
+
+  test('still opens links in the old uncompressed format', async () => {
+    const legacy = {
+      id: 'abc',
+      name: 'Old link',
+      tasks: [{ id: 'pour', name: 'Pour slab', startDate: '2025-01-06T00:00:00.000Z', duration: 2, swimlaneId: 'site' }],
+      swimlanes: [{ id: 'site', name: 'Site', tasks: [{ id: 'pour', name: 'Pour slab' }], taskPositions: {} }]
+    };
+    const project = await ShareLink.parseHash(`#share=${btoa(encodeURIComponent(JSON.stringify(legacy)))}`);
+
+    expect(project!.name).toBe('Old link');
+    expect(project!.state.tasks).toEqual(legacy.tasks);
+    expect(project!.state.swimlanes[0].tasks).toEqual(['pour']);
+  });
+});
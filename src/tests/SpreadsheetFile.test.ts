@@ -0,0 +1,27 @@
+/**
+ * Unit tests for CSV reading and writing
+ */
+
+import { SpreadsheetFile } from '../SpreadsheetFile';
+import { describe, expect, test } from '@jest/globals';
+
+describe('SpreadsheetFile', () => {
+  test('round-trips quoted fields through CSV', () => {
+    const rows = [['Name', 'Notes'], ['Pour "slab"', 'Level 1, east\nwing'], ['Strip forms', '']];
+
+    const csv = SpreadsheetFile.toCsv(rows);
+
+    expect(SpreadsheetFile.parseCsv(csv)).toEqual(rows);
+  });
+
+  test('detects semicolon delimiters and skips blank lines', () => {
+    const rows = SpreadsheetFile.parseCsv('Name;Start;Duration\r\nFrame;2025-01-06;3\r\n;;\r\n');
+
+    expect(rows).toEqual([['Name', 'Start', 'Duration'], ['Frame', '2025-01-06', '3']]);
+  });
+
+  test('converts Excel day serials', () => {
+    expect(SpreadsheetFile.toExcelSerial(new Date(2025, 0, 6))).toBe(45663);
+    expect(SpreadsheetFile.fromExcelSerial(45663)).toEqual(new Date(2025, 0, 6));
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for recording canvas drawing as SVG
+ */
+
+import { SvgContext } from '../SvgContext';
+import { describe, expect, test } from '@jest/globals';
+
+describe('SvgContext', () => {
+  test('writes paths in output coordinates, with colors split from their opacity', () => {
+    const ctx = new SvgContext(200, 100);
+    ctx.setTransform(2, 0, 0, 2, 10, 20);
+    ctx.fillStyle = '#3b82f680';
+    ctx.fillRect(0, 0, 5, 5);
+
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    // A transform changed mid-path applies to the points that follow
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.lineTo(50, 50);
+    ctx.strokeStyle = 'rgba(200, 200, 200, 0.15)';
+    ctx.setLineDash([4, 2]);
+    ctx.stroke();
+
+    const svg = ctx.toSvg();
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100" viewBox="0 0 200 100">');
+    expect(svg).toContain('<path d="M10 20L20 20L20 30L10 30Z" fill="#3b82f6" fill-opacity="0.5"/>');
+    expect(svg).toContain('<path d="M10 20L50 50" fill="none" stroke="rgb(200, 200, 200)" stroke-opacity="0.15" stroke-width="1" stroke-dasharray="4 2"/>');
+  });
+
+  test('writes text with its font and alignment, and clips until restored', () => {
+    const ctx = new SvgContext(200, 100);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, 50, 50);
+    ctx.clip();
+    ctx.font = 'bold 15px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#1f2937';
+    ctx.fillText('Pour <slab>', 25, 25);
+    ctx.restore();
+    ctx.fillRect(0, 0, 1, 1);
+
+    const svg = ctx.toSvg();
+    expect(svg).toContain('<defs><clipPath id="clip1"><path d="M0 0L50 0L50 50L0 50Z"/></clipPath></defs>');
+    expect(svg).toContain('<text x="25" y="25" transform="matrix(1 0 0 1 0 0)" font-family="Inter, sans-serif" font-size="15" font-weight="bold" text-anchor="middle" dominant-baseline="central" fill="#1f2937" clip-path="url(#clip1)">Pour &lt;slab&gt;</text>');
+    expect(svg).toContain('<path d="M0 0L1 0L1 1L0 1Z" fill="#000000"/>');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for spreadsheet task table import
+ */
+
+import { TaskTable } from '../TaskTable';
+import { describe, expect, test } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+describe('TaskTable', () => {
+  test('reads MS Project style predecessors', () => {
+    expect(TaskTable.parsePredecessors('12FS+2, 14ss; 3FF-1, 7+3')).toEqual([
+      { key: '12', type: 'FS', lag: 2 },
+      { key: '14', type: 'SS', lag: 0 },
+      { key: '3', type: 'FF', lag: -1 },
+      { key: '7', type: 'FS', lag: 3 }
+    ]);
+    expect(TaskTable.parsePredecessors('')).toEqual([]);
+    expect(TaskTable.parsePredecessors('12 after lunch')).toBeNull();
+  });
+
+  test('guesses columns from headers', () => {
+    const mapping = TaskTable.guessMapping(['Task ID', 'Task Name', 'Start Date', 'Duration (days)', 'Resource Names', 'Predecessors']);
+
+    expect(mapping).toEqual({ id: 0, name: 1, start: 2, trade: 4, predecessors: 5, duration: 3 });
+  });
+
+  test('builds tasks with durations from finish dates and resolved links', () => {
+    const rows = [
+      ['ID', 'Name', 'Start', 'Finish', 'Predecessors'],
+      ['A1', 'Frame walls', '2025-01-06', '1/8/2025', ''],
+      ['A2', 'Rough plumbing', '45666', '2025-01-14', 'A1SS+1'],
+      ['A3', '', '2025-01-06', '2025-01-06', 'A9']
+    ];
+
+    const built = TaskTable.buildRows(rows, { id: 0, name: 1, start: 2, finish: 3, predecessors: 4 });
+
+    expect(built).toHaveLength(3);
+    expect(built[0].config.startDate).toEqual(MONDAY);
+    expect(built[0].config.duration).toBe(3);
+    expect(built[0].errors).toEqual([]);
+    // Excel serial 45666 is Thursday, January 9 2025
+    expect(built[1].config.duration).toBe(4);
+    expect(built[1].config.dependencies).toEqual([built[0].config.id]);
+    expect(built[1].config.dependencyLinks).toEqual({ [built[0].config.id!]: { type: 'SS', lag: 1 } });
+    expect(built[2].line).toBe(4);
+    expect(built[2].errors).toEqual(['Missing name', 'Unknown predecessor "A9"']);
+  });
+});
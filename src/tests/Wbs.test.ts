@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the WBS tree formed by swimlanes
+ */
+
+import { Wbs, WbsNode } from '../Wbs';
+import { Task } from '../Task';
+import { describe, expect, test } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+function day(offset: number): Date {
+  const date = new Date(MONDAY);
+  date.setDate(date.getDate() + offset);
+  return date;
+}
+
+function createTask(id: string, startDate: Date, duration: number, progress: number = 0, cost: number = 0): Task {
+  return new Task({ id, name: id.toUpperCase(), startDate: new Date(startDate), duration, progress, cost });
+}
+
+function node(id: string, parentId?: string, tasks: Task[] = []): WbsNode {
+  return { id, parentId, tasks };
+}
+
+describe('Wbs', () => {
+  test('orders children directly after their parent', () => {
+    const nodes = [node('a'), node('b'), node('a2', 'a'), node('b1', 'b'), node('a1', 'a'), node('a2x', 'a2')];
+
+    expect(Wbs.order(nodes).map(n => n.id)).toEqual(['a', 'a2', 'a2x', 'a1', 'b', 'b1']);
+    expect(Wbs.getDepth(nodes, nodes[5])).toBe(2);
+  });
+
+  test('orders records that only carry parent links', () => {
+    const lanes = [{ id: 'b', name: 'B' }, { id: 'a1', name: 'A1', parentId: 'a' }, { id: 'a', name: 'A' }];
+
+    expect(Wbs.order(lanes).map(lane => lane.name)).toEqual(['B', 'A', 'A1']);
+  });
+
+  test('drops parent links to missing nodes and loops', () => {
+    const nodes = [node('a', 'missing'), node('b', 'c'), node('c', 'b')];
+
+    const ordered = Wbs.order(nodes);
+
+    expect(ordered).toHaveLength(3);
+    expect(nodes[0].parentId).toBeUndefined();
+    expect(ordered.filter(n => !n.parentId)).toHaveLength(2);
+  });
+
+  test('hides everything under a collapsed node', () => {
+    const nodes = [node('a'), node('a1', 'a'), node('a1x', 'a1'), node('b')];
+    nodes[0].collapsed = true;
+
+    expect(Wbs.isHidden(nodes, nodes[0])).toBe(false);
+    expect(Wbs.isHidden(nodes, nodes[1])).toBe(true);
+    expect(Wbs.isHidden(nodes, nodes[2])).toBe(true);
+    expect(Wbs.isHidden(nodes, nodes[3])).toBe(false);
+  });
+
+  test('rolls up dates, cost and duration-weighted progress of a subtree', () => {
+    const nodes = [
+      node('a'),
+      node('a1', 'a', [createTask('t1', MONDAY, 2, 100, 1000)]),
+      node('a2', 'a', [createTask('t2', day(7), 6, 50, 500)]),
+      node('b', undefined, [createTask('t3', day(21), 1)])
+    ];
+
+    const rollup = Wbs.rollup(nodes, 'a')!;
+
+    expect(rollup.start).toEqual(MONDAY);
+    expect(rollup.finish).toEqual(day(15));
+    expect(rollup.cost).toBe(1500);
+    expect(rollup.progress).toBe(63);
+    expect(rollup.taskCount).toBe(2);
+    expect(Wbs.rollup(nodes, 'missing')).toBeNull();
+  });
+});
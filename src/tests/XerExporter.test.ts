@@ -0,0 +1,78 @@
+/**
+ * Unit tests for XER export, read back through the importer
+ */
+
+import { XerExporter } from '../XerExporter';
+import { XerImporter } from '../XerImporter';
+import { Task } from '../Task';
+import { describe, expect, test } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+function createTaskManager(tasks: Task[]): any {
+  const swimlanes = [{ id: 'site', name: 'Site', tasks }];
+  return {
+    swimlanes,
+    dataDate: null,
+    getAllTasks: () => tasks,
+    getTask: (id: string) => tasks.find(task => task.id === id)
+  };
+}
+
+describe('XerExporter', () => {
+  test('writes trades as resources and activity codes, and task fields as UDFs', () => {
+    const pour = new Task({
+      id: 'pour', name: 'Pour slab', startDate: new Date(MONDAY), duration: 2, crewSize: 4, tradeId: 'concrete',
+      tags: ['Level 1', 'Critical'], priority: 'high', notes: 'Pump truck\tbooked', customFields: { Area: 'North', Cost: 1200 }
+    });
+    const done = new Task({ id: 'done', name: 'Slab done', startDate: new Date(MONDAY), duration: 0, milestoneType: 'finish', tradeId: 'concrete' });
+    const tables = new XerExporter().buildTables(createTaskManager([pour, done]));
+
+    expect(tables.get('RSRC')!.rows.map(row => row[1])).toEqual(['Concrete']);
+    // Milestones take no resources
+    const assignments = tables.get('TASKRSRC')!;
+    expect(assignments.rows.length).toBe(1);
+    expect(assignments.rows[0].slice(5, 7)).toEqual(['64', '4']);
+    expect(tables.get('ACTVTYPE')!.rows.map(row => row[3])).toEqual(['Trade', 'Tags']);
+    expect(tables.get('ACTVCODE')!.rows.map(row => row[3])).toEqual(['Concrete', 'Level 1, Critical']);
+    expect(tables.get('UDFTYPE')!.rows.map(row => [row[3], row[4]])).toEqual([
+      ['Notes', 'FT_TEXT'], ['Priority', 'FT_TEXT'], ['Area', 'FT_TEXT'], ['Cost', 'FT_FLOAT_2_DECIMALS']
+    ]);
+    expect(tables.get('UDFVALUE')!.rows[0][5]).toBe('Pump truck booked');
+
+    const result = new XerImporter().importTables(tables);
+    const imported = result.tasks.find(task => task.name === 'Pour slab')!;
+    expect(imported.crewSize).toBe(4);
+    expect(imported.tradeId).toBe('concrete');
+    expect(imported.tags).toEqual(['Level 1', 'Critical']);
+    expect(imported.priority).toBe('high');
+    expect(imported.notes).toBe('Pump truck booked');
+    expect(imported.customFields).toEqual({ Area: 'North', Cost: 1200 });
+  });
+
+  test('reads crew sizes, codes and UDFs from another scheduler', () => {
+    const table = (columns: string[], rows: string[][]) => ({ columns, rows });
+    const tables = new Map([
+      ['PROJWBS', table(['wbs_id', 'wbs_name'], [['10', 'Electrical rough-in']])],
+      ['TASK', table(['task_id', 'wbs_id', 'task_name', 'task_type', 'target_start_date', 'target_drtn_hr_cnt'], [
+        ['1', '10', 'Pull wire', 'TT_Task', '2025-01-06 08:00', '40']
+      ])],
+      ['RSRC', table(['rsrc_id', 'rsrc_name', 'rsrc_type'], [['7', 'Electrician', 'RT_Labor'], ['8', 'Lift', 'RT_Equip']])],
+      ['TASKRSRC', table(['task_id', 'rsrc_id', 'target_qty'], [['1', '7', '120'], ['1', '8', '40']])],
+      ['ACTVTYPE', table(['actv_code_type_id', 'actv_code_type'], [['3', 'Area']])],
+      ['ACTVCODE', table(['actv_code_id', 'actv_code_type_id', 'actv_code_name'], [['30', '3', 'Level 2']])],
+      ['TASKACTV', table(['task_id', 'actv_code_type_id', 'actv_code_id'], [['1', '3', '30']])],
+      ['UDFTYPE', table(['udf_type_id', 'table_name', 'udf_type_label', 'logical_data_type'], [['5', 'TASK', 'Subcontract', 'FT_TEXT']])],
+      ['UDFVALUE', table(['udf_type_id', 'fk_id', 'udf_text'], [['5', '1', 'SC-104']])]
+    ]);
+
+    const [task] = new XerImporter().importTables(tables).tasks;
+
+    // 120 labor hours over a 40 hour activity; equipment is not crew
+    expect(task.crewSize).toBe(3);
+    expect(task.tradeId).toBe('electrical');
+    expect(task.tags).toEqual(['Area: Level 2']);
+    expect(task.customFields).toEqual({ Subcontract: 'SC-104' });
+  });
+});
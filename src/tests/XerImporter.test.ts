@@ -0,0 +1,88 @@
+/**
+ * Unit tests for reading multi-project XER files
+ */
+
+import { XerImporter, XerTable } from '../XerImporter';
+import { describe, expect, test } from '@jest/globals';
+
+function table(columns: string[], rows: string[][]): XerTable {
+  return { columns, rows };
+}
+
+// Two projects as P6 writes them: the names are on the PROJWBS project nodes
+function createTables(): Map<string, XerTable> {
+  return new Map([
+    ['PROJECT', table(['proj_id', 'proj_short_name', 'last_recalc_date'], [
+      ['1', 'BLD-A', '2025-01-06 08:00'],
+      ['2', 'BLD-B', '2025-02-03 08:00']
+    ])],
+    ['PROJWBS', table(['wbs_id', 'proj_id', 'parent_wbs_id', 'wbs_name', 'proj_node_flag'], [
+      ['100', '1', '', 'Building A', 'Y'],
+      ['101', '1', '100', 'Foundations', 'N'],
+      ['200', '2', '', 'Building B', 'Y'],
+      ['201', '2', '200', 'Foundations', 'N']
+    ])],
+    ['TASK', table(['task_id', 'proj_id', 'wbs_id', 'task_name', 'task_type', 'target_start_date', 'target_drtn_hr_cnt'], [
+      ['11', '1', '101', 'Pour A', 'TT_Task', '2025-01-06 08:00', '16'],
+      ['12', '1', '100', 'A complete', 'TT_FinMile', '2025-01-07 17:00', '0'],
+      ['21', '2', '201', 'Pour B', 'TT_Task', '2025-02-03 08:00', '16']
+    ])],
+    ['TASKPRED', table(['task_id', 'pred_task_id', 'pred_type'], [['12', '11', 'PR_FS']])]
+  ]);
+}
+
+describe('XerImporter', () => {
+  test('lists every project in the file', () => {
+    const importer = new XerImporter();
+    importer.importTables(createTables());
+
+    expect(importer.getProjects()).toEqual([
+      { id: '1', shortName: 'BLD-A', name: 'Building A', taskCount: 2, dataDate: new Date(2025, 0, 6) },
+      { id: '2', shortName: 'BLD-B', name: 'Building B', taskCount: 1, dataDate: new Date(2025, 1, 3) }
+    ]);
+  });
+
+  test('reads windows-1252 files that are not valid UTF-8, reporting progress', async () => {
+    const lines = [
+      'ERMHDR\t19.12\t2025-01-06\t\tadmin',
+      '%T\tPROJECT', '%F\tproj_id\tproj_short_name', '%R\t1\tCAFE',
+      '%T\tTASK', '%F\ttask_id\tproj_id\ttask_name\ttarget_start_date\ttarget_drtn_hr_cnt',
+      '%R\t11\t1\tCaf\u00e9 fit-out\t2025-01-06 08:00\t8',
+      '%E'
+    ];
+    // Every character below 0x100 is the same byte in windows-1252
+    const bytes = Uint8Array.from(lines.join('\r\n'), char => char.charCodeAt(0));
+    const progress: number[] = [];
+
+    const importer = new XerImporter();
+    const projects = await importer.readXerFile(new Blob([bytes]), (loaded, total) => progress.push(loaded / total));
+
+    expect(projects.map(project => project.shortName)).toEqual(['CAFE']);
+    expect(importer.importProjects(['1']).tasks[0].name).toBe('Caf\u00e9 fit-out');
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  test('imports one project on its own, or several with a swimlane per project', () => {
+    const importer = new XerImporter();
+    importer.importTables(createTables());
+
+    const single = importer.importProjects(['2']);
+    expect(single.tasks.map(task => task.name)).toEqual(['Pour B']);
+    expect(single.swimlanes).toEqual([{ id: 'swimlane-1', name: 'Foundations' }]);
+    expect(single.dataDate).toEqual(new Date(2025, 1, 3));
+
+    const combined = importer.importProjects(['1', '2']);
+    expect(combined.swimlanes).toEqual([
+      { id: 'swimlane-1', name: 'Building A' },
+      { id: 'swimlane-2', name: 'Foundations', parentId: 'swimlane-1' },
+      { id: 'swimlane-3', name: 'Building B' },
+      { id: 'swimlane-4', name: 'Foundations', parentId: 'swimlane-3' }
+    ]);
+    expect(combined.tasks.map(task => [task.name, task.swimlaneId])).toEqual([
+      ['Pour A', 'swimlane-2'],
+      ['A complete', 'swimlane-1'],
+      ['Pour B', 'swimlane-4']
+    ]);
+    expect(combined.tasks[1].dependencies).toEqual([combined.tasks[0].id]);
+  });
+});
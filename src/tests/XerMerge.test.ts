@@ -0,0 +1,71 @@
+/**
+ * Unit tests for comparing an updated XER file against the project
+ */
+
+import { XerMerge } from '../XerMerge';
+import { XerImportResult } from '../XerImporter';
+import { Task, TaskConfig } from '../Task';
+import { describe, expect, test } from '@jest/globals';
+
+// Monday, January 6 2025
+const MONDAY = new Date(2025, 0, 6);
+
+function day(offset: number): Date {
+  const date = new Date(MONDAY);
+  date.setDate(date.getDate() + offset);
+  return date;
+}
+
+function config(id: string, xerTaskId: string, overrides: Partial<TaskConfig> = {}): TaskConfig {
+  return {
+    id,
+    xerTaskId,
+    name: `Activity ${xerTaskId}`,
+    startDate: new Date(MONDAY),
+    duration: 5,
+    ...overrides
+  };
+}
+
+function result(tasks: TaskConfig[]): XerImportResult {
+  return { tasks, swimlanes: [], calendars: [], projectCalendarId: null, dataDate: null };
+}
+
+describe('XerMerge', () => {
+  test('matches activities by task_id and reports added, changed and removed', () => {
+    const tasks = [
+      new Task(config('a', '100')),
+      new Task(config('b', '101', { dependencies: ['a'] })),
+      new Task(config('c', '102')),
+      new Task({ id: 'own', name: 'Our own task', startDate: new Date(MONDAY), duration: 2 })
+    ];
+    const incoming = result([
+      config('x1', '100'),
+      config('x2', '101', { startDate: day(7), duration: 8, dependencies: ['x1'], dependencyLinks: { x1: { type: 'SS', lag: 2 } } }),
+      config('x3', '103')
+    ]);
+
+    const items = XerMerge.diff(tasks, incoming);
+
+    expect(items.map(item => `${item.kind} ${item.xerTaskId}`)).toEqual(['added 103', 'changed 101', 'removed 102']);
+    const changed = items[1];
+    expect(changed.task).toBe(tasks[1]);
+    expect(changed.startShift).toBe(5);
+    expect(changed.changes).toEqual([
+      'Start: Jan 6, 2025 → Jan 13, 2025 (+5d)',
+      'Duration: 5d → 8d',
+      'Predecessors: 100 FS → 100 SS+2'
+    ]);
+  });
+
+  test('ignores links to tasks that were added in DingPlan', () => {
+    const tasks = [
+      new Task(config('a', '100')),
+      new Task({ id: 'own', name: 'Our own task', startDate: new Date(MONDAY), duration: 2 }),
+      new Task(config('b', '101', { dependencies: ['a', 'own'] }))
+    ];
+    const incoming = result([config('x1', '100'), config('x2', '101', { dependencies: ['x1'] })]);
+
+    expect(XerMerge.diff(tasks, incoming)).toEqual([]);
+  });
+});
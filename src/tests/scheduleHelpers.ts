@@ -0,0 +1,24 @@
+/**
+ * Shared setup for tests that schedule chains of tasks
+ */
+
+import { Task } from '../Task';
+
+// Monday, January 6 2025
+export const MONDAY = new Date(2025, 0, 6);
+
+export function day(offset: number): Date {
+  const date = new Date(MONDAY);
+  date.setDate(date.getDate() + offset);
+  return date;
+}
+
+export function createTask(id: string, duration: number, dependencies: string[] = [], startDate: Date = MONDAY): Task {
+  return new Task({
+    id,
+    name: id.toUpperCase(),
+    startDate: new Date(startDate),
+    duration,
+    dependencies
+  });
+}
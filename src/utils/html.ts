@@ -0,0 +1,18 @@
+/**
+ * Helpers for building HTML from strings
+ */
+
+/**
+ * Escape text for use in HTML content and quoted attribute values
+ *
+ * @param text The text to escape
+ * @returns The text with &, <, >, " and ' replaced by entities
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,228 @@
+-- Published share links: a revision of a project opened with /?s=<token>
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Counts saves of a project's schedule, so a save based on an older copy can be refused
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_project_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Set here, never by clients
+  NEW.revision = OLD.revision + CASE WHEN NEW.data IS DISTINCT FROM OLD.data THEN 1 ELSE 0 END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER projects_revision
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_project_revision();
+
+CREATE TABLE IF NOT EXISTS project_shares (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT UNIQUE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  role TEXT NOT NULL DEFAULT 'view' CHECK (role IN ('view', 'comment', 'edit')),
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_shares_project_id ON project_shares (project_id);
+
+-- Comments left through shares with the comment or edit role
+CREATE TABLE IF NOT EXISTS project_share_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_id UUID REFERENCES project_shares(id) ON DELETE CASCADE NOT NULL,
+  author TEXT NOT NULL DEFAULT 'Anonymous',
+  body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_share_comments_share_id ON project_share_comments (share_id);
+
+-- RLS: owners manage their shares; recipients have no table access and go
+-- through the token functions below
+ALTER TABLE project_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_share_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shares" ON project_shares FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update own shares" ON project_shares FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Password hashes never leave the database; owners see has_password instead
+REVOKE SELECT ON project_shares FROM PUBLIC, anon, authenticated;
+GRANT SELECT (id, token, project_id, user_id, name, data, role, has_password, expires_at, created_at, updated_at) ON project_shares TO authenticated;
+
+-- Owners may change a share's access, never which project or account it points at.
+-- Passwords change through set_project_share_password, which hashes them.
+REVOKE UPDATE ON project_shares FROM PUBLIC, anon, authenticated;
+GRANT UPDATE (role, expires_at) ON project_shares TO authenticated;
+CREATE POLICY "Users can delete own shares" ON project_shares FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view comments on own shares" ON project_share_comments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM project_shares WHERE project_shares.id = share_id AND project_shares.user_id = auth.uid())
+);
+CREATE POLICY "Users can delete comments on own shares" ON project_share_comments FOR DELETE USING (
+  EXISTS (SELECT 1 FROM project_shares WHERE project_shares.id = share_id AND project_shares.user_id = auth.uid())
+);
+
+CREATE TRIGGER project_shares_updated_at
+  BEFORE UPDATE ON project_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Publish the saved revision of one of the caller's projects; returns the token
+CREATE OR REPLACE FUNCTION create_project_share(
+  share_project_id UUID,
+  share_role TEXT DEFAULT 'view',
+  share_expires_at TIMESTAMPTZ DEFAULT NULL,
+  share_password TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  source projects%ROWTYPE;
+  new_token TEXT;
+BEGIN
+  SELECT * INTO source FROM projects WHERE id = share_project_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found in your account' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 8 random bytes as URL-safe base64: 11 characters
+  LOOP
+    new_token := rtrim(translate(encode(gen_random_bytes(8), 'base64'), '+/', '-_'), '=');
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM project_shares WHERE token = new_token);
+  END LOOP;
+
+  INSERT INTO project_shares (token, project_id, user_id, name, data, role, password_hash, expires_at)
+  VALUES (
+    new_token, source.id, source.user_id, source.name, source.data, share_role,
+    CASE WHEN coalesce(share_password, '') = '' THEN NULL ELSE crypt(share_password, gen_salt('bf')) END,
+    share_expires_at
+  );
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Set the password of one of the caller's shares; an empty password removes it
+CREATE OR REPLACE FUNCTION set_project_share_password(share_id UUID, share_password TEXT)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE project_shares
+  SET password_hash = CASE WHEN coalesce(share_password, '') = '' THEN NULL ELSE crypt(share_password, gen_salt('bf')) END
+  WHERE id = share_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share link not found in your account' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Look up a share by token, checking expiry and password; for the functions below only
+CREATE OR REPLACE FUNCTION open_project_share(share_token TEXT, share_password TEXT)
+RETURNS project_shares AS $$
+DECLARE
+  share project_shares%ROWTYPE;
+BEGIN
+  SELECT * INTO share FROM project_shares WHERE token = share_token;
+  IF NOT FOUND OR (share.expires_at IS NOT NULL AND share.expires_at < now()) THEN
+    RAISE EXCEPTION 'This share link does not exist or has expired' USING ERRCODE = 'P0002';
+  END IF;
+  IF share.password_hash IS NOT NULL AND (share_password IS NULL OR crypt(share_password, share.password_hash) <> share.password_hash) THEN
+    RAISE EXCEPTION 'This share link needs the right password' USING ERRCODE = '28P01';
+  END IF;
+  RETURN share;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION open_project_share(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The shared revision, for anyone with the token. Edit shares open the
+-- project as last saved, with the revision save_project_share expects back.
+CREATE OR REPLACE FUNCTION get_project_share(share_token TEXT, share_password TEXT DEFAULT NULL)
+RETURNS TABLE (name TEXT, data JSONB, role TEXT, expires_at TIMESTAMPTZ, revision INTEGER) AS $$
+DECLARE
+  share project_shares%ROWTYPE;
+  project projects%ROWTYPE;
+BEGIN
+  share := open_project_share(share_token, share_password);
+  SELECT * INTO project FROM projects WHERE id = share.project_id;
+  RETURN QUERY SELECT
+    share.name,
+    CASE WHEN share.role = 'edit' THEN project.data ELSE share.data END,
+    share.role,
+    share.expires_at,
+    project.revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Leave a comment; needs the comment or edit role
+CREATE OR REPLACE FUNCTION add_project_share_comment(
+  share_token TEXT,
+  share_password TEXT,
+  comment_author TEXT,
+  comment_body TEXT
+) RETURNS UUID AS $$
+DECLARE
+  share project_shares%ROWTYPE;
+  comment_id UUID;
+BEGIN
+  share := open_project_share(share_token, share_password);
+  IF share.role NOT IN ('comment', 'edit') THEN
+    RAISE EXCEPTION 'This share link does not allow comments' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO project_share_comments (share_id, author, body)
+  VALUES (share.id, coalesce(nullif(trim(comment_author), ''), 'Anonymous'), comment_body)
+  RETURNING id INTO comment_id;
+  RETURN comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Save changes to the shared revision and the owner's project; needs the edit
+-- role. share_revision is the project revision the changes are based on; a
+-- save based on an older one is refused so it never undoes newer work.
+-- Returns the project's new revision.
+CREATE OR REPLACE FUNCTION save_project_share(share_token TEXT, share_password TEXT, share_data JSONB, share_revision INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  share project_shares%ROWTYPE;
+  project projects%ROWTYPE;
+  changes JSONB;
+  new_revision INTEGER;
+BEGIN
+  share := open_project_share(share_token, share_password);
+  IF share.role <> 'edit' THEN
+    RAISE EXCEPTION 'This share link does not allow edits' USING ERRCODE = '42501';
+  END IF;
+
+  -- Locked so the revision cannot change between the check and the write
+  SELECT * INTO project FROM projects WHERE id = share.project_id AND user_id = share.user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This share link does not exist or has expired' USING ERRCODE = 'P0002';
+  END IF;
+  IF share_revision IS DISTINCT FROM project.revision THEN
+    RAISE EXCEPTION 'The schedule was changed by someone else since it was opened' USING ERRCODE = '40001';
+  END IF;
+
+  -- Recipients cannot rename or re-target the project
+  changes := share_data || jsonb_build_object('id', share.project_id, 'name', share.name);
+  -- Settings are merged so keys the recipient does not send (the owner's start date) survive
+  changes := changes || jsonb_build_object('settings', coalesce(project.data->'settings', '{}') || coalesce(changes->'settings', '{}'));
+
+  UPDATE projects SET data = changes WHERE id = project.id RETURNING projects.revision INTO new_revision;
+  UPDATE project_shares SET data = changes WHERE id = share.id;
+  RETURN new_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION get_project_share(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_project_share_comment(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_project_share(TEXT, TEXT, JSONB, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_project_share(UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_project_share(UUID, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_project_share_password(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_project_share_password(UUID, TEXT) FROM PUBLIC, anon;